@@ -0,0 +1,43 @@
+import { startServer, TestServer } from '../testing/server';
+
+describe('GET /api/models', () => {
+  let server: TestServer;
+  const env = { ...process.env };
+
+  beforeAll(async () => {
+    server = await startServer();
+  });
+
+  afterAll(() => server.close());
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('lists the fake model as the default when no provider is configured', async () => {
+    const res = await fetch(`${server.url}/api/models`);
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      models: [{ id: 'fake:echo', provider: 'fake', label: 'Fake (offline) · echo' }],
+      defaultModel: 'fake:echo',
+    });
+  });
+
+  it('reflects the configured providers and DEFAULT_MODEL', async () => {
+    process.env.ANTHROPIC_API_KEY = 'sk-ant-test';
+    process.env.ANTHROPIC_MODELS = 'claude-3-5-haiku-latest';
+    process.env.DEFAULT_MODEL = 'anthropic:claude-3-5-haiku-latest';
+
+    const { models, defaultModel } = await (await fetch(`${server.url}/api/models`)).json();
+
+    expect(models.map((option: { id: string }) => option.id)).toEqual(['anthropic:claude-3-5-haiku-latest', 'fake:echo']);
+    expect(defaultModel).toBe('anthropic:claude-3-5-haiku-latest');
+  });
+
+  it('returns a null default when no model is available', async () => {
+    process.env.NODE_ENV = 'production';
+
+    expect(await (await fetch(`${server.url}/api/models`)).json()).toEqual({ models: [], defaultModel: null });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,8 @@
+import { Router } from 'express';
+import { getDefaultModelId, listModels } from '../lib/ai';
+
+export const modelsRouter: Router = Router();
+
+modelsRouter.get('/models', (req, res) => {
+  res.json({ models: listModels(), defaultModel: getDefaultModelId() ?? null });
+});
\ No newline at end of file
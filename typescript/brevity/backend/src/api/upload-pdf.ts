@@ -1,53 +0,0 @@
-import { Router } from 'express';
-import multer from 'multer';
-import pdfParse from 'pdf-parse';
-
-export const uploadRouter = Router();
-
-const storage = multer.memoryStorage();
-const upload = multer({
-  storage,
-  limits: {
-    fileSize: 10 * 1024 * 1024, // 10MB limit
-  },
-  fileFilter: (req, file, cb) => {
-    if (file.mimetype === 'application/pdf') {
-      cb(null, true);
-    } else {
-      cb(new Error('Only PDF files are allowed'), false);
-    }
-  },
-});
-
-uploadRouter.post('/upload-pdf', upload.single('pdf'), async (req, res) => {
-  try {
-    if (!req.file) {
-      return res.status(400).json({ error: 'No PDF file uploaded' });
-    }
-
-    const data = await pdfParse(req.file.buffer);
-    const text = data.text.trim();
-
-    if (!text) {
-      return res.status(400).json({ error: 'No text could be extracted from the PDF' });
-    }
-
-    res.json({ text });
-  } catch (error) {
-    console.error('Error processing PDF:', error);
-    res.status(500).json({ error: 'Failed to process PDF file' });
-  }
-});
-
-uploadRouter.use((error: any, req: any, res: any, next: any) => {
-  if (error instanceof multer.MulterError) {
-    if (error.code === 'LIMIT_FILE_SIZE') {
-      return res.status(413).json({ error: 'File too large. Maximum size is 10MB.' });
-    }
-    return res.status(400).json({ error: error.message });
-  }
-  if (error.message === 'Only PDF files are allowed') {
-    return res.status(400).json({ error: 'Only PDF files are allowed' });
-  }
-  next(error);
-});
\ No newline at end of file
@@ -0,0 +1,28 @@
+import express, { Express } from 'express';
+import cors from 'cors';
+import { summarizeRouter } from './summarization/api/summarize';
+import { rewriteRouter } from './rewriting/api/rewrite';
+import { uploadRouter } from './ingestion/api/upload';
+import { modelsRouter } from './api/models';
+import { historyRouter } from './history/api/history';
+
+// The Express app without a listening socket, so tests can serve it on any port.
+export function createApp(): Express {
+  const app = express();
+
+  app.use(cors());
+  app.use(express.json({ limit: '10mb' }));
+  app.use(express.urlencoded({ extended: true }));
+
+  app.use('/api', summarizeRouter);
+  app.use('/api', rewriteRouter);
+  app.use('/api', uploadRouter);
+  app.use('/api', modelsRouter);
+  app.use('/api', historyRouter);
+
+  app.get('/api/health', (req, res) => {
+    res.json({ status: 'ok', message: 'Brevity API is running' });
+  });
+
+  return app;
+}
\ No newline at end of file
@@ -0,0 +1,83 @@
+import { getHistoryStore } from '../store';
+import { startServer, TestServer } from '../../testing/server';
+
+describe('/api/history', () => {
+  let server: TestServer;
+  let summaryId: number;
+  let rewriteId: number;
+
+  const request = (path: string, init: RequestInit = {}) =>
+    fetch(`${server.url}/api/history${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  beforeAll(async () => {
+    server = await startServer();
+    const store = getHistoryStore();
+    summaryId = store.create({ kind: 'summarize', input: 'Long article', params: { length: 'short' } });
+    store.finish(summaryId, 'Short summary');
+    rewriteId = store.create({ kind: 'rewrite', input: 'hey there', params: { tone: 'professional' } });
+  });
+
+  afterAll(() => server.close());
+
+  it('lists items, newest first', async () => {
+    const res = await request('');
+
+    expect(res.status).toBe(200);
+    const { items } = await res.json();
+    expect(items.map((item: { id: number }) => item.id)).toEqual([rewriteId, summaryId]);
+    expect(items[1]).toMatchObject({ kind: 'summarize', preview: 'Long article', status: 'complete' });
+  });
+
+  it('filters by kind and saved', async () => {
+    const rewrites = await (await request('?kind=rewrite')).json();
+    expect(rewrites.items.map((item: { id: number }) => item.id)).toEqual([rewriteId]);
+
+    const saved = await (await request('?saved=true')).json();
+    expect(saved.items).toEqual([]);
+  });
+
+  it('rejects an unknown kind', async () => {
+    const res = await request('?kind=translate');
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error: 'kind must be one of: summarize, rewrite' });
+  });
+
+  it('returns one item with its input and output', async () => {
+    const res = await request(`/${summaryId}`);
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ id: summaryId, input: 'Long article', output: 'Short summary' });
+    expect((await request('/9999')).status).toBe(404);
+  });
+
+  it('renames and saves items', async () => {
+    const res = await request(`/${summaryId}`, { method: 'PATCH', body: JSON.stringify({ title: '  Notes  ', saved: true }) });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ title: 'Notes', saved: true });
+
+    // A blank title clears it.
+    const cleared = await request(`/${summaryId}`, { method: 'PATCH', body: JSON.stringify({ title: ' ' }) });
+    expect(await cleared.json()).toMatchObject({ title: null, saved: true });
+  });
+
+  it('validates updates', async () => {
+    const badTitle = await request(`/${summaryId}`, { method: 'PATCH', body: JSON.stringify({ title: 42 }) });
+    const badSaved = await request(`/${summaryId}`, { method: 'PATCH', body: JSON.stringify({ saved: 'yes' }) });
+    const missing = await request('/9999', { method: 'PATCH', body: JSON.stringify({ saved: true }) });
+
+    expect([badTitle.status, badSaved.status, missing.status]).toEqual([400, 400, 404]);
+  });
+
+  it('deletes items', async () => {
+    const res = await request(`/${rewriteId}`, { method: 'DELETE' });
+
+    expect(res.status).toBe(204);
+    expect((await request(`/${rewriteId}`)).status).toBe(404);
+    expect((await request(`/${rewriteId}`, { method: 'DELETE' })).status).toBe(404);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,72 @@
+import { Router } from 'express';
+import { getHistoryStore } from '../store';
+import { HistoryKind, HistoryUpdate } from '../types';
+
+export const historyRouter: Router = Router();
+
+const KINDS: HistoryKind[] = ['summarize', 'rewrite'];
+
+historyRouter.get('/history', (req, res) => {
+  try {
+    const kind = req.query.kind as HistoryKind | undefined;
+    if (kind && !KINDS.includes(kind)) {
+      return res.status(400).json({ error: `kind must be one of: ${KINDS.join(', ')}` });
+    }
+    const saved = req.query.saved === undefined ? undefined : req.query.saved === 'true';
+    const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200);
+    const offset = Math.max(Number(req.query.offset) || 0, 0);
+
+    res.json({ items: getHistoryStore().list({ kind, saved, limit, offset }) });
+  } catch (error) {
+    console.error('Error listing history:', error);
+    res.status(500).json({ error: 'Failed to load history' });
+  }
+});
+
+historyRouter.get('/history/:id', (req, res) => {
+  try {
+    const item = getHistoryStore().get(Number(req.params.id));
+    if (!item) {
+      return res.status(404).json({ error: 'History item not found' });
+    }
+    res.json(item);
+  } catch (error) {
+    console.error('Error loading history item:', error);
+    res.status(500).json({ error: 'Failed to load history item' });
+  }
+});
+
+historyRouter.patch('/history/:id', (req, res) => {
+  try {
+    const { title, saved }: HistoryUpdate = req.body;
+    if (title !== undefined && title !== null && typeof title !== 'string') {
+      return res.status(400).json({ error: 'title must be a string or null' });
+    }
+    if (saved !== undefined && typeof saved !== 'boolean') {
+      return res.status(400).json({ error: 'saved must be a boolean' });
+    }
+
+    // A blank title clears it.
+    const cleanTitle = title === undefined ? undefined : title?.trim() || null;
+    const item = getHistoryStore().update(Number(req.params.id), { title: cleanTitle, saved });
+    if (!item) {
+      return res.status(404).json({ error: 'History item not found' });
+    }
+    res.json(item);
+  } catch (error) {
+    console.error('Error updating history item:', error);
+    res.status(500).json({ error: 'Failed to update history item' });
+  }
+});
+
+historyRouter.delete('/history/:id', (req, res) => {
+  try {
+    if (!getHistoryStore().remove(Number(req.params.id))) {
+      return res.status(404).json({ error: 'History item not found' });
+    }
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error deleting history item:', error);
+    res.status(500).json({ error: 'Failed to delete history item' });
+  }
+});
\ No newline at end of file
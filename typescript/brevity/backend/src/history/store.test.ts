@@ -0,0 +1,99 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createHistoryStore, HistoryStore } from './store';
+
+describe('createHistoryStore', () => {
+  let store: HistoryStore;
+
+  beforeEach(() => {
+    store = createHistoryStore(':memory:');
+  });
+
+  afterEach(() => store.close());
+
+  it('creates pending items and finishes them', () => {
+    const id = store.create({ kind: 'summarize', input: 'Some text', params: { length: 'short' }, model: 'fake:echo' });
+
+    expect(store.get(id)).toMatchObject({
+      id,
+      kind: 'summarize',
+      input: 'Some text',
+      params: { length: 'short' },
+      model: 'fake:echo',
+      output: '',
+      status: 'pending',
+      title: null,
+      saved: false,
+    });
+
+    store.finish(id, 'A summary');
+    expect(store.get(id)).toMatchObject({ output: 'A summary', status: 'complete' });
+
+    store.finish(id, 'Half a summ', 'failed');
+    expect(store.get(id)).toMatchObject({ output: 'Half a summ', status: 'failed' });
+  });
+
+  it('stores a missing model as null', () => {
+    const id = store.create({ kind: 'rewrite', input: 'Hi', params: {} });
+
+    expect(store.get(id)?.model).toBeNull();
+  });
+
+  it('lists newest first with a preview instead of the texts', () => {
+    const first = store.create({ kind: 'summarize', input: 'x'.repeat(200), params: {} });
+    const second = store.create({ kind: 'rewrite', input: 'Short input', params: { tone: 'casual' } });
+
+    const items = store.list();
+    expect(items.map((item) => item.id)).toEqual([second, first]);
+    expect(items[0]).toMatchObject({ preview: 'Short input', params: { tone: 'casual' } });
+    expect(items[0]).not.toHaveProperty('input');
+    expect(items[0]).not.toHaveProperty('output');
+    expect(items[1].preview).toBe(`${'x'.repeat(160)}…`);
+  });
+
+  it('filters and pages the list', () => {
+    const ids = ['summarize', 'rewrite', 'summarize', 'summarize'].map((kind) =>
+      store.create({ kind: kind as 'summarize' | 'rewrite', input: kind, params: {} }),
+    );
+    store.update(ids[0], { saved: true });
+
+    expect(store.list({ kind: 'rewrite' }).map((item) => item.id)).toEqual([ids[1]]);
+    expect(store.list({ saved: true }).map((item) => item.id)).toEqual([ids[0]]);
+    expect(store.list({ saved: false })).toHaveLength(3);
+    expect(store.list({ kind: 'summarize', limit: 2, offset: 1 }).map((item) => item.id)).toEqual([ids[2], ids[0]]);
+  });
+
+  it('updates only the given fields', () => {
+    const id = store.create({ kind: 'summarize', input: 'Text', params: {} });
+
+    expect(store.update(id, { title: 'Notes' })).toMatchObject({ title: 'Notes', saved: false });
+    expect(store.update(id, { saved: true })).toMatchObject({ title: 'Notes', saved: true });
+    expect(store.update(id, { title: null })).toMatchObject({ title: null, saved: true });
+    expect(store.update(id + 1, { saved: true })).toBeUndefined();
+  });
+
+  it('deletes items', () => {
+    const id = store.create({ kind: 'summarize', input: 'Text', params: {} });
+
+    expect(store.remove(id)).toBe(true);
+    expect(store.get(id)).toBeUndefined();
+    expect(store.remove(id)).toBe(false);
+  });
+
+  it('creates the database directory and keeps items across reopening', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'brevity-history-'));
+    const filename = path.join(dir, 'nested', 'history.db');
+    try {
+      const onDisk = createHistoryStore(filename);
+      const id = onDisk.create({ kind: 'rewrite', input: 'Keep me', params: {} });
+      onDisk.close();
+
+      const reopened = createHistoryStore(filename);
+      expect(reopened.get(id)?.input).toBe('Keep me');
+      reopened.close();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
\ No newline at end of file
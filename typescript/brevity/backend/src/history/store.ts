@@ -0,0 +1,154 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { HistoryItem, HistoryKind, HistoryParams, HistoryStatus, HistorySummary, HistoryUpdate } from './types';
+
+const PREVIEW_LENGTH = 160;
+
+interface HistoryRow {
+  id: number;
+  kind: HistoryKind;
+  input: string;
+  params: string;
+  model: string | null;
+  output: string;
+  status: HistoryStatus;
+  title: string | null;
+  saved: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface NewHistoryItem {
+  kind: HistoryKind;
+  input: string;
+  params: HistoryParams;
+  model?: string;
+}
+
+export interface HistoryQuery {
+  kind?: HistoryKind;
+  saved?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+const toItem = (row: HistoryRow): HistoryItem => ({
+  id: row.id,
+  kind: row.kind,
+  input: row.input,
+  params: JSON.parse(row.params),
+  model: row.model,
+  output: row.output,
+  status: row.status,
+  title: row.title,
+  saved: row.saved === 1,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const toSummary = ({ input, output, ...item }: HistoryItem): HistorySummary => ({
+  ...item,
+  preview: input.length > PREVIEW_LENGTH ? `${input.slice(0, PREVIEW_LENGTH).trimEnd()}…` : input,
+});
+
+export type HistoryStore = ReturnType<typeof createHistoryStore>;
+
+/**
+ * Opens (creating if needed) the SQLite database at `filename` that keeps
+ * every summary and rewrite: its input, parameters, model and output.
+ * Pass ':memory:' for a throwaway store.
+ */
+export function createHistoryStore(filename: string) {
+  if (filename !== ':memory:') {
+    fs.mkdirSync(path.dirname(filename), { recursive: true });
+  }
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS history (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      kind TEXT NOT NULL,
+      input TEXT NOT NULL,
+      params TEXT NOT NULL DEFAULT '{}',
+      model TEXT,
+      output TEXT NOT NULL DEFAULT '',
+      status TEXT NOT NULL DEFAULT 'pending',
+      title TEXT,
+      saved INTEGER NOT NULL DEFAULT 0,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS history_created_at ON history (created_at DESC);
+  `);
+
+  const now = () => new Date().toISOString();
+  const get = (id: number): HistoryItem | undefined => {
+    const row = db.prepare('SELECT * FROM history WHERE id = ?').get(id) as HistoryRow | undefined;
+    return row && toItem(row);
+  };
+
+  return {
+    create({ kind, input, params, model }: NewHistoryItem): number {
+      const at = now();
+      const result = db
+        .prepare('INSERT INTO history (kind, input, params, model, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)')
+        .run(kind, input, JSON.stringify(params), model ?? null, at, at);
+      return Number(result.lastInsertRowid);
+    },
+
+    // Records the final output, or what was produced before a failure.
+    finish(id: number, output: string, status: Exclude<HistoryStatus, 'pending'> = 'complete') {
+      db.prepare('UPDATE history SET output = ?, status = ?, updated_at = ? WHERE id = ?').run(output, status, now(), id);
+    },
+
+    get,
+
+    list({ kind, saved, limit = 50, offset = 0 }: HistoryQuery = {}): HistorySummary[] {
+      const where: string[] = [];
+      const args: (string | number)[] = [];
+      if (kind) {
+        where.push('kind = ?');
+        args.push(kind);
+      }
+      if (saved !== undefined) {
+        where.push('saved = ?');
+        args.push(saved ? 1 : 0);
+      }
+      const rows = db
+        .prepare(
+          `SELECT * FROM history ${where.length ? `WHERE ${where.join(' AND ')}` : ''} ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?`,
+        )
+        .all(...args, limit, offset) as HistoryRow[];
+      return rows.map((row) => toSummary(toItem(row)));
+    },
+
+    update(id: number, { title, saved }: HistoryUpdate): HistoryItem | undefined {
+      const item = get(id);
+      if (!item) return undefined;
+      db.prepare('UPDATE history SET title = ?, saved = ?, updated_at = ? WHERE id = ?').run(
+        title === undefined ? item.title : title,
+        (saved ?? item.saved) ? 1 : 0,
+        now(),
+        id,
+      );
+      return get(id);
+    },
+
+    remove(id: number): boolean {
+      return db.prepare('DELETE FROM history WHERE id = ?').run(id).changes > 0;
+    },
+
+    close() {
+      db.close();
+    },
+  };
+}
+
+let store: HistoryStore | undefined;
+
+// The app-wide store, opened on first use at HISTORY_DB_PATH.
+export function getHistoryStore(): HistoryStore {
+  store ??= createHistoryStore(process.env.HISTORY_DB_PATH || path.join(process.cwd(), 'data', 'brevity.db'));
+  return store;
+}
\ No newline at end of file
@@ -0,0 +1,31 @@
+export type HistoryKind = 'summarize' | 'rewrite';
+
+export type HistoryStatus = 'pending' | 'complete' | 'failed';
+
+// The options the request was made with, e.g. `{ length: 'short' }` for a
+// summary or `{ tone: 'casual' }` for a rewrite.
+export type HistoryParams = Record<string, string>;
+
+export interface HistoryItem {
+  id: number;
+  kind: HistoryKind;
+  input: string;
+  params: HistoryParams;
+  model: string | null;
+  output: string;
+  status: HistoryStatus;
+  title: string | null;
+  saved: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// List entries carry a preview of the input instead of the full texts.
+export interface HistorySummary extends Omit<HistoryItem, 'input' | 'output'> {
+  preview: string;
+}
+
+export interface HistoryUpdate {
+  title?: string | null;
+  saved?: boolean;
+}
\ No newline at end of file
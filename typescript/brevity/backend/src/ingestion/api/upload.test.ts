@@ -0,0 +1,80 @@
+import { buildDocx, padZip } from '../../testing/documents';
+import { startServer, TestServer } from '../../testing/server';
+
+describe('POST /api/upload', () => {
+  let server: TestServer;
+
+  const upload = (content: string | Buffer, filename: string, { field = 'file', path = '/api/upload', type = '' } = {}) => {
+    const form = new FormData();
+    form.append(field, new Blob([new Uint8Array(Buffer.from(content))], { type }), filename);
+    return fetch(`${server.url}${path}`, { method: 'POST', body: form });
+  };
+
+  beforeAll(async () => {
+    server = await startServer();
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  afterAll(() => server.close());
+
+  it('returns the extracted document', async () => {
+    const res = await upload('# Notes\n\n- one\n- two', 'notes.md');
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      format: 'markdown',
+      filename: 'notes.md',
+      title: 'Notes',
+      text: '# Notes\n\n- one\n- two',
+      sections: [{ heading: 'Notes', level: 1, text: '- one\n- two' }],
+      wordCount: 3,
+    });
+  });
+
+  it('still takes the `pdf` field on the old endpoint', async () => {
+    const docx = await buildDocx([{ text: 'Hello from Word.' }]);
+    const res = await upload(docx, 'letter.docx', { field: 'pdf', path: '/api/upload-pdf' });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ format: 'docx', text: 'Hello from Word.' });
+  });
+
+  it('rejects unsupported file types with a 400', async () => {
+    const res = await upload('a,b\n1,2', 'data.csv', { type: 'text/csv' });
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({
+      error: 'Unsupported file type: data.csv. Upload a PDF, DOCX, HTML, Markdown, text or EPUB file.',
+    });
+  });
+
+  it('rejects files that fail to parse with a 422', async () => {
+    const res = await upload('not really a pdf', 'paper.pdf', { type: 'application/pdf' });
+
+    expect(res.status).toBe(422);
+    expect(await res.json()).toEqual({ error: 'Could not read this PDF file. It may be corrupt or password-protected.' });
+  });
+
+  it('rejects a zip bomb with a 422', async () => {
+    const bomb = await padZip(await buildDocx([{ text: 'Hello from Word.' }]), 60 * 1024 * 1024);
+    const res = await upload(bomb, 'letter.docx');
+
+    expect(res.status).toBe(422);
+    expect(await res.json()).toEqual({ error: 'Could not read this DOCX file. It unzips to more than 50MB.' });
+  });
+
+  it('rejects requests without a file or without any text', async () => {
+    const missing = await fetch(`${server.url}/api/upload`, { method: 'POST', body: new FormData() });
+    const empty = await upload('   \n', 'blank.txt');
+
+    expect(missing.status).toBe(400);
+    expect(await missing.json()).toEqual({ error: 'No file uploaded' });
+    expect(empty.status).toBe(400);
+    expect(await empty.json()).toEqual({ error: 'No text could be extracted from the file' });
+  });
+});
\ No newline at end of file
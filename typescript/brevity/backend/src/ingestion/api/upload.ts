@@ -0,0 +1,63 @@
+import { Router, Request, Response } from 'express';
+import multer from 'multer';
+import { InvalidDocumentError, UnsupportedFormatError } from '../errors';
+import { detectFormat, extractDocument } from '../extract';
+
+export const uploadRouter: Router = Router();
+
+const storage = multer.memoryStorage();
+const upload = multer({
+  storage,
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    if (detectFormat(file.originalname, file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new UnsupportedFormatError(file.originalname));
+    }
+  },
+});
+
+const handleUpload = async (req: Request, res: Response) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+
+    const document = await extractDocument(req.file.buffer, req.file.originalname, req.file.mimetype);
+
+    if (!document.text.trim()) {
+      return res.status(400).json({ error: 'No text could be extracted from the file' });
+    }
+
+    res.json(document);
+  } catch (error) {
+    if (error instanceof UnsupportedFormatError) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error instanceof InvalidDocumentError) {
+      return res.status(422).json({ error: error.message });
+    }
+    console.error('Error processing upload:', error);
+    res.status(500).json({ error: 'Failed to process file' });
+  }
+};
+
+uploadRouter.post('/upload', upload.single('file'), handleUpload);
+// The original PDF-only endpoint and its `pdf` field; it now takes any format.
+uploadRouter.post('/upload-pdf', upload.single('pdf'), handleUpload);
+
+uploadRouter.use((error: any, req: any, res: any, next: any) => {
+  if (error instanceof multer.MulterError) {
+    if (error.code === 'LIMIT_FILE_SIZE') {
+      return res.status(413).json({ error: 'File too large. Maximum size is 10MB.' });
+    }
+    return res.status(400).json({ error: error.message });
+  }
+  if (error instanceof UnsupportedFormatError) {
+    return res.status(400).json({ error: error.message });
+  }
+  next(error);
+});
\ No newline at end of file
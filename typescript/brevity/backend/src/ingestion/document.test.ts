@@ -0,0 +1,104 @@
+import { buildDocument, renderBlocks, toSections } from './document';
+import { DocumentBlock } from './types';
+
+const heading = (level: number, text: string): DocumentBlock => ({ type: 'heading', level, text });
+const paragraph = (text: string): DocumentBlock => ({ type: 'paragraph', text });
+const item = (text: string, ordered = false, depth = 0): DocumentBlock => ({ type: 'list-item', text, ordered, depth });
+const page = (number: number): DocumentBlock => ({ type: 'page', number });
+
+describe('renderBlocks', () => {
+  it('separates blocks with blank lines and keeps list items together', () => {
+    expect(renderBlocks([page(1), heading(2, 'Goals'), paragraph('Ship it.'), item('one'), item('two'), paragraph('Done.')])).toBe(
+      '[Page 1]\n\n## Goals\n\nShip it.\n\n- one\n- two\n\nDone.',
+    );
+  });
+
+  it('numbers ordered items per nesting level', () => {
+    const blocks = [item('a', true), item('a.1', true, 1), item('a.2', true, 1), item('b', true), item('b.1', true, 1)];
+
+    expect(renderBlocks(blocks)).toBe('1. a\n  1. a.1\n  2. a.2\n2. b\n  1. b.1');
+  });
+
+  it('restarts numbering for a new list or a change of list kind', () => {
+    const blocks = [item('a', true), item('b', true), paragraph('Then:'), item('c', true), item('dot'), item('d', true)];
+
+    expect(renderBlocks(blocks)).toBe('1. a\n2. b\n\nThen:\n\n1. c\n- dot\n1. d');
+  });
+
+  it('renders nothing for no blocks', () => {
+    expect(renderBlocks([])).toBe('');
+  });
+});
+
+describe('toSections', () => {
+  it('splits at every heading and keeps content before the first one', () => {
+    expect(toSections([paragraph('Preface.'), heading(1, 'One'), paragraph('First.'), heading(2, 'One.a'), item('x')])).toEqual([
+      { heading: null, level: 0, text: 'Preface.' },
+      { heading: 'One', level: 1, page: undefined, text: 'First.' },
+      { heading: 'One.a', level: 2, page: undefined, text: '- x' },
+    ]);
+  });
+
+  it('drops empty leading content but keeps empty sections', () => {
+    // The page marker moves along to the first section with content.
+    expect(toSections([page(1), heading(1, 'Title'), heading(2, 'Empty'), heading(2, 'Full'), paragraph('Text.')])).toEqual([
+      { heading: 'Title', level: 1, page: 1, text: '' },
+      { heading: 'Empty', level: 2, page: 1, text: '' },
+      { heading: 'Full', level: 2, page: 1, text: '[Page 1]\n\nText.' },
+    ]);
+  });
+
+  it('cites the page a section starts on', () => {
+    const sections = toSections([
+      page(1),
+      heading(1, 'Intro'),
+      paragraph('Page one.'),
+      page(2),
+      paragraph('Page two.'),
+      heading(1, 'Methods'),
+      page(3),
+      paragraph('Page three.'),
+      page(4),
+      heading(1, 'Results'),
+      paragraph('Page four.'),
+    ]);
+
+    expect(sections.map(({ heading, page, text }) => ({ heading, page, text }))).toEqual([
+      { heading: 'Intro', page: 1, text: '[Page 1]\n\nPage one.\n\n[Page 2]\n\nPage two.' },
+      // Starts at the bottom of page 2, but its content is on page 3.
+      { heading: 'Methods', page: 3, text: '[Page 3]\n\nPage three.' },
+      // The page break right before the heading moves with it.
+      { heading: 'Results', page: 4, text: '[Page 4]\n\nPage four.' },
+    ]);
+  });
+});
+
+describe('buildDocument', () => {
+  it('derives text, sections, title and word count from the blocks', () => {
+    const document = buildDocument('pdf', 'report.pdf', {
+      blocks: [page(1), heading(1, 'Report'), paragraph('Two words.'), paragraph('   '), item('three more words')],
+      pageCount: 1,
+    });
+
+    expect(document).toEqual({
+      format: 'pdf',
+      filename: 'report.pdf',
+      title: 'Report',
+      text: '[Page 1]\n\n# Report\n\nTwo words.\n\n- three more words',
+      sections: [{ heading: 'Report', level: 1, page: 1, text: '[Page 1]\n\nTwo words.\n\n- three more words' }],
+      pageCount: 1,
+      wordCount: 6,
+    });
+  });
+
+  it('prefers the parsed title and leaves out a missing page count', () => {
+    const document = buildDocument('markdown', 'notes.md', { title: ' Notes ', blocks: [heading(1, 'Heading')] });
+
+    expect(document.title).toBe('Notes');
+    expect(document).not.toHaveProperty('pageCount');
+  });
+
+  it('has no title without a parsed title or top-level heading', () => {
+    expect(buildDocument('text', 'a.txt', { blocks: [heading(2, 'Minor'), paragraph('Text.')] }).title).toBeNull();
+  });
+});
\ No newline at end of file
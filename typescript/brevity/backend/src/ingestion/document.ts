@@ -0,0 +1,94 @@
+import { DocumentBlock, DocumentFormat, ExtractedDocument, ExtractedSection, ParsedDocument } from './types';
+
+export const normalizeSpace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+/**
+ * Renders blocks as Markdown. List items sit on consecutive lines and ordered
+ * items are numbered per nesting level; everything else is separated by a
+ * blank line, which is where the summarizer's chunking splits.
+ */
+export function renderBlocks(blocks: DocumentBlock[]): string {
+  let output = '';
+  let counters: number[] = [];
+  let kinds: boolean[] = [];
+  let previous: DocumentBlock | undefined;
+
+  for (const block of blocks) {
+    const separator = !previous ? '' : previous.type === 'list-item' && block.type === 'list-item' ? '\n' : '\n\n';
+    switch (block.type) {
+      case 'heading':
+        output += `${separator}${'#'.repeat(block.level)} ${block.text}`;
+        break;
+      case 'paragraph':
+        output += `${separator}${block.text}`;
+        break;
+      case 'page':
+        output += `${separator}[Page ${block.number}]`;
+        break;
+      case 'list-item': {
+        // Numbering restarts with each list, and when a bulleted list turns
+        // into a numbered one at the same level.
+        if (previous?.type !== 'list-item') {
+          counters = [];
+          kinds = [];
+        }
+        if (kinds[block.depth] !== block.ordered) counters[block.depth] = 0;
+        counters = counters.slice(0, block.depth + 1);
+        kinds = kinds.slice(0, block.depth + 1);
+        counters[block.depth] = (counters[block.depth] ?? 0) + 1;
+        kinds[block.depth] = block.ordered;
+        const marker = block.ordered ? `${counters[block.depth]}.` : '-';
+        output += `${separator}${'  '.repeat(block.depth)}${marker} ${block.text}`;
+        break;
+      }
+    }
+    previous = block;
+  }
+  return output;
+}
+
+// Splits the blocks at every heading. Page markers stay in the section text.
+export const toSections = (blocks: DocumentBlock[]): ExtractedSection[] => {
+  const sections: { section: ExtractedSection; body: DocumentBlock[] }[] = [];
+  let current: (typeof sections)[number] = { section: { heading: null, level: 0, text: '' }, body: [] };
+  let page: number | undefined;
+
+  for (const block of blocks) {
+    if (block.type === 'heading') {
+      // A page break right before a heading belongs to the new section.
+      const carried: DocumentBlock[] = [];
+      while (current.body[current.body.length - 1]?.type === 'page') carried.unshift(current.body.pop()!);
+      sections.push(current);
+      current = { section: { heading: block.text, level: block.level, page, text: '' }, body: carried };
+      continue;
+    }
+    if (block.type === 'page') {
+      page = block.number;
+      // A section whose content starts on the next page is cited by that page.
+      if (!current.body.some((other) => other.type !== 'page')) current.section.page = page;
+    }
+    current.body.push(block);
+  }
+  sections.push(current);
+
+  return sections
+    .map(({ section, body }) => ({ ...section, text: renderBlocks(body) }))
+    .filter((section) => section.heading !== null || section.text.replace(/\[Page \d+\]/g, '').trim());
+};
+
+export function buildDocument(format: DocumentFormat, filename: string, parsed: ParsedDocument): ExtractedDocument {
+  const blocks = parsed.blocks.filter((block) => block.type === 'page' || block.text.trim());
+  const firstHeading = blocks.find((block) => block.type === 'heading' && block.level === 1);
+
+  return {
+    format,
+    filename,
+    title: parsed.title?.trim() || (firstHeading?.type === 'heading' ? firstHeading.text : null),
+    text: renderBlocks(blocks),
+    sections: toSections(blocks),
+    ...(parsed.pageCount !== undefined && { pageCount: parsed.pageCount }),
+    wordCount: blocks.reduce((total, block) => total + (block.type === 'page' ? 0 : countWords(block.text)), 0),
+  };
+}
\ No newline at end of file
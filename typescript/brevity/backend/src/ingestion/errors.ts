@@ -0,0 +1,15 @@
+export class UnsupportedFormatError extends Error {
+  constructor(filename: string) {
+    super(`Unsupported file type: ${filename}. Upload a PDF, DOCX, HTML, Markdown, text or EPUB file.`);
+    this.name = 'UnsupportedFormatError';
+  }
+}
+
+// The file claims a supported format but its parser couldn't read it, or
+// refused to.
+export class InvalidDocumentError extends Error {
+  constructor(format: string, reason = 'It may be corrupt or password-protected.') {
+    super(`Could not read this ${format} file. ${reason}`);
+    this.name = 'InvalidDocumentError';
+  }
+}
\ No newline at end of file
@@ -0,0 +1,187 @@
+import { InvalidDocumentError, UnsupportedFormatError } from './errors';
+import { detectFormat, extractDocument } from './extract';
+import { buildDocx, buildEpub, buildPdf, padZip } from '../testing/documents';
+
+const extract = (content: string | Buffer, filename: string, mimetype?: string) =>
+  extractDocument(typeof content === 'string' ? Buffer.from(content) : content, filename, mimetype);
+
+const ARTICLE = Array.from(
+  { length: 10 },
+  (_, i) => `<p>Paragraph ${i + 1} of the article explains, at some length and with plenty of detail, why solar panels got cheaper every single year for the last two decades.</p>`,
+).join('');
+
+describe('detectFormat', () => {
+  it.each([
+    ['paper.PDF', undefined, 'pdf'],
+    ['notes.md', 'application/octet-stream', 'markdown'],
+    ['page.htm', undefined, 'html'],
+    ['book.epub', '', 'epub'],
+    ['upload', 'text/plain; charset=utf-8', 'text'],
+    ['letter.docx', 'text/plain', 'docx'],
+  ])('reads %s (%s) as %s', (filename, mimetype, format) => {
+    expect(detectFormat(filename, mimetype)).toBe(format);
+  });
+
+  it('returns undefined for anything else', () => {
+    expect(detectFormat('sheet.xlsx', 'application/vnd.ms-excel')).toBeUndefined();
+  });
+});
+
+describe('extractDocument', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('reads DOCX headings and lists', async () => {
+    const docx = await buildDocx([
+      { text: 'Quarterly Report', style: 'Heading1' },
+      { text: 'Sales went up.' },
+      { text: 'Highlights', style: 'Heading2' },
+      { text: 'New office', list: 'bullet' },
+      { text: 'In Lisbon', list: 'bullet', level: 1 },
+      { text: 'Hire', list: 'number' },
+      { text: 'Ship', list: 'number' },
+    ]);
+
+    const document = await extract(docx, 'report.docx');
+
+    expect(document).toMatchObject({ format: 'docx', filename: 'report.docx', title: 'Quarterly Report', wordCount: 12 });
+    expect(document.text).toBe(
+      '# Quarterly Report\n\nSales went up.\n\n## Highlights\n\n- New office\n  - In Lisbon\n1. Hire\n2. Ship',
+    );
+    expect(document.sections.map((section) => section.heading)).toEqual(['Quarterly Report', 'Highlights']);
+  });
+
+  it('keeps the article of a web page and drops the site chrome', async () => {
+    const html = `<html><head><title>Cheap Solar</title><style>p { color: red }</style></head><body>
+      <header><nav><a href="/">Home</a> <a href="/about">About us</a></nav></header>
+      <main><article><h1>Cheap Solar</h1>${ARTICLE}<h2>What next</h2><ul><li>Storage</li><li>Grids</li></ul></article></main>
+      <aside>Subscribe to our newsletter</aside><footer>© 2024 News Corp</footer>
+      <script>trackPageView()</script></body></html>`;
+
+    const document = await extract(html, 'solar.html');
+
+    expect(document.title).toBe('Cheap Solar');
+    expect(document.text).toMatch(/^# Cheap Solar\n\nParagraph 1 of the article/);
+    expect(document.text).toContain('## What next\n\n- Storage\n- Grids');
+    for (const chrome of ['About us', 'newsletter', 'News Corp', 'trackPageView', 'color: red']) {
+      expect(document.text).not.toContain(chrome);
+    }
+  });
+
+  it('drops the site chrome of short pages', async () => {
+    const html = `<html><head><title>Contact</title></head><body><nav><ul><li><a href="/">Home</a></li><li><a href="/blog">Blog</a></li></ul></nav>
+      <p>Call us.</p><table><tr><td>Phone</td><td>555-0100</td></tr></table><footer>Legal</footer></body></html>`;
+
+    const document = await extract(html, 'contact.html');
+
+    expect(document.text).toBe('# Contact\n\nCall us.\n\nPhone | 555-0100');
+  });
+
+  it('reads Markdown structure and front matter', async () => {
+    const markdown = [
+      '---',
+      'title: "Release notes"',
+      '---',
+      'Overview',
+      '========',
+      '',
+      'Intro line one',
+      'and line two.',
+      '',
+      '## Changes ##',
+      '* Faster',
+      '    * Much faster',
+      '  continued',
+      '1. Then this',
+      '',
+      '```',
+      '# not a heading',
+      '```',
+    ].join('\n');
+
+    const document = await extract(markdown, 'CHANGELOG.md');
+
+    expect(document.title).toBe('Release notes');
+    expect(document.text).toBe(
+      '# Overview\n\nIntro line one\nand line two.\n\n## Changes\n\n- Faster\n  - Much faster continued\n1. Then this\n\n```\n# not a heading\n```',
+    );
+  });
+
+  it('reads plain text paragraphs, bullets and form-feed pages', async () => {
+    const document = await extract('First page.\n\n- a point\n  - a sub-point\fSecond page\nwraps here.', 'notes.txt');
+
+    expect(document).toMatchObject({ format: 'text', pageCount: 2, title: null });
+    expect(document.text).toBe('[Page 1]\n\nFirst page.\n\n- a point\n  - a sub-point\n\n[Page 2]\n\nSecond page\nwraps here.');
+  });
+
+  it('leaves out the page count for text without form feeds', async () => {
+    expect(await extract('Just one line.', 'a.txt')).not.toHaveProperty('pageCount');
+  });
+
+  it('reads EPUB chapters in spine order, not manifest order', async () => {
+    const epub = await buildEpub(
+      'A Short Book',
+      [
+        { href: 'text/ch2.xhtml', body: '<h1>Chapter Two</h1><p>The end.</p>' },
+        { href: 'text/ch1.xhtml', body: '<h1>Chapter One</h1><p>It begins.</p><ol><li>First</li></ol>' },
+      ],
+      ['text/ch1.xhtml', 'text/ch2.xhtml'],
+    );
+
+    const document = await extract(epub, 'book.epub');
+
+    expect(document.title).toBe('A Short Book');
+    expect(document.text).toBe('# Chapter One\n\nIt begins.\n\n1. First\n\n# Chapter Two\n\nThe end.');
+  });
+
+  it('marks every PDF page and finds headings by font size', async () => {
+    const pdf = buildPdf([
+      [
+        { text: 'Annual Report', size: 24 },
+        { text: 'Revenue grew strongly across every region we' },
+        { text: 'operate in, led by new customers.' },
+      ],
+      [
+        { text: 'Outlook', size: 16 },
+        { text: 'We expect the same next year, barring surprises.' },
+        { text: '- Hire more engineers' },
+      ],
+    ]);
+
+    const document = await extract(pdf, 'report.pdf');
+
+    expect(document).toMatchObject({ format: 'pdf', title: 'Annual Report', pageCount: 2 });
+    expect(document.text).toBe(
+      '[Page 1]\n\n# Annual Report\n\nRevenue grew strongly across every region we operate in, led by new customers.\n\n' +
+        '[Page 2]\n\n## Outlook\n\nWe expect the same next year, barring surprises.\n\n- Hire more engineers',
+    );
+    expect(document.sections.map(({ heading, page }) => ({ heading, page }))).toEqual([
+      { heading: 'Annual Report', page: 1 },
+      { heading: 'Outlook', page: 2 },
+    ]);
+  });
+
+  it('throws UnsupportedFormatError for unknown types', async () => {
+    await expect(extract('a,b', 'data.csv', 'text/csv')).rejects.toThrow(UnsupportedFormatError);
+  });
+
+  it.each([
+    ['report.docx', () => buildDocx([{ text: 'Small report.' }])],
+    ['book.epub', () => buildEpub('Small Book', [{ href: 'ch1.xhtml', body: '<p>Small book.</p>' }])],
+  ])('refuses a %s that unzips to more than 50MB before inflating it', async (filename, build) => {
+    const bomb = await padZip(await build(), 60 * 1024 * 1024);
+    expect(bomb.length).toBeLessThan(1024 * 1024);
+
+    await expect(extract(bomb, filename)).rejects.toThrow(
+      new InvalidDocumentError(filename.endsWith('.docx') ? 'DOCX' : 'EPUB', 'It unzips to more than 50MB.'),
+    );
+    expect(console.error).not.toHaveBeenCalled();
+  });
+
+  it.each(['report.pdf', 'report.docx', 'book.epub'])('throws InvalidDocumentError for a corrupt %s', async (filename) => {
+    await expect(extract('definitely not a real file', filename)).rejects.toThrow(InvalidDocumentError);
+  });
+});
\ No newline at end of file
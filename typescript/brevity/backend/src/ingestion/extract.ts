@@ -0,0 +1,69 @@
+import path from 'path';
+import { buildDocument } from './document';
+import { InvalidDocumentError, UnsupportedFormatError } from './errors';
+import { extractDocx } from './formats/docx';
+import { extractEpub } from './formats/epub';
+import { extractHtml } from './formats/html';
+import { extractMarkdown } from './formats/markdown';
+import { extractPdf } from './formats/pdf';
+import { extractText } from './formats/text';
+import { DocumentFormat, ExtractedDocument, ParsedDocument } from './types';
+
+const EXTENSIONS: Record<string, DocumentFormat> = {
+  '.pdf': 'pdf',
+  '.docx': 'docx',
+  '.html': 'html',
+  '.htm': 'html',
+  '.xhtml': 'html',
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.txt': 'text',
+  '.text': 'text',
+  '.epub': 'epub',
+};
+
+const MIME_TYPES: Record<string, DocumentFormat> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'text/html': 'html',
+  'application/xhtml+xml': 'html',
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown',
+  'text/plain': 'text',
+  'application/epub+zip': 'epub',
+};
+
+const extractors: Record<DocumentFormat, (buffer: Buffer) => ParsedDocument | Promise<ParsedDocument>> = {
+  pdf: extractPdf,
+  docx: extractDocx,
+  html: (buffer) => extractHtml(buffer.toString('utf8')),
+  markdown: (buffer) => extractMarkdown(buffer.toString('utf8')),
+  text: (buffer) => extractText(buffer.toString('utf8')),
+  epub: extractEpub,
+};
+
+// The extension decides: browsers send `application/octet-stream` or nothing
+// for Markdown and EPUB files. The MIME type covers files without one.
+export function detectFormat(filename: string, mimetype = ''): DocumentFormat | undefined {
+  return EXTENSIONS[path.extname(filename).toLowerCase()] ?? MIME_TYPES[mimetype.split(';')[0].trim()];
+}
+
+/**
+ * Turns an uploaded file into an `ExtractedDocument`. Throws
+ * `UnsupportedFormatError` for formats we don't read and
+ * `InvalidDocumentError` when the file can't be parsed as its format.
+ */
+export async function extractDocument(buffer: Buffer, filename: string, mimetype?: string): Promise<ExtractedDocument> {
+  const format = detectFormat(filename, mimetype);
+  if (!format) throw new UnsupportedFormatError(filename);
+
+  let parsed: ParsedDocument;
+  try {
+    parsed = await extractors[format](buffer);
+  } catch (error) {
+    if (error instanceof InvalidDocumentError) throw error;
+    console.error(`Error extracting ${format} file ${filename}:`, error);
+    throw new InvalidDocumentError(format.toUpperCase());
+  }
+  return buildDocument(format, filename, parsed);
+}
\ No newline at end of file
@@ -0,0 +1,18 @@
+import mammoth from 'mammoth';
+import { JSDOM } from 'jsdom';
+import { ParsedDocument } from '../types';
+import { htmlToBlocks } from './html';
+import { openZip } from './zip';
+
+// mammoth maps Word's Heading 1-6 styles and numbered/bulleted lists to HTML,
+// which we then read like any other page (minus the boilerplate removal).
+export async function extractDocx(buffer: Buffer): Promise<ParsedDocument> {
+  await openZip(buffer, 'DOCX');
+  const { value: html } = await mammoth.convertToHtml({ buffer });
+  const dom = new JSDOM(html);
+  try {
+    return { blocks: htmlToBlocks(dom.window.document.body) };
+  } finally {
+    dom.window.close();
+  }
+}
\ No newline at end of file
@@ -0,0 +1,54 @@
+import path from 'path';
+import { JSDOM } from 'jsdom';
+import { DocumentBlock, ParsedDocument } from '../types';
+import { htmlToBlocks } from './html';
+import { openZip } from './zip';
+
+const parseXml = (xml: string) => new JSDOM(xml, { contentType: 'application/xml' }).window.document;
+
+// Chapters are XHTML, but plenty of EPUBs in the wild aren't well-formed XML.
+const parseChapter = (markup: string) => {
+  try {
+    return new JSDOM(markup, { contentType: 'application/xhtml+xml' });
+  } catch {
+    return new JSDOM(markup);
+  }
+};
+
+/**
+ * Reads the chapters of an EPUB in reading (spine) order. The title comes
+ * from the package metadata; headings and lists come from the chapters.
+ */
+export async function extractEpub(buffer: Buffer): Promise<ParsedDocument> {
+  const zip = await openZip(buffer, 'EPUB');
+  const container = await zip.file('META-INF/container.xml')?.async('string');
+  const packagePath = container && parseXml(container).getElementsByTagName('rootfile')[0]?.getAttribute('full-path');
+  const packageXml = packagePath && (await zip.file(packagePath)?.async('string'));
+  if (!packagePath || !packageXml) {
+    throw new Error('EPUB has no package document');
+  }
+
+  const opf = parseXml(packageXml);
+  const hrefs = new Map(
+    Array.from(opf.getElementsByTagName('item')).map((item) => [item.getAttribute('id'), item.getAttribute('href')]),
+  );
+  const chapters = Array.from(opf.getElementsByTagName('itemref'))
+    .map((ref) => hrefs.get(ref.getAttribute('idref')))
+    .filter((href): href is string => Boolean(href))
+    .map((href) => path.posix.join(path.posix.dirname(packagePath), decodeURIComponent(href.split('#')[0])));
+
+  const blocks: DocumentBlock[] = [];
+  for (const chapter of chapters) {
+    const markup = await zip.file(chapter)?.async('string');
+    if (!markup) continue;
+    const dom = parseChapter(markup);
+    try {
+      const body = dom.window.document.body ?? dom.window.document.documentElement;
+      blocks.push(...htmlToBlocks(body));
+    } finally {
+      dom.window.close();
+    }
+  }
+
+  return { title: opf.getElementsByTagName('dc:title')[0]?.textContent, blocks };
+}
\ No newline at end of file
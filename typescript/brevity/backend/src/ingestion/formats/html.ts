@@ -0,0 +1,136 @@
+import { JSDOM } from 'jsdom';
+import { isProbablyReaderable, Readability } from '@mozilla/readability';
+import { normalizeSpace } from '../document';
+import { DocumentBlock, ParsedDocument } from '../types';
+
+const SKIPPED = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'SVG', 'IFRAME', 'HEAD']);
+const INLINE = new Set([
+  'A', 'ABBR', 'B', 'BDI', 'BDO', 'CITE', 'CODE', 'DATA', 'DFN', 'EM', 'FONT', 'I', 'KBD', 'LABEL', 'MARK',
+  'Q', 'S', 'SAMP', 'SMALL', 'SPAN', 'STRONG', 'SUB', 'SUP', 'TIME', 'U', 'VAR', 'WBR',
+]);
+// Site chrome that Readability didn't get rid of (or that we fall back past).
+const BOILERPLATE = 'nav, header, footer, aside, form, [role="navigation"], [role="banner"], [role="contentinfo"]';
+
+/**
+ * Walks an HTML tree into blocks: h1-h6 become headings, li items (nested
+ * lists by depth), table rows "cell | cell" paragraphs and any other run of
+ * inline content a paragraph.
+ */
+export function htmlToBlocks(root: Element): DocumentBlock[] {
+  const blocks: DocumentBlock[] = [];
+  let inline = '';
+
+  const flush = () => {
+    const text = inline
+      .split('\n')
+      .map(normalizeSpace)
+      .filter(Boolean)
+      .join('\n');
+    if (text) blocks.push({ type: 'paragraph', text });
+    inline = '';
+  };
+
+  // Text of an element's inline content, leaving out nested lists.
+  const inlineText = (element: Element): string =>
+    Array.from(element.childNodes)
+      .map((child) => {
+        if (child.nodeType === child.TEXT_NODE) return child.textContent ?? '';
+        if (child.nodeType !== child.ELEMENT_NODE) return '';
+        const tag = (child as Element).tagName.toUpperCase();
+        if (tag === 'UL' || tag === 'OL' || SKIPPED.has(tag)) return '';
+        return tag === 'BR' ? '\n' : ` ${inlineText(child as Element)} `;
+      })
+      .join('');
+
+  const walkList = (list: Element, depth: number) => {
+    const ordered = list.tagName.toUpperCase() === 'OL';
+    for (const item of Array.from(list.children)) {
+      const tag = item.tagName.toUpperCase();
+      if (tag === 'UL' || tag === 'OL') {
+        walkList(item, depth + 1);
+        continue;
+      }
+      const text = normalizeSpace(inlineText(item));
+      if (text) blocks.push({ type: 'list-item', text, ordered, depth });
+      for (const nested of Array.from(item.querySelectorAll(':scope > ul, :scope > ol'))) {
+        walkList(nested, depth + 1);
+      }
+    }
+  };
+
+  const walk = (node: Node) => {
+    if (node.nodeType === node.TEXT_NODE) {
+      inline += node.textContent ?? '';
+      return;
+    }
+    if (node.nodeType !== node.ELEMENT_NODE) return;
+
+    const element = node as Element;
+    const tag = element.tagName.toUpperCase();
+    if (SKIPPED.has(tag)) return;
+    if (tag === 'BR') {
+      inline += '\n';
+      return;
+    }
+    if (INLINE.has(tag)) {
+      element.childNodes.forEach(walk);
+      return;
+    }
+
+    flush();
+    const heading = /^H([1-6])$/.exec(tag);
+    if (heading) {
+      const text = normalizeSpace(element.textContent ?? '');
+      if (text) blocks.push({ type: 'heading', level: Number(heading[1]), text });
+    } else if (tag === 'UL' || tag === 'OL') {
+      walkList(element, 0);
+    } else if (tag === 'TR') {
+      const cells = Array.from(element.children).map((cell) => normalizeSpace(cell.textContent ?? ''));
+      if (cells.some(Boolean)) blocks.push({ type: 'paragraph', text: cells.join(' | ') });
+    } else if (tag === 'PRE') {
+      const text = (element.textContent ?? '').replace(/\s+$/, '');
+      if (text.trim()) blocks.push({ type: 'paragraph', text });
+    } else {
+      element.childNodes.forEach(walk);
+      flush();
+    }
+  };
+
+  root.childNodes.forEach(walk);
+  flush();
+  return blocks;
+}
+
+/**
+ * Extracts the main content of a web page. Readability strips navigation,
+ * ads and other boilerplate from article-like pages; for other pages, or if
+ * it finds no article, we drop the usual site chrome ourselves and keep the
+ * rest of the body.
+ */
+export function extractHtml(html: string): ParsedDocument {
+  const dom = new JSDOM(html);
+  try {
+    const document = dom.window.document;
+    // On short pages Readability gives back the whole body, navigation and all.
+    const article = isProbablyReaderable(document)
+      ? new Readability(document.cloneNode(true) as Document).parse()
+      : null;
+
+    let root: Element = document.body;
+    if (article?.content) {
+      root = JSDOM.fragment(`<div>${article.content}</div>`).firstElementChild!;
+    } else {
+      document.body.querySelectorAll(BOILERPLATE).forEach((element) => element.remove());
+    }
+
+    const title = article?.title || document.title || null;
+    const blocks = htmlToBlocks(root);
+    // Readability usually lifts the page's <h1> out into `title`.
+    if (title && !blocks.some((block) => block.type === 'heading' && block.text === title)) {
+      blocks.unshift({ type: 'heading', level: 1, text: title });
+    }
+    return { title, blocks };
+  } finally {
+    dom.window.close();
+  }
+}
\ No newline at end of file
@@ -0,0 +1,86 @@
+import { DocumentBlock, ParsedDocument } from '../types';
+
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const ATX_HEADING = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const SETEXT_UNDERLINE = /^(=+|-+)\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+const THEMATIC_BREAK = /^\s*([-*_])(\s*\1){2,}\s*$/;
+
+// Leading YAML front matter; its `title:` names the document.
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---\r?\n/;
+
+/**
+ * A line-based reader for the Markdown structure we care about: ATX and
+ * setext headings, nested lists, fenced code (kept verbatim) and paragraphs.
+ * Inline formatting is left as written.
+ */
+export function extractMarkdown(source: string): ParsedDocument {
+  let markdown = source.replace(/^\uFEFF/, '');
+  let title: string | null = null;
+  const frontMatter = FRONT_MATTER.exec(markdown);
+  if (frontMatter) {
+    title = /^title:\s*["']?(.*?)["']?\s*$/m.exec(frontMatter[1])?.[1] || null;
+    markdown = markdown.slice(frontMatter[0].length);
+  }
+
+  const blocks: DocumentBlock[] = [];
+  let paragraph: string[] = [];
+  let fence: string[] | null = null;
+  // Indentation of each open list level, so nesting follows the source
+  // whether it indents by two spaces or four.
+  let indents: number[] = [];
+
+  const flush = () => {
+    if (paragraph.length) blocks.push({ type: 'paragraph', text: paragraph.join('\n') });
+    paragraph = [];
+  };
+
+  for (const line of markdown.split(/\r?\n/)) {
+    if (fence) {
+      fence.push(line);
+      if (FENCE.test(line)) {
+        blocks.push({ type: 'paragraph', text: fence.join('\n') });
+        fence = null;
+      }
+      continue;
+    }
+    if (FENCE.test(line)) {
+      flush();
+      fence = [line];
+      continue;
+    }
+
+    const atx = ATX_HEADING.exec(line);
+    const underline = SETEXT_UNDERLINE.exec(line);
+    const item = LIST_ITEM.exec(line);
+    if (atx) {
+      flush();
+      blocks.push({ type: 'heading', level: atx[1].length, text: atx[2] });
+    } else if (underline && paragraph.length === 1) {
+      blocks.push({ type: 'heading', level: underline[1].startsWith('=') ? 1 : 2, text: paragraph[0].trim() });
+      paragraph = [];
+    } else if (THEMATIC_BREAK.test(line)) {
+      flush();
+    } else if (item) {
+      flush();
+      const indent = item[1].replace(/\t/g, '    ').length;
+      if (blocks[blocks.length - 1]?.type !== 'list-item') indents = [];
+      while (indents.length && indents[indents.length - 1] > indent) indents.pop();
+      if (!indents.length || indents[indents.length - 1] < indent) indents.push(indent);
+      const depth = indents.length - 1;
+      blocks.push({ type: 'list-item', text: item[3], ordered: /\d/.test(item[2]), depth });
+    } else if (!line.trim()) {
+      flush();
+    } else if (!paragraph.length && /^\s+\S/.test(line) && blocks[blocks.length - 1]?.type === 'list-item') {
+      // An indented line right after a list item continues it.
+      const last = blocks[blocks.length - 1] as Extract<DocumentBlock, { type: 'list-item' }>;
+      last.text += ` ${line.trim()}`;
+    } else {
+      paragraph.push(line);
+    }
+  }
+  if (fence) blocks.push({ type: 'paragraph', text: fence.join('\n') });
+  flush();
+
+  return { title, blocks };
+}
\ No newline at end of file
@@ -0,0 +1,135 @@
+import pdfParse from 'pdf-parse';
+import { normalizeSpace } from '../document';
+import { DocumentBlock, ParsedDocument } from '../types';
+
+interface PdfTextItem {
+  str: string;
+  // [scaleX, skewY, skewX, scaleY, x, y]
+  transform: number[];
+}
+
+interface PdfPage {
+  pageIndex: number;
+  getTextContent(options: object): Promise<{ items: PdfTextItem[] }>;
+}
+
+interface PdfLine {
+  text: string;
+  size: number;
+  y: number;
+}
+
+const BULLET = /^([•◦▪●○■–*-]|\d+[.)])\s+(.*)$/;
+// Lines this much bigger than the body text are headings.
+const HEADING_SCALE = 1.15;
+// A vertical gap this many line heights wide starts a new paragraph.
+const PARAGRAPH_GAP = 1.8;
+
+const roundSize = (size: number) => Math.round(size * 2) / 2;
+
+// Groups a page's text items into lines, remembering font size and position.
+const toLines = (items: PdfTextItem[]): PdfLine[] => {
+  const lines: PdfLine[] = [];
+  for (const item of items) {
+    const y = item.transform[5];
+    const size = Math.hypot(item.transform[2], item.transform[3]);
+    const last = lines[lines.length - 1];
+    if (last && Math.abs(last.y - y) < Math.max(size, last.size) / 2) {
+      last.text += item.str;
+      last.size = Math.max(last.size, size);
+    } else {
+      lines.push({ text: item.str, size, y });
+    }
+  }
+  return lines.filter((line) => line.text.trim());
+};
+
+// The most common font size by amount of text is the body size; the three
+// largest sizes above it become heading levels 1-3.
+const headingLevels = (pages: PdfLine[][]) => {
+  const characters = new Map<number, number>();
+  for (const line of pages.flat()) {
+    const size = roundSize(line.size);
+    characters.set(size, (characters.get(size) ?? 0) + line.text.length);
+  }
+  const body = [...characters].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 0;
+  const sizes = [...characters.keys()].filter((size) => size >= body * HEADING_SCALE).sort((a, b) => b - a);
+  return (line: PdfLine) => {
+    const index = sizes.indexOf(roundSize(line.size));
+    const text = line.text.trim();
+    return index === -1 || text.length > 120 || !/\p{L}/u.test(text) ? 0 : Math.min(index + 1, 3);
+  };
+};
+
+const pageBlocks = (lines: PdfLine[], levelOf: (line: PdfLine) => number): DocumentBlock[] => {
+  const blocks: DocumentBlock[] = [];
+  let paragraph: string[] = [];
+  let previous: PdfLine | undefined;
+
+  const flush = () => {
+    // Re-join words hyphenated across a line break ("com-" + "pile").
+    const text = paragraph.join('\n').replace(/(\p{L})-\n(\p{Ll})/gu, '$1$2');
+    if (text) blocks.push({ type: 'paragraph', text: normalizeSpace(text) });
+    paragraph = [];
+  };
+
+  for (const line of lines) {
+    const text = normalizeSpace(line.text);
+    const level = levelOf(line);
+    const gap = previous ? previous.y - line.y > previous.size * PARAGRAPH_GAP : true;
+    const last = blocks[blocks.length - 1];
+    const bullet = BULLET.exec(text);
+
+    if (level) {
+      flush();
+      // Headings that wrap onto a second line.
+      if (last?.type === 'heading' && last.level === level && !gap) {
+        last.text += ` ${text}`;
+      } else {
+        blocks.push({ type: 'heading', level, text });
+      }
+    } else if (bullet) {
+      flush();
+      blocks.push({ type: 'list-item', text: bullet[2], ordered: /\d/.test(bullet[1]), depth: 0 });
+    } else if (!gap && !paragraph.length && last?.type === 'list-item') {
+      last.text += ` ${text}`;
+    } else {
+      if (gap) flush();
+      paragraph.push(text);
+    }
+    previous = line;
+  }
+  flush();
+  return blocks;
+};
+
+// Strips the "Microsoft Word - report.docx" titles many exporters leave behind.
+const cleanTitle = (title: unknown) =>
+  typeof title === 'string' && title.trim() && !/\.\w{2,4}$/.test(title.trim()) ? title.trim() : null;
+
+/**
+ * Extracts a PDF page by page. pdf-parse's own renderer only returns plain
+ * text, so ours keeps each line's size and position to find headings and
+ * paragraph breaks, and every page starts with a `[Page N]` marker.
+ */
+export async function extractPdf(buffer: Buffer): Promise<ParsedDocument> {
+  const pages: PdfLine[][] = [];
+  const data = await pdfParse(buffer, {
+    pagerender: async (page: PdfPage) => {
+      const { items } = await page.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+      const lines = toLines(items);
+      pages[page.pageIndex] = lines;
+      return lines.map((line) => line.text).join('\n');
+    },
+  });
+
+  const levelOf = headingLevels(pages.filter(Boolean));
+  const blocks = Array.from({ length: data.numpages }, (_, index): DocumentBlock[] => [
+    { type: 'page', number: index + 1 },
+    ...pageBlocks(pages[index] ?? [], levelOf),
+  ]).flat();
+
+  // Metadata titles are often file names or IDs, so a title heading wins.
+  const hasTitleHeading = blocks.some((block) => block.type === 'heading' && block.level === 1);
+  return { title: hasTitleHeading ? null : cleanTitle(data.info?.Title), blocks, pageCount: data.numpages };
+}
\ No newline at end of file
@@ -0,0 +1,39 @@
+import { DocumentBlock, ParsedDocument } from '../types';
+
+const BULLET = /^(\s*)([-*•◦▪–]|\d+[.)])\s+(.*)$/;
+
+// Paragraphs split on blank lines, bullet-looking lines become list items and
+// form feeds (as `pdftotext` writes them) become page breaks.
+export function textToBlocks(text: string): DocumentBlock[] {
+  const blocks: DocumentBlock[] = [];
+  const pages = text.replace(/^\uFEFF/, '').split('\f');
+
+  pages.forEach((page, index) => {
+    if (pages.length > 1) blocks.push({ type: 'page', number: index + 1 });
+    let paragraph: string[] = [];
+    const flush = () => {
+      if (paragraph.length) blocks.push({ type: 'paragraph', text: paragraph.join('\n') });
+      paragraph = [];
+    };
+
+    for (const line of page.split(/\r?\n/)) {
+      const bullet = BULLET.exec(line);
+      if (!line.trim()) {
+        flush();
+      } else if (bullet) {
+        flush();
+        const depth = Math.floor(bullet[1].replace(/\t/g, '    ').length / 2);
+        blocks.push({ type: 'list-item', text: bullet[3].trim(), ordered: /\d/.test(bullet[2]), depth });
+      } else {
+        paragraph.push(line.trimEnd());
+      }
+    }
+    flush();
+  });
+  return blocks;
+}
+
+export function extractText(text: string): ParsedDocument {
+  const blocks = textToBlocks(text);
+  return { blocks, ...(blocks.some((block) => block.type === 'page') && { pageCount: text.split('\f').length }) };
+}
\ No newline at end of file
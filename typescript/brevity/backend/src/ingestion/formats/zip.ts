@@ -0,0 +1,27 @@
+import JSZip from 'jszip';
+import { InvalidDocumentError } from '../errors';
+
+// Uploads are capped at 10MB compressed, but a zip bomb that size inflates to
+// gigabytes. DOCX and EPUB files claiming more than this unzipped are refused.
+export const MAX_UNZIPPED_BYTES = 50 * 1024 * 1024;
+
+// JSZip keeps each entry's sizes from the zip's central directory on `_data`,
+// which its types leave out.
+type LoadedEntry = JSZip.JSZipObject & { _data?: { uncompressedSize?: number } };
+
+/**
+ * Opens a DOCX or EPUB without inflating anything, then throws
+ * `InvalidDocumentError` if its entries add up to more than
+ * `MAX_UNZIPPED_BYTES`.
+ */
+export async function openZip(buffer: Buffer, format: string): Promise<JSZip> {
+  const zip = await JSZip.loadAsync(buffer);
+  let total = 0;
+  zip.forEach((_, entry: LoadedEntry) => {
+    if (!entry.dir) total += entry._data?.uncompressedSize ?? Infinity;
+  });
+  if (total > MAX_UNZIPPED_BYTES) {
+    throw new InvalidDocumentError(format, `It unzips to more than ${MAX_UNZIPPED_BYTES / 1024 / 1024}MB.`);
+  }
+  return zip;
+}
@@ -0,0 +1,38 @@
+export type DocumentFormat = 'pdf' | 'docx' | 'html' | 'markdown' | 'text' | 'epub';
+
+// The structure every format is reduced to before it becomes Markdown.
+export type DocumentBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list-item'; text: string; ordered: boolean; depth: number }
+  | { type: 'page'; number: number };
+
+export interface ExtractedSection {
+  // Null for content before the first heading.
+  heading: string | null;
+  // 1-6 for headings, 0 for that leading content.
+  level: number;
+  // Page the section starts on, for formats with pages.
+  page?: number;
+  // Section body as Markdown, without its heading.
+  text: string;
+}
+
+export interface ExtractedDocument {
+  format: DocumentFormat;
+  filename: string;
+  title: string | null;
+  // The whole document as Markdown: `#` headings, `-` and `1.` lists and
+  // `[Page N]` markers, so summaries can point at sections and pages.
+  text: string;
+  sections: ExtractedSection[];
+  pageCount?: number;
+  wordCount: number;
+}
+
+// What a format extractor hands back; the rest is derived from the blocks.
+export interface ParsedDocument {
+  title?: string | null;
+  blocks: DocumentBlock[];
+  pageCount?: number;
+}
\ No newline at end of file
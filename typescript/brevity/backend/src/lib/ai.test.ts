@@ -0,0 +1,132 @@
+import { generateText, LanguageModel } from 'ai';
+import { getDefaultModelId, listModels, resolveModel, UnknownModelError, withFallback } from './ai';
+import { createFakeModel } from './fake-model';
+
+type CallOptions = Parameters<LanguageModel['doGenerate']>[0];
+
+const call: CallOptions = {
+  inputFormat: 'messages',
+  mode: { type: 'regular' },
+  prompt: [{ role: 'user', content: [{ type: 'text', text: 'Hello there' }] }],
+};
+
+const failing = (modelId: string, error: Error = new Error(`${modelId} is down`)): LanguageModel => ({
+  ...createFakeModel(modelId),
+  doGenerate: jest.fn().mockRejectedValue(error),
+  doStream: jest.fn().mockRejectedValue(error),
+});
+
+const env = { ...process.env };
+
+beforeEach(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  process.env = { ...env };
+  jest.restoreAllMocks();
+});
+
+describe('listModels', () => {
+  it('offers only the fake model without any keys', () => {
+    expect(listModels()).toEqual([{ id: 'fake:echo', provider: 'fake', label: 'Fake (offline) · echo' }]);
+    expect(getDefaultModelId()).toBe('fake:echo');
+  });
+
+  it('lists configured providers in order and honours DEFAULT_MODEL', () => {
+    process.env.OPENAI_API_KEY = 'sk-test';
+    process.env.OPENAI_MODELS = 'gpt-4o-mini';
+    process.env.LOCAL_LLM_BASE_URL = 'http://127.0.0.1:11434/v1';
+    process.env.LOCAL_LLM_MODELS = 'llama3.1, qwen2.5';
+    process.env.DEFAULT_MODEL = 'local:qwen2.5';
+
+    expect(listModels().map((option) => option.id)).toEqual([
+      'openai:gpt-4o-mini',
+      'local:llama3.1',
+      'local:qwen2.5',
+      'fake:echo',
+    ]);
+    expect(getDefaultModelId()).toBe('local:qwen2.5');
+  });
+
+  it('ignores a DEFAULT_MODEL that is not available', () => {
+    process.env.DEFAULT_MODEL = 'openai:gpt-4o';
+
+    expect(getDefaultModelId()).toBe('fake:echo');
+  });
+});
+
+describe('resolveModel', () => {
+  it('resolves the requested model, or the default when none is given', async () => {
+    for (const requested of ['fake:echo', undefined]) {
+      const { text } = await generateText({ model: resolveModel(requested), prompt: 'Hello there' });
+      expect(text).toBe('[echo] Hello there');
+    }
+  });
+
+  it.each(['openai:gpt-4o', 'fake:other', 'nonsense'])('throws UnknownModelError for %s', (id) => {
+    expect(() => resolveModel(id)).toThrow(UnknownModelError);
+    expect(() => resolveModel(id)).toThrow(`Unknown or unavailable model: ${id}`);
+  });
+
+  it('throws UnknownModelError when nothing is configured', () => {
+    process.env.NODE_ENV = 'production';
+
+    expect(() => resolveModel()).toThrow('Unknown or unavailable model: (none configured)');
+  });
+
+  it('falls back between cloud models but not from local ones', () => {
+    process.env.OPENAI_API_KEY = 'sk-test';
+    process.env.ANTHROPIC_API_KEY = 'sk-ant-test';
+    process.env.LOCAL_LLM_BASE_URL = 'http://127.0.0.1:11434/v1';
+    process.env.LOCAL_LLM_MODELS = 'llama3.1';
+
+    expect(resolveModel('openai:gpt-4o')).toMatchObject({ provider: 'openai.chat', modelId: 'gpt-4o' });
+    // Only wrapped when there is somewhere to fall back to.
+    expect(resolveModel('local:llama3.1').doGenerate).toBe(resolveModel('local:llama3.1').doGenerate);
+    expect(resolveModel('openai:gpt-4o').doGenerate).not.toBe(resolveModel('openai:gpt-4o').doGenerate);
+  });
+});
+
+describe('withFallback', () => {
+  it('returns a single model unwrapped', () => {
+    const model = createFakeModel();
+
+    expect(withFallback([model])).toBe(model);
+  });
+
+  it('answers from the first model that succeeds', async () => {
+    const down = failing('primary');
+    const model = withFallback([down, failing('second'), createFakeModel('third')]);
+
+    await expect(model.doGenerate(call)).resolves.toMatchObject({ text: '[third] Hello there' });
+    expect(down.doGenerate).toHaveBeenCalledWith(call);
+    expect(model).toMatchObject({ provider: 'fake', modelId: 'primary' });
+    expect(console.warn).toHaveBeenCalledTimes(2);
+  });
+
+  it('falls back for streams too', async () => {
+    const { text } = await generateText({
+      model: withFallback([failing('primary'), createFakeModel('backup')]),
+      prompt: 'Hello there',
+    });
+
+    expect(text).toBe('[backup] Hello there');
+  });
+
+  it('rethrows the last error when every model fails', async () => {
+    const model = withFallback([failing('primary'), failing('second')]);
+
+    await expect(model.doGenerate(call)).rejects.toThrow('second is down');
+    await expect(model.doStream(call)).rejects.toThrow('second is down');
+  });
+
+  it('does not fall back when the call was aborted', async () => {
+    const abort = Object.assign(new Error('aborted'), { name: 'AbortError' });
+    const backup = createFakeModel('backup');
+    const generate = jest.spyOn(backup, 'doGenerate');
+
+    await expect(withFallback([failing('primary', abort), backup]).doGenerate(call)).rejects.toBe(abort);
+    expect(generate).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
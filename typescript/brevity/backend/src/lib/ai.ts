@@ -0,0 +1,156 @@
+import { LanguageModel } from 'ai';
+import { createOpenAI } from '@ai-sdk/openai';
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { createFakeModel } from './fake-model';
+
+export type ProviderId = 'openai' | 'anthropic' | 'local' | 'fake';
+
+export interface ModelOption {
+  // `provider:model`, e.g. `openai:gpt-4o-mini`. This is what clients send.
+  id: string;
+  provider: ProviderId;
+  label: string;
+}
+
+interface ProviderConfig {
+  id: ProviderId;
+  label: string;
+  // Whether the provider is configured in this environment.
+  enabled: () => boolean;
+  models: () => string[];
+  create: (modelId: string) => LanguageModel;
+}
+
+const list = (value: string | undefined) =>
+  (value ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const providers: ProviderConfig[] = [
+  {
+    id: 'openai',
+    label: 'OpenAI',
+    enabled: () => Boolean(process.env.OPENAI_API_KEY),
+    models: () => list(process.env.OPENAI_MODELS || 'gpt-4o-mini,gpt-4o'),
+    create: (modelId) => createOpenAI({ apiKey: process.env.OPENAI_API_KEY })(modelId),
+  },
+  {
+    id: 'anthropic',
+    label: 'Anthropic',
+    enabled: () => Boolean(process.env.ANTHROPIC_API_KEY),
+    models: () => list(process.env.ANTHROPIC_MODELS || 'claude-3-5-haiku-latest,claude-3-5-sonnet-latest'),
+    create: (modelId) => createAnthropic({ apiKey: process.env.ANTHROPIC_API_KEY })(modelId),
+  },
+  {
+    // Any OpenAI-compatible server: Ollama, LM Studio, vLLM, llama.cpp...
+    id: 'local',
+    label: 'Local',
+    enabled: () => Boolean(process.env.LOCAL_LLM_BASE_URL),
+    models: () => list(process.env.LOCAL_LLM_MODELS),
+    create: (modelId) =>
+      createOpenAI({
+        baseURL: process.env.LOCAL_LLM_BASE_URL,
+        apiKey: process.env.LOCAL_LLM_API_KEY || 'not-needed',
+        compatibility: 'compatible',
+      })(modelId),
+  },
+  {
+    id: 'fake',
+    label: 'Fake (offline)',
+    enabled: () => process.env.NODE_ENV === 'test' || process.env.ENABLE_FAKE_MODEL === 'true',
+    models: () => ['echo'],
+    create: createFakeModel,
+  },
+];
+
+export class UnknownModelError extends Error {
+  constructor(modelId: string) {
+    super(`Unknown or unavailable model: ${modelId}`);
+    this.name = 'UnknownModelError';
+  }
+}
+
+// Every model a client may pick, in provider order. Read per call so tests
+// can change the environment.
+export function listModels(): ModelOption[] {
+  return providers
+    .filter((provider) => provider.enabled())
+    .flatMap((provider) =>
+      provider.models().map((model) => ({
+        id: `${provider.id}:${model}`,
+        provider: provider.id,
+        label: `${provider.label} · ${model}`,
+      })),
+    );
+}
+
+export function getDefaultModelId(): string | undefined {
+  const available = listModels();
+  const configured = process.env.DEFAULT_MODEL;
+  if (configured && available.some((option) => option.id === configured)) return configured;
+  return available[0]?.id;
+}
+
+const createModel = (id: string): LanguageModel => {
+  const [providerId, ...rest] = id.split(':');
+  const provider = providers.find((p) => p.id === providerId);
+  return provider!.create(rest.join(':'));
+};
+
+// An abort from the client is not a provider failure; don't paper over it.
+const isAbort = (error: unknown) => error instanceof Error && error.name === 'AbortError';
+
+/**
+ * Wraps `models` into one that calls the first and moves on to the next when a
+ * call fails. The AI SDK's retries wrap the whole chain. Only failures before
+ * any output are covered; a stream that breaks halfway is not restarted.
+ */
+export function withFallback(models: LanguageModel[]): LanguageModel {
+  if (models.length === 1) return models[0];
+  const [primary] = models;
+
+  const attempt = async <T>(call: (model: LanguageModel) => PromiseLike<T>): Promise<T> => {
+    let lastError: unknown;
+    for (const model of models) {
+      try {
+        return await call(model);
+      } catch (error) {
+        if (isAbort(error)) throw error;
+        console.warn(`Model ${model.provider}:${model.modelId} failed, trying the next one:`, error);
+        lastError = error;
+      }
+    }
+    throw lastError;
+  };
+
+  return {
+    specificationVersion: 'v1',
+    provider: primary.provider,
+    modelId: primary.modelId,
+    defaultObjectGenerationMode: primary.defaultObjectGenerationMode,
+    doGenerate: (options) => attempt((model) => model.doGenerate(options)),
+    doStream: (options) => attempt((model) => model.doStream(options)),
+  };
+}
+
+const isCloud = (id: string) => id.startsWith('openai:') || id.startsWith('anthropic:');
+
+/**
+ * Resolves a client-supplied model id (or the default when none is given) to
+ * a model that falls back on provider errors: to the `MODEL_FALLBACKS` list
+ * when set, otherwise from one cloud model to the other configured cloud
+ * models. Local and fake models don't fall back by default, so text meant for
+ * a local model never ends up at a cloud provider unasked. Throws
+ * `UnknownModelError` for ids that aren't available here.
+ */
+export function resolveModel(requested?: string): LanguageModel {
+  const available = listModels().map((option) => option.id);
+  const id = requested || getDefaultModelId();
+  if (!id || !available.includes(id)) throw new UnknownModelError(id ?? '(none configured)');
+
+  const configured = list(process.env.MODEL_FALLBACKS);
+  const candidates = configured.length ? configured : isCloud(id) ? available.filter(isCloud) : [];
+  const fallbacks = candidates.filter((other) => other !== id && available.includes(other));
+  return withFallback([id, ...fallbacks].map(createModel));
+}
\ No newline at end of file
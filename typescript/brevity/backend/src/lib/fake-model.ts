@@ -0,0 +1,62 @@
+import { LanguageModel } from 'ai';
+
+type CallOptions = Parameters<LanguageModel['doGenerate']>[0];
+type StreamPart = Awaited<ReturnType<LanguageModel['doStream']>>['stream'] extends ReadableStream<infer T> ? T : never;
+
+export interface FakeModelOptions {
+  // How many words of the prompt to echo back.
+  maxWords?: number;
+}
+
+// Echoes the start of the last user message, so output depends only on input.
+const fakeReply = (modelId: string, maxWords: number, { prompt }: CallOptions) => {
+  const lastUser = [...prompt].reverse().find((message) => message.role === 'user');
+  const text =
+    lastUser?.role === 'user'
+      ? lastUser.content.map((part) => (part.type === 'text' ? part.text : '')).join(' ')
+      : '';
+  const words = text.replace(/^Please \w+ the following text:\s*/, '').split(/\s+/).filter(Boolean);
+  return `[${modelId}] ${words.slice(0, maxWords).join(' ')}${words.length > maxWords ? '…' : ''}`;
+};
+
+const usage = (options: CallOptions, text: string) => ({
+  promptTokens: JSON.stringify(options.prompt).length,
+  completionTokens: text.length,
+});
+
+/**
+ * A deterministic, offline language model for tests and local development:
+ * no API key, no network, and the same input always yields the same output.
+ */
+export function createFakeModel(modelId = 'echo', { maxWords = 40 }: FakeModelOptions = {}): LanguageModel {
+  return {
+    specificationVersion: 'v1',
+    provider: 'fake',
+    modelId,
+    defaultObjectGenerationMode: undefined,
+
+    async doGenerate(options) {
+      const text = fakeReply(modelId, maxWords, options);
+      return {
+        text,
+        finishReason: 'stop',
+        usage: usage(options, text),
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+      };
+    },
+
+    async doStream(options) {
+      const text = fakeReply(modelId, maxWords, options);
+      const stream = new ReadableStream<StreamPart>({
+        start(controller) {
+          for (const word of text.split(/(?<= )/)) {
+            controller.enqueue({ type: 'text-delta', textDelta: word });
+          }
+          controller.enqueue({ type: 'finish', finishReason: 'stop', usage: usage(options, text) });
+          controller.close();
+        },
+      });
+      return { stream, rawCall: { rawPrompt: options.prompt, rawSettings: {} } };
+    },
+  };
+}
\ No newline at end of file
@@ -0,0 +1,95 @@
+import { LanguageModel } from 'ai';
+import * as ai from '../../lib/ai';
+import { createFakeModel } from '../../lib/fake-model';
+import { getHistoryStore } from '../../history/store';
+import { postJson, startServer, TestServer } from '../../testing/server';
+
+type StreamPart = Awaited<ReturnType<LanguageModel['doStream']>>['stream'] extends ReadableStream<infer T> ? T : never;
+
+// A model whose stream sends `parts` and then, unless `open`, closes.
+const streamingModel = (parts: StreamPart[], { open = false } = {}): LanguageModel => ({
+  ...createFakeModel(),
+  doStream: async ({ abortSignal, prompt }) => ({
+    stream: new ReadableStream<StreamPart>({
+      start(controller) {
+        parts.forEach((part) => controller.enqueue(part));
+        if (!open) return controller.close();
+        abortSignal?.addEventListener('abort', () => controller.error(abortSignal.reason));
+      },
+    }),
+    rawCall: { rawPrompt: prompt, rawSettings: {} },
+  }),
+});
+
+// Polls until the history item is no longer pending.
+const settled = async (id: number) => {
+  for (let i = 0; i < 100; i++) {
+    const item = getHistoryStore().get(id);
+    if (item?.status !== 'pending') return item;
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  return getHistoryStore().get(id);
+};
+
+describe('POST /api/rewrite', () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    server = await startServer();
+  });
+
+  afterAll(() => server.close());
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('streams the rewrite and records it as complete', async () => {
+    const res = await postJson(`${server.url}/api/rewrite`, { text: 'hey, can u send it', tone: 'casual' });
+
+    expect(res.status).toBe(200);
+    const text = await res.text();
+    expect(text).toBe('[echo] hey, can u send it');
+
+    const item = getHistoryStore().get(Number(res.headers.get('x-history-id')));
+    expect(item).toMatchObject({ kind: 'rewrite', status: 'complete', output: text, params: { tone: 'casual' }, model: 'fake:echo' });
+  });
+
+  it('rejects an unknown model with a 400', async () => {
+    const res = await postJson(`${server.url}/api/rewrite`, { text: 'Hello.', model: 'openai:gpt-4o' });
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error: 'Unknown or unavailable model: openai:gpt-4o' });
+  });
+
+  it('marks the item failed when the stream breaks halfway', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(ai, 'resolveModel').mockReturnValue(
+      streamingModel([
+        { type: 'text-delta', textDelta: 'Dear ' },
+        { type: 'error', error: new Error('provider went away') },
+      ]),
+    );
+
+    const res = await postJson(`${server.url}/api/rewrite`, { text: 'hey' });
+
+    expect(await res.text()).toBe('Dear ');
+    const item = await settled(Number(res.headers.get('x-history-id')));
+    expect(item).toMatchObject({ status: 'failed', output: 'Dear ' });
+    expect(console.error).toHaveBeenCalledWith('Error in rewrite endpoint:', expect.any(Error));
+  });
+
+  it('stops the model and marks the item failed when the client disconnects', async () => {
+    const model = streamingModel([{ type: 'text-delta', textDelta: 'Dear ' }], { open: true });
+    const stream = jest.spyOn(model, 'doStream');
+    jest.spyOn(ai, 'resolveModel').mockReturnValue(model);
+
+    const client = new AbortController();
+    const res = await postJson(`${server.url}/api/rewrite`, { text: 'hey' }, { signal: client.signal });
+    const id = Number(res.headers.get('x-history-id'));
+    const { value } = await res.body!.getReader().read();
+    expect(new TextDecoder().decode(value)).toBe('Dear ');
+
+    client.abort();
+    expect(await settled(id)).toMatchObject({ status: 'failed', output: 'Dear ' });
+    expect(stream.mock.calls[0][0].abortSignal?.aborted).toBe(true);
+  });
+});
\ No newline at end of file
@@ -1,9 +1,10 @@
 import { Router } from 'express';
 import { streamText } from 'ai';
-import { model } from '../../lib/ai';
+import { getDefaultModelId, resolveModel, UnknownModelError } from '../../lib/ai';
+import { getHistoryStore } from '../../history/store';
 import { RewriteRequest } from '../types';
 
-export const rewriteRouter = Router();
+export const rewriteRouter: Router = Router();
 
 const getToneInstruction = (tone: string) => {
   switch (tone) {
@@ -19,17 +20,32 @@ const getToneInstruction = (tone: string) => {
 };
 
 rewriteRouter.post('/rewrite', async (req, res) => {
+  const abortController = new AbortController();
+  let historyId: number | undefined;
+  let rewritten = '';
+  // Stop generating if the client goes away.
+  res.on('close', () => abortController.abort());
+
   try {
-    const { text, tone = 'professional' }: RewriteRequest = req.body;
+    const { text, tone = 'professional', model: modelId }: RewriteRequest = req.body;
 
     if (!text || text.trim().length === 0) {
       return res.status(400).json({ error: 'Text is required' });
     }
 
+    const model = resolveModel(modelId);
+
     const toneInstruction = getToneInstruction(tone);
-    
+    historyId = getHistoryStore().create({
+      kind: 'rewrite',
+      input: text,
+      params: { tone },
+      model: modelId || getDefaultModelId(),
+    });
+
     const result = await streamText({
       model,
+      abortSignal: abortController.signal,
       messages: [
         {
           role: 'system',
@@ -44,20 +60,35 @@ rewriteRouter.post('/rewrite', async (req, res) => {
 
     // Set headers for streaming response
     res.writeHead(200, {
-      'Content-Type': 'text/plain',
+      'Content-Type': 'text/plain; charset=utf-8',
       'Cache-Control': 'no-cache',
       'Connection': 'keep-alive',
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
       'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Expose-Headers': 'X-History-Id',
+      'X-History-Id': String(historyId),
     });
 
     // Stream the response
-    result.pipeTextStreamToResponse(res);
+    for await (const delta of result.textStream) {
+      rewritten += delta;
+      res.write(delta);
+    }
+    getHistoryStore().finish(historyId, rewritten);
+    res.end();
   } catch (error) {
+    if (error instanceof UnknownModelError) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (historyId !== undefined) {
+      getHistoryStore().finish(historyId, rewritten, 'failed');
+    }
+    if (abortController.signal.aborted) return;
     console.error('Error in rewrite endpoint:', error);
     if (!res.headersSent) {
-      res.status(500).json({ error: 'Internal server error' });
+      return res.status(500).json({ error: 'Internal server error' });
     }
+    res.end();
   }
 });
\ No newline at end of file
@@ -1,6 +1,8 @@
 export interface RewriteRequest {
   text: string;
   tone: 'professional' | 'casual' | 'confident';
+  // A model id from GET /api/models; the server default when omitted.
+  model?: string;
 }
 
 export interface RewriteResponse {
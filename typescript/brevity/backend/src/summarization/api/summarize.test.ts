@@ -0,0 +1,93 @@
+import { LanguageModel, parseStreamPart } from 'ai';
+import * as ai from '../../lib/ai';
+import { createFakeModel } from '../../lib/fake-model';
+import { getHistoryStore } from '../../history/store';
+import { postJson, startServer, TestServer } from '../../testing/server';
+
+// Three sections of ~4.5k tokens each go through map and reduce.
+const longText = ['alpha', 'beta', 'gamma'].map((word) => `# ${word}\n\n${`${word} `.repeat(18000 / word.length)}`).join('\n\n');
+
+// Splits an AI SDK data stream body into its progress events and text.
+const readDataStream = (body: string) => {
+  const progress: unknown[] = [];
+  let text = '';
+  for (const line of body.split('\n').filter(Boolean)) {
+    const part = parseStreamPart(line);
+    if (part.type === 'data') progress.push(...part.value);
+    if (part.type === 'text') text += part.value;
+  }
+  return { progress, text };
+};
+
+describe('POST /api/summarize', () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    server = await startServer();
+  });
+
+  afterAll(() => server.close());
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('streams progress events, then the summary', async () => {
+    const res = await postJson(`${server.url}/api/summarize`, { text: longText, length: 'short', model: 'fake:echo' });
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('x-vercel-ai-data-stream')).toBe('v1');
+    const { progress, text } = readDataStream(await res.text());
+    expect(progress).toEqual([
+      { type: 'progress', stage: 'map', completed: 0, total: 3 },
+      { type: 'progress', stage: 'map', completed: 1, total: 3 },
+      { type: 'progress', stage: 'map', completed: 2, total: 3 },
+      { type: 'progress', stage: 'map', completed: 3, total: 3 },
+      { type: 'progress', stage: 'reduce', completed: 0, total: 1 },
+    ]);
+    expect(text).toMatch(/^\[echo\] Please summarize the document from these part summaries: Part 1:/);
+
+    const item = getHistoryStore().get(Number(res.headers.get('x-history-id')));
+    expect(item).toMatchObject({ kind: 'summarize', status: 'complete', output: text, params: { length: 'short' } });
+  });
+
+  it('rejects an unknown model before streaming', async () => {
+    const res = await postJson(`${server.url}/api/summarize`, { text: 'Hello.', model: 'nope:model' });
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error: expect.stringContaining('nope:model') });
+  });
+
+  it('rejects empty text', async () => {
+    const res = await postJson(`${server.url}/api/summarize`, { text: '   ' });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('aborts the model calls when the client disconnects', async () => {
+    let sawAbort!: () => void;
+    const aborted = new Promise<void>((resolve) => (sawAbort = resolve));
+    // Never answers until the request is aborted.
+    const hanging: LanguageModel = {
+      ...createFakeModel(),
+      doGenerate: ({ abortSignal }) =>
+        new Promise((_, reject) => {
+          abortSignal?.addEventListener('abort', () => {
+            sawAbort();
+            reject(abortSignal.reason);
+          });
+        }),
+    };
+    jest.spyOn(ai, 'resolveModel').mockReturnValue(hanging);
+
+    const client = new AbortController();
+    const res = await postJson(`${server.url}/api/summarize`, { text: longText }, { signal: client.signal });
+    const id = Number(res.headers.get('x-history-id'));
+    const reader = res.body!.getReader();
+    const { value } = await reader.read();
+    expect(readDataStream(new TextDecoder().decode(value)).progress[0]).toMatchObject({ stage: 'map', completed: 0 });
+
+    client.abort();
+    await aborted;
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(getHistoryStore().get(id)).toMatchObject({ status: 'failed', output: '' });
+  });
+});
\ No newline at end of file
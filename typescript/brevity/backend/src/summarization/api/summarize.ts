@@ -1,63 +1,76 @@
 import { Router } from 'express';
-import { streamText } from 'ai';
-import { model } from '../../lib/ai';
+import { formatStreamPart } from 'ai';
+import { getDefaultModelId, resolveModel, UnknownModelError } from '../../lib/ai';
+import { getHistoryStore } from '../../history/store';
+import { summarizeDocument } from '../map-reduce';
 import { SummarizeRequest } from '../types';
 
-export const summarizeRouter = Router();
-
-const getLengthInstruction = (length: string) => {
-  switch (length) {
-    case 'short':
-      return 'Provide a very brief summary in 2-3 sentences.';
-    case 'medium':
-      return 'Provide a comprehensive summary in 1-2 paragraphs.';
-    case 'detailed':
-      return 'Provide a detailed summary covering all key points in 3-4 paragraphs.';
-    default:
-      return 'Provide a comprehensive summary in 1-2 paragraphs.';
-  }
-};
+export const summarizeRouter: Router = Router();
 
 summarizeRouter.post('/summarize', async (req, res) => {
+  const abortController = new AbortController();
+  let historyId: number | undefined;
+  let summary = '';
+  // Stop calling the model for the remaining chunks if the client goes away.
+  res.on('close', () => abortController.abort());
+
   try {
-    const { text, length = 'medium' }: SummarizeRequest = req.body;
+    const { text, length = 'medium', model: modelId }: SummarizeRequest = req.body;
 
     if (!text || text.trim().length === 0) {
       return res.status(400).json({ error: 'Text is required' });
     }
 
-    const lengthInstruction = getLengthInstruction(length);
-    
-    const result = await streamText({
-      model,
-      messages: [
-        {
-          role: 'system',
-          content: `You are an expert content summarizer. ${lengthInstruction} Focus on capturing the main ideas, key points, and essential information while maintaining clarity and coherence.`
-        },
-        {
-          role: 'user',
-          content: `Please summarize the following text:\n\n${text}`
-        }
-      ],
+    const model = resolveModel(modelId);
+    historyId = getHistoryStore().create({
+      kind: 'summarize',
+      input: text,
+      params: { length },
+      model: modelId || getDefaultModelId(),
     });
 
-    // Set headers for streaming response
+    // Set headers for streaming response. This uses the AI SDK data stream
+    // protocol so progress can travel alongside the summary text.
     res.writeHead(200, {
-      'Content-Type': 'text/plain',
+      'Content-Type': 'text/plain; charset=utf-8',
+      'X-Vercel-AI-Data-Stream': 'v1',
       'Cache-Control': 'no-cache',
       'Connection': 'keep-alive',
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
       'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Expose-Headers': 'X-History-Id',
+      'X-History-Id': String(historyId),
+    });
+
+    const result = await summarizeDocument({
+      model,
+      text,
+      length,
+      abortSignal: abortController.signal,
+      onProgress: (progress) => res.write(formatStreamPart('data', [{ type: 'progress', ...progress }])),
     });
 
     // Stream the response
-    result.pipeTextStreamToResponse(res);
+    for await (const delta of result.textStream) {
+      summary += delta;
+      res.write(formatStreamPart('text', delta));
+    }
+    getHistoryStore().finish(historyId, summary);
+    res.end();
   } catch (error) {
+    if (error instanceof UnknownModelError) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (historyId !== undefined) {
+      getHistoryStore().finish(historyId, summary, 'failed');
+    }
+    if (abortController.signal.aborted) return;
     console.error('Error in summarize endpoint:', error);
     if (!res.headersSent) {
-      res.status(500).json({ error: 'Internal server error' });
+      return res.status(500).json({ error: 'Internal server error' });
     }
+    // Completion clients ignore error parts, so report it as data instead.
+    res.end(formatStreamPart('data', [{ type: 'error', message: 'Failed to summarize the text' }]));
   }
 });
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { chunkText, estimateTokens } from './chunking';
+
+const paragraph = (label: string, words: number) =>
+  Array.from({ length: words }, (_, i) => `${label}${i}`).join(' ') + '.';
+
+describe('chunkText', () => {
+  it('keeps a short text in one chunk', () => {
+    const chunks = chunkText('First paragraph.\n\nSecond paragraph.', 100);
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].text).toBe('First paragraph.\n\nSecond paragraph.');
+  });
+
+  it('splits between paragraphs and never inside one that fits', () => {
+    const paragraphs = ['a', 'b', 'c', 'd', 'e'].map((label) => paragraph(label, 30));
+    const chunks = chunkText(paragraphs.join('\n\n'), 100);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.tokens).toBeLessThanOrEqual(100);
+      for (const block of chunk.text.split('\n\n')) expect(paragraphs).toContain(block);
+    }
+    expect(chunks.map((chunk) => chunk.text).join('\n\n')).toBe(paragraphs.join('\n\n'));
+    expect(chunks.map((chunk) => chunk.index)).toEqual(chunks.map((_, i) => i));
+  });
+
+  it('starts a new chunk at a heading once the current one is half full', () => {
+    const text = ['# Intro', paragraph('i', 80), '# Methods', paragraph('m', 10), '## Results', paragraph('r', 10)].join(
+      '\n\n',
+    );
+    const chunks = chunkText(text, 120);
+
+    expect(chunks.map((chunk) => chunk.text.split('\n\n')[0])).toEqual(['# Intro', '# Methods']);
+    expect(chunks.map((chunk) => chunk.heading)).toEqual(['Intro', 'Methods']);
+    // Results was small enough to stay with Methods.
+    expect(chunks[1].text).toContain('## Results');
+  });
+
+  it('recognizes numbered and all-caps headings from PDF text', () => {
+    const text = [paragraph('a', 60), '2.1 Results', paragraph('b', 60), 'DISCUSSION', paragraph('c', 60)].join('\n\n');
+    const chunks = chunkText(text, 100);
+
+    expect(chunks.map((chunk) => chunk.heading)).toEqual([undefined, '2.1 Results', 'DISCUSSION']);
+  });
+
+  it('splits a single paragraph larger than the budget by sentence', () => {
+    const sentences = Array.from({ length: 200 }, (_, i) => `Sentence number ${i} says something.`);
+    const chunks = chunkText(sentences.join(' '), 50);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(estimateTokens(chunk.text)).toBeLessThanOrEqual(50);
+      expect(chunk.text).toMatch(/^Sentence number \d+ says something\./);
+    }
+    expect(chunks.map((chunk) => chunk.text).join(' ')).toBe(sentences.join(' '));
+  });
+
+  it('falls back to fixed-size pieces for text without sentence breaks', () => {
+    const runOn = 'x'.repeat(1000);
+    const chunks = chunkText(runOn, 50);
+
+    expect(chunks.map((chunk) => chunk.text.length)).toEqual([200, 200, 200, 200, 200]);
+    expect(chunks.map((chunk) => chunk.text).join('')).toBe(runOn);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,94 @@
+export interface TextChunk {
+  index: number;
+  text: string;
+  // Nearest heading above the chunk, so partial summaries keep their context.
+  heading?: string;
+  tokens: number;
+}
+
+// Roughly 4 characters per token for English text. Close enough to budget
+// prompts without shipping a tokenizer for every provider.
+const CHARS_PER_TOKEN = 4;
+
+export const estimateTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+// Markdown headings, numbered section titles ("2.1 Results") and short
+// all-caps lines, which is how headings survive PDF text extraction.
+const isHeading = (block: string) => {
+  if (block.includes('\n')) return false;
+  const line = block.trim();
+  return (
+    /^#{1,6}\s+\S/.test(line) ||
+    /^\d+(\.\d+)*\.?\s+[A-Z][^.!?]{0,80}$/.test(line) ||
+    (line.length <= 80 && /[A-Z]/.test(line) && line === line.toUpperCase() && !/[.!?,;]$/.test(line))
+  );
+};
+
+// Breaks a block that is too big on its own: by line, then sentence, then
+// (for the odd giant run-on) by characters.
+const splitOversized = (block: string, maxTokens: number): string[] => {
+  if (estimateTokens(block) <= maxTokens) return [block];
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  const units = block.includes('\n') ? block.split('\n') : block.split(/(?<=[.!?])\s+/);
+  if (units.length === 1) {
+    const pieces: string[] = [];
+    for (let i = 0; i < block.length; i += maxChars) pieces.push(block.slice(i, i + maxChars));
+    return pieces;
+  }
+
+  const pieces: string[] = [];
+  let current = '';
+  for (const unit of units.flatMap((u) => splitOversized(u, maxTokens))) {
+    if (current && estimateTokens(current) + estimateTokens(unit) + 1 > maxTokens) {
+      pieces.push(current);
+      current = '';
+    }
+    current = current ? `${current}${block.includes('\n') ? '\n' : ' '}${unit}` : unit;
+  }
+  if (current) pieces.push(current);
+  return pieces;
+};
+
+/**
+ * Splits text into chunks of at most `maxTokens` (estimated), keeping
+ * paragraphs whole where possible and starting a new chunk at a heading once
+ * the current one is reasonably full.
+ */
+export function chunkText(text: string, maxTokens: number): TextChunk[] {
+  const blocks = text
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/)
+    .map((b) => b.trim())
+    .filter(Boolean);
+
+  const chunks: TextChunk[] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+  let heading: string | undefined;
+  let chunkHeading: string | undefined;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    const body = current.join('\n\n');
+    chunks.push({ index: chunks.length, text: body, heading: chunkHeading, tokens: estimateTokens(body) });
+    current = [];
+    currentTokens = 0;
+  };
+
+  for (const block of blocks) {
+    if (isHeading(block)) {
+      // Don't leave a section's heading stranded at the end of a chunk.
+      if (currentTokens >= maxTokens / 2) flush();
+      heading = block.replace(/^#+\s*/, '');
+    }
+    for (const piece of splitOversized(block, maxTokens)) {
+      const tokens = estimateTokens(piece);
+      if (currentTokens + tokens > maxTokens) flush();
+      if (current.length === 0) chunkHeading = heading;
+      current.push(piece);
+      currentTokens += tokens + 1;
+    }
+  }
+  flush();
+  return chunks;
+}
@@ -0,0 +1,102 @@
+import { LanguageModel } from 'ai';
+import { createFakeModel } from '../lib/fake-model';
+import { getLengthInstruction, summarizeDocument } from './map-reduce';
+import { SummarizeProgress, SummaryLength } from './types';
+
+// `sections` sections of `words` words each; 1000 words is about 2000 tokens.
+const longDocument = (sections: number, words: number) =>
+  Array.from(
+    { length: sections },
+    (_, s) => `# Section ${s + 1}\n\n${Array.from({ length: words }, (_, w) => `s${s}w${w}`).join(' ')}.`,
+  ).join('\n\n');
+
+const spyOnModel = (model: LanguageModel) => ({
+  model,
+  generate: jest.spyOn(model, 'doGenerate'),
+  stream: jest.spyOn(model, 'doStream'),
+});
+
+const systemPrompt = (call: Parameters<LanguageModel['doStream']>[0]) => {
+  const system = call.prompt.find((message) => message.role === 'system');
+  return system?.role === 'system' ? system.content : '';
+};
+
+const run = async (model: LanguageModel, text: string, length: SummaryLength = 'medium') => {
+  const progress: SummarizeProgress[] = [];
+  const result = await summarizeDocument({ model, text, length, onProgress: (event) => progress.push(event) });
+  let summary = '';
+  for await (const delta of result.textStream) summary += delta;
+  return { progress, summary };
+};
+
+describe('summarizeDocument', () => {
+  it('summarizes a short text in a single streamed pass', async () => {
+    const { model, generate, stream } = spyOnModel(createFakeModel());
+    const { progress, summary } = await run(model, 'A short note about the weather.');
+
+    expect(summary).toBe('[echo] A short note about the weather.');
+    expect(progress).toEqual([{ stage: 'reduce', completed: 0, total: 1 }]);
+    expect(generate).not.toHaveBeenCalled();
+    expect(stream).toHaveBeenCalledTimes(1);
+  });
+
+  it('maps every chunk, then reduces the part summaries', async () => {
+    const { model, generate, stream } = spyOnModel(createFakeModel());
+    // Four sections of ~4k tokens: too long for one pass, one chunk each.
+    const { progress, summary } = await run(model, longDocument(4, 2000));
+
+    expect(generate).toHaveBeenCalledTimes(4);
+    expect(progress).toEqual([
+      { stage: 'map', completed: 0, total: 4 },
+      { stage: 'map', completed: 1, total: 4 },
+      { stage: 'map', completed: 2, total: 4 },
+      { stage: 'map', completed: 3, total: 4 },
+      { stage: 'map', completed: 4, total: 4 },
+      { stage: 'reduce', completed: 0, total: 1 },
+    ]);
+    // Each chunk went out with its section heading.
+    const mapPrompts = generate.mock.calls.map(([call]) => JSON.stringify(call.prompt));
+    expect(mapPrompts.filter((prompt) => prompt.includes('Section: Section 2'))).toHaveLength(1);
+    expect(stream).toHaveBeenCalledTimes(1);
+    expect(summary).toContain('Part 1: [echo] Section: Section 1 # Section 1 s0w0');
+  });
+
+  it.each<SummaryLength>(['short', 'medium', 'detailed'])(
+    'condenses part summaries that are still too long before the %s reduce',
+    async (length) => {
+      // Echoing 600 words makes 16 part summaries of ~1100 tokens: more than
+      // one prompt's worth, so they are condensed in four groups first.
+      const { model, generate, stream } = spyOnModel(createFakeModel('echo', { maxWords: 600 }));
+      const { progress } = await run(model, longDocument(16, 2500), length);
+
+      const stages = progress.map((event) => event.stage);
+      expect(stages.filter((stage) => stage === 'map')).toHaveLength(17);
+      const collapse = progress.filter((event) => event.stage === 'collapse');
+      expect(collapse[0]).toEqual({ stage: 'collapse', completed: 0, total: 4 });
+      expect(collapse[collapse.length - 1]).toEqual({ stage: 'collapse', completed: 4, total: 4 });
+      expect(stages[stages.length - 1]).toBe('reduce');
+      expect(stages.indexOf('collapse')).toBeGreaterThan(stages.lastIndexOf('map'));
+
+      expect(generate).toHaveBeenCalledTimes(16 + 4);
+      expect(stream).toHaveBeenCalledTimes(1);
+      expect(systemPrompt(stream.mock.calls[0][0])).toContain(getLengthInstruction(length));
+    },
+  );
+
+  it('stops calling the model once aborted', async () => {
+    const { model, generate } = spyOnModel(createFakeModel());
+    const controller = new AbortController();
+    let calls = 0;
+    generate.mockImplementation(async (options) => {
+      if (++calls === 2) controller.abort();
+      options.abortSignal?.throwIfAborted();
+      return createFakeModel().doGenerate(options);
+    });
+
+    await expect(
+      summarizeDocument({ model, text: longDocument(8, 2000), length: 'short', abortSignal: controller.signal }),
+    ).rejects.toThrow();
+    // Four calls were already in flight; none started after the abort.
+    expect(generate.mock.calls.length).toBeLessThanOrEqual(4);
+  });
+});
\ No newline at end of file
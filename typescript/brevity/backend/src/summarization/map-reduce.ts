@@ -0,0 +1,136 @@
+import { generateText, streamText, LanguageModel } from 'ai';
+import { chunkText, estimateTokens } from './chunking';
+import { SummarizeProgress, SummaryLength } from './types';
+
+// Documents up to this size go to the model in one prompt, as before. Larger
+// ones are summarized chunk by chunk, then the partial summaries are combined.
+const SINGLE_PASS_TOKENS = 12000;
+const CHUNK_TOKENS = 6000;
+// Chunk summaries requested in parallel; keeps us under provider rate limits.
+const CONCURRENCY = 4;
+
+export const getLengthInstruction = (length: string) => {
+  switch (length) {
+    case 'short':
+      return 'Provide a very brief summary in 2-3 sentences.';
+    case 'medium':
+      return 'Provide a comprehensive summary in 1-2 paragraphs.';
+    case 'detailed':
+      return 'Provide a detailed summary covering all key points in 3-4 paragraphs.';
+    default:
+      return 'Provide a comprehensive summary in 1-2 paragraphs.';
+  }
+};
+
+// Uploaded documents arrive as Markdown with `[Page N]` markers (see
+// ingestion/document.ts), so summaries can say where a point comes from.
+const SUMMARIZER_ROLE =
+  'You are an expert content summarizer. Focus on capturing the main ideas, key points, and essential information while maintaining clarity and coherence. When the text has section headings or [Page N] markers, cite the section or page that key points come from.';
+
+interface SummarizeDocumentOptions {
+  model: LanguageModel;
+  text: string;
+  length: SummaryLength;
+  onProgress?: (progress: SummarizeProgress) => void;
+  abortSignal?: AbortSignal;
+}
+
+// Runs `fn` over `items` with at most `limit` calls in flight, keeping order.
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Summarizes `text` of any length and returns the streaming result of the
+ * final pass. Short texts are summarized directly; long ones are split into
+ * chunks along headings and paragraphs, each chunk is summarized (map), and
+ * the chunk summaries are merged — in several rounds if they are still too
+ * long — into one summary of the requested length (reduce).
+ */
+export async function summarizeDocument({ model, text, length, onProgress, abortSignal }: SummarizeDocumentOptions) {
+  const lengthInstruction = getLengthInstruction(length);
+
+  if (estimateTokens(text) <= SINGLE_PASS_TOKENS) {
+    onProgress?.({ stage: 'reduce', completed: 0, total: 1 });
+    return streamText({
+      model,
+      abortSignal,
+      messages: [
+        { role: 'system', content: `${SUMMARIZER_ROLE} ${lengthInstruction}` },
+        { role: 'user', content: `Please summarize the following text:\n\n${text}` },
+      ],
+    });
+  }
+
+  const chunks = chunkText(text, CHUNK_TOKENS);
+  let completed = 0;
+  onProgress?.({ stage: 'map', completed, total: chunks.length });
+  let partials = await mapWithConcurrency(chunks, CONCURRENCY, async (chunk) => {
+    const { text: summary } = await generateText({
+      model,
+      abortSignal,
+      messages: [
+        {
+          role: 'system',
+          content: `${SUMMARIZER_ROLE} You are given part ${chunk.index + 1} of ${chunks.length} of a longer document. Summarize this part in detail, keeping every key point, name and figure, so it can later be combined with the summaries of the other parts.`,
+        },
+        {
+          role: 'user',
+          content: `${chunk.heading ? `Section: ${chunk.heading}\n\n` : ''}${chunk.text}`,
+        },
+      ],
+    });
+    onProgress?.({ stage: 'map', completed: ++completed, total: chunks.length });
+    return summary.trim();
+  });
+
+  // If even the summaries don't fit in one prompt, condense them in groups first.
+  while (estimateTokens(partials.join('\n\n')) > SINGLE_PASS_TOKENS) {
+    const groups = chunkText(partials.join('\n\n'), CHUNK_TOKENS);
+    if (groups.length >= partials.length) break;
+    completed = 0;
+    onProgress?.({ stage: 'collapse', completed, total: groups.length });
+    partials = await mapWithConcurrency(groups, CONCURRENCY, async (group) => {
+      const { text: summary } = await generateText({
+        model,
+        abortSignal,
+        messages: [
+          {
+            role: 'system',
+            content: `${SUMMARIZER_ROLE} Condense these summaries of consecutive parts of a document into one, keeping every key point.`,
+          },
+          { role: 'user', content: group.text },
+        ],
+      });
+      onProgress?.({ stage: 'collapse', completed: ++completed, total: groups.length });
+      return summary.trim();
+    });
+  }
+
+  onProgress?.({ stage: 'reduce', completed: 0, total: 1 });
+  return streamText({
+    model,
+    abortSignal,
+    messages: [
+      {
+        role: 'system',
+        content: `${SUMMARIZER_ROLE} ${lengthInstruction} You are given summaries of consecutive parts of one document, in order. Combine them into a single summary of the whole document; do not summarize each part separately.`,
+      },
+      {
+        role: 'user',
+        content: `Please summarize the document from these part summaries:\n\n${partials
+          .map((p, i) => `Part ${i + 1}:\n${p}`)
+          .join('\n\n')}`,
+      },
+    ],
+  });
+}
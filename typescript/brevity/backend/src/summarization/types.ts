@@ -1,8 +1,21 @@
+export type SummaryLength = 'short' | 'medium' | 'detailed';
+
 export interface SummarizeRequest {
   text: string;
-  length: 'short' | 'medium' | 'detailed';
+  length: SummaryLength;
+  // A model id from GET /api/models; the server default when omitted.
+  model?: string;
 }
 
 export interface SummarizeResponse {
   summary: string;
+}
+
+// Sent to the client as data parts while a long document is summarized:
+// `map` covers the per-chunk summaries, `collapse` any extra rounds needed to
+// shrink them, and `reduce` the final, streamed summary.
+export interface SummarizeProgress {
+  stage: 'map' | 'collapse' | 'reduce';
+  completed: number;
+  total: number;
 }
\ No newline at end of file
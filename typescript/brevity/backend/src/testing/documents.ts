@@ -0,0 +1,150 @@
+import JSZip from 'jszip';
+
+// Small, valid documents built in memory, so extractor tests need no binary
+// fixtures checked in.
+
+const zip = (files: Record<string, string>) => {
+  const archive = new JSZip();
+  for (const [name, content] of Object.entries(files)) archive.file(name, content);
+  return archive.generateAsync({ type: 'nodebuffer' });
+};
+
+/**
+ * Adds `bytes` of zeros to a DOCX or EPUB. They deflate to about a
+ * thousandth of that, like a zip bomb.
+ */
+export async function padZip(archive: Buffer, bytes: number): Promise<Buffer> {
+  const padded = await JSZip.loadAsync(archive);
+  padded.file('padding.bin', Buffer.alloc(bytes));
+  return padded.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+const escapeXml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export type DocxParagraph = { text: string; style?: string } | { text: string; list: 'bullet' | 'number'; level?: number };
+
+const W = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+/** A DOCX with Heading1-3 styles and one bulleted and one numbered list. */
+export function buildDocx(paragraphs: DocxParagraph[]): Promise<Buffer> {
+  const body = paragraphs
+    .map((paragraph) => {
+      const props =
+        'list' in paragraph
+          ? `<w:numPr><w:ilvl w:val="${paragraph.level ?? 0}"/><w:numId w:val="${paragraph.list === 'bullet' ? 1 : 2}"/></w:numPr>`
+          : paragraph.style
+            ? `<w:pStyle w:val="${paragraph.style}"/>`
+            : '';
+      return `<w:p><w:pPr>${props}</w:pPr><w:r><w:t xml:space="preserve">${escapeXml(paragraph.text)}</w:t></w:r></w:p>`;
+    })
+    .join('');
+  const headingStyles = [1, 2, 3]
+    .map((level) => `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/></w:style>`)
+    .join('');
+  const abstractNum = (id: number, format: string) =>
+    `<w:abstractNum w:abstractNumId="${id}">${[0, 1]
+      .map((level) => `<w:lvl w:ilvl="${level}"><w:numFmt w:val="${format}"/></w:lvl>`)
+      .join('')}</w:abstractNum>`;
+
+  return zip({
+    '[Content_Types].xml': `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+</Types>`,
+    '_rels/.rels': `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`,
+    'word/_rels/document.xml.rels': `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+  <Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>
+</Relationships>`,
+    'word/document.xml': `<?xml version="1.0" encoding="UTF-8"?><w:document xmlns:w="${W}"><w:body>${body}</w:body></w:document>`,
+    'word/styles.xml': `<?xml version="1.0" encoding="UTF-8"?><w:styles xmlns:w="${W}">${headingStyles}</w:styles>`,
+    'word/numbering.xml': `<?xml version="1.0" encoding="UTF-8"?><w:numbering xmlns:w="${W}">${abstractNum(1, 'bullet')}${abstractNum(2, 'decimal')}<w:num w:numId="1"><w:abstractNumId w:val="1"/></w:num><w:num w:numId="2"><w:abstractNumId w:val="2"/></w:num></w:numbering>`,
+  });
+}
+
+export interface EpubChapter {
+  // Path inside the package directory, e.g. `text/ch1.xhtml`.
+  href: string;
+  body: string;
+}
+
+/**
+ * An EPUB whose manifest lists `chapters` in the given order and whose spine
+ * reads them in `spine` order (chapter hrefs).
+ */
+export function buildEpub(title: string, chapters: EpubChapter[], spine = chapters.map((chapter) => chapter.href)): Promise<Buffer> {
+  const id = (href: string) => `item-${chapters.findIndex((chapter) => chapter.href === href)}`;
+  const files: Record<string, string> = {
+    mimetype: 'application/epub+zip',
+    'META-INF/container.xml': `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles>
+</container>`,
+    'OEBPS/content.opf': `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/"><dc:title>${escapeXml(title)}</dc:title></metadata>
+  <manifest>${chapters.map((chapter) => `<item id="${id(chapter.href)}" href="${chapter.href}" media-type="application/xhtml+xml"/>`).join('')}</manifest>
+  <spine>${spine.map((href) => `<itemref idref="${id(href)}"/>`).join('')}</spine>
+</package>`,
+  };
+  for (const chapter of chapters) {
+    files[`OEBPS/${chapter.href}`] = `<?xml version="1.0" encoding="UTF-8"?>
+<html xmlns="http://www.w3.org/1999/xhtml"><head><title>${chapter.href}</title></head><body>${chapter.body}</body></html>`;
+  }
+  return zip(files);
+}
+
+export interface PdfLineSpec {
+  text: string;
+  // Font size in points; 11 when omitted.
+  size?: number;
+}
+
+// pdf.js copies Buffers under 4KB out of Node's shared pool and then loses
+// their offset, so the file is padded past that with a comment.
+const PDF_PADDING = `%${'-'.repeat(4096)}\n`;
+
+/**
+ * A PDF with one page per entry, each line set in Helvetica at its size and
+ * spaced by its height, with a correct cross-reference table.
+ */
+export function buildPdf(pages: PdfLineSpec[][]): Buffer {
+  const objects: string[] = [];
+  const add = (body: string) => objects.push(body);
+  add('<< /Type /Catalog /Pages 2 0 R >>');
+  add(''); // Page tree, filled in once the page ids are known.
+  add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>');
+
+  const pageIds: number[] = [];
+  for (const lines of pages) {
+    let y = 760;
+    const content = lines
+      .map(({ text, size = 11 }) => {
+        y -= size * 1.4;
+        return `BT /F1 ${size} Tf 72 ${y} Td (${text.replace(/[\\()]/g, '\\$&')}) Tj ET`;
+      })
+      .join('\n');
+    add(`<< /Length ${Buffer.byteLength(content)} >>\nstream\n${content}\nendstream`);
+    add(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${objects.length} 0 R >>`);
+    pageIds.push(objects.length);
+  }
+  objects[1] = `<< /Type /Pages /Kids [${pageIds.map((page) => `${page} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+  let pdf = `%PDF-1.4\n${PDF_PADDING}`;
+  const offsets = objects.map((body, index) => {
+    const offset = Buffer.byteLength(pdf);
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = Buffer.byteLength(pdf);
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf);
+}
\ No newline at end of file
@@ -0,0 +1,15 @@
+// Runs before every test file: no test may reach a real provider, whatever
+// the developer's shell exports. The fake model is on because NODE_ENV=test.
+for (const name of [
+  'OPENAI_API_KEY',
+  'OPENAI_MODELS',
+  'ANTHROPIC_API_KEY',
+  'ANTHROPIC_MODELS',
+  'LOCAL_LLM_BASE_URL',
+  'LOCAL_LLM_MODELS',
+  'DEFAULT_MODEL',
+  'MODEL_FALLBACKS',
+]) {
+  delete process.env[name];
+}
+process.env.HISTORY_DB_PATH = ':memory:';
\ No newline at end of file
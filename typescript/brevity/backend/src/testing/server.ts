@@ -0,0 +1,32 @@
+import { AddressInfo } from 'net';
+import { createApp } from '../app';
+
+export interface TestServer {
+  url: string;
+  close: () => Promise<void>;
+}
+
+// Serves the whole app on a free port; pair with `close()` in afterAll.
+export function startServer(): Promise<TestServer> {
+  return new Promise((resolve) => {
+    const server = createApp().listen(0, () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        close: () =>
+          new Promise((done) => {
+            server.closeAllConnections();
+            server.close(() => done());
+          }),
+      });
+    });
+  });
+}
+
+export const postJson = (url: string, body: unknown, init: RequestInit = {}) =>
+  fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    ...init,
+  });
\ No newline at end of file
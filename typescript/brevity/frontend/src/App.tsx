@@ -1,18 +1,43 @@
 import React, { useState } from 'react';
 import { SummarizationFeature } from './summarization/components/SummarizationFeature';
 import { RewritingFeature } from './rewriting/components/RewritingFeature';
-import { PdfUpload } from './components/PdfUpload';
+import { DocumentUpload, ExtractedDocument } from './components/DocumentUpload';
+import { ModelPicker } from './components/ModelPicker';
+import { HistoryPanel } from './history/components/HistoryPanel';
+import { HistoryItem, RestoreRequest } from './history/types';
 
 type ActiveFeature = 'summarize' | 'rewrite';
 
 function App() {
   const [activeFeature, setActiveFeature] = useState<ActiveFeature>('summarize');
-  const [inputText, setInputText] = useState('');
+  const [uploaded, setUploaded] = useState<ExtractedDocument | null>(null);
+  const [model, setModel] = useState('');
+  const [restore, setRestore] = useState<RestoreRequest | null>(null);
+  // Remounts the active feature so its form picks up a restored item or an
+  // uploaded document.
+  const [formKey, setFormKey] = useState(0);
+  const [historyVersion, setHistoryVersion] = useState(0);
 
-  const handleTextExtracted = (text: string) => {
-    setInputText(text);
+  const handleDocumentExtracted = (extracted: ExtractedDocument) => {
+    setUploaded(extracted);
+    setRestore(null);
+    setFormKey((key) => key + 1);
   };
 
+  const showFeature = (feature: ActiveFeature) => {
+    setRestore(null);
+    setActiveFeature(feature);
+  };
+
+  const openHistoryItem = (item: HistoryItem, rerun: boolean) => {
+    setRestore({ item, rerun });
+    setFormKey((key) => key + 1);
+    setActiveFeature(item.kind);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const refreshHistory = () => setHistoryVersion((version) => version + 1);
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
       <header className="bg-white shadow-sm border-b">
@@ -23,10 +48,11 @@ function App() {
               <p className="text-gray-600 mt-2">AI-powered content summarization and rewriting</p>
             </div>
             
-            <nav className="mt-4 sm:mt-0">
+            <nav className="mt-4 sm:mt-0 flex items-center gap-3">
+              <ModelPicker value={model} onChange={setModel} />
               <div className="flex space-x-1 bg-gray-100 p-1 rounded-lg">
                 <button
-                  onClick={() => setActiveFeature('summarize')}
+                  onClick={() => showFeature('summarize')}
                   className={`px-4 py-2 text-sm font-medium rounded-md transition-colors ${
                     activeFeature === 'summarize'
                       ? 'bg-white text-primary-700 shadow-sm'
@@ -36,7 +62,7 @@ function App() {
                   Summarize
                 </button>
                 <button
-                  onClick={() => setActiveFeature('rewrite')}
+                  onClick={() => showFeature('rewrite')}
                   className={`px-4 py-2 text-sm font-medium rounded-md transition-colors ${
                     activeFeature === 'rewrite'
                       ? 'bg-white text-primary-700 shadow-sm'
@@ -54,23 +80,43 @@ function App() {
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="mb-8">
           <div className="bg-white rounded-lg shadow-sm border p-6">
-            <h2 className="text-lg font-semibold text-gray-900 mb-4">Upload PDF (Optional)</h2>
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Upload a Document (Optional)</h2>
             <p className="text-gray-600 mb-4 text-sm">
-              Upload a PDF file to extract text automatically, then use the summarization or rewriting features below.
+              Upload a PDF, Word, HTML, Markdown, text or EPUB file to extract its text, headings and page numbers
+              into the summarization or rewriting form below.
             </p>
-            <PdfUpload onTextExtracted={handleTextExtracted} />
+            <DocumentUpload onDocumentExtracted={handleDocumentExtracted} />
             
-            {inputText && (
+            {uploaded && (
               <div className="mt-6 p-4 bg-blue-50 border border-blue-200 rounded-md">
-                <h3 className="text-sm font-medium text-blue-800 mb-2">Extracted Text Preview</h3>
-                <p className="text-sm text-blue-700 line-clamp-3">
-                  {inputText.substring(0, 200)}...
+                <h3 className="text-sm font-medium text-blue-800 mb-1">{uploaded.title || uploaded.filename}</h3>
+                <p className="text-xs text-blue-600 mb-2">
+                  {uploaded.format.toUpperCase()} · {uploaded.wordCount.toLocaleString()} words
+                  {uploaded.pageCount !== undefined && ` · ${uploaded.pageCount} pages`}
+                  {` · ${uploaded.sections.length} sections`}
                 </p>
+                {uploaded.sections.some((section) => section.heading) ? (
+                  <ul className="text-sm text-blue-700 space-y-0.5">
+                    {uploaded.sections
+                      .filter((section) => section.heading)
+                      .slice(0, 8)
+                      .map((section, index) => (
+                        <li key={index} className="truncate" style={{ paddingLeft: `${(section.level - 1) * 0.75}rem` }}>
+                          {section.heading}
+                          {section.page !== undefined && <span className="text-blue-500"> (p. {section.page})</span>}
+                        </li>
+                      ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-blue-700 line-clamp-3">
+                    {uploaded.text.substring(0, 200)}...
+                  </p>
+                )}
                 <button
-                  onClick={() => setInputText('')}
+                  onClick={() => setUploaded(null)}
                   className="mt-2 text-xs text-blue-600 hover:text-blue-800 underline"
                 >
-                  Clear extracted text
+                  Clear uploaded document
                 </button>
               </div>
             )}
@@ -78,8 +124,32 @@ function App() {
         </div>
 
         <div className="bg-white rounded-lg shadow-sm border p-6">
-          {activeFeature === 'summarize' && <SummarizationFeature />}
-          {activeFeature === 'rewrite' && <RewritingFeature />}
+          {activeFeature === 'summarize' && (
+            <SummarizationFeature
+              key={formKey}
+              model={model}
+              restore={restore}
+              documentText={uploaded?.text}
+              onComplete={refreshHistory}
+            />
+          )}
+          {activeFeature === 'rewrite' && (
+            <RewritingFeature
+              key={formKey}
+              model={model}
+              restore={restore}
+              documentText={uploaded?.text}
+              onComplete={refreshHistory}
+            />
+          )}
+        </div>
+
+        <div className="mt-8 bg-white rounded-lg shadow-sm border p-6">
+          <HistoryPanel
+            refreshKey={historyVersion}
+            onOpen={(item) => openHistoryItem(item, false)}
+            onRerun={(item) => openHistoryItem(item, true)}
+          />
         </div>
 
         <footer className="mt-12 text-center text-gray-500 text-sm">
@@ -1,11 +1,35 @@
 import React, { useState } from 'react';
 
-interface PdfUploadProps {
-  onTextExtracted: (text: string) => void;
+// These mirror backend/src/ingestion/types.ts; change both together.
+export type DocumentFormat = 'pdf' | 'docx' | 'html' | 'markdown' | 'text' | 'epub';
+
+export interface ExtractedSection {
+  heading: string | null;
+  level: number;
+  page?: number;
+  text: string;
+}
+
+// What POST /api/upload returns; `text` is the document as Markdown.
+export interface ExtractedDocument {
+  format: DocumentFormat;
+  filename: string;
+  title: string | null;
+  text: string;
+  sections: ExtractedSection[];
+  pageCount?: number;
+  wordCount: number;
+}
+
+// Keep in sync with the backend's ingestion/extract.ts.
+const ACCEPTED = '.pdf,.docx,.html,.htm,.xhtml,.md,.markdown,.txt,.text,.epub';
+
+interface DocumentUploadProps {
+  onDocumentExtracted: (document: ExtractedDocument) => void;
   className?: string;
 }
 
-export function PdfUpload({ onTextExtracted, className = '' }: PdfUploadProps) {
+export function DocumentUpload({ onDocumentExtracted, className = '' }: DocumentUploadProps) {
   const [isUploading, setIsUploading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -13,8 +37,9 @@ export function PdfUpload({ onTextExtracted, className = '' }: PdfUploadProps) {
     const file = event.target.files?.[0];
     if (!file) return;
 
-    if (file.type !== 'application/pdf') {
-      setError('Please select a PDF file');
+    const extension = file.name.slice(file.name.lastIndexOf('.')).toLowerCase();
+    if (!ACCEPTED.split(',').includes(extension)) {
+      setError('Please select a PDF, DOCX, HTML, Markdown, text or EPUB file');
       return;
     }
 
@@ -23,25 +48,25 @@ export function PdfUpload({ onTextExtracted, className = '' }: PdfUploadProps) {
 
     try {
       const formData = new FormData();
-      formData.append('pdf', file);
+      formData.append('file', file);
 
-      const response = await fetch('/api/upload-pdf', {
+      const response = await fetch('/api/upload', {
         method: 'POST',
         body: formData,
       });
 
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to upload PDF');
+        throw new Error(errorData.error || 'Failed to upload file');
       }
 
-      const data = await response.json();
-      onTextExtracted(data.text);
+      const data: ExtractedDocument = await response.json();
+      onDocumentExtracted(data);
       
       // Reset the input
       event.target.value = '';
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to process PDF');
+      setError(err instanceof Error ? err.message : 'Failed to process file');
     } finally {
       setIsUploading(false);
     }
@@ -51,7 +76,7 @@ export function PdfUpload({ onTextExtracted, className = '' }: PdfUploadProps) {
     <div className={className}>
       <div className="flex items-center justify-center w-full">
         <label
-          htmlFor="pdf-upload"
+          htmlFor="document-upload"
           className={`flex flex-col items-center justify-center w-full h-32 border-2 border-gray-300 border-dashed rounded-lg cursor-pointer bg-gray-50 hover:bg-gray-100 ${
             isUploading ? 'opacity-50 cursor-not-allowed' : ''
           }`}
@@ -73,21 +98,21 @@ export function PdfUpload({ onTextExtracted, className = '' }: PdfUploadProps) {
               />
             </svg>
             {isUploading ? (
-              <p className="mb-2 text-sm text-gray-500">Processing PDF...</p>
+              <p className="mb-2 text-sm text-gray-500">Processing document...</p>
             ) : (
               <>
                 <p className="mb-2 text-sm text-gray-500">
-                  <span className="font-semibold">Click to upload</span> a PDF file
+                  <span className="font-semibold">Click to upload</span> a document
                 </p>
-                <p className="text-xs text-gray-500">PDF files only (MAX. 10MB)</p>
+                <p className="text-xs text-gray-500">PDF, DOCX, HTML, Markdown, TXT or EPUB (MAX. 10MB)</p>
               </>
             )}
           </div>
           <input
-            id="pdf-upload"
+            id="document-upload"
             type="file"
             className="hidden"
-            accept=".pdf"
+            accept={ACCEPTED}
             onChange={handleFileChange}
             disabled={isUploading}
           />
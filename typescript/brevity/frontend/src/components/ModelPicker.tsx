@@ -0,0 +1,75 @@
+import React, { useEffect, useState } from 'react';
+
+export interface ModelOption {
+  id: string;
+  provider: string;
+  label: string;
+}
+
+interface ModelPickerProps {
+  value: string;
+  onChange: (modelId: string) => void;
+  className?: string;
+}
+
+export function ModelPicker({ value, onChange, className = '' }: ModelPickerProps) {
+  const [models, setModels] = useState<ModelOption[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadModels = async () => {
+      try {
+        const response = await fetch('/api/models');
+        if (!response.ok) {
+          throw new Error('Failed to load models');
+        }
+
+        const data: { models: ModelOption[]; defaultModel: string | null } = await response.json();
+        if (cancelled) return;
+        setModels(data.models);
+        // Start on the server's default unless a model was already picked.
+        if (!value && data.defaultModel) {
+          onChange(data.defaultModel);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load models');
+        }
+      }
+    };
+
+    loadModels();
+    return () => {
+      cancelled = true;
+    };
+    // Only load once; `value` and `onChange` are read for the initial pick.
+  }, []);
+
+  if (error) {
+    return <p className={`text-sm text-red-600 ${className}`}>{error}</p>;
+  }
+
+  return (
+    <div className={className}>
+      <label htmlFor="model-select" className="sr-only">
+        Model
+      </label>
+      <select
+        id="model-select"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={models.length === 0}
+        className="px-3 py-2 text-sm border border-gray-300 rounded-md shadow-sm bg-white focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+      >
+        {models.length === 0 && <option value="">No models configured</option>}
+        {models.map((model) => (
+          <option key={model.id} value={model.id}>
+            {model.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { useHistory } from '../hooks/useHistory';
+import { downloadMarkdown } from '../markdown';
+import { HistoryFilter, HistoryItem, HistorySummary } from '../types';
+
+interface HistoryPanelProps {
+  // Bump to reload the list, e.g. after a summary or rewrite finishes.
+  refreshKey: number;
+  onOpen: (item: HistoryItem) => void;
+  onRerun: (item: HistoryItem) => void;
+}
+
+const buttonClass =
+  'px-2 py-1 text-xs font-medium rounded text-gray-700 border border-gray-300 bg-white hover:bg-gray-50 disabled:opacity-50';
+
+const settingLabel = (item: HistorySummary) =>
+  item.kind === 'rewrite' ? `${item.params.tone} tone` : `${item.params.length} summary`;
+
+export function HistoryPanel({ refreshKey, onOpen, onRerun }: HistoryPanelProps) {
+  const [filter, setFilter] = useState<HistoryFilter>('all');
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const { items, hasMore, isLoading, error, loadMore, getItem, setSaved, rename, remove } = useHistory(
+    filter,
+    refreshKey,
+  );
+
+  // Open, re-run and export need the full item, which the list leaves out.
+  const withItem = (id: number, action: (item: HistoryItem) => void) => async () => {
+    setBusyId(id);
+    try {
+      action(await getItem(id));
+    } catch (err) {
+      console.error('Failed to load history item: ', err);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRename = (item: HistorySummary) => {
+    const title = window.prompt('Name this item (leave empty to clear)', item.title ?? '');
+    if (title !== null) {
+      rename(item.id, title);
+    }
+  };
+
+  const handleDelete = (item: HistorySummary) => {
+    if (window.confirm('Delete this item from your history?')) {
+      remove(item.id);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold text-gray-900">History</h2>
+        <div className="flex space-x-1 bg-gray-100 p-1 rounded-lg">
+          {(['all', 'saved'] as HistoryFilter[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => setFilter(option)}
+              className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${
+                filter === option ? 'bg-white text-primary-700 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {option === 'all' ? 'All' : 'Saved'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {items.length === 0 && !isLoading && (
+        <p className="text-gray-500 text-sm italic">
+          {filter === 'saved' ? 'Nothing saved yet.' : 'Your summaries and rewrites will be listed here.'}
+        </p>
+      )}
+
+      <ul className="divide-y divide-gray-200">
+        {items.map((item) => (
+          <li key={item.id} className="py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2 text-xs text-gray-500">
+                <span className="px-1.5 py-0.5 rounded bg-primary-50 text-primary-700 font-medium">
+                  {item.kind === 'rewrite' ? 'Rewrite' : 'Summary'}
+                </span>
+                <span>{settingLabel(item)}</span>
+                <span>{new Date(item.createdAt).toLocaleString()}</span>
+                {item.status === 'failed' && <span className="text-red-600">failed</span>}
+                {item.status === 'pending' && <span>in progress</span>}
+              </div>
+              <p className="mt-1 text-sm text-gray-900 truncate">
+                {item.saved && <span className="text-yellow-500 mr-1">★</span>}
+                {item.title || item.preview}
+              </p>
+            </div>
+            <div className="flex flex-wrap gap-1 shrink-0">
+              <button onClick={withItem(item.id, onOpen)} disabled={busyId === item.id} className={buttonClass}>
+                Open
+              </button>
+              <button onClick={withItem(item.id, onRerun)} disabled={busyId === item.id} className={buttonClass}>
+                Re-run
+              </button>
+              <button onClick={() => setSaved(item.id, !item.saved)} className={buttonClass}>
+                {item.saved ? 'Unsave' : 'Save'}
+              </button>
+              <button onClick={() => handleRename(item)} className={buttonClass}>
+                Rename
+              </button>
+              <button
+                onClick={withItem(item.id, downloadMarkdown)}
+                disabled={busyId === item.id || item.status === 'pending'}
+                className={buttonClass}
+              >
+                Export
+              </button>
+              <button onClick={() => handleDelete(item)} className={`${buttonClass} text-red-600`}>
+                Delete
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {isLoading && <p className="text-sm text-gray-500">Loading history...</p>}
+      {hasMore && !isLoading && (
+        <button onClick={loadMore} className="text-sm text-primary-600 hover:text-primary-700 underline">
+          Load more
+        </button>
+      )}
+    </div>
+  );
+}
\ No newline at end of file
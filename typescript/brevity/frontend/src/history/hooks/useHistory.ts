@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useState } from 'react';
+import { HistoryFilter, HistoryItem, HistorySummary } from '../types';
+
+const PAGE_SIZE = 50;
+
+const request = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `Request failed (${response.status})`);
+  }
+  return response.status === 204 ? (undefined as T) : response.json();
+};
+
+const patch = (id: number, body: { title?: string | null; saved?: boolean }) =>
+  request<HistoryItem>(`/api/history/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+// `refreshKey` reloads the first page whenever it changes, e.g. after a run.
+export function useHistory(filter: HistoryFilter, refreshKey = 0) {
+  const [items, setItems] = useState<HistorySummary[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(
+    async (offset: number) => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+        if (filter === 'saved') params.set('saved', 'true');
+        const data = await request<{ items: HistorySummary[] }>(`/api/history?${params}`);
+        setItems((current) => (offset === 0 ? data.items : [...current, ...data.items]));
+        setHasMore(data.items.length === PAGE_SIZE);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load history');
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [filter],
+  );
+
+  useEffect(() => {
+    load(0);
+  }, [load, refreshKey]);
+
+  const replace = (updated: HistoryItem) => {
+    setItems((current) =>
+      current
+        .map((item) => (item.id === updated.id ? { ...item, title: updated.title, saved: updated.saved } : item))
+        // Unsaving an item takes it out of the saved view.
+        .filter((item) => filter === 'all' || item.saved),
+    );
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
+  return {
+    items,
+    hasMore,
+    isLoading,
+    error,
+    loadMore: () => load(items.length),
+    getItem: (id: number) => request<HistoryItem>(`/api/history/${id}`),
+    setSaved: (id: number, saved: boolean) => run(async () => replace(await patch(id, { saved }))),
+    rename: (id: number, title: string | null) => run(async () => replace(await patch(id, { title }))),
+    remove: (id: number) =>
+      run(async () => {
+        await request<void>(`/api/history/${id}`, { method: 'DELETE' });
+        setItems((current) => current.filter((item) => item.id !== id));
+      }),
+  };
+}
\ No newline at end of file
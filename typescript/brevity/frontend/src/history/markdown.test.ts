@@ -0,0 +1,67 @@
+import { toMarkdown } from './markdown';
+
+describe('toMarkdown', () => {
+  it('renders a summary with its output before the source', () => {
+    const markdown = toMarkdown({
+      kind: 'summarize',
+      title: 'Quarterly report',
+      input: 'The long source text.',
+      params: { length: 'short' },
+      output: 'A short summary.',
+      model: 'fake:echo',
+    });
+
+    expect(markdown).toBe(
+      [
+        '# Quarterly report',
+        '_short length · fake:echo_',
+        '## Summary',
+        'A short summary.',
+        '## Source',
+        'The long source text.',
+      ].join('\n\n') + '\n',
+    );
+  });
+
+  it('renders a rewrite with the original, the rewrite and the changes', () => {
+    const markdown = toMarkdown({
+      kind: 'rewrite',
+      input: 'Please send the report soon.',
+      params: { tone: 'formal' },
+      output: 'Kindly send the report soon.',
+    });
+
+    expect(markdown).toBe(
+      [
+        '# Rewrite',
+        '_formal tone_',
+        '## Original',
+        'Please send the report soon.',
+        '## Rewrite',
+        'Kindly send the report soon.',
+        '## Changes',
+        '~~Please~~ **Kindly** send the report soon.',
+      ].join('\n\n') + '\n',
+    );
+  });
+
+  it('closes strikethrough and bold on each line so they still parse', () => {
+    const markdown = toMarkdown({
+      kind: 'rewrite',
+      input: 'Keep this.\nDrop both of\nthese lines.\nEnd.',
+      params: { tone: 'casual' },
+      output: 'Keep this.\nEnd.\nAdd two new\nlines here.',
+    });
+    const changes = markdown.split('## Changes\n\n')[1];
+
+    expect(changes).toBe(
+      'Keep this.\n~~Drop both of~~\n~~these lines.~~\nEnd.\n**Add two new**\n**lines here.**\n',
+    );
+  });
+
+  it('falls back to a default heading and leaves out missing details', () => {
+    const markdown = toMarkdown({ kind: 'summarize', input: 'In', params: { length: 'medium' }, output: 'Out' });
+
+    expect(markdown.startsWith('# Summary\n\n_medium length_\n\n')).toBe(true);
+  });
+});
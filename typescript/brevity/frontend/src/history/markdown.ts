@@ -0,0 +1,48 @@
+import { diffWords } from '../rewriting/wordDiff';
+import { HistoryItem } from './types';
+
+export type MarkdownSource = Pick<HistoryItem, 'kind' | 'input' | 'params' | 'output'> &
+  Partial<Pick<HistoryItem, 'id' | 'title' | 'model' | 'createdAt'>>;
+
+// Wraps each line of `text` in `marker`, keeping whitespace outside it so the
+// emphasis still parses.
+const mark = (text: string, marker: string) =>
+  text.replace(/[^\s](?:.*[^\s])?/g, (core) => `${marker}${core}${marker}`);
+
+const changes = (original: string, rewritten: string) =>
+  diffWords(original, rewritten)
+    .map(({ type, text }) => (type === 'removed' ? mark(text, '~~') : type === 'added' ? mark(text, '**') : text))
+    .join('');
+
+/**
+ * Renders a summary or rewrite as a Markdown document. Rewrites include a
+ * Changes section with deletions as ~~strikethrough~~ and insertions in bold.
+ */
+export function toMarkdown(source: MarkdownSource): string {
+  const isRewrite = source.kind === 'rewrite';
+  const setting = isRewrite ? `${source.params.tone} tone` : `${source.params.length} length`;
+  const heading = source.title || (isRewrite ? 'Rewrite' : 'Summary');
+  const meta = [setting, source.model, source.createdAt && new Date(source.createdAt).toLocaleString()]
+    .filter(Boolean)
+    .join(' · ');
+
+  const sections = [`# ${heading}`, `_${meta}_`];
+  if (isRewrite) {
+    sections.push('## Original', source.input, '## Rewrite', source.output);
+    sections.push('## Changes', changes(source.input, source.output));
+  } else {
+    sections.push('## Summary', source.output, '## Source', source.input);
+  }
+  return `${sections.join('\n\n')}\n`;
+}
+
+// Saves `toMarkdown(source)` through the browser's download prompt.
+export function downloadMarkdown(source: MarkdownSource) {
+  const blob = new Blob([toMarkdown(source)], { type: 'text/markdown;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `brevity-${source.kind}${source.id ? `-${source.id}` : ''}.md`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
\ No newline at end of file
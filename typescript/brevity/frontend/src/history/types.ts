@@ -0,0 +1,30 @@
+export type HistoryKind = 'summarize' | 'rewrite';
+
+export type HistoryStatus = 'pending' | 'complete' | 'failed';
+
+export interface HistoryItem {
+  id: number;
+  kind: HistoryKind;
+  input: string;
+  // `{ length }` for summaries, `{ tone }` for rewrites.
+  params: Record<string, string>;
+  model: string | null;
+  output: string;
+  status: HistoryStatus;
+  title: string | null;
+  saved: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface HistorySummary extends Omit<HistoryItem, 'input' | 'output'> {
+  preview: string;
+}
+
+export type HistoryFilter = 'all' | 'saved';
+
+// A history item being reopened in its feature; `rerun` submits it again.
+export interface RestoreRequest {
+  item: HistoryItem;
+  rerun: boolean;
+}
\ No newline at end of file
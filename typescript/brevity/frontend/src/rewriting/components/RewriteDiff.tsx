@@ -0,0 +1,47 @@
+import React, { useMemo } from 'react';
+import { diffWords } from '../wordDiff';
+
+interface RewriteDiffProps {
+  original: string;
+  rewrittenText: string;
+  tone: string;
+}
+
+// Original on the left with removed words struck through, rewrite on the
+// right with added words highlighted.
+export function RewriteDiff({ original, rewrittenText, tone }: RewriteDiffProps) {
+  const segments = useMemo(() => diffWords(original, rewrittenText), [original, rewrittenText]);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 mb-2">Original</h3>
+        <p className="p-4 border border-gray-300 rounded-md bg-gray-50 whitespace-pre-wrap text-sm text-gray-900 leading-relaxed">
+          {segments.map((segment, index) =>
+            segment.type === 'added' ? null : segment.type === 'removed' ? (
+              <del key={index} className="bg-red-100 text-red-800">
+                {segment.text}
+              </del>
+            ) : (
+              <span key={index}>{segment.text}</span>
+            ),
+          )}
+        </p>
+      </div>
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 mb-2 capitalize">{tone} rewrite</h3>
+        <p className="p-4 border border-gray-300 rounded-md bg-gray-50 whitespace-pre-wrap text-sm text-gray-900 leading-relaxed">
+          {segments.map((segment, index) =>
+            segment.type === 'removed' ? null : segment.type === 'added' ? (
+              <ins key={index} className="bg-green-100 text-green-800 no-underline">
+                {segment.text}
+              </ins>
+            ) : (
+              <span key={index}>{segment.text}</span>
+            ),
+          )}
+        </p>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
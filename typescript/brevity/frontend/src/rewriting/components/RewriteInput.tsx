@@ -4,11 +4,18 @@ import { ToneType } from '../types';
 interface RewriteInputProps {
   onRewrite: (text: string, tone: ToneType) => void;
   isLoading: boolean;
+  initialText?: string;
+  initialTone?: ToneType;
 }
 
-export function RewriteInput({ onRewrite, isLoading }: RewriteInputProps) {
-  const [text, setText] = useState('');
-  const [tone, setTone] = useState<ToneType>('professional');
+export function RewriteInput({
+  onRewrite,
+  isLoading,
+  initialText = '',
+  initialTone = 'professional',
+}: RewriteInputProps) {
+  const [text, setText] = useState(initialText);
+  const [tone, setTone] = useState<ToneType>(initialTone);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -4,9 +4,19 @@ interface RewriteOutputProps {
   rewrittenText: string;
   isLoading: boolean;
   error?: Error | null;
+  showChanges?: boolean;
+  onToggleChanges?: () => void;
+  onExport?: () => void;
 }
 
-export function RewriteOutput({ rewrittenText, isLoading, error }: RewriteOutputProps) {
+export function RewriteOutput({
+  rewrittenText,
+  isLoading,
+  error,
+  showChanges,
+  onToggleChanges,
+  onExport,
+}: RewriteOutputProps) {
   const [copied, setCopied] = useState(false);
 
   const copyToClipboard = async () => {
@@ -35,12 +45,30 @@ export function RewriteOutput({ rewrittenText, isLoading, error }: RewriteOutput
       <div className="flex items-center justify-between">
         <h3 className="text-lg font-medium text-gray-900">Rewritten Text</h3>
         {rewrittenText && !isLoading && (
-          <button
-            onClick={copyToClipboard}
-            className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
-          >
-            {copied ? 'Copied!' : 'Copy'}
-          </button>
+          <div className="flex space-x-2">
+            {onToggleChanges && (
+              <button
+                onClick={onToggleChanges}
+                className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+              >
+                {showChanges ? 'Hide changes' : 'Show changes'}
+              </button>
+            )}
+            {onExport && (
+              <button
+                onClick={onExport}
+                className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+              >
+                Export
+              </button>
+            )}
+            <button
+              onClick={copyToClipboard}
+              className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+            >
+              {copied ? 'Copied!' : 'Copy'}
+            </button>
+          </div>
         )}
       </div>
       
@@ -1,22 +1,85 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { downloadMarkdown } from '../../history/markdown';
+import { RestoreRequest } from '../../history/types';
 import { useRewrite } from '../hooks/useRewrite';
+import { ToneType } from '../types';
+import { RewriteDiff } from './RewriteDiff';
 import { RewriteInput } from './RewriteInput';
 import { RewriteOutput } from './RewriteOutput';
 
-export function RewritingFeature() {
-  const { rewrittenText, rewrite, isLoading, error } = useRewrite();
+interface RewritingFeatureProps {
+  model: string;
+  // A history item to reopen; read once when the feature mounts.
+  restore?: RestoreRequest | null;
+  // Text of an uploaded document, used to fill the form when not restoring.
+  documentText?: string;
+  onComplete?: () => void;
+}
+
+export function RewritingFeature({ model, restore, documentText, onComplete }: RewritingFeatureProps) {
+  const { rewrittenText, rewrite, restore: restoreItem, request, historyId, isLoading, error } = useRewrite(
+    model,
+    onComplete,
+  );
+  const [showChanges, setShowChanges] = useState(false);
+
+  // StrictMode mounts twice in development; don't re-run an item twice.
+  const restored = useRef(false);
+
+  useEffect(() => {
+    if (!restore || restored.current) return;
+    restored.current = true;
+    if (restore.rerun) {
+      rewrite(restore.item.input, restore.item.params.tone as ToneType);
+    } else {
+      restoreItem(restore.item);
+    }
+  }, []);
+
+  const handleExport = () => {
+    if (!request) return;
+    downloadMarkdown({
+      kind: 'rewrite',
+      id: historyId ?? undefined,
+      input: request.text,
+      params: { tone: request.tone },
+      output: rewrittenText,
+      model: request.model || null,
+    });
+  };
 
   return (
-    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-      <div>
-        <h2 className="text-xl font-semibold text-gray-900 mb-4">Input</h2>
-        <RewriteInput onRewrite={rewrite} isLoading={isLoading} />
-      </div>
-      
-      <div>
-        <h2 className="text-xl font-semibold text-gray-900 mb-4">Output</h2>
-        <RewriteOutput rewrittenText={rewrittenText} isLoading={isLoading} error={error} />
+    <div className="space-y-8">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Input</h2>
+          <RewriteInput
+            onRewrite={rewrite}
+            isLoading={isLoading}
+            initialText={restore?.item.input ?? documentText}
+            initialTone={restore?.item.params.tone as ToneType | undefined}
+          />
+        </div>
+        
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Output</h2>
+          <RewriteOutput
+            rewrittenText={rewrittenText}
+            isLoading={isLoading}
+            error={error}
+            showChanges={showChanges}
+            onToggleChanges={request ? () => setShowChanges((shown) => !shown) : undefined}
+            onExport={request ? handleExport : undefined}
+          />
+        </div>
       </div>
+
+      {showChanges && request && rewrittenText && !isLoading && (
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Changes</h2>
+          <RewriteDiff original={request.text} rewrittenText={rewrittenText} tone={request.tone} />
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
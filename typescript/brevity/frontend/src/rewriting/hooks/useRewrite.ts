@@ -1,25 +1,47 @@
+import { useState } from 'react';
 import { useCompletion } from 'ai/react';
-import { ToneType } from '../types';
+import { HistoryItem } from '../../history/types';
+import { RewriteRequest, ToneType } from '../types';
 
-export function useRewrite() {
+// `model` is an id from GET /api/models; empty means the server default.
+// `onComplete` runs after each rewrite is stored in the history.
+export function useRewrite(model = '', onComplete?: () => void) {
+  const [request, setRequest] = useState<RewriteRequest | null>(null);
+  const [historyId, setHistoryId] = useState<number | null>(null);
   const {
     completion: rewrittenText,
-    handleSubmit,
+    complete,
+    setCompletion,
     isLoading,
     error,
   } = useCompletion({
     api: '/api/rewrite',
+    // The rewrite endpoint streams plain text.
+    streamProtocol: 'text',
+    onResponse: (response) => setHistoryId(Number(response.headers.get('X-History-Id')) || null),
+    onFinish: () => onComplete?.(),
   });
 
   const rewrite = async (text: string, tone: ToneType = 'professional') => {
-    await handleSubmit(undefined, {
-      body: { text, tone },
+    setRequest({ text, tone, model });
+    await complete('', {
+      body: { text, tone, ...(model && { model }) },
     });
   };
 
+  // Shows a stored rewrite without calling the model again.
+  const restore = (item: HistoryItem) => {
+    setRequest({ text: item.input, tone: item.params.tone as ToneType, model: item.model ?? undefined });
+    setHistoryId(item.id);
+    setCompletion(item.output);
+  };
+
   return {
     rewrittenText,
     rewrite,
+    restore,
+    request,
+    historyId,
     isLoading,
     error,
   };
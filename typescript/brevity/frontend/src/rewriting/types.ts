@@ -3,6 +3,7 @@ export type ToneType = 'professional' | 'casual' | 'confident';
 export interface RewriteRequest {
   text: string;
   tone: ToneType;
+  model?: string;
 }
 
 export interface RewriteOptions {
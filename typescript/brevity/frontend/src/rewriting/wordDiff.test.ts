@@ -0,0 +1,70 @@
+import { DiffSegment, diffWords } from './wordDiff';
+
+const rebuild = (segments: DiffSegment[], skip: DiffSegment['type']) =>
+  segments
+    .filter((segment) => segment.type !== skip)
+    .map((segment) => segment.text)
+    .join('');
+
+const squash = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+describe('diffWords', () => {
+  it('marks replaced, removed and added words', () => {
+    expect(diffWords('The quick brown fox jumps', 'The slow brown fox jumps high')).toEqual([
+      { type: 'equal', text: 'The ' },
+      { type: 'removed', text: 'quick ' },
+      { type: 'added', text: 'slow ' },
+      { type: 'equal', text: 'brown fox jumps ' },
+      { type: 'added', text: 'high' },
+    ]);
+  });
+
+  it('rebuilds the revision exactly and the original up to whitespace', () => {
+    const original = 'We need to\nmove quickly,  before the\tdeadline.\n\nThanks!';
+    const revised = 'We must move   quickly before the deadline.\nThanks a lot!';
+    const segments = diffWords(original, revised);
+
+    expect(rebuild(segments, 'removed')).toBe(revised);
+    expect(squash(rebuild(segments, 'added'))).toBe(squash(original));
+  });
+
+  it('compares words without their surrounding whitespace', () => {
+    expect(diffWords('one  two\nthree', 'one two three')).toEqual([{ type: 'equal', text: 'one two three' }]);
+  });
+
+  it('handles empty texts', () => {
+    expect(diffWords('', '')).toEqual([]);
+    expect(diffWords('', 'New text')).toEqual([{ type: 'added', text: 'New text' }]);
+    expect(diffWords('Old text', '')).toEqual([{ type: 'removed', text: 'Old text' }]);
+  });
+
+  it('falls back to whole sentences for texts too long to diff by word', () => {
+    // 2,100 words a side is past the 4,000,000-cell limit, but 20 sentences are not.
+    const sentence = (i: number) => `${`word${i} `.repeat(104)}end${i}. `;
+    const originalSentences = Array.from({ length: 20 }, (_, i) => sentence(i));
+    const revisedSentences = [...originalSentences];
+    revisedSentences[7] = 'A shorter sentence. ';
+    const original = originalSentences.join('');
+    const revised = revisedSentences.join('');
+
+    const segments = diffWords(original, revised);
+
+    expect(segments).toEqual([
+      { type: 'equal', text: originalSentences.slice(0, 7).join('') },
+      { type: 'removed', text: originalSentences[7] },
+      { type: 'added', text: 'A shorter sentence. ' },
+      { type: 'equal', text: originalSentences.slice(8).join('') },
+    ]);
+    expect(rebuild(segments, 'removed')).toBe(revised);
+  });
+
+  it('replaces the whole text when even the sentences are too many', () => {
+    const original = 'Yes. '.repeat(2100);
+    const revised = 'No. '.repeat(2100);
+
+    expect(diffWords(original, revised)).toEqual([
+      { type: 'removed', text: original },
+      { type: 'added', text: revised },
+    ]);
+  });
+});
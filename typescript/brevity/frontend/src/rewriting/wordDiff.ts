@@ -0,0 +1,77 @@
+export interface DiffSegment {
+  type: 'equal' | 'removed' | 'added';
+  text: string;
+}
+
+// Above this many comparison cells the word-level table gets too big for the
+// browser, so the diff falls back to whole sentences.
+const MAX_CELLS = 4_000_000;
+
+// Each token keeps its trailing whitespace so segments rejoin into the text.
+const words = (text: string) => text.match(/\s*\S+\s*/g) ?? [];
+const sentences = (text: string) => text.match(/[^.!?\n]+(?:[.!?]+|\n+|$)\s*/g) ?? [];
+
+const push = (segments: DiffSegment[], type: DiffSegment['type'], text: string) => {
+  const last = segments[segments.length - 1];
+  if (last?.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+};
+
+// Classic longest-common-subsequence diff over tokens, compared without
+// surrounding whitespace.
+function diffTokens(a: string[], b: string[]): DiffSegment[] {
+  const n = a.length;
+  const m = b.length;
+  const key = (token: string) => token.trim();
+  const table = new Uint32Array((n + 1) * (m + 1));
+  const at = (i: number, j: number) => i * (m + 1) + j;
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[at(i, j)] =
+        key(a[i]) === key(b[j]) ? table[at(i + 1, j + 1)] + 1 : Math.max(table[at(i + 1, j)], table[at(i, j + 1)]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (key(a[i]) === key(b[j])) {
+      push(segments, 'equal', b[j]);
+      i++;
+      j++;
+    } else if (table[at(i + 1, j)] >= table[at(i, j + 1)]) {
+      push(segments, 'removed', a[i++]);
+    } else {
+      push(segments, 'added', b[j++]);
+    }
+  }
+  while (i < n) push(segments, 'removed', a[i++]);
+  while (j < m) push(segments, 'added', b[j++]);
+  return segments;
+}
+
+/**
+ * Word-level diff of `original` against `revised`. Segments of type `equal`
+ * and `added` rebuild the revision; `equal` and `removed` rebuild the original
+ * up to whitespace, since equal words keep the revision's spacing.
+ */
+export function diffWords(original: string, revised: string): DiffSegment[] {
+  let a = words(original);
+  let b = words(revised);
+  if (a.length * b.length > MAX_CELLS) {
+    a = sentences(original);
+    b = sentences(revised);
+  }
+  if (a.length * b.length > MAX_CELLS) {
+    return [
+      { type: 'removed', text: original },
+      { type: 'added', text: revised },
+    ];
+  }
+  return diffTokens(a, b);
+}
\ No newline at end of file
@@ -1,21 +1,78 @@
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
+import { downloadMarkdown } from '../../history/markdown';
+import { RestoreRequest } from '../../history/types';
 import { useSummarize } from '../hooks/useSummarize';
+import { SummaryLength } from '../types';
 import { SummarizationInput } from './SummarizationInput';
 import { SummaryOutput } from './SummaryOutput';
 
-export function SummarizationFeature() {
-  const { summary, summarize, isLoading, error } = useSummarize();
+interface SummarizationFeatureProps {
+  model: string;
+  // A history item to reopen; read once when the feature mounts.
+  restore?: RestoreRequest | null;
+  // Text of an uploaded document, used to fill the form when not restoring.
+  documentText?: string;
+  onComplete?: () => void;
+}
+
+export function SummarizationFeature({ model, restore, documentText, onComplete }: SummarizationFeatureProps) {
+  const {
+    summary,
+    summarize,
+    restore: restoreItem,
+    request,
+    historyId,
+    isLoading,
+    error,
+    progress,
+  } = useSummarize(model, onComplete);
+
+  // StrictMode mounts twice in development; don't re-run an item twice.
+  const restored = useRef(false);
+
+  useEffect(() => {
+    if (!restore || restored.current) return;
+    restored.current = true;
+    if (restore.rerun) {
+      summarize(restore.item.input, restore.item.params.length as SummaryLength);
+    } else {
+      restoreItem(restore.item);
+    }
+  }, []);
+
+  const handleExport = () => {
+    if (!request) return;
+    downloadMarkdown({
+      kind: 'summarize',
+      id: historyId ?? undefined,
+      input: request.text,
+      params: { length: request.length },
+      output: summary,
+      model: request.model || null,
+    });
+  };
 
   return (
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
       <div>
         <h2 className="text-xl font-semibold text-gray-900 mb-4">Input</h2>
-        <SummarizationInput onSummarize={summarize} isLoading={isLoading} />
+        <SummarizationInput
+          onSummarize={summarize}
+          isLoading={isLoading}
+          initialText={restore?.item.input ?? documentText}
+          initialLength={restore?.item.params.length as SummaryLength | undefined}
+        />
       </div>
       
       <div>
         <h2 className="text-xl font-semibold text-gray-900 mb-4">Output</h2>
-        <SummaryOutput summary={summary} isLoading={isLoading} error={error} />
+        <SummaryOutput
+          summary={summary}
+          isLoading={isLoading}
+          error={error}
+          progress={progress}
+          onExport={request ? handleExport : undefined}
+        />
       </div>
     </div>
   );
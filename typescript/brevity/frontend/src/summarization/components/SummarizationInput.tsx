@@ -4,11 +4,18 @@ import { SummaryLength } from '../types';
 interface SummarizationInputProps {
   onSummarize: (text: string, length: SummaryLength) => void;
   isLoading: boolean;
+  initialText?: string;
+  initialLength?: SummaryLength;
 }
 
-export function SummarizationInput({ onSummarize, isLoading }: SummarizationInputProps) {
-  const [text, setText] = useState('');
-  const [length, setLength] = useState<SummaryLength>('medium');
+export function SummarizationInput({
+  onSummarize,
+  isLoading,
+  initialText = '',
+  initialLength = 'medium',
+}: SummarizationInputProps) {
+  const [text, setText] = useState(initialText);
+  const [length, setLength] = useState<SummaryLength>(initialLength);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
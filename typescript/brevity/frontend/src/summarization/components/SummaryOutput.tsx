@@ -1,12 +1,26 @@
 import React, { useState } from 'react';
+import { SummarizeProgress } from '../types';
 
 interface SummaryOutputProps {
   summary: string;
   isLoading: boolean;
   error?: Error | null;
+  progress?: SummarizeProgress | null;
+  onExport?: () => void;
 }
 
-export function SummaryOutput({ summary, isLoading, error }: SummaryOutputProps) {
+const progressLabel = (progress?: SummarizeProgress | null) => {
+  switch (progress?.stage) {
+    case 'map':
+      return `Summarizing part ${Math.min(progress.completed + 1, progress.total)} of ${progress.total}...`;
+    case 'collapse':
+      return `Condensing section summaries (${progress.completed} of ${progress.total})...`;
+    default:
+      return 'Generating summary...';
+  }
+};
+
+export function SummaryOutput({ summary, isLoading, error, progress, onExport }: SummaryOutputProps) {
   const [copied, setCopied] = useState(false);
 
   const copyToClipboard = async () => {
@@ -35,20 +49,40 @@ export function SummaryOutput({ summary, isLoading, error }: SummaryOutputProps)
       <div className="flex items-center justify-between">
         <h3 className="text-lg font-medium text-gray-900">Summary</h3>
         {summary && !isLoading && (
-          <button
-            onClick={copyToClipboard}
-            className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
-          >
-            {copied ? 'Copied!' : 'Copy'}
-          </button>
+          <div className="flex space-x-2">
+            {onExport && (
+              <button
+                onClick={onExport}
+                className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+              >
+                Export
+              </button>
+            )}
+            <button
+              onClick={copyToClipboard}
+              className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+            >
+              {copied ? 'Copied!' : 'Copy'}
+            </button>
+          </div>
         )}
       </div>
       
       <div className="min-h-40 p-4 border border-gray-300 rounded-md bg-gray-50">
-        {isLoading && (
-          <div className="flex items-center space-x-2 text-gray-600">
-            <div className="animate-spin rounded-full h-4 w-4 border-2 border-primary-600 border-t-transparent"></div>
-            <span className="text-sm">Generating summary...</span>
+        {isLoading && !summary && (
+          <div className="space-y-2">
+            <div className="flex items-center space-x-2 text-gray-600">
+              <div className="animate-spin rounded-full h-4 w-4 border-2 border-primary-600 border-t-transparent"></div>
+              <span className="text-sm">{progressLabel(progress)}</span>
+            </div>
+            {progress && progress.stage !== 'reduce' && (
+              <div className="h-1.5 w-full bg-gray-200 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-primary-600 transition-all"
+                  style={{ width: `${(progress.completed / progress.total) * 100}%` }}
+                />
+              </div>
+            )}
           </div>
         )}
         
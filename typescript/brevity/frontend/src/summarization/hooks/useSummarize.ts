@@ -1,26 +1,59 @@
+import { useRef, useState } from 'react';
 import { useCompletion } from 'ai/react';
-import { SummaryLength } from '../types';
+import { HistoryItem } from '../../history/types';
+import { SummarizeProgress, SummarizeRequest, SummaryLength } from '../types';
 
-export function useSummarize() {
+type SummarizeEvent = ({ type: 'progress' } & SummarizeProgress) | { type: 'error'; message: string };
+
+// `model` is an id from GET /api/models; empty means the server default.
+// `onComplete` runs after each summary is stored in the history.
+export function useSummarize(model = '', onComplete?: () => void) {
+  const [request, setRequest] = useState<SummarizeRequest | null>(null);
+  const [historyId, setHistoryId] = useState<number | null>(null);
   const {
     completion: summary,
-    handleSubmit,
+    complete,
+    setCompletion,
     isLoading,
     error,
+    data,
   } = useCompletion({
     api: '/api/summarize',
+    onResponse: (response) => setHistoryId(Number(response.headers.get('X-History-Id')) || null),
+    onFinish: () => onComplete?.(),
   });
+  // `data` keeps the events of earlier requests; only look at this one's.
+  const firstEvent = useRef(0);
 
   const summarize = async (text: string, length: SummaryLength = 'medium') => {
-    await handleSubmit(undefined, {
-      body: { text, length },
+    firstEvent.current = data?.length ?? 0;
+    setRequest({ text, length, model });
+    await complete('', {
+      body: { text, length, ...(model && { model }) },
     });
   };
 
+  // Shows a stored summary without calling the model again.
+  const restore = (item: HistoryItem) => {
+    firstEvent.current = data?.length ?? 0;
+    setRequest({ text: item.input, length: item.params.length as SummaryLength, model: item.model ?? undefined });
+    setHistoryId(item.id);
+    setCompletion(item.output);
+  };
+
+  const events = (data?.slice(firstEvent.current) ?? []) as SummarizeEvent[];
+  const lastEvent = events[events.length - 1];
+  const progress = isLoading && lastEvent?.type === 'progress' ? lastEvent : null;
+  const streamError = lastEvent?.type === 'error' ? new Error(lastEvent.message) : null;
+
   return {
     summary,
     summarize,
+    restore,
+    request,
+    historyId,
     isLoading,
-    error,
+    error: error ?? streamError,
+    progress,
   };
 }
\ No newline at end of file
@@ -3,8 +3,16 @@ export type SummaryLength = 'short' | 'medium' | 'detailed';
 export interface SummarizeRequest {
   text: string;
   length: SummaryLength;
+  model?: string;
 }
 
 export interface SummarizeOptions {
   length: SummaryLength;
+}
+
+// Progress the server streams while summarizing a long document in chunks.
+export interface SummarizeProgress {
+  stage: 'map' | 'collapse' | 'reduce';
+  completed: number;
+  total: number;
 }
\ No newline at end of file
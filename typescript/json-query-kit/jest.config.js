@@ -8,7 +8,8 @@ module.exports = {
     'src/**/*.ts',
     '!src/**/*.test.ts',
     '!src/**/*.spec.ts',
-    '!src/examples/**'
+    '!src/examples/**',
+    '!src/benchmarks/**'
   ],
   coverageThreshold: {
     global: {
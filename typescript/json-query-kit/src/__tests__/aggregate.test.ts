@@ -0,0 +1,189 @@
+import { computeAggregate, groupData } from '../utils/aggregate';
+import { JsonQuery, GroupedQuery } from '../core/JsonQuery';
+import { PathValue } from '../types';
+
+describe('Aggregation', () => {
+  interface Order {
+    id: number;
+    status: 'paid' | 'pending' | 'refunded';
+    total: number | null;
+    customer: { name: string; city: string };
+    tags: string[];
+  }
+
+  const orders: Order[] = [
+    { id: 1, status: 'paid', total: 100, customer: { name: 'John', city: 'London' }, tags: ['web'] },
+    { id: 2, status: 'pending', total: 40, customer: { name: 'Jane', city: 'Paris' }, tags: ['app'] },
+    { id: 3, status: 'paid', total: 250, customer: { name: 'Peter', city: 'London' }, tags: ['web'] },
+    { id: 4, status: 'refunded', total: null, customer: { name: 'Alice', city: 'Paris' }, tags: [] },
+    { id: 5, status: 'paid', total: 70, customer: { name: 'Bob', city: 'Paris' }, tags: ['app'] },
+    { id: 6, status: 'pending', total: 10, customer: { name: 'Carol', city: 'London' }, tags: ['web'] },
+  ];
+
+  describe('computeAggregate', () => {
+    it('should count rows or non-null values', () => {
+      expect(computeAggregate(orders, { operator: 'count' })).toBe(6);
+      expect(computeAggregate(orders, { operator: 'count', field: 'total' })).toBe(5);
+    });
+
+    it('should compute sum, avg, min and max ignoring nulls', () => {
+      expect(computeAggregate(orders, { operator: 'sum', field: 'total' })).toBe(470);
+      expect(computeAggregate(orders, { operator: 'avg', field: 'total' })).toBe(94);
+      expect(computeAggregate(orders, { operator: 'min', field: 'total' })).toBe(10);
+      expect(computeAggregate(orders, { operator: 'max', field: 'total' })).toBe(250);
+      expect(computeAggregate(orders, { operator: 'min', field: 'customer.name' })).toBe('Alice');
+    });
+
+    it('should collect distinct values', () => {
+      expect(computeAggregate(orders, { operator: 'distinct', field: 'customer.city' }))
+        .toEqual(['London', 'Paris']);
+    });
+
+    it('should interpolate percentiles', () => {
+      // Sorted totals: 10, 40, 70, 100, 250
+      expect(computeAggregate(orders, { operator: 'percentile', field: 'total', percentile: 50 })).toBe(70);
+      expect(computeAggregate(orders, { operator: 'percentile', field: 'total', percentile: 90 })).toBe(190);
+      expect(computeAggregate(orders, { operator: 'percentile', field: 'total', percentile: 0 })).toBe(10);
+      expect(() => computeAggregate(orders, { operator: 'percentile', field: 'total', percentile: 101 }))
+        .toThrow('Percentile must be between 0 and 100');
+    });
+
+    it('should return null for empty numeric aggregates', () => {
+      const refunded = orders.filter(o => o.status === 'refunded');
+
+      expect(computeAggregate(refunded, { operator: 'sum', field: 'total' })).toBe(0);
+      expect(computeAggregate(refunded, { operator: 'avg', field: 'total' })).toBeNull();
+      expect(computeAggregate(refunded, { operator: 'max', field: 'total' })).toBeNull();
+      expect(computeAggregate(refunded, { operator: 'percentile', field: 'total', percentile: 50 })).toBeNull();
+    });
+  });
+
+  describe('groupData', () => {
+    it('should group by a single field in first-seen order', () => {
+      const result = groupData(orders, ['status'], {
+        count: { operator: 'count' },
+        revenue: { operator: 'sum', field: 'total' },
+      });
+
+      expect(result).toEqual([
+        { status: 'paid', count: 3, revenue: 420 },
+        { status: 'pending', count: 2, revenue: 50 },
+        { status: 'refunded', count: 1, revenue: 0 },
+      ]);
+    });
+
+    it('should group by multiple fields including nested paths', () => {
+      const result = groupData(orders, ['customer.city', 'status'], {
+        count: { operator: 'count' },
+      });
+
+      expect(result).toEqual([
+        { 'customer.city': 'London', status: 'paid', count: 2 },
+        { 'customer.city': 'Paris', status: 'pending', count: 1 },
+        { 'customer.city': 'Paris', status: 'refunded', count: 1 },
+        { 'customer.city': 'Paris', status: 'paid', count: 1 },
+        { 'customer.city': 'London', status: 'pending', count: 1 },
+      ]);
+    });
+
+    it('should produce a single group when no fields are given', () => {
+      const result = groupData(orders, [], { count: { operator: 'count' } });
+
+      expect(result).toEqual([{ count: 6 }]);
+    });
+  });
+
+  describe('JsonQuery.groupBy', () => {
+    it('should return a grouped query', () => {
+      const grouped = new JsonQuery(orders).groupBy('status', { count: { operator: 'count' } });
+
+      expect(grouped).toBeInstanceOf(GroupedQuery);
+    });
+
+    it('should group the filtered rows', () => {
+      const result = new JsonQuery(orders)
+        .filter({ field: 'tags[*]', operator: 'equals', value: 'web' })
+        .groupBy('customer.city', { count: { operator: 'count' } })
+        .execute();
+
+      expect(result.data).toEqual([{ 'customer.city': 'London', count: 3 }]);
+    });
+
+    it('should filter groups with having and sort by aggregates and keys', () => {
+      const result = new JsonQuery(orders)
+        .groupBy(['customer.city'], {
+          orders: { operator: 'count' },
+          revenue: { operator: 'sum', field: 'total' },
+          statuses: { operator: 'distinct', field: 'status' },
+        })
+        .having({ field: 'revenue', operator: 'greaterThan', value: 100 })
+        .sort([
+          { field: 'revenue', direction: 'desc' },
+          { field: 'customer.city', direction: 'asc' },
+        ])
+        .execute();
+
+      expect(result.data).toEqual([
+        { 'customer.city': 'London', orders: 3, revenue: 360, statuses: ['paid', 'pending'] },
+        { 'customer.city': 'Paris', orders: 3, revenue: 110, statuses: ['pending', 'refunded', 'paid'] },
+      ]);
+    });
+
+    it('should support logical having filters', () => {
+      const result = new JsonQuery(orders)
+        .groupBy('status', {
+          count: { operator: 'count' },
+          average: { operator: 'avg', field: 'total' },
+        })
+        .having({
+          logicalOperator: 'or',
+          conditions: [
+            { field: 'count', operator: 'greaterThanOrEqual', value: 3 },
+            { field: 'average', operator: 'equals', value: null },
+          ],
+        })
+        .execute();
+
+      expect(result.data.map(row => row.status)).toEqual(['paid', 'refunded']);
+    });
+
+    it('should paginate groups', () => {
+      const result = new JsonQuery(orders)
+        .groupBy('id', { total: { operator: 'sum', field: 'total' } })
+        .sort({ field: 'total', direction: 'desc' })
+        .paginate({ page: 2, pageSize: 2 })
+        .execute();
+
+      expect(result.data.map(row => row.id)).toEqual([5, 2]);
+      expect(result.meta.pagination).toMatchObject({ totalItems: 6, totalPages: 3, currentPage: 2 });
+    });
+
+    it('should read the source query when executed', () => {
+      const source = new JsonQuery(orders);
+      const grouped = source.groupBy('status', { count: { operator: 'count' } });
+      source.filter({ field: 'status', operator: 'equals', value: 'paid' });
+
+      expect(grouped.execute().data).toEqual([{ status: 'paid', count: 3 }]);
+    });
+
+    it('should type grouped rows', () => {
+      const rows = new JsonQuery(orders)
+        .groupBy(['status', 'customer.city'], {
+          count: { operator: 'count' },
+          top: { operator: 'max', field: 'total' },
+          names: { operator: 'distinct', field: 'customer.name' },
+        })
+        .execute().data;
+
+      const status: Order['status'] = rows[0].status;
+      const city: string = rows[0]['customer.city'];
+      const count: number = rows[0].count;
+      const top: number | null = rows[0].top;
+      const names: string[] = rows[0].names;
+      expect([status, city, count, top, names]).toBeDefined();
+
+      const total: PathValue<Order, 'customer.city'> = 'London';
+      expect(total).toBe('London');
+    });
+  });
+});
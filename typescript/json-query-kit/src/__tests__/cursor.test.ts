@@ -0,0 +1,164 @@
+import {
+  cursorSortOptions,
+  decodeCursor,
+  encodeCursor,
+  paginateByCursor,
+  InvalidCursorError,
+} from '../utils/cursor';
+import { sortByMultipleFields } from '../utils/sort';
+import { JsonQuery } from '../core/JsonQuery';
+import { SortOption } from '../types';
+
+describe('Cursor Pagination', () => {
+  interface Item {
+    id: number;
+    name: string;
+    score: number | null;
+    createdAt: Date;
+  }
+
+  const items: Item[] = Array.from({ length: 12 }, (_, i) => ({
+    id: i + 1,
+    name: `Item ${String.fromCharCode(65 + (i % 5))}`,
+    score: i === 3 ? null : (i * 7) % 4,
+    createdAt: new Date(Date.UTC(2025, 0, 1 + (i % 6))),
+  }));
+
+  const byScore: SortOption<Item>[] = [{ field: 'score', direction: 'desc' }];
+
+  function pageIds(data: Item[]): number[] {
+    return data.map(item => item.id);
+  }
+
+  describe('cursorSortOptions', () => {
+    it('should append the tie-breaker once', () => {
+      expect(cursorSortOptions(byScore)).toEqual([
+        { field: 'score', direction: 'desc' },
+        { field: 'id', direction: 'asc' },
+      ]);
+      expect(cursorSortOptions([{ field: 'id', direction: 'desc' }])).toEqual([
+        { field: 'id', direction: 'desc' },
+      ]);
+      expect(cursorSortOptions<Item>([], 'name')).toEqual([{ field: 'name', direction: 'asc' }]);
+    });
+  });
+
+  describe('encodeCursor / decodeCursor', () => {
+    it('should round-trip keys including dates and unicode', () => {
+      const options = cursorSortOptions<Item>([
+        { field: 'createdAt', direction: 'asc' },
+        { field: 'name', direction: 'asc' },
+      ]);
+      const item = { ...items[0], name: 'Zoë ☃' };
+      const cursor = encodeCursor(item, options, 'next');
+
+      expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+      expect(decodeCursor(cursor, options)).toEqual({
+        key: [item.createdAt, 'Zoë ☃', 1],
+        direction: 'next',
+      });
+    });
+
+    it('should reject malformed cursors', () => {
+      const options = cursorSortOptions(byScore);
+
+      expect(() => decodeCursor('not a cursor!', options)).toThrow(InvalidCursorError);
+      expect(() => decodeCursor('e30', options)).toThrow('Malformed pagination cursor');
+    });
+
+    it('should reject cursors created for a different sort', () => {
+      const cursor = encodeCursor(items[0], cursorSortOptions(byScore), 'next');
+
+      expect(() => decodeCursor(cursor, cursorSortOptions<Item>([{ field: 'score', direction: 'asc' }])))
+        .toThrow('Cursor was created for sort "score:desc,id:asc" but the query is sorted by "score:asc,id:asc"');
+    });
+  });
+
+  describe('paginateByCursor', () => {
+    const sorted = sortByMultipleFields(items, cursorSortOptions(byScore));
+
+    it('should walk forward and backward through every row', () => {
+      const forward: number[][] = [];
+      let page = paginateByCursor(sorted, byScore, null, 5);
+      forward.push(pageIds(page.data));
+      while (page.meta.nextCursor) {
+        page = paginateByCursor(sorted, byScore, page.meta.nextCursor, 5);
+        forward.push(pageIds(page.data));
+      }
+
+      expect(forward.flat()).toEqual(pageIds(sorted));
+      expect(forward.map(ids => ids.length)).toEqual([5, 5, 2]);
+      expect(page.meta.hasNextPage).toBe(false);
+
+      const back = paginateByCursor(sorted, byScore, page.meta.prevCursor, 5);
+      expect(pageIds(back.data)).toEqual(forward[1]);
+      expect(back.meta.hasPrevPage).toBe(true);
+      expect(back.meta.hasNextPage).toBe(true);
+    });
+
+    it('should stop at the first row when paging back near the start', () => {
+      const second = paginateByCursor(sorted, byScore, encodeCursor(sorted[2], cursorSortOptions(byScore), 'prev'), 5);
+
+      expect(pageIds(second.data)).toEqual(pageIds(sorted.slice(0, 2)));
+      expect(second.meta.hasPrevPage).toBe(false);
+      expect(second.meta.prevCursor).toBeNull();
+    });
+
+    it('should stay stable when rows are inserted before the cursor', () => {
+      const first = paginateByCursor(sorted, byScore, null, 4);
+      const changed = sortByMultipleFields(
+        [...items, { id: 99, name: 'New', score: 3, createdAt: new Date(0) }],
+        cursorSortOptions(byScore)
+      );
+      const next = paginateByCursor(changed, byScore, first.meta.nextCursor, 4);
+
+      expect(pageIds(next.data)).toEqual(pageIds(sorted.slice(4, 8)));
+    });
+  });
+
+  describe('JsonQuery', () => {
+    it('should paginate with cursors after filtering and sorting', () => {
+      const query = new JsonQuery(items)
+        .filter({ field: 'id', operator: 'greaterThan', value: 2 })
+        .sort({ field: 'name', direction: 'asc' });
+
+      const first = query.paginate({ cursor: null, limit: 3 }).execute();
+      const cursor = first.meta.pagination?.nextCursor;
+      const second = query.paginate({ cursor, limit: 3 }).execute();
+
+      expect(first.data.map(i => i.name)).toEqual(['Item A', 'Item A', 'Item B']);
+      expect(pageIds(first.data)).toEqual([6, 11, 7]);
+      expect(pageIds(second.data)).toEqual([12, 3, 8]);
+      expect(second.meta.pagination).toMatchObject({ totalItems: 10, hasPrevPage: true, hasNextPage: true });
+    });
+
+    it('should use a custom tie-breaker', () => {
+      const result = new JsonQuery(items)
+        .paginate({ cursor: null, limit: 2, tieBreaker: 'createdAt' })
+        .execute();
+
+      expect(result.data.map(i => i.createdAt.getUTCDate())).toEqual([1, 1]);
+    });
+
+    it('should reject a cursor used with a different sort', () => {
+      const first = new JsonQuery(items)
+        .sort({ field: 'name', direction: 'asc' })
+        .paginate({ cursor: null, limit: 3 })
+        .execute();
+
+      const query = new JsonQuery(items)
+        .sort({ field: 'score', direction: 'asc' })
+        .paginate({ cursor: first.meta.pagination?.nextCursor, limit: 3 });
+
+      expect(() => query.execute()).toThrow(InvalidCursorError);
+    });
+
+    it('should reject cursor pagination with a custom sort function', () => {
+      const query = new JsonQuery(items)
+        .sortBy((a, b) => a.id - b.id)
+        .paginate({ cursor: null, limit: 3 });
+
+      expect(() => query.execute()).toThrow('cannot be used with sortBy()');
+    });
+  });
+});
@@ -0,0 +1,293 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { JsonQuery } from '../core/JsonQuery';
+import {
+  InvalidQueryParamsError,
+  parseQueryParams,
+  QueryParamIssue,
+  queryParams,
+  queryParamsOpenApi,
+  QueryParamsSchema,
+} from '../http';
+
+describe('HTTP query parameters', () => {
+  interface Product {
+    id: number;
+    name: string;
+    price: number;
+    inStock: boolean;
+    addedAt: string;
+    tags: string[];
+    supplier: { country: string };
+  }
+
+  const products: Product[] = Array.from({ length: 30 }, (_, i) => ({
+    id: i + 1,
+    name: `Product ${String.fromCharCode(65 + (i % 26))}${i}`,
+    price: ((i * 37) % 100) + 0.5,
+    inStock: i % 3 !== 0,
+    addedAt: new Date(Date.UTC(2025, 0, 1 + i)).toISOString(),
+    tags: i % 2 === 0 ? ['sale'] : ['new', 'featured'],
+    supplier: { country: ['DE', 'FR', 'US'][i % 3] },
+  }));
+
+  const schema: QueryParamsSchema<Product> = {
+    fields: {
+      id: { type: 'number' },
+      name: { description: 'Display name' },
+      price: { type: 'number' },
+      inStock: { type: 'boolean' },
+      addedAt: { type: 'date' },
+      tags: { operators: ['arrayContainsAny', 'arrayContainsAll'], sortable: false },
+      'supplier.country': { operators: ['equals', 'in'] },
+    },
+    maxPageSize: 20,
+    defaultPageSize: 5,
+    defaultSort: [{ field: 'id', direction: 'asc' }],
+  };
+
+  function issues(params: Record<string, unknown> | URLSearchParams): QueryParamIssue[] {
+    try {
+      parseQueryParams(params, schema);
+    } catch (error) {
+      if (error instanceof InvalidQueryParamsError) return error.issues;
+      throw error;
+    }
+    throw new Error('Expected the parameters to be rejected');
+  }
+
+  describe('parseQueryParams', () => {
+    it('should build a configuration from the query language', () => {
+      const config = parseQueryParams<Product>(
+        new URLSearchParams('q=price > 20 and not supplier.country in ["US"]&sort=-price,name&page=2&pageSize=4'),
+        schema
+      );
+
+      expect(config).toEqual({
+        filter: {
+          logicalOperator: 'and',
+          conditions: [
+            { field: 'price', operator: 'greaterThan', value: 20 },
+            { logicalOperator: 'not', conditions: [{ field: 'supplier.country', operator: 'in', value: ['US'] }] },
+          ],
+        },
+        sort: [{ field: 'price', direction: 'desc' }, { field: 'name', direction: 'asc' }],
+        pagination: { page: 2, pageSize: 4 },
+      });
+
+      const expected = new JsonQuery(products)
+        .filter(config.filter!)
+        .sort(config.sort!)
+        .paginate(config.pagination!)
+        .execute();
+      expect(new JsonQuery(products).configure(config).execute()).toEqual(expected);
+    });
+
+    it('should accept JSON filters and sorts', () => {
+      const config = parseQueryParams<Product>({
+        filter: JSON.stringify({
+          logicalOperator: 'or',
+          conditions: [
+            { field: 'addedAt', operator: 'between', value: ['2025-01-03', '2025-01-05'] },
+            { field: 'tags', operator: 'arrayContainsAll', value: ['new', 'featured'] },
+          ],
+        }),
+        sort: '[{"field":"addedAt","direction":"desc"}]',
+      }, schema);
+
+      expect(config.sort).toEqual([{ field: 'addedAt', direction: 'desc' }]);
+      expect(new JsonQuery(products).configure(config).execute().meta.pagination?.totalItems).toBe(16);
+    });
+
+    it('should apply defaults', () => {
+      expect(parseQueryParams({}, schema)).toEqual({
+        filter: undefined,
+        sort: [{ field: 'id', direction: 'asc' }],
+        pagination: { page: 1, pageSize: 5 },
+      });
+      expect(parseQueryParams({ offset: '10' }, schema).pagination).toEqual({ offset: 10, limit: 5 });
+      expect(parseQueryParams({ cursor: '', limit: '3' }, schema).pagination).toEqual({ cursor: null, limit: 3 });
+    });
+
+    it('should point at the bad clause of a query', () => {
+      expect(issues({ q: 'price > 10 and name > "x"' })).toEqual([{
+        parameter: 'q',
+        message: 'Operator "greaterThan" is not allowed on "name"; use one of "equals", "notEquals", "contains", "startsWith", "endsWith", "in", "notIn", "isNull"',
+        position: 15,
+      }]);
+      expect(issues({ q: 'price = "cheap"' })).toEqual([
+        { parameter: 'q', message: 'Expected a number for "price", found "cheap"', position: 0 },
+      ]);
+      expect(issues({ q: 'cost > 1' })).toEqual([{ parameter: 'q', message: 'Unknown field "cost"', position: 0 }]);
+      expect(issues({ q: 'price >' })[0]).toMatchObject({ parameter: 'q', position: 7 });
+    });
+
+    it('should point at the bad clause of a JSON filter', () => {
+      expect(issues({
+        filter: JSON.stringify({
+          logicalOperator: 'and',
+          conditions: [
+            { field: 'inStock', operator: 'equals', value: 'yes' },
+            { logicalOperator: 'xor', conditions: [{ field: 'addedAt', operator: 'lessThan', value: 'soon' }] },
+            { field: 'price', operator: 'regex', value: '^1' },
+            { field: 'id', operator: 'equals', value: 1, locale: 'de' },
+          ],
+        }),
+      })).toEqual([
+        { parameter: 'filter', message: 'Expected a boolean for "inStock", found "yes"', path: 'conditions[0]' },
+        { parameter: 'filter', message: 'Expected "and", "or" or "not"', path: 'conditions[1].logicalOperator' },
+        {
+          parameter: 'filter',
+          message: 'Expected an ISO date string for "addedAt", found "soon"',
+          path: 'conditions[1].conditions[0]',
+        },
+        {
+          parameter: 'filter',
+          message: expect.stringContaining('Operator "regex" is not allowed on "price"'),
+          path: 'conditions[2]',
+        },
+        { parameter: 'filter', message: 'Unexpected property "locale"', path: 'conditions[3].locale' },
+      ]);
+      expect(issues({ filter: '{"field":' })).toEqual([
+        { parameter: 'filter', message: expect.stringContaining('Invalid JSON') },
+      ]);
+      expect(issues({ filter: '[]' })).toEqual([
+        { parameter: 'filter', message: 'Expected a condition or logical filter object' },
+      ]);
+    });
+
+    it('should check list values', () => {
+      expect(issues({ q: 'price between [1, "2"]' })[0].message).toBe('Expected a number for "price", found "2"');
+      expect(issues({ filter: '{"field":"price","operator":"between","value":[1]}' })[0].message)
+        .toBe('Expected a [min, max] list for "between" on "price"');
+      expect(issues({ filter: '{"field":"supplier.country","operator":"in","value":"DE"}' })[0].message)
+        .toBe('Expected a list for "in" on "supplier.country"');
+      expect(parseQueryParams({ q: 'supplier.country in ["DE", null]' }, schema).filter)
+        .toEqual({ field: 'supplier.country', operator: 'in', value: ['DE', null] });
+    });
+
+    it('should reject bad sorts and pagination, reporting every issue', () => {
+      expect(issues({ sort: 'tags,-secret,price', page: '0', pageSize: '50' })).toEqual([
+        { parameter: 'sort', message: 'Field "tags" cannot be sorted on', path: '[0]' },
+        { parameter: 'sort', message: 'Unknown field "secret"', path: '[1]' },
+        { parameter: 'page', message: 'Expected an integer of at least 1, found "0"' },
+        { parameter: 'pageSize', message: 'Must be at most 20' },
+      ]);
+      expect(issues({ sort: '{"field":"price","direction":"up"}' })).toEqual([
+        { parameter: 'sort', message: 'Expected "asc" or "desc"', path: 'direction' },
+      ]);
+      expect(issues({ page: '1', limit: '5' })).toEqual([
+        { parameter: 'page', message: 'Use either "page" and "pageSize" or "offset" and "limit"' },
+      ]);
+      expect(issues({ cursor: '', offset: '2' })[0].parameter).toBe('cursor');
+      expect(issues({ limit: '1.5' })[0].message).toBe('Expected an integer of at least 1, found "1.5"');
+    });
+
+    it('should check a cursor against the requested sort', () => {
+      const first = new JsonQuery(products).configure(parseQueryParams({ cursor: '', limit: '3' }, schema)).execute();
+      const cursor = first.meta.pagination?.nextCursor as string;
+
+      expect(parseQueryParams({ cursor, limit: '3' }, schema).pagination).toEqual({ cursor, limit: 3 });
+      expect(issues({ cursor, sort: '-price' })).toEqual([{
+        parameter: 'cursor',
+        message: 'Cursor was created for sort "id:asc" but the query is sorted by "price:desc,id:asc"',
+      }]);
+      expect(issues({ cursor: 'not-a-cursor' })).toEqual([{ parameter: 'cursor', message: 'Malformed pagination cursor' }]);
+      expect(issues({ cursor: cursor.slice(0, -4) })[0].parameter).toBe('cursor');
+      // Only the sort is reported when the sort itself is bad
+      expect(issues({ cursor, sort: 'secret' })).toEqual([{ parameter: 'sort', message: 'Unknown field "secret"' }]);
+    });
+
+    it('should reject repeated, nested and conflicting parameters', () => {
+      expect(issues(new URLSearchParams('page=1&page=2'))).toEqual([{ parameter: 'page', message: 'Expected a single value' }]);
+      expect(issues({ sort: ['id', 'price'] })).toEqual([{ parameter: 'sort', message: 'Expected a single value' }]);
+      expect(issues({ filter: { field: 'id' } })).toEqual([{ parameter: 'filter', message: 'Expected a string value' }]);
+      expect(issues({ q: 'id = 1', filter: '{}' })).toEqual([{ parameter: 'filter', message: 'Use either "q" or "filter", not both' }]);
+    });
+
+    it('should not treat inherited properties as fields', () => {
+      expect(issues({ q: 'constructor = "x"' })[0].message).toBe('Unknown field "constructor"');
+      expect(issues({ sort: 'toString' })[0].message).toBe('Unknown field "toString"');
+    });
+  });
+
+  describe('queryParams middleware', () => {
+    let server: ReturnType<ReturnType<typeof express>['listen']>;
+    let baseUrl: string;
+
+    beforeAll(done => {
+      const app = express();
+      app.get('/products', queryParams(schema), (req, res) => {
+        res.json(new JsonQuery(products).configure(res.locals.queryConfig).execute());
+      });
+      server = app.listen(0, () => {
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        done();
+      });
+    });
+
+    afterAll(done => {
+      server.close(done);
+    });
+
+    it('should pass a valid configuration to the route', async () => {
+      const response = await fetch(`${baseUrl}/products?q=${encodeURIComponent('inStock = true and price < 30')}&sort=price&limit=3`);
+      const body = await response.json() as { data: Product[]; meta: { pagination: { pageSize: number } } };
+
+      expect(response.status).toBe(200);
+      expect(body.data.map(p => p.price)).toEqual([3.5, 7.5, 14.5]);
+      expect(body.meta.pagination.pageSize).toBe(3);
+    });
+
+    it('should answer invalid parameters with a 400 listing the issues', async () => {
+      const response = await fetch(`${baseUrl}/products?q=${encodeURIComponent('price > "x"')}&pageSize=100`);
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: 'Invalid query parameters',
+        issues: [
+          { parameter: 'q', message: 'Expected a number for "price", found "x"', position: 0 },
+          { parameter: 'pageSize', message: 'Must be at most 20' },
+        ],
+      });
+    });
+
+    it('should answer a cursor for another sort with a 400', async () => {
+      const first = await (await fetch(`${baseUrl}/products?cursor=&limit=2`)).json() as {
+        meta: { pagination: { nextCursor: string } };
+      };
+      const response = await fetch(`${baseUrl}/products?cursor=${first.meta.pagination.nextCursor}&sort=name`);
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: 'Invalid query parameters',
+        issues: [{ parameter: 'cursor', message: 'Cursor was created for sort "id:asc" but the query is sorted by "name:asc,id:asc"' }],
+      });
+    });
+
+    it('should pass other errors to next', () => {
+      const next = jest.fn();
+      const res = { locals: {}, status: jest.fn() };
+      const broken = { ...schema, get fields(): never { throw new Error('boom'); } };
+
+      queryParams(broken)({ query: { q: 'id = 1' } }, res, next);
+
+      expect(next).toHaveBeenCalledWith(expect.objectContaining({ message: 'boom' }));
+      expect(res.status).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('queryParamsOpenApi', () => {
+    it('should describe every parameter with its limits', () => {
+      const parameters = queryParamsOpenApi(schema);
+
+      expect(parameters.map(p => p.name)).toEqual(['q', 'filter', 'sort', 'page', 'pageSize', 'offset', 'limit', 'cursor']);
+      expect(parameters.every(p => p.in === 'query' && p.required === false)).toBe(true);
+      expect(parameters.find(p => p.name === 'pageSize')!.schema).toEqual({ type: 'integer', minimum: 1, maximum: 20, default: 5 });
+      expect(parameters[0].example).toBe('id = 1');
+      expect(parameters[0].description).toContain('- `name` (string): Display name. equals, notEquals, contains');
+      expect(parameters[0].description).toContain('- `tags` (string): arrayContainsAny, arrayContainsAll');
+      expect(parameters[2].description).toContain('Sortable fields: `id`, `name`, `price`, `inStock`, `addedAt`, `supplier.country`.');
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { IndexSet } from '../utils/indexes';
+import { JsonQuery } from '../core/JsonQuery';
+import { FilterCondition, LogicalFilter, SortOption } from '../types';
+
+describe('Indexed Queries', () => {
+  interface Account {
+    id: number;
+    city: string;
+    plan: 'free' | 'pro' | 'team';
+    balance: number | null;
+    openedAt: Date;
+    owner: { age: number };
+  }
+
+  const cities = ['London', 'Paris', 'Berlin', 'Oslo'];
+  const plans: Account['plan'][] = ['free', 'pro', 'team'];
+
+  const accounts: Account[] = Array.from({ length: 60 }, (_, i) => ({
+    id: i + 1,
+    city: cities[(i * 7) % cities.length],
+    plan: plans[(i * 5) % plans.length],
+    balance: i % 9 === 0 ? null : ((i * 37) % 50) - 10,
+    openedAt: new Date(Date.UTC(2024, 0, 1 + ((i * 11) % 20))),
+    owner: { age: 18 + ((i * 13) % 40) },
+  }));
+
+  const indexed = () => JsonQuery.indexed(accounts, {
+    indexes: [
+      { field: 'id', type: 'hash' },
+      { field: 'city', type: 'hash' },
+      { field: 'plan', type: 'sorted' },
+      { field: 'balance', type: 'sorted' },
+      { field: 'openedAt', type: 'sorted' },
+      { field: 'owner.age', type: 'sorted' },
+    ],
+  });
+
+  function expectSameResult(
+    build: (query: JsonQuery<Account>) => JsonQuery<Account>
+  ): void {
+    expect(build(indexed()).execute()).toEqual(build(new JsonQuery(accounts)).execute());
+  }
+
+  describe('filtering', () => {
+    const filters: Array<[string, FilterCondition<Account> | LogicalFilter<Account>]> = [
+      ['equals on a hash index', { field: 'city', operator: 'equals', value: 'Oslo' }],
+      ['equals on a sorted index', { field: 'plan', operator: 'equals', value: 'pro' }],
+      ['equals with a missing value', { field: 'id', operator: 'equals', value: 999 }],
+      ['equals null', { field: 'balance', operator: 'equals', value: null }],
+      ['in', { field: 'city', operator: 'in', value: ['Paris', 'Berlin', 'Nowhere'] }],
+      ['greaterThan', { field: 'balance', operator: 'greaterThan', value: 20 }],
+      ['lessThanOrEqual including coerced nulls', { field: 'balance', operator: 'lessThanOrEqual', value: 0 }],
+      ['a date range', { field: 'openedAt', operator: 'greaterThanOrEqual', value: new Date(Date.UTC(2024, 0, 15)) }],
+      ['a nested path', { field: 'owner.age', operator: 'lessThan', value: 25 }],
+      ['string ranges, which fall back to a scan', { field: 'plan', operator: 'greaterThan', value: 'pro' }],
+      ['an unindexed field', { field: 'id', operator: 'lessThan', value: 10 }],
+      ['an and of indexed and unindexed conditions', {
+        logicalOperator: 'and',
+        conditions: [
+          { field: 'city', operator: 'equals', value: 'London' },
+          { field: 'id', operator: 'greaterThan', value: 20 },
+        ],
+      }],
+      ['a bounded range', {
+        logicalOperator: 'and',
+        conditions: [
+          { field: 'balance', operator: 'greaterThanOrEqual', value: 5 },
+          { field: 'balance', operator: 'lessThan', value: 15 },
+          { field: 'plan', operator: 'notEquals', value: 'team' },
+        ],
+      }],
+      ['an empty range', {
+        logicalOperator: 'and',
+        conditions: [
+          { field: 'balance', operator: 'greaterThan', value: 30 },
+          { field: 'balance', operator: 'lessThan', value: 0 },
+        ],
+      }],
+      ['an or of indexed conditions', {
+        logicalOperator: 'or',
+        conditions: [
+          { field: 'city', operator: 'equals', value: 'Oslo' },
+          { field: 'owner.age', operator: 'greaterThan', value: 50 },
+        ],
+      }],
+      ['an or with an unindexed branch', {
+        logicalOperator: 'or',
+        conditions: [
+          { field: 'city', operator: 'equals', value: 'Oslo' },
+          { field: 'id', operator: 'equals', value: 3 },
+        ],
+      }],
+    ];
+
+    it.each(filters)('should match a linear scan for %s', (_, filter) => {
+      expectSameResult(query => query.filter(filter));
+    });
+
+    it('should use indexes only when a condition can be answered', () => {
+      const set = new IndexSet(accounts, [{ field: 'city', type: 'hash' }]);
+
+      expect(set.filterPositions({ field: 'city', operator: 'equals', value: 'Paris' }))
+        .toEqual(accounts.flatMap((a, i) => (a.city === 'Paris' ? [i] : [])));
+      expect(set.filterPositions({ field: 'city', operator: 'contains', value: 'Par' })).toBeNull();
+      expect(set.filterPositions({ field: 'id', operator: 'equals', value: 1 })).toBeNull();
+    });
+  });
+
+  describe('sorting and pagination', () => {
+    const sorts: Array<[string, SortOption<Account>[]]> = [
+      ['ascending numbers with nulls last', [{ field: 'balance', direction: 'asc' }]],
+      ['descending numbers with nulls last', [{ field: 'balance', direction: 'desc' }]],
+      ['dates', [{ field: 'openedAt', direction: 'desc' }]],
+      ['strings', [{ field: 'plan', direction: 'asc' }]],
+      ['several fields', [
+        { field: 'plan', direction: 'desc' },
+        { field: 'owner.age', direction: 'asc' },
+        { field: 'id', direction: 'desc' },
+      ]],
+      ['an unindexed first field', [{ field: 'id', direction: 'desc' }]],
+    ];
+
+    it.each(sorts)('should sort %s like the default path', (_, sort) => {
+      expectSameResult(query => query.sort(sort));
+      expectSameResult(query => query.sort(sort).paginate({ page: 2, pageSize: 7 }));
+      expectSameResult(query => query.sort(sort).paginate({ offset: 55, limit: 10 }));
+      expectSameResult(query => query
+        .filter({ field: 'city', operator: 'in', value: ['London', 'Oslo'] })
+        .sort(sort)
+        .paginate({ page: 3, pageSize: 4 }));
+    });
+
+    it('should keep ties in their original order', () => {
+      const result = indexed()
+        .sort({ field: 'plan', direction: 'desc' })
+        .paginate({ page: 1, pageSize: 5 })
+        .execute();
+
+      expect(result.data.map(a => a.plan)).toEqual(['team', 'team', 'team', 'team', 'team']);
+      expect(result.data.map(a => a.id)).toEqual([2, 5, 8, 11, 14]);
+    });
+
+    it('should combine with distinct, selection and cursors', () => {
+      expectSameResult(query => query.sort({ field: 'plan', direction: 'asc' }).distinct('plan'));
+      expectSameResult(query => query
+        .sort({ field: 'balance', direction: 'asc' })
+        .paginate({ cursor: null, limit: 5 }));
+
+      const rows = indexed()
+        .select(['id', 'owner.age'])
+        .sort({ field: 'owner.age', direction: 'asc' })
+        .paginate({ page: 1, pageSize: 2 })
+        .execute().data;
+      expect(rows).toEqual([{ id: 1, 'owner.age': 18 }, { id: 41, 'owner.age': 18 }]);
+    });
+
+    it('should fall back to scanning when computed fields are used', () => {
+      const build = (query: JsonQuery<Account>) => query
+        .computed({ city: row => row.city.toUpperCase() })
+        .filter({ field: 'city', operator: 'equals', value: 'OSLO' })
+        .sort({ field: 'balance', direction: 'asc' })
+        .execute();
+
+      expect(build(indexed()).data).toHaveLength(15);
+      expect(build(indexed())).toEqual(build(new JsonQuery(accounts)));
+    });
+  });
+
+  it('should reject a sorted index over mixed value types', () => {
+    const rows = [{ value: 1 }, { value: 'two' }, { value: null }];
+
+    expect(() => JsonQuery.indexed(rows, { indexes: [{ field: 'value', type: 'sorted' }] }))
+      .toThrow('Cannot build a sorted index on "value": its values are not all of one type');
+    expect(() => JsonQuery.indexed(rows, { indexes: [{ field: 'value', type: 'hash' }] })).not.toThrow();
+  });
+});
@@ -0,0 +1,210 @@
+import { Query } from 'mingo';
+import { toMongo, QueryTranslationError } from '../adapters';
+import { JsonQuery } from '../core/JsonQuery';
+import { FilterCondition, LogicalFilter, PaginationOption, QueryConfig, SortOption } from '../types';
+
+describe('MongoDB translation', () => {
+  interface Order {
+    id: number;
+    status: 'open' | 'paid' | 'void';
+    total: number | null;
+    note?: string | null;
+    placedAt: Date;
+    customer: { name: string; tier: number };
+    tags: string[];
+    lines: { sku: string; qty: number }[];
+  }
+
+  const statuses: Order['status'][] = ['open', 'paid', 'void'];
+  const tagSets = [['gift'], ['gift', 'rush'], [], ['rush'], ['bulk', 'gift']];
+
+  const orders: Order[] = Array.from({ length: 30 }, (_, i) => ({
+    id: i + 1,
+    status: statuses[(i * 2) % statuses.length],
+    total: i % 7 === 0 ? null : ((i * 31) % 90) - 10,
+    ...(i % 4 === 0 ? {} : { note: i % 4 === 1 ? null : `Note ${i} (x.y)` }),
+    placedAt: new Date(Date.UTC(2025, 2, 1 + ((i * 5) % 28))),
+    customer: { name: `Customer ${String.fromCharCode(65 + (i % 9))}`, tier: (i * 3) % 4 },
+    tags: tagSets[i % tagSets.length],
+    lines: Array.from({ length: (i % 3) + 1 }, (_, j) => ({ sku: `S${(i + j) % 5}`, qty: ((i + j) % 4) + 1 })),
+  }));
+
+  function mongoIds(config: QueryConfig<Order>): number[] {
+    const { filter, sort, skip, limit } = toMongo(config);
+    let cursor = new Query(filter).find<Order>(orders);
+    if (Object.keys(sort).length > 0) cursor = cursor.sort(sort);
+    cursor = cursor.skip(skip);
+    if (limit !== undefined) cursor = cursor.limit(limit);
+    return cursor.all().map(order => order.id);
+  }
+
+  function memoryIds(config: QueryConfig<Order>): number[] {
+    const query = new JsonQuery(orders);
+    if (config.filter) query.filter(config.filter);
+    if (config.sort) query.sort(config.sort);
+    if (config.pagination) query.paginate(config.pagination);
+    return query.execute().data.map(order => order.id);
+  }
+
+  describe('result parity with the in-memory executor', () => {
+    const filters: Array<[string, FilterCondition<Order> | LogicalFilter<Order>]> = [
+      ['equals', { field: 'status', operator: 'equals', value: 'paid' }],
+      ['equals null, which ignores missing fields', { field: 'note', operator: 'equals', value: null }],
+      ['notEquals', { field: 'total', operator: 'notEquals', value: 50 }],
+      ['notEquals null', { field: 'note', operator: 'notEquals', value: null }],
+      ['contains with regex characters', { field: 'note', operator: 'contains', value: '(X.Y)' }],
+      ['startsWith', { field: 'customer.name', operator: 'startsWith', value: 'customer c' }],
+      ['endsWith', { field: 'customer.name', operator: 'endsWith', value: 'e' }],
+      ['greaterThan', { field: 'total', operator: 'greaterThan', value: 40 }],
+      ['lessThanOrEqual, which matches nulls coerced to 0', { field: 'total', operator: 'lessThanOrEqual', value: 20 }],
+      ['a date range', { field: 'placedAt', operator: 'lessThan', value: new Date(Date.UTC(2025, 2, 10)) }],
+      ['in', { field: 'customer.tier', operator: 'in', value: [0, 3] }],
+      ['in with null', { field: 'total', operator: 'in', value: [null, 21] }],
+      ['any element', { field: 'tags[*]', operator: 'equals', value: 'rush' }],
+      ['every element', { field: 'tags[all]', operator: 'equals', value: 'gift' }],
+      ['any nested element', { field: 'lines[*].qty', operator: 'greaterThanOrEqual', value: 4 }],
+      ['every nested element', { field: 'lines[all].sku', operator: 'in', value: ['S0', 'S1', 'S2'] }],
+      ['an array index', { field: 'lines[1].sku', operator: 'equals', value: 'S3' }],
+      ['array contains', { field: 'tags', operator: 'contains', value: 'bulk' }],
+      ['notIn', { field: 'status', operator: 'notIn', value: ['void'] }],
+      ['notIn with null', { field: 'note', operator: 'notIn', value: [null, 'Note 2 (x.y)'] }],
+      ['between', { field: 'total', operator: 'between', value: [10, 50] }],
+      ['between a bound below zero, which matches nulls', { field: 'total', operator: 'between', value: [-5, 5] }],
+      ['between dates', {
+        field: 'placedAt',
+        operator: 'between',
+        value: [new Date(Date.UTC(2025, 2, 5)), new Date(Date.UTC(2025, 2, 15))],
+      }],
+      ['regex', { field: 'customer.name', operator: 'regex', value: /customer [a-c]$/i }],
+      ['case-sensitive contains', { field: 'note', operator: 'contains', value: 'Note 1', caseSensitive: true }],
+      ['exists', { field: 'note', operator: 'exists', value: false }],
+      ['isNull', { field: 'note', operator: 'isNull', value: true }],
+      ['isNull false', { field: 'total', operator: 'isNull', value: false }],
+      ['arrayContainsAll', { field: 'tags', operator: 'arrayContainsAll', value: ['gift', 'rush'] }],
+      ['arrayContainsAll with an empty list', { field: 'tags', operator: 'arrayContainsAll', value: [] }],
+      ['arrayContainsAny', { field: 'tags', operator: 'arrayContainsAny', value: ['bulk', 'rush'] }],
+      ['not', {
+        logicalOperator: 'not',
+        conditions: [
+          { field: 'status', operator: 'equals', value: 'open' },
+          { field: 'tags[*]', operator: 'equals', value: 'gift' },
+        ],
+      }],
+      ['an empty not', { logicalOperator: 'not', conditions: [] }],
+      ['nested logical filters', {
+        logicalOperator: 'and',
+        conditions: [
+          { field: 'status', operator: 'notEquals', value: 'void' },
+          {
+            logicalOperator: 'or',
+            conditions: [
+              { field: 'customer.tier', operator: 'equals', value: 1 },
+              { field: 'tags[*]', operator: 'equals', value: 'gift' },
+            ],
+          },
+        ],
+      }],
+      ['an empty and', { logicalOperator: 'and', conditions: [] }],
+      ['an empty or', { logicalOperator: 'or', conditions: [] }],
+    ];
+
+    it.each(filters)('should filter with %s', (_, filter) => {
+      expect(mongoIds({ filter })).toEqual(memoryIds({ filter }));
+    });
+
+    const sorts: Array<[string, SortOption<Order>[]]> = [
+      ['by a nested field', [{ field: 'customer.name', direction: 'desc' }, { field: 'id', direction: 'asc' }]],
+      ['by dates', [{ field: 'placedAt', direction: 'asc' }, { field: 'id', direction: 'desc' }]],
+      ['by several fields', [
+        { field: 'status', direction: 'asc' },
+        { field: 'customer.tier', direction: 'desc' },
+        { field: 'id', direction: 'asc' },
+      ]],
+    ];
+
+    it.each(sorts)('should sort %s', (_, sort) => {
+      expect(mongoIds({ sort })).toEqual(memoryIds({ sort }));
+    });
+
+    const pages: Array<[string, PaginationOption]> = [
+      ['the first page', { page: 1, pageSize: 4 }],
+      ['a middle page', { page: 3, pageSize: 4 }],
+      ['offset and limit', { offset: 5, limit: 6 }],
+    ];
+
+    it.each(pages)('should paginate %s', (_, pagination) => {
+      const config: QueryConfig<Order> = {
+        filter: { field: 'total', operator: 'notEquals', value: null },
+        sort: [{ field: 'total', direction: 'desc' }, { field: 'id', direction: 'asc' }],
+        pagination,
+      };
+      expect(mongoIds(config)).toEqual(memoryIds(config));
+    });
+
+    it('should translate a JsonQuery configuration', () => {
+      const query = new JsonQuery(orders)
+        .where('status in ["open", "paid"] and tags[*] = "gift"')
+        .sort({ field: 'placedAt', direction: 'desc' })
+        .paginate({ offset: 2, limit: 3 });
+
+      expect(mongoIds(query.toConfig())).toEqual(query.execute().data.map(o => o.id));
+    });
+  });
+
+  describe('toMongo', () => {
+    it('should build a filter, sort, skip and limit', () => {
+      const result = toMongo<Order>({
+        filter: {
+          logicalOperator: 'or',
+          conditions: [
+            { field: 'status', operator: 'equals', value: 'open' },
+            { field: 'lines[0].qty', operator: 'greaterThan', value: 2 },
+          ],
+        },
+        sort: [{ field: 'customer.name', direction: 'desc' }],
+        pagination: { page: 3, pageSize: 5 },
+      });
+
+      expect(result).toEqual({
+        filter: { $or: [{ status: { $eq: 'open' } }, { 'lines.0.qty': { $gt: 2 } }] },
+        sort: { 'customer.name': -1 },
+        skip: 10,
+        limit: 5,
+      });
+      expect(toMongo({})).toEqual({ filter: {}, sort: {}, skip: 0 });
+    });
+
+    it('should keep operator objects in values from becoming operators', () => {
+      const { filter } = toMongo({ filter: { field: 'status', operator: 'equals', value: { $ne: null } } });
+
+      expect(filter).toEqual({ status: { $eq: { $ne: null } } });
+      expect(new Query(filter).find(orders).all()).toEqual([]);
+    });
+
+    it('should rename and restrict fields with a whitelist', () => {
+      const options = { fields: { status: 'state', 'customer.name': 'customer.fullName' } };
+
+      expect(toMongo({ sort: [{ field: 'customer.name', direction: 'asc' }] }, options).sort)
+        .toEqual({ 'customer.fullName': 1 });
+      expect(() => toMongo({ filter: { field: 'total', operator: 'equals', value: 1 } }, options))
+        .toThrow(QueryTranslationError);
+    });
+
+    it('should reject conditions without a MongoDB equivalent', () => {
+      expect(() => toMongo({ filter: { field: '$where', operator: 'equals', value: 1 } }))
+        .toThrow('Field "$where" cannot be translated to MongoDB');
+      expect(() => toMongo({ sort: [{ field: 'tags[*]', direction: 'asc' }] }))
+        .toThrow('Field "tags[*]" cannot be translated to MongoDB');
+      expect(() => toMongo({ filter: { field: 'lines[*].qty', operator: 'lessThan', value: 2 } }))
+        .toThrow('cannot be combined with an array quantifier');
+      expect(() => toMongo({ filter: { field: 'tags', operator: 'startsWith', value: 1 } }))
+        .toThrow('needs a string value');
+      expect(() => toMongo({ filter: { field: 'status', operator: 'equals', value: 'a', caseSensitive: false } }))
+        .toThrow('Compare options on "status" cannot be translated to MongoDB');
+      expect(() => toMongo({ sort: [{ field: 'status', direction: 'asc', locale: 'de' }] }))
+        .toThrow('Compare options on sort field "status" cannot be translated to MongoDB');
+      expect(() => toMongo({ sort: [{ field: 'status', direction: 'asc', caseSensitive: true }] }))
+        .toThrow(QueryTranslationError);
+    });
+  });
+});
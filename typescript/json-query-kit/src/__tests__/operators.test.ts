@@ -0,0 +1,192 @@
+import { JsonQuery } from '../core/JsonQuery';
+import { parseQuery } from '../parser';
+import { FilterCondition, LogicalFilter } from '../types';
+import { applyOperator, filterData } from '../utils/filter';
+import { registerOperator, unregisterOperator } from '../utils/operators';
+import { sortBySingleField } from '../utils/sort';
+
+declare module '../types' {
+  interface CustomOperators {
+    divisibleBy: number;
+    withinKm: { lat: number; lng: number; km: number };
+  }
+}
+
+describe('Operators', () => {
+  interface Event {
+    id: number;
+    title: string;
+    at: Date;
+    day: string;
+    size: number | null;
+    tags: string[];
+    venue?: { city: string } | null;
+  }
+
+  const events: Event[] = [
+    { id: 1, title: 'Launch', at: new Date('2025-03-01T09:00:00Z'), day: '2025-03-01', size: 120, tags: ['product', 'public'], venue: { city: 'Berlin' } },
+    { id: 2, title: 'launch party', at: new Date('2025-03-01T20:00:00Z'), day: '2025-03-01', size: 40, tags: ['public'], venue: null },
+    { id: 3, title: 'Retro', at: new Date('2025-02-14T15:00:00Z'), day: '2025-02-14', size: null, tags: [] },
+    { id: 4, title: 'Étude', at: new Date('2025-04-10T10:00:00Z'), day: '2025-04-10', size: 8, tags: ['internal', 'product'], venue: { city: 'Zürich' } },
+    { id: 5, title: 'Offsite 10', at: new Date('2025-05-20T08:00:00Z'), day: '2025-05-20', size: 25, tags: ['internal'], venue: { city: 'Athens' } },
+    { id: 6, title: 'Offsite 9', at: new Date('2025-01-05T08:00:00Z'), day: '2025-01-05', size: 25, tags: ['internal'] },
+  ];
+
+  const ids = (filter: FilterCondition<Event> | LogicalFilter<Event>): number[] =>
+    filterData(events, filter).map(event => event.id);
+
+  describe('value operators', () => {
+    it('should filter with notIn', () => {
+      expect(ids({ field: 'size', operator: 'notIn', value: [25, 40] })).toEqual([1, 3, 4]);
+      // Missing values are undefined, which is not in a list containing null
+      expect(ids({ field: 'venue.city', operator: 'notIn', value: ['Berlin', null] })).toEqual([2, 3, 4, 5, 6]);
+    });
+
+    it('should filter with between, inclusive of both bounds', () => {
+      expect(ids({ field: 'size', operator: 'between', value: [25, 120] })).toEqual([1, 2, 5, 6]);
+      expect(ids({ field: 'size', operator: 'between', value: [-1, 10] })).toEqual([3, 4]);
+      expect(ids({ field: 'size', operator: 'between', value: [50, 10] })).toEqual([]);
+    });
+
+    it('should filter with regex patterns and RegExp values', () => {
+      expect(ids({ field: 'title', operator: 'regex', value: '^[Ll]aunch' })).toEqual([1, 2]);
+      expect(ids({ field: 'title', operator: 'regex', value: '^launch' })).toEqual([2]);
+      expect(ids({ field: 'title', operator: 'regex', value: /^launch/i })).toEqual([1, 2]);
+      expect(ids({ field: 'title', operator: 'regex', value: /\d$/g })).toEqual([5, 6]);
+      // A global regex keeps no state between items
+      expect(ids({ field: 'title', operator: 'regex', value: /\d$/g })).toEqual([5, 6]);
+      expect(ids({ field: 'size', operator: 'regex', value: '^1' })).toEqual([]);
+    });
+
+    it('should tell missing fields from null ones', () => {
+      expect(ids({ field: 'venue', operator: 'exists', value: true })).toEqual([1, 2, 4, 5]);
+      expect(ids({ field: 'venue', operator: 'exists', value: false })).toEqual([3, 6]);
+      expect(ids({ field: 'venue', operator: 'isNull', value: true })).toEqual([2, 3, 6]);
+      expect(ids({ field: 'venue.city', operator: 'isNull', value: false })).toEqual([1, 4, 5]);
+    });
+
+    it('should filter arrays with arrayContainsAll and arrayContainsAny', () => {
+      expect(ids({ field: 'tags', operator: 'arrayContainsAll', value: ['product', 'public'] })).toEqual([1]);
+      expect(ids({ field: 'tags', operator: 'arrayContainsAll', value: [] })).toEqual([1, 2, 3, 4, 5, 6]);
+      expect(ids({ field: 'tags', operator: 'arrayContainsAny', value: ['public', 'internal'] })).toEqual([1, 2, 4, 5, 6]);
+      expect(ids({ field: 'title', operator: 'arrayContainsAny', value: ['Launch'] })).toEqual([]);
+    });
+  });
+
+  describe('not', () => {
+    it('should match items that match none of the conditions', () => {
+      expect(ids({
+        logicalOperator: 'not',
+        conditions: [
+          { field: 'tags', operator: 'contains', value: 'internal' },
+          { field: 'size', operator: 'lessThan', value: 50 },
+        ],
+      })).toEqual([1]);
+      expect(ids({ logicalOperator: 'not', conditions: [] })).toEqual([1, 2, 3, 4, 5, 6]);
+    });
+
+    it('should nest inside other logical filters', () => {
+      expect(ids(parseQuery('tags containsAny ["internal"] and not (venue.city = "Athens" or size = 8)'))).toEqual([6]);
+    });
+  });
+
+  describe('compare options', () => {
+    it('should match strings case-sensitively on request', () => {
+      expect(ids({ field: 'title', operator: 'startsWith', value: 'launch' })).toEqual([1, 2]);
+      expect(ids({ field: 'title', operator: 'startsWith', value: 'launch', caseSensitive: true })).toEqual([2]);
+      expect(ids({ field: 'title', operator: 'equals', value: 'RETRO', caseSensitive: false })).toEqual([3]);
+      expect(ids({ field: 'title', operator: 'in', value: ['retro', 'étude'], caseSensitive: false })).toEqual([3, 4]);
+      expect(ids({ field: 'title', operator: 'regex', value: '^LAUNCH$', caseSensitive: false })).toEqual([1]);
+    });
+
+    it('should compare with a locale collation', () => {
+      expect(ids({ field: 'title', operator: 'lessThan', value: 'F' })).toEqual([]);
+      expect(ids({ field: 'title', operator: 'lessThan', value: 'F', locale: 'en' })).toEqual([4]);
+      expect(ids({ field: 'title', operator: 'equals', value: 'etude', locale: 'fr', caseSensitive: false })).toEqual([]);
+      expect(ids({ field: 'title', operator: 'equals', value: 'étude', locale: 'fr', caseSensitive: false })).toEqual([4]);
+    });
+
+    it('should sort with collation options', () => {
+      const titles = (options: Partial<{ locale: string; numeric: boolean; caseSensitive: boolean }>) =>
+        sortBySingleField(events, { field: 'title', direction: 'asc', ...options }).map(event => event.title);
+
+      expect(titles({ locale: 'en', numeric: true })).toEqual([
+        'Étude', 'Launch', 'launch party', 'Offsite 9', 'Offsite 10', 'Retro',
+      ]);
+      expect(titles({ caseSensitive: true })).toEqual([
+        'Launch', 'Offsite 10', 'Offsite 9', 'Retro', 'launch party', 'Étude',
+      ]);
+    });
+  });
+
+  describe('dates', () => {
+    it('should compare Dates with ISO date strings', () => {
+      expect(ids({ field: 'at', operator: 'greaterThanOrEqual', value: '2025-03-01T20:00:00Z' })).toEqual([2, 4, 5]);
+      expect(ids({ field: 'at', operator: 'equals', value: '2025-02-14T15:00:00.000Z' })).toEqual([3]);
+      expect(ids({ field: 'day', operator: 'lessThan', value: new Date('2025-02-01') })).toEqual([6]);
+      expect(ids({ field: 'at', operator: 'between', value: ['2025-03-01', '2025-04-30'] })).toEqual([1, 2, 4]);
+      expect(ids({ field: 'at', operator: 'in', value: [new Date('2025-01-05T08:00:00Z')] })).toEqual([6]);
+    });
+
+    it('should accept dates in the query language', () => {
+      expect(new JsonQuery(events).where('at between ["2025-02-01", "2025-03-31"]').execute().data.map(e => e.id))
+        .toEqual([1, 2, 3]);
+    });
+
+    it('should sort Dates and ISO strings by time', () => {
+      const mixed = [
+        { id: 1, when: '2025-03-01T12:00:00+02:00' },
+        { id: 2, when: new Date('2025-03-01T11:00:00Z') },
+        { id: 3, when: '2025-03-01T09:30:00Z' },
+      ];
+
+      expect(sortBySingleField(mixed, { field: 'when', direction: 'asc' }).map(row => row.id)).toEqual([3, 1, 2]);
+    });
+
+    it('should give indexed queries the same results', () => {
+      const query = JsonQuery.indexed(events, { indexes: [{ field: 'at', type: 'hash' }, { field: 'day', type: 'sorted' }] });
+
+      expect(query.filter({ field: 'at', operator: 'equals', value: '2025-05-20T08:00:00Z' }).execute().data.map(e => e.id))
+        .toEqual([5]);
+      expect(query.filter({ field: 'day', operator: 'between', value: [new Date('2025-01-01'), new Date('2025-02-28')] }).execute().data.map(e => e.id))
+        .toEqual([3, 6]);
+      expect(query.filter({ field: 'day', operator: 'greaterThan', value: '2025-04-01' }).execute().data.map(e => e.id))
+        .toEqual([4, 5]);
+    });
+  });
+
+  describe('custom operators', () => {
+    beforeAll(() => {
+      registerOperator('divisibleBy', (value, divisor) => typeof value === 'number' && value % divisor === 0);
+      registerOperator('withinKm', (value, { lat, lng, km }) =>
+        value != null && Math.hypot(value.lat - lat, value.lng - lng) * 111 <= km);
+    });
+
+    afterAll(() => {
+      unregisterOperator('divisibleBy');
+      unregisterOperator('withinKm');
+    });
+
+    it('should filter with a registered operator', () => {
+      expect(ids({ field: 'size', operator: 'divisibleBy', value: 20 })).toEqual([1, 2]);
+      expect(applyOperator({ lat: 52.5, lng: 13.4 }, 'withinKm', { lat: 52.52, lng: 13.41, km: 5 })).toBe(true);
+    });
+
+    it('should parse registered operators by name', () => {
+      expect(parseQuery('size divisibleBy 5')).toEqual({ field: 'size', operator: 'divisibleBy', value: 5 });
+      expect(new JsonQuery(events).where('not size divisibleBy 5').execute().data.map(e => e.id)).toEqual([3, 4]);
+    });
+
+    it('should reject built-in and duplicate names', () => {
+      expect(() => registerOperator('divisibleBy', () => true)).toThrow('already registered');
+      expect(() => registerOperator('equals' as 'divisibleBy', () => true)).toThrow('built-in operator');
+    });
+
+    it('should match nothing once unregistered', () => {
+      expect(unregisterOperator('divisibleBy')).toBe(true);
+      expect(ids({ field: 'size', operator: 'divisibleBy', value: 5 })).toEqual([]);
+      expect(unregisterOperator('divisibleBy')).toBe(false);
+      registerOperator('divisibleBy', (value, divisor) => typeof value === 'number' && value % divisor === 0);
+    });
+  });
+});
@@ -0,0 +1,294 @@
+import { parseQuery, stringifyQuery, tokenize, QuerySyntaxError } from '../parser';
+import { JsonQuery } from '../core/JsonQuery';
+import { FilterCondition, LogicalFilter } from '../types';
+
+describe('Query Language', () => {
+  interface User {
+    id: number;
+    name: string;
+    age: number;
+    city: string;
+    tags: string[];
+  }
+
+  const users: User[] = [
+    { id: 1, name: 'John Doe', age: 30, city: 'New York', tags: ['vip'] },
+    { id: 2, name: 'Jane Smith', age: 25, city: 'London', tags: [] },
+    { id: 3, name: 'Peter Jones', age: 35, city: 'Paris', tags: ['vip', 'beta'] },
+    { id: 4, name: 'Alice Brown', age: 29, city: 'London', tags: ['beta'] },
+  ];
+
+  function expectSyntaxError(input: string, position: number, reason?: string): void {
+    try {
+      parseQuery(input);
+    } catch (e) {
+      expect(e).toBeInstanceOf(QuerySyntaxError);
+      const error = e as QuerySyntaxError;
+      expect(error.position).toBe(position);
+      if (reason) {
+        expect(error.reason).toContain(reason);
+      }
+      return;
+    }
+    throw new Error(`Expected "${input}" to fail to parse`);
+  }
+
+  describe('tokenize', () => {
+    it('should keep field paths in a single token', () => {
+      const tokens = tokenize('orders[0].total >= 10 and tags[*] = "x"');
+
+      expect(tokens.map(t => t.type)).toEqual([
+        'word', 'symbol', 'number', 'word', 'word', 'symbol', 'string', 'eof',
+      ]);
+      expect(tokens[0].text).toBe('orders[0].total');
+      expect(tokens[4].text).toBe('tags[*]');
+    });
+
+    it('should decode string escapes', () => {
+      const [token] = tokenize('"say \\"hi\\"\\n\\u00e9"');
+
+      expect(token.text).toBe('say "hi"\né');
+    });
+  });
+
+  describe('parseQuery', () => {
+    it('should parse a single condition', () => {
+      expect(parseQuery<User>('age > 28')).toEqual({
+        field: 'age',
+        operator: 'greaterThan',
+        value: 28,
+      });
+    });
+
+    it('should map every operator', () => {
+      const cases: [string, string, unknown][] = [
+        ['name = "x"', 'equals', 'x'],
+        ["name == 'x'", 'equals', 'x'],
+        ['name != "x"', 'notEquals', 'x'],
+        ['age < -1.5', 'lessThan', -1.5],
+        ['age >= 1e3', 'greaterThanOrEqual', 1000],
+        ['age <= 2', 'lessThanOrEqual', 2],
+        ['name contains "o"', 'contains', 'o'],
+        ['name STARTSWITH "J"', 'startsWith', 'J'],
+        ['name endsWith "s"', 'endsWith', 's'],
+        ['city in ["London", "Paris"]', 'in', ['London', 'Paris']],
+        ['city = null', 'equals', null],
+        ['active = true', 'equals', true],
+        ['city notIn ["Rome"]', 'notIn', ['Rome']],
+        ['age between [18, 65]', 'between', [18, 65]],
+        ['name regex "^J.+s$"', 'regex', '^J.+s$'],
+        ['name matches "x"', 'regex', 'x'],
+        ['email exists false', 'exists', false],
+        ['email isNull true', 'isNull', true],
+        ['tags containsAll ["a", "b"]', 'arrayContainsAll', ['a', 'b']],
+        ['tags containsAny ["a"]', 'arrayContainsAny', ['a']],
+      ];
+
+      for (const [input, operator, value] of cases) {
+        expect(parseQuery(input)).toMatchObject({ operator, value });
+      }
+    });
+
+    it('should give "and" precedence over "or"', () => {
+      expect(parseQuery<User>('age > 28 or city = "London" and name startsWith "A"')).toEqual({
+        logicalOperator: 'or',
+        conditions: [
+          { field: 'age', operator: 'greaterThan', value: 28 },
+          {
+            logicalOperator: 'and',
+            conditions: [
+              { field: 'city', operator: 'equals', value: 'London' },
+              { field: 'name', operator: 'startsWith', value: 'A' },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('should honour parentheses', () => {
+      const filter = parseQuery<User>('age > 28 AND (city = "London" OR tags contains "vip")');
+
+      expect(filter).toEqual({
+        logicalOperator: 'and',
+        conditions: [
+          { field: 'age', operator: 'greaterThan', value: 28 },
+          {
+            logicalOperator: 'or',
+            conditions: [
+              { field: 'city', operator: 'equals', value: 'London' },
+              { field: 'tags', operator: 'contains', value: 'vip' },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('should parse "not" as a prefix', () => {
+      expect(parseQuery<User>('not (age > 28 or city = "London") and not name = "x"')).toEqual({
+        logicalOperator: 'and',
+        conditions: [
+          {
+            logicalOperator: 'not',
+            conditions: [{
+              logicalOperator: 'or',
+              conditions: [
+                { field: 'age', operator: 'greaterThan', value: 28 },
+                { field: 'city', operator: 'equals', value: 'London' },
+              ],
+            }],
+          },
+          { logicalOperator: 'not', conditions: [{ field: 'name', operator: 'equals', value: 'x' }] },
+        ],
+      });
+      // A field named "not" is followed by an operator
+      expect(parseQuery('not = 1')).toEqual({ field: 'not', operator: 'equals', value: 1 });
+      expect(parseQuery('not contains "a"')).toEqual({ field: 'not', operator: 'contains', value: 'a' });
+    });
+
+    it('should flatten chains of the same operator', () => {
+      const filter = parseQuery<User>('id = 1 or id = 2 or id = 3') as LogicalFilter<User>;
+
+      expect(filter.conditions.length).toBe(3);
+    });
+
+    it('should restrict fields when a field list is given', () => {
+      expect(() => parseQuery('age > 1', { fields: ['age'] })).not.toThrow();
+      try {
+        parseQuery('age > 1 and password = "x"', { fields: ['age'] });
+        throw new Error('Expected an error');
+      } catch (e) {
+        expect((e as QuerySyntaxError).reason).toBe('Unknown field "password"');
+        expect((e as QuerySyntaxError).position).toBe(12);
+      }
+    });
+
+    it('should report problems found by a validate callback at the condition', () => {
+      const validate = (condition: { field: unknown; value: unknown }) =>
+        typeof condition.value === 'number' ? undefined : `Expected a number for "${String(condition.field)}"`;
+
+      expect(parseQuery('age > 1', { validate })).toEqual({ field: 'age', operator: 'greaterThan', value: 1 });
+      try {
+        parseQuery('age > 1 or (score = "x")', { validate });
+        throw new Error('Expected an error');
+      } catch (e) {
+        expect((e as QuerySyntaxError).reason).toBe('Expected a number for "score"');
+        expect((e as QuerySyntaxError).position).toBe(12);
+      }
+    });
+
+    it('should report positions of syntax errors', () => {
+      expectSyntaxError('', 0, 'Expected a condition');
+      expectSyntaxError('age >', 5, 'Expected a value, found end of query');
+      expectSyntaxError('age 28', 4, 'Expected an operator after "age"');
+      expectSyntaxError('age > 28 city = "x"', 9, 'expected "and", "or" or end of query');
+      expectSyntaxError('(age > 28', 9, 'Expected ")" to close "(" at position 0');
+      expectSyntaxError('name = London', 7, 'quote strings');
+      expectSyntaxError('name = "London', 7, 'Unterminated string');
+      expectSyntaxError('city in "London"', 8, 'Expected a list');
+      expectSyntaxError('city = ["London"]', 7, 'Lists are only allowed with "in"');
+      expectSyntaxError('age between [1]', 12, 'Expected a [min, max] list after "between"');
+      expectSyntaxError('email exists 1', 13, 'Expected true or false after "exists"');
+      expectSyntaxError('name regex "("', 11, 'Invalid regular expression');
+      expectSyntaxError('not', 3, 'Expected an operator after "not"');
+      expectSyntaxError('city in ["a" "b"]', 13, 'Expected "," or "]"');
+      expectSyntaxError('age > 28 # 1', 9, 'Unexpected character "#"');
+      expectSyntaxError('age > 12abc', 8, 'in number');
+      expectSyntaxError('a..b = 1', 0, 'Invalid field path');
+      expectSyntaxError('name = "\\q"', 8, 'Invalid escape');
+    });
+
+    it('should include the input and a caret in the message', () => {
+      expect(() => parseQuery('age 28')).toThrow('at position 4\n  age 28\n      ^');
+    });
+  });
+
+  describe('stringifyQuery', () => {
+    it('should serialize a condition', () => {
+      const condition: FilterCondition<User> = { field: 'name', operator: 'contains', value: 'o"k' };
+
+      expect(stringifyQuery(condition)).toBe('name contains "o\\"k"');
+    });
+
+    it('should parenthesize only where needed', () => {
+      const filter: LogicalFilter<User> = {
+        logicalOperator: 'and',
+        conditions: [
+          { field: 'age', operator: 'greaterThan', value: 28 },
+          {
+            logicalOperator: 'or',
+            conditions: [
+              { field: 'city', operator: 'in', value: ['London', 'Paris'] },
+              {
+                logicalOperator: 'and',
+                conditions: [
+                  { field: 'tags', operator: 'contains', value: 'vip' },
+                  { field: 'id', operator: 'notEquals', value: 3 },
+                ],
+              },
+            ],
+          },
+        ],
+      };
+
+      expect(stringifyQuery(filter)).toBe(
+        'age > 28 and (city in ["London", "Paris"] or tags contains "vip" and id != 3)'
+      );
+    });
+
+    it('should round-trip through parseQuery', () => {
+      const inputs = [
+        'age > 28 and (city = "London" or tags contains "vip")',
+        'a = 1 or b = 2 and (c = 3 or d = 4)',
+        'a = 1 and (b = 2 and c = 3)',
+        'orders[*].total >= 100 and name startsWith "J\\n"',
+        'x in [] or y = null or z = false',
+        'not (a = 1 or b = 2) and not c between [1, 2]',
+        'not not tags containsAny ["x"] or name regex "^a" and e isNull false',
+      ];
+
+      for (const input of inputs) {
+        const filter = parseQuery(input);
+        expect(stringifyQuery(filter)).toBe(input);
+        expect(parseQuery(stringifyQuery(filter))).toEqual(filter);
+      }
+    });
+
+    it('should reject values the language cannot express', () => {
+      expect(() => stringifyQuery({ field: 'a', operator: 'equals', value: new Date(0) }))
+        .toThrow('Cannot serialize value');
+      expect(() => stringifyQuery({ field: 'a', operator: 'equals', value: NaN }))
+        .toThrow('Cannot serialize value');
+      expect(() => stringifyQuery({ field: 'a', operator: 'in', value: [[1]] }))
+        .toThrow('Cannot serialize value');
+      expect(() => stringifyQuery({ field: 'first name', operator: 'equals', value: 1 }))
+        .toThrow('Cannot serialize field');
+      expect(() => stringifyQuery({ logicalOperator: 'or', conditions: [] }))
+        .toThrow('empty "or" filter');
+      expect(() => stringifyQuery({ field: 'a', operator: 'regex', value: /x/i }))
+        .toThrow('Cannot serialize value');
+      expect(() => stringifyQuery({ field: 'a', operator: 'equals', value: 'x', caseSensitive: false }))
+        .toThrow('Cannot serialize compare options');
+    });
+
+    it('should serialize negations of several conditions as "not (... or ...)"', () => {
+      expect(stringifyQuery({
+        logicalOperator: 'not',
+        conditions: [
+          { field: 'a', operator: 'equals', value: 1 },
+          { field: 'b', operator: 'regex', value: /^b/ },
+        ],
+      })).toBe('not (a = 1 or b regex "^b")');
+    });
+  });
+
+  describe('JsonQuery.where', () => {
+    it('should filter with a query string', () => {
+      const result = new JsonQuery(users)
+        .where('age > 28 and (city = "London" or tags contains "vip")')
+        .sort({ field: 'id', direction: 'asc' })
+        .execute();
+
+      expect(result.data.map(u => u.id)).toEqual([1, 3, 4]);
+    });
+  });
+});
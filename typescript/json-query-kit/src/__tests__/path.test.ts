@@ -0,0 +1,197 @@
+import { parsePath, getFieldValue, matchesPath } from '../utils/path';
+import { filterData } from '../utils/filter';
+import { sortBySingleField, sortByMultipleFields } from '../utils/sort';
+import { FieldPath, FilterCondition, SortOption } from '../types';
+
+describe('Path Utils', () => {
+  interface Order {
+    id: number;
+    total: number;
+    paid: boolean;
+  }
+
+  interface Customer {
+    id: number;
+    name: string;
+    address: { city: string; geo?: { lat: number } };
+    tags: string[];
+    orders: Order[];
+  }
+
+  const customers: Customer[] = [
+    {
+      id: 1,
+      name: 'John Doe',
+      address: { city: 'New York', geo: { lat: 40.7 } },
+      tags: ['vip', 'newsletter'],
+      orders: [{ id: 10, total: 120, paid: true }, { id: 11, total: 30, paid: true }],
+    },
+    {
+      id: 2,
+      name: 'Jane Smith',
+      address: { city: 'London' },
+      tags: ['newsletter'],
+      orders: [{ id: 20, total: 80, paid: false }],
+    },
+    {
+      id: 3,
+      name: 'Peter Jones',
+      address: { city: 'Paris', geo: { lat: 48.8 } },
+      tags: [],
+      orders: [],
+    },
+  ];
+
+  describe('parsePath', () => {
+    it('should parse keys, indexes and quantifiers', () => {
+      expect(parsePath('orders[0].total')).toEqual([
+        { type: 'key', key: 'orders' },
+        { type: 'index', index: 0 },
+        { type: 'key', key: 'total' },
+      ]);
+      expect(parsePath('tags[*]')).toEqual([
+        { type: 'key', key: 'tags' },
+        { type: 'any' },
+      ]);
+      expect(parsePath('orders[all].paid')[1]).toEqual({ type: 'all' });
+    });
+
+    it('should reject malformed paths', () => {
+      expect(() => parsePath('address..city')).toThrow('Invalid field path');
+      expect(() => parsePath('address.')).toThrow('Invalid field path');
+      expect(() => parsePath('[0]')).toThrow('Invalid field path');
+      expect(() => parsePath('orders[first]')).toThrow('Invalid array segment');
+      expect(() => parsePath('orders[0')).toThrow('Invalid field path');
+    });
+
+    it('should cache parsed paths without growing without bound', () => {
+      const cached = parsePath('address.geo.lat');
+      expect(parsePath('address.geo.lat')).toBe(cached);
+
+      for (let i = 0; i < 1000; i++) parsePath(`invented.field${i}`);
+
+      const reparsed = parsePath('address.geo.lat');
+      expect(reparsed).not.toBe(cached);
+      expect(reparsed).toEqual(cached);
+    });
+  });
+
+  describe('getFieldValue', () => {
+    it('should resolve nested and indexed paths', () => {
+      expect(getFieldValue(customers[0], 'address.city')).toBe('New York');
+      expect(getFieldValue(customers[0], 'address.geo.lat')).toBe(40.7);
+      expect(getFieldValue(customers[0], 'orders[1].total')).toBe(30);
+    });
+
+    it('should return undefined for missing segments', () => {
+      expect(getFieldValue(customers[1], 'address.geo.lat')).toBeUndefined();
+      expect(getFieldValue(customers[2], 'orders[0].total')).toBeUndefined();
+    });
+
+    it('should collect values for quantified segments', () => {
+      expect(getFieldValue(customers[0], 'orders[*].total')).toEqual([120, 30]);
+    });
+  });
+
+  describe('matchesPath', () => {
+    it('should not match quantifiers against non-arrays', () => {
+      expect(matchesPath(customers[0], 'address[*]', () => true)).toBe(false);
+    });
+  });
+
+  describe('filtering on paths', () => {
+    it('should filter on a dot path', () => {
+      const condition: FilterCondition<Customer> = {
+        field: 'address.city',
+        operator: 'equals',
+        value: 'London',
+      };
+      const result = filterData(customers, condition);
+
+      expect(result.map(c => c.id)).toEqual([2]);
+    });
+
+    it('should filter on an indexed array element', () => {
+      const condition: FilterCondition<Customer> = {
+        field: 'orders[0].total',
+        operator: 'greaterThan',
+        value: 100,
+      };
+      const result = filterData(customers, condition);
+
+      expect(result.map(c => c.id)).toEqual([1]);
+    });
+
+    it('should match when any element matches with [*]', () => {
+      const condition: FilterCondition<Customer> = {
+        field: 'tags[*]',
+        operator: 'equals',
+        value: 'vip',
+      };
+      const result = filterData(customers, condition);
+
+      expect(result.map(c => c.id)).toEqual([1]);
+    });
+
+    it('should require every element to match with [all]', () => {
+      const condition: FilterCondition<Customer> = {
+        field: 'orders[all].paid',
+        operator: 'equals',
+        value: true,
+      };
+      const result = filterData(customers, condition);
+
+      // An empty array satisfies [all] vacuously
+      expect(result.map(c => c.id)).toEqual([1, 3]);
+    });
+
+    it('should combine path conditions with logical filters', () => {
+      const result = filterData(customers, {
+        logicalOperator: 'or',
+        conditions: [
+          { field: 'orders[*].total', operator: 'lessThan', value: 50 },
+          { field: 'address.geo.lat', operator: 'greaterThan', value: 45 },
+        ],
+      });
+
+      expect(result.map(c => c.id)).toEqual([1, 3]);
+    });
+  });
+
+  describe('sorting on paths', () => {
+    it('should sort by a dot path', () => {
+      const sortOption: SortOption<Customer> = { field: 'address.city', direction: 'asc' };
+      const result = sortBySingleField(customers, sortOption);
+
+      expect(result.map(c => c.address.city)).toEqual(['London', 'New York', 'Paris']);
+    });
+
+    it('should sort missing nested values last', () => {
+      const result = sortBySingleField(customers, { field: 'orders[0].total', direction: 'desc' });
+
+      expect(result.map(c => c.id)).toEqual([1, 2, 3]);
+    });
+
+    it('should sort by multiple paths', () => {
+      const result = sortByMultipleFields(customers, [
+        { field: 'address.geo.lat', direction: 'asc' },
+        { field: 'name', direction: 'asc' },
+      ]);
+
+      expect(result.map(c => c.id)).toEqual([1, 3, 2]);
+    });
+  });
+
+  describe('path types', () => {
+    it('should accept valid paths and reject unknown ones', () => {
+      const valid: FieldPath<Customer>[] = ['name', 'address.city', 'address.geo.lat', 'orders[2].id'];
+      expect(valid.length).toBe(4);
+
+      // @ts-expect-error - 'address.country' is not a path of Customer
+      const invalid: FieldPath<Customer> = 'address.country';
+      // @ts-expect-error - quantifiers are only allowed in filters
+      const quantified: FieldPath<Customer> = 'tags[*]';
+      expect([invalid, quantified].length).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { addComputedFields, distinctBy, projectData } from '../utils/project';
+import { JsonQuery } from '../core/JsonQuery';
+
+describe('Projection', () => {
+  interface User {
+    id: number;
+    firstName: string;
+    lastName: string;
+    age: number;
+    address: { city: string; country: string };
+  }
+
+  const users: User[] = [
+    { id: 1, firstName: 'John', lastName: 'Doe', age: 30, address: { city: 'London', country: 'UK' } },
+    { id: 2, firstName: 'Jane', lastName: 'Smith', age: 25, address: { city: 'Paris', country: 'FR' } },
+    { id: 3, firstName: 'Peter', lastName: 'Jones', age: 35, address: { city: 'London', country: 'UK' } },
+    { id: 4, firstName: 'Alice', lastName: 'Brown', age: 28, address: { city: 'Lyon', country: 'FR' } },
+    { id: 5, firstName: 'Bob', lastName: 'Wilson', age: 22, address: { city: 'London', country: 'UK' } },
+  ];
+
+  describe('projectData', () => {
+    it('should keep listed fields under their paths', () => {
+      expect(projectData(users.slice(0, 1), ['id', 'address.city'])).toEqual([
+        { id: 1, 'address.city': 'London' },
+      ]);
+    });
+
+    it('should rename fields from a map', () => {
+      expect(projectData(users.slice(0, 1), { userId: 'id', city: 'address.city' })).toEqual([
+        { userId: 1, city: 'London' },
+      ]);
+    });
+  });
+
+  describe('addComputedFields', () => {
+    it('should add fields without mutating the source rows', () => {
+      const result = addComputedFields(users.slice(0, 1), [
+        { fullName: (u: User) => `${u.firstName} ${u.lastName}` },
+        { initials: (u: any) => u.fullName.split(' ').map((p: string) => p[0]).join('') },
+      ]);
+
+      expect(result[0]).toMatchObject({ fullName: 'John Doe', initials: 'JD' });
+      expect(users[0]).not.toHaveProperty('fullName');
+    });
+  });
+
+  describe('distinctBy', () => {
+    it('should keep the first row per distinct key', () => {
+      expect(distinctBy(users, ['address.country']).map(u => u.id)).toEqual([1, 2]);
+      expect(distinctBy(users, ['address.country', 'address.city']).map(u => u.id)).toEqual([1, 2, 4]);
+    });
+  });
+
+  describe('JsonQuery', () => {
+    it('should project result rows and keep pagination', () => {
+      const result = new JsonQuery(users)
+        .filter({ field: 'address.country', operator: 'equals', value: 'UK' })
+        .sort({ field: 'age', direction: 'asc' })
+        .paginate({ page: 1, pageSize: 2 })
+        .select({ name: 'firstName', city: 'address.city' })
+        .execute();
+
+      expect(result.data).toEqual([
+        { name: 'Bob', city: 'London' },
+        { name: 'John', city: 'London' },
+      ]);
+      expect(result.meta.pagination).toMatchObject({ totalItems: 3, totalPages: 2 });
+    });
+
+    it('should filter and sort on computed fields', () => {
+      const result = new JsonQuery(users)
+        .computed({
+          fullName: u => `${u.firstName} ${u.lastName}`,
+          birthYear: u => 2025 - u.age,
+        })
+        .filter({ field: 'birthYear', operator: 'lessThan', value: 2000 })
+        .sort({ field: 'fullName', direction: 'desc' })
+        .execute();
+
+      expect(result.data.map(u => u.fullName)).toEqual(['Peter Jones', 'John Doe', 'Alice Brown']);
+      expect(result.data[0].birthYear).toBe(1990);
+    });
+
+    it('should let computed fields build on each other and be selected', () => {
+      const result = new JsonQuery(users)
+        .computed({ fullName: u => `${u.firstName} ${u.lastName}` })
+        .computed({ label: u => `${u.fullName} (${u.address.city})` })
+        .select(['id', 'label'])
+        .paginate({ offset: 0, limit: 1 })
+        .execute();
+
+      expect(result.data).toEqual([{ id: 1, label: 'John Doe (London)' }]);
+    });
+
+    it('should apply distinct after sorting and before pagination', () => {
+      const result = new JsonQuery(users)
+        .sort({ field: 'age', direction: 'asc' })
+        .distinct('address.city')
+        .paginate({ page: 1, pageSize: 10 })
+        .select(['address.city', 'firstName'])
+        .execute();
+
+      expect(result.data).toEqual([
+        { 'address.city': 'London', firstName: 'Bob' },
+        { 'address.city': 'Paris', firstName: 'Jane' },
+        { 'address.city': 'Lyon', firstName: 'Alice' },
+      ]);
+      expect(result.meta.pagination?.totalItems).toBe(3);
+    });
+
+    it('should group projected rows', () => {
+      const result = new JsonQuery(users)
+        .select({ country: 'address.country', age: 'age' })
+        .groupBy('country', { oldest: { operator: 'max', field: 'age' } })
+        .execute();
+
+      expect(result.data).toEqual([
+        { country: 'UK', oldest: 35 },
+        { country: 'FR', oldest: 28 },
+      ]);
+    });
+
+    it('should clear distinct on reset but keep the row shape', () => {
+      const query = new JsonQuery(users)
+        .computed({ fullName: u => `${u.firstName} ${u.lastName}` })
+        .distinct('address.country');
+      query.reset();
+
+      const result = query.execute();
+      expect(result.data.length).toBe(5);
+      expect(result.data[0].fullName).toBe('John Doe');
+    });
+
+    it('should type projected and computed rows', () => {
+      const selected = new JsonQuery(users).select(['id', 'address.city']).execute().data;
+      const id: number = selected[0].id;
+      const city: string = selected[0]['address.city'];
+
+      const renamed = new JsonQuery(users).select({ country: 'address.country' }).execute().data;
+      const country: string = renamed[0].country;
+
+      const computed = new JsonQuery(users).computed({ adult: u => u.age >= 18 }).execute().data;
+      const adult: boolean = computed[0].adult;
+
+      // @ts-expect-error - unselected fields are not part of the row type
+      const missing = selected[0].age;
+
+      expect([id, city, country, adult, missing]).toEqual([1, 'London', 'UK', true, undefined]);
+    });
+  });
+});
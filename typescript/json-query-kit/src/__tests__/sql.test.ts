@@ -0,0 +1,228 @@
+import initSqlJs, { Database } from 'sql.js';
+import { toSql, QueryTranslationError } from '../adapters';
+import { JsonQuery } from '../core/JsonQuery';
+import { FilterCondition, LogicalFilter, PaginationOption, QueryConfig, SortOption } from '../types';
+
+describe('SQL translation', () => {
+  interface Person {
+    id: number;
+    name: string;
+    age: number | null;
+    score: number;
+    address: { city: string | null };
+  }
+
+  const names = ['Ann', 'bob', 'Cara', 'Dan_1', 'Eve%', 'frank', 'Gus', 'Hana'];
+  const cities = ['London', 'Paris', null, 'Berlin'];
+
+  const people: Person[] = Array.from({ length: 40 }, (_, i) => ({
+    id: i + 1,
+    name: `${names[i % names.length]} ${String.fromCharCode(65 + (i % 7))}`,
+    age: i % 6 === 0 ? null : 15 + ((i * 17) % 50),
+    score: ((i * 29) % 23) - 5,
+    address: { city: cities[(i * 3) % cities.length] },
+  }));
+
+  const fields = { id: 'id', name: 'name', age: 'age', score: 'score', 'address.city': 'city' };
+
+  let db: Database;
+
+  beforeAll(async () => {
+    const SQL = await initSqlJs();
+    db = new SQL.Database();
+    db.run('CREATE TABLE people (id INTEGER PRIMARY KEY, name TEXT, age INTEGER, score REAL, city TEXT)');
+    for (const person of people) {
+      db.run('INSERT INTO people VALUES (?, ?, ?, ?, ?)', [
+        person.id, person.name, person.age, person.score, person.address.city,
+      ]);
+    }
+  });
+
+  afterAll(() => {
+    db.close();
+  });
+
+  function sqlIds(config: QueryConfig<Person>): number[] {
+    const { text, params } = toSql(config, { fields, dialect: 'sqlite' });
+    const [result] = db.exec(`SELECT id FROM people ${text}`, params as (string | number | null)[]);
+    return result ? result.values.map(row => row[0] as number) : [];
+  }
+
+  function memoryIds(config: QueryConfig<Person>): number[] {
+    const query = new JsonQuery(people);
+    if (config.filter) query.filter(config.filter);
+    if (config.sort) query.sort(config.sort);
+    if (config.pagination) query.paginate(config.pagination);
+    return query.execute().data.map(person => person.id);
+  }
+
+  describe('result parity with the in-memory executor', () => {
+    const filters: Array<[string, FilterCondition<Person> | LogicalFilter<Person>]> = [
+      ['equals', { field: 'address.city', operator: 'equals', value: 'Paris' }],
+      ['equals null', { field: 'address.city', operator: 'equals', value: null }],
+      ['notEquals, which keeps nulls', { field: 'address.city', operator: 'notEquals', value: 'Paris' }],
+      ['notEquals null', { field: 'age', operator: 'notEquals', value: null }],
+      ['case-insensitive contains', { field: 'name', operator: 'contains', value: 'AN' }],
+      ['contains with LIKE wildcards', { field: 'name', operator: 'contains', value: '_1' }],
+      ['contains a percent sign', { field: 'name', operator: 'contains', value: '%' }],
+      ['startsWith', { field: 'name', operator: 'startsWith', value: 'b' }],
+      ['endsWith', { field: 'name', operator: 'endsWith', value: ' c' }],
+      ['greaterThan', { field: 'age', operator: 'greaterThan', value: 40 }],
+      ['lessThan, which matches nulls coerced to 0', { field: 'age', operator: 'lessThan', value: 30 }],
+      ['greaterThanOrEqual a negative bound', { field: 'score', operator: 'greaterThanOrEqual', value: -2 }],
+      ['lessThanOrEqual', { field: 'score', operator: 'lessThanOrEqual', value: 0 }],
+      ['in', { field: 'address.city', operator: 'in', value: ['Berlin', 'London'] }],
+      ['in with null', { field: 'address.city', operator: 'in', value: ['Berlin', null] }],
+      ['in with an empty list', { field: 'id', operator: 'in', value: [] }],
+      ['notIn, which keeps nulls', { field: 'address.city', operator: 'notIn', value: ['Paris'] }],
+      ['notIn with null', { field: 'address.city', operator: 'notIn', value: ['Paris', null] }],
+      ['notIn with an empty list', { field: 'id', operator: 'notIn', value: [] }],
+      ['between', { field: 'age', operator: 'between', value: [20, 40] }],
+      ['between a bound below zero, which matches nulls', { field: 'age', operator: 'between', value: [-1, 25] }],
+      ['isNull', { field: 'age', operator: 'isNull', value: true }],
+      ['not', {
+        logicalOperator: 'not',
+        conditions: [
+          { field: 'address.city', operator: 'equals', value: 'London' },
+          { field: 'age', operator: 'greaterThan', value: 30 },
+        ],
+      }],
+      ['nested logical filters', {
+        logicalOperator: 'or',
+        conditions: [
+          {
+            logicalOperator: 'and',
+            conditions: [
+              { field: 'address.city', operator: 'equals', value: 'London' },
+              { field: 'age', operator: 'greaterThan', value: 30 },
+            ],
+          },
+          { field: 'score', operator: 'lessThan', value: -3 },
+        ],
+      }],
+      ['an empty and', { logicalOperator: 'and', conditions: [] }],
+      ['an empty or', { logicalOperator: 'or', conditions: [] }],
+    ];
+
+    it.each(filters)('should filter with %s', (_, filter) => {
+      expect(sqlIds({ filter, sort: [{ field: 'id', direction: 'asc' }] }))
+        .toEqual(memoryIds({ filter }));
+    });
+
+    const sorts: Array<[string, SortOption<Person>[]]> = [
+      ['ascending with nulls last', [{ field: 'age', direction: 'asc' }, { field: 'id', direction: 'asc' }]],
+      ['descending with nulls last', [{ field: 'address.city', direction: 'desc' }, { field: 'id', direction: 'desc' }]],
+      ['several fields', [
+        { field: 'score', direction: 'desc' },
+        { field: 'address.city', direction: 'asc' },
+        { field: 'id', direction: 'asc' },
+      ]],
+    ];
+
+    it.each(sorts)('should sort %s', (_, sort) => {
+      expect(sqlIds({ sort })).toEqual(memoryIds({ sort }));
+    });
+
+    const pages: Array<[string, PaginationOption]> = [
+      ['the first page', { page: 1, pageSize: 7 }],
+      ['a middle page', { page: 3, pageSize: 7 }],
+      ['default page size', {}],
+      ['offset and limit', { offset: 13, limit: 9 }],
+    ];
+
+    it.each(pages)('should paginate %s', (_, pagination) => {
+      const config: QueryConfig<Person> = {
+        filter: { field: 'age', operator: 'notEquals', value: null },
+        sort: [{ field: 'age', direction: 'asc' }, { field: 'id', direction: 'asc' }],
+        pagination,
+      };
+      expect(sqlIds(config)).toEqual(memoryIds(config));
+    });
+
+    it('should translate a JsonQuery configuration', () => {
+      const query = new JsonQuery(people)
+        .where('address.city = "London" and age >= 20')
+        .sort([{ field: 'age', direction: 'desc' }, { field: 'id', direction: 'asc' }])
+        .paginate({ page: 1, pageSize: 3 });
+
+      expect(sqlIds(query.toConfig())).toEqual(query.execute().data.map(p => p.id));
+    });
+  });
+
+  describe('toSql', () => {
+    it('should build parameterized clauses for each dialect', () => {
+      const config: QueryConfig<Person> = {
+        filter: {
+          logicalOperator: 'and',
+          conditions: [
+            { field: 'address.city', operator: 'equals', value: 'London' },
+            { field: 'age', operator: 'greaterThan', value: 30 },
+          ],
+        },
+        sort: [{ field: 'name', direction: 'desc' }],
+        pagination: { page: 2, pageSize: 20 },
+      };
+
+      expect(toSql(config, { fields })).toEqual({
+        where: '"city" = $1 AND "age" > $2',
+        orderBy: '"name" IS NULL, "name" DESC',
+        limit: 'LIMIT $3 OFFSET $4',
+        params: ['London', 30, 20, 20],
+        text: 'WHERE "city" = $1 AND "age" > $2 ORDER BY "name" IS NULL, "name" DESC LIMIT $3 OFFSET $4',
+      });
+      expect(toSql(config, { fields, dialect: 'mysql' }).text).toBe(
+        'WHERE `city` = ? AND `age` > ? ORDER BY `name` IS NULL, `name` DESC LIMIT ? OFFSET ?'
+      );
+    });
+
+    it('should quote table-qualified columns and escape quotes', () => {
+      const { where } = toSql(
+        { filter: { field: 'name', operator: 'equals', value: 'x' } },
+        { fields: { name: 'users.na"me' } }
+      );
+
+      expect(where).toBe('"users"."na""me" = $1');
+    });
+
+    it('should return empty clauses for an empty configuration', () => {
+      expect(toSql({}, { fields: [] })).toEqual({ where: '', orderBy: '', limit: '', params: [], text: '' });
+    });
+
+    it('should reject fields that are not whitelisted', () => {
+      const translate = () => toSql(
+        { filter: { field: 'password', operator: 'equals', value: 'x' } },
+        { fields: ['name'] }
+      );
+
+      expect(translate).toThrow(QueryTranslationError);
+      expect(translate).toThrow('Field "password" is not allowed');
+      expect(() => toSql({ sort: [{ field: 'name; DROP TABLE people', direction: 'asc' }] }, { fields }))
+        .toThrow(QueryTranslationError);
+    });
+
+    it('should reject conditions without an SQL equivalent', () => {
+      expect(() => toSql({ filter: { field: 'name', operator: 'contains', value: 3 } }, { fields }))
+        .toThrow('Operator "contains" on "name" needs a string value in SQL');
+      expect(() => toSql({ filter: { field: 'age', operator: 'lessThan', value: null } }, { fields }))
+        .toThrow('cannot compare with null');
+      expect(() => toSql({ filter: { field: 'name', operator: 'regex', value: '^a' } }, { fields }))
+        .toThrow('Operator "regex" cannot be translated to SQL');
+      expect(() => toSql({ filter: { field: 'name', operator: 'equals', value: 'a', locale: 'de' } }, { fields }))
+        .toThrow('Compare options on "name" cannot be translated to SQL');
+      expect(() => toSql({ sort: [{ field: 'name', direction: 'asc', numeric: true }] }, { fields }))
+        .toThrow('Compare options on sort field "name" cannot be translated to SQL');
+      expect(() => toSql({ sort: [{ field: 'name', direction: 'desc', caseSensitive: false }] }, { fields }))
+        .toThrow(QueryTranslationError);
+      expect(() => toSql({ pagination: { cursor: null, limit: 5 } }, { fields }))
+        .toThrow('Cursor-based pagination cannot be translated');
+    });
+  });
+
+  describe('JsonQuery.toConfig', () => {
+    it('should reject parts of a query that have no configuration form', () => {
+      expect(() => new JsonQuery(people).sortBy((a, b) => a.id - b.id).toConfig()).toThrow('sortBy()');
+      expect(() => new JsonQuery(people).distinct('name').toConfig()).toThrow('distinct');
+      expect(() => new JsonQuery(people).groupBy('name', {}).toConfig()).toThrow('grouped query');
+    });
+  });
+});
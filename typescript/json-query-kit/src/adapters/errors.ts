@@ -0,0 +1,16 @@
+/**
+ * Error thrown when a query cannot be translated for a database, either
+ * because it uses a field that is not allowed or because the target has no
+ * equivalent for part of it
+ *
+ * `field` is the field path of the offending condition or sort, if any.
+ */
+export class QueryTranslationError extends Error {
+  readonly field?: string;
+
+  constructor(message: string, field?: string) {
+    super(message);
+    this.name = 'QueryTranslationError';
+    this.field = field;
+  }
+}
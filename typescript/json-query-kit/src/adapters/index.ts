@@ -0,0 +1,3 @@
+export * from './errors';
+export * from './sql';
+export * from './mongo';
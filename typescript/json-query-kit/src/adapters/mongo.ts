@@ -0,0 +1,292 @@
+import {
+  FieldWhitelist,
+  FilterCondition,
+  LogicalFilter,
+  QueryConfig,
+  SortOption,
+} from '../types';
+import { hasCompareOptions } from '../utils/compare';
+import { parsePath, PathSegment } from '../utils/path';
+import { QueryTranslationError } from './errors';
+import { matchesNull, paginationBounds, resolveField } from './shared';
+
+/**
+ * Options for `toMongo`
+ */
+export interface MongoOptions {
+  /**
+   * Fields that may be filtered and sorted on; a map renames fields to
+   * document paths. All fields are allowed when omitted.
+   */
+  fields?: FieldWhitelist;
+}
+
+/**
+ * A translated query, ready for `collection.find(filter).sort(sort)...`
+ */
+export interface MongoQuery {
+  filter: Record<string, unknown>;
+  sort: Record<string, 1 | -1>;
+  skip: number;
+  /** Undefined when the query is not paginated */
+  limit?: number;
+}
+
+/**
+ * An operator expression applied to a field, e.g. `{ $gt: 5 }`
+ */
+type Expression = Record<string, unknown>;
+
+/**
+ * Translate a query configuration into a MongoDB filter, sort, skip and
+ * limit
+ *
+ * Values are wrapped in explicit operators (`$eq`, `$in`, ...), so objects
+ * in user input cannot inject query operators. Array quantifiers become
+ * `$elemMatch`: `tags[*]` matches when any element does and `tags[all]`
+ * when every element does. Semantics follow the in-memory executor except
+ * that MongoDB sorts `null` first in ascending order, a path without a
+ * quantifier also matches array elements, strings sort by the collection
+ * collation, and a page past the end is empty instead of clamped.
+ *
+ * @throws QueryTranslationError if a field is not whitelisted, or a condition
+ * or sort option has no MongoDB equivalent
+ *
+ * @example
+ * ```typescript
+ * const { filter, sort, skip, limit } = toMongo(query.toConfig());
+ * await users.find(filter).sort(sort).skip(skip).limit(limit ?? 0).toArray();
+ * ```
+ */
+export function toMongo<T>(config: QueryConfig<T>, options: MongoOptions = {}): MongoQuery {
+  const result: MongoQuery = {
+    filter: config.filter ? translateFilter(config.filter, options) : {},
+    sort: {},
+    skip: 0,
+  };
+
+  for (const option of config.sort ?? []) {
+    result.sort[sortPath(option, options)] = option.direction === 'desc' ? -1 : 1;
+  }
+
+  if (config.pagination) {
+    Object.assign(result, paginationBounds(config.pagination));
+  }
+
+  return result;
+}
+
+function translateFilter<T>(
+  filter: FilterCondition<T> | LogicalFilter<T>,
+  options: MongoOptions
+): Record<string, unknown> {
+  if (!('logicalOperator' in filter)) {
+    return translateCondition(filter, options);
+  }
+
+  const { logicalOperator, conditions } = filter;
+  if (logicalOperator === 'not') {
+    return { $nor: conditions.length > 0 ? conditions.map(condition => translateFilter(condition, options)) : [{ $nor: [{}] }] };
+  }
+  if (conditions.length === 0) {
+    // `$and`/`$or` reject empty arrays; `$nor: [{}]` matches nothing
+    return logicalOperator === 'and' ? {} : { $nor: [{}] };
+  }
+  const parts = conditions.map(condition => translateFilter(condition, options));
+  if (parts.length === 1) return parts[0];
+  return { [logicalOperator === 'and' ? '$and' : '$or']: parts };
+}
+
+function translateCondition<T>(
+  condition: FilterCondition<T>,
+  options: MongoOptions
+): Record<string, unknown> {
+  const field = String(condition.field);
+  const path = options.fields ? resolveField(field, options.fields) : field;
+  const segments = parsePath(path);
+  const quantifier = segments.findIndex(segment => segment.type === 'any' || segment.type === 'all');
+  const alternatives = expressions(condition);
+
+  if (quantifier === -1) {
+    const key = dotPath(segments, field);
+    return alternatives.length === 1
+      ? { [key]: alternatives[0] }
+      : { $or: alternatives.map(expression => ({ [key]: expression })) };
+  }
+
+  if (alternatives.length > 1) {
+    throw new QueryTranslationError(
+      `Operator "${condition.operator}" on "${field}" cannot be combined with an array quantifier in MongoDB`,
+      field
+    );
+  }
+  const prefix = dotPath(segments.slice(0, quantifier), field);
+  const rest = segments.slice(quantifier + 1);
+  const element = (expression: Expression): Expression =>
+    rest.length === 0 ? expression : { [dotPath(rest, field)]: expression };
+
+  if (segments[quantifier].type === 'any') {
+    return { [prefix]: { $elemMatch: element(alternatives[0]) } };
+  }
+  // Every element matches when no element fails to match
+  return { [prefix]: { $type: 'array', $not: { $elemMatch: element({ $not: alternatives[0] }) } } };
+}
+
+/**
+ * Operator expressions for a condition; the field matches when any of them
+ * does
+ */
+function expressions<T>(condition: FilterCondition<T>): Expression[] {
+  const { operator, value } = condition;
+  const field = String(condition.field);
+
+  // Only case sensitivity of regex matching has a per-condition equivalent
+  const regexOperators = ['contains', 'startsWith', 'endsWith', 'regex'];
+  if (
+    condition.locale !== undefined
+    || condition.numeric !== undefined
+    || (condition.caseSensitive !== undefined && !regexOperators.includes(operator))
+  ) {
+    throw new QueryTranslationError(
+      `Compare options on "${field}" cannot be translated to MongoDB; use a collation instead`,
+      field
+    );
+  }
+  const caseOptions = condition.caseSensitive === true ? '' : 'i';
+
+  switch (operator) {
+    case 'equals':
+      // `{ $eq: null }` would also match missing fields
+      return [value == null ? { $type: 'null' } : { $eq: value }];
+
+    case 'notEquals':
+      return [value == null ? { $not: { $type: 'null' } } : { $ne: value }];
+
+    case 'contains':
+      if (typeof value !== 'string') {
+        // Only arrays can contain non-string values
+        return [{ $elemMatch: { $eq: value } }];
+      }
+      return [{ $regex: escapeRegex(value), $options: caseOptions }];
+
+    case 'startsWith':
+    case 'endsWith':
+      if (typeof value !== 'string') {
+        throw new QueryTranslationError(
+          `Operator "${operator}" on "${field}" needs a string value`,
+          field
+        );
+      }
+      return [{
+        $regex: operator === 'startsWith' ? `^${escapeRegex(value)}` : `${escapeRegex(value)}$`,
+        $options: caseOptions,
+      }];
+
+    case 'regex': {
+      if (typeof value !== 'string' && !(value instanceof RegExp)) {
+        throw new QueryTranslationError(`Operator "regex" on "${field}" needs a pattern`, field);
+      }
+      let flags = typeof value === 'string' ? '' : value.flags.replace(/[gyu]/g, '');
+      if (condition.caseSensitive === false && !flags.includes('i')) flags += 'i';
+      if (condition.caseSensitive === true) flags = flags.replace('i', '');
+      return [{ $regex: typeof value === 'string' ? value : value.source, $options: flags }];
+    }
+
+    case 'between': {
+      if (!Array.isArray(value) || value.length !== 2 || value.some(v => v == null)) {
+        throw new QueryTranslationError(`Operator "between" on "${field}" needs a [min, max] value`, field);
+      }
+      const range = { $gte: value[0], $lte: value[1] };
+      return matchesNull(operator, value) ? [range, { $type: 'null' }] : [range];
+    }
+
+    case 'notIn': {
+      if (!Array.isArray(value)) {
+        throw new QueryTranslationError(`Operator "notIn" on "${field}" needs an array value`, field);
+      }
+      const values = value.filter(v => v != null);
+      // `$nin: [null]` would also exclude missing fields
+      return values.length < value.length
+        ? [{ $nin: values, $not: { $type: 'null' } }]
+        : [{ $nin: values }];
+    }
+
+    case 'exists':
+      return [{ $exists: value !== false }];
+
+    case 'isNull':
+      // `$eq: null` matches null and missing fields, like `isNull`
+      return [value === false ? { $ne: null } : { $eq: null }];
+
+    case 'arrayContainsAll':
+    case 'arrayContainsAny': {
+      if (!Array.isArray(value)) {
+        throw new QueryTranslationError(`Operator "${operator}" on "${field}" needs an array value`, field);
+      }
+      if (operator === 'arrayContainsAny') {
+        return [{ $elemMatch: { $in: value } }];
+      }
+      // `$all: []` matches nothing, while every array contains no values
+      return [value.length > 0 ? { $type: 'array', $all: value } : { $type: 'array' }];
+    }
+
+    case 'greaterThan':
+    case 'lessThan':
+    case 'greaterThanOrEqual':
+    case 'lessThanOrEqual': {
+      if (value == null) {
+        throw new QueryTranslationError(
+          `Operator "${operator}" on "${field}" cannot compare with null`,
+          field
+        );
+      }
+      const symbol = { greaterThan: '$gt', lessThan: '$lt', greaterThanOrEqual: '$gte', lessThanOrEqual: '$lte' }[operator];
+      const comparison = { [symbol]: value };
+      return matchesNull(operator, value) ? [comparison, { $type: 'null' }] : [comparison];
+    }
+
+    case 'in': {
+      if (!Array.isArray(value)) {
+        throw new QueryTranslationError(`Operator "in" on "${field}" needs an array value`, field);
+      }
+      const values = value.filter(v => v != null);
+      // `$in: [null]` would also match missing fields
+      return values.length < value.length
+        ? [{ $in: values }, { $type: 'null' }]
+        : [{ $in: values }];
+    }
+
+    default:
+      throw new QueryTranslationError(
+        `Operator "${operator}" cannot be translated to MongoDB`,
+        field
+      );
+  }
+}
+
+function sortPath<T>(option: SortOption<T>, options: MongoOptions): string {
+  const field = String(option.field);
+  const path = options.fields ? resolveField(field, options.fields) : field;
+  if (hasCompareOptions(option)) {
+    throw new QueryTranslationError(
+      `Compare options on sort field "${field}" cannot be translated to MongoDB; use a collation instead`,
+      field
+    );
+  }
+  return dotPath(parsePath(path), field);
+}
+
+/**
+ * Join key and index segments in MongoDB dot notation
+ */
+function dotPath(segments: PathSegment[], field: string): string {
+  return segments.map(segment => {
+    if (segment.type === 'index') return String(segment.index);
+    if (segment.type === 'key' && !segment.key.startsWith('$')) return segment.key;
+    throw new QueryTranslationError(`Field "${field}" cannot be translated to MongoDB`, field);
+  }).join('.');
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,49 @@
+import { FieldWhitelist, FilterOperator, PaginationOption } from '../types';
+import { applyOperator } from '../utils/filter';
+import { QueryTranslationError } from './errors';
+
+/**
+ * Map a field path to its target name through the whitelist
+ *
+ * @throws QueryTranslationError if the field is not allowed
+ */
+export function resolveField(field: unknown, fields: FieldWhitelist): string {
+  const path = String(field);
+  if (isFieldList(fields)) {
+    if (fields.includes(path)) return path;
+  } else if (Object.prototype.hasOwnProperty.call(fields, path)) {
+    return fields[path];
+  }
+  throw new QueryTranslationError(`Field "${path}" is not allowed`, path);
+}
+
+function isFieldList(fields: FieldWhitelist): fields is readonly string[] {
+  return Array.isArray(fields);
+}
+
+/**
+ * Whether the in-memory executor would match a null value: relational
+ * operators coerce null to 0, so `null < 5` holds, while databases never
+ * match NULL in a comparison
+ */
+export function matchesNull(operator: FilterOperator, value: unknown): boolean {
+  return applyOperator(null, operator, value);
+}
+
+/**
+ * Rows to skip and take for page- or offset-based pagination, with the same
+ * defaults and precedence as the in-memory executor
+ *
+ * @throws QueryTranslationError for cursor-based pagination
+ */
+export function paginationBounds(options: PaginationOption): { skip: number; limit: number } {
+  if (options.cursor !== undefined) {
+    throw new QueryTranslationError('Cursor-based pagination cannot be translated');
+  }
+  if (options.offset !== undefined && options.limit !== undefined) {
+    return { skip: Math.max(0, options.offset), limit: options.limit };
+  }
+  const page = Math.max(1, options.page || 1);
+  const pageSize = options.pageSize || 10;
+  return { skip: (page - 1) * pageSize, limit: pageSize };
+}
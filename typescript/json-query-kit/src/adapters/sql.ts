@@ -0,0 +1,260 @@
+import {
+  FieldWhitelist,
+  FilterCondition,
+  LogicalFilter,
+  PaginationOption,
+  QueryConfig,
+  SortOption,
+} from '../types';
+import { QueryTranslationError } from './errors';
+import { hasCompareOptions } from '../utils/compare';
+import { matchesNull, paginationBounds, resolveField } from './shared';
+
+/**
+ * SQL dialect, which decides identifier quoting and placeholder style
+ */
+export type SqlDialect = 'postgres' | 'mysql' | 'sqlite';
+
+/**
+ * Options for `toSql`
+ */
+export interface SqlOptions {
+  /**
+   * Fields that may be filtered and sorted on. A map renames fields to
+   * columns, e.g. `{ 'address.city': 'city' }`; a dot in a column name
+   * qualifies it with a table (`users.city`).
+   */
+  fields: FieldWhitelist;
+  /** Defaults to `'postgres'` */
+  dialect?: SqlDialect;
+}
+
+/**
+ * A translated query: clause bodies, their parameters in placeholder order,
+ * and `text` with all clauses and keywords joined
+ */
+export interface SqlQuery {
+  /** Condition for a WHERE clause, or `''` */
+  where: string;
+  /** Column list for an ORDER BY clause, or `''` */
+  orderBy: string;
+  /** `LIMIT ... OFFSET ...`, or `''` */
+  limit: string;
+  params: unknown[];
+  text: string;
+}
+
+/**
+ * Translate a query configuration into parameterized SQL clauses
+ *
+ * Values are always bound as parameters and only whitelisted fields become
+ * identifiers, so the output is safe to append to a `SELECT`. Semantics
+ * follow the in-memory executor: string matching is case-insensitive,
+ * `null` sorts last in both directions and relational operators match
+ * NULL where JavaScript would coerce it to 0. Strings sort by the column
+ * collation rather than `localeCompare`, ties are only stable with a unique
+ * last sort field, and a page past the end is empty instead of clamped to
+ * the last page.
+ *
+ * @throws QueryTranslationError if a field is not whitelisted, or a condition
+ * or sort option has no SQL equivalent
+ *
+ * @example
+ * ```typescript
+ * const { text, params } = toSql(query.toConfig(), {
+ *   fields: { id: 'id', name: 'name', 'address.city': 'city' },
+ * });
+ * await db.query(`SELECT * FROM users ${text}`, params);
+ * ```
+ */
+export function toSql<T>(config: QueryConfig<T>, options: SqlOptions): SqlQuery {
+  const builder = new SqlBuilder(options);
+  const where = config.filter ? builder.filter(config.filter, true) : '';
+  const orderBy = (config.sort ?? []).map(option => builder.sort(option)).join(', ');
+  const limit = config.pagination ? builder.limit(config.pagination) : '';
+
+  const text = [
+    where && `WHERE ${where}`,
+    orderBy && `ORDER BY ${orderBy}`,
+    limit,
+  ].filter(Boolean).join(' ');
+
+  return { where, orderBy, limit, params: builder.params, text };
+}
+
+/**
+ * Escape LIKE wildcards; `!` is used as the escape character because a
+ * backslash means different things in different dialects
+ */
+function escapeLike(value: string): string {
+  return value.replace(/[!%_]/g, char => `!${char}`);
+}
+
+class SqlBuilder {
+  readonly params: unknown[] = [];
+  private readonly fields: FieldWhitelist;
+  private readonly dialect: SqlDialect;
+
+  constructor(options: SqlOptions) {
+    this.fields = options.fields;
+    this.dialect = options.dialect ?? 'postgres';
+  }
+
+  filter<T>(filter: FilterCondition<T> | LogicalFilter<T>, top = false): string {
+    if (!('logicalOperator' in filter)) {
+      return this.condition(filter);
+    }
+
+    const { logicalOperator, conditions } = filter;
+    if (logicalOperator === 'not') {
+      // CASE maps NULL (unknown) to 0, so NOT matches the rows JavaScript
+      // negation would
+      const inner = this.filter({ logicalOperator: 'or', conditions }, true);
+      return `(CASE WHEN ${inner} THEN 1 ELSE 0 END) = 0`;
+    }
+    if (conditions.length === 0) {
+      return logicalOperator === 'and' ? '1 = 1' : '1 = 0';
+    }
+    const parts = conditions.map(condition => this.filter(condition));
+    if (parts.length === 1) return parts[0];
+    const joined = parts.join(logicalOperator === 'and' ? ' AND ' : ' OR ');
+    return top ? joined : `(${joined})`;
+  }
+
+  sort<T>(option: SortOption<T>): string {
+    const column = this.column(option.field);
+    if (hasCompareOptions(option)) {
+      throw new QueryTranslationError(
+        `Compare options on sort field "${String(option.field)}" cannot be translated to SQL; use a column collation instead`,
+        String(option.field)
+      );
+    }
+    // NULLS LAST is not portable; sorting on IS NULL first works everywhere
+    return `${column} IS NULL, ${column} ${option.direction === 'desc' ? 'DESC' : 'ASC'}`;
+  }
+
+  limit(pagination: PaginationOption): string {
+    const { skip, limit } = paginationBounds(pagination);
+    return `LIMIT ${this.param(limit)} OFFSET ${this.param(skip)}`;
+  }
+
+  private condition<T>(condition: FilterCondition<T>): string {
+    const { field, operator, value } = condition;
+    const column = this.column(field);
+
+    if (hasCompareOptions(condition)) {
+      throw new QueryTranslationError(
+        `Compare options on "${String(field)}" cannot be translated to SQL; use a column collation instead`,
+        String(field)
+      );
+    }
+
+    switch (operator) {
+      case 'equals':
+        return value == null ? `${column} IS NULL` : `${column} = ${this.param(value)}`;
+
+      case 'notEquals':
+        return value == null
+          ? `${column} IS NOT NULL`
+          : `(${column} <> ${this.param(value)} OR ${column} IS NULL)`;
+
+      case 'contains':
+      case 'startsWith':
+      case 'endsWith': {
+        if (typeof value !== 'string') {
+          throw new QueryTranslationError(
+            `Operator "${operator}" on "${String(field)}" needs a string value in SQL`,
+            String(field)
+          );
+        }
+        const escaped = escapeLike(value.toLowerCase());
+        const pattern = operator === 'startsWith'
+          ? `${escaped}%`
+          : operator === 'endsWith' ? `%${escaped}` : `%${escaped}%`;
+        return `LOWER(${column}) LIKE ${this.param(pattern)} ESCAPE '!'`;
+      }
+
+      case 'greaterThan':
+      case 'lessThan':
+      case 'greaterThanOrEqual':
+      case 'lessThanOrEqual': {
+        if (value == null) {
+          throw new QueryTranslationError(
+            `Operator "${operator}" on "${String(field)}" cannot compare with null`,
+            String(field)
+          );
+        }
+        const symbol = { greaterThan: '>', lessThan: '<', greaterThanOrEqual: '>=', lessThanOrEqual: '<=' }[operator];
+        const comparison = `${column} ${symbol} ${this.param(value)}`;
+        return matchesNull(operator, value) ? `(${comparison} OR ${column} IS NULL)` : comparison;
+      }
+
+      case 'between': {
+        if (!Array.isArray(value) || value.length !== 2 || value.some(v => v == null)) {
+          throw new QueryTranslationError(
+            `Operator "between" on "${String(field)}" needs a [min, max] value`,
+            String(field)
+          );
+        }
+        const comparison = `${column} BETWEEN ${this.param(value[0])} AND ${this.param(value[1])}`;
+        return matchesNull(operator, value) ? `(${comparison} OR ${column} IS NULL)` : comparison;
+      }
+
+      case 'in':
+      case 'notIn': {
+        if (!Array.isArray(value)) {
+          throw new QueryTranslationError(
+            `Operator "${operator}" on "${String(field)}" needs an array value`,
+            String(field)
+          );
+        }
+        const values = value.filter(v => v != null);
+        const hasNull = values.length < value.length;
+        const list = values.map(v => this.param(v)).join(', ');
+
+        if (operator === 'notIn') {
+          // NOT IN is unknown for NULL, which JavaScript treats as not in the list
+          const parts = values.length > 0 ? [`${column} NOT IN (${list})`] : [];
+          if (hasNull) {
+            parts.push(`${column} IS NOT NULL`);
+            return parts.length === 1 ? parts[0] : `(${parts.join(' AND ')})`;
+          }
+          return parts.length === 0 ? '1 = 1' : `(${parts[0]} OR ${column} IS NULL)`;
+        }
+
+        const parts = values.length > 0 ? [`${column} IN (${list})`] : [];
+        if (hasNull) {
+          parts.push(`${column} IS NULL`);
+        }
+        if (parts.length === 0) return '1 = 0';
+        return parts.length === 1 ? parts[0] : `(${parts.join(' OR ')})`;
+      }
+
+      case 'isNull':
+        return value === false ? `${column} IS NOT NULL` : `${column} IS NULL`;
+
+      default:
+        throw new QueryTranslationError(
+          `Operator "${operator}" cannot be translated to SQL`,
+          String(field)
+        );
+    }
+  }
+
+  private column(field: unknown): string {
+    return resolveField(field, this.fields)
+      .split('.')
+      .map(part => this.quote(part))
+      .join('.');
+  }
+
+  private quote(identifier: string): string {
+    const quote = this.dialect === 'mysql' ? '`' : '"';
+    return `${quote}${identifier.split(quote).join(quote + quote)}${quote}`;
+  }
+
+  private param(value: unknown): string {
+    this.params.push(value);
+    return this.dialect === 'postgres' ? `$${this.params.length}` : '?';
+  }
+}
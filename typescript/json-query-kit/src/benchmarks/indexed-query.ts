@@ -0,0 +1,111 @@
+/**
+ * Benchmark: indexed queries vs. the default linear path
+ * Run with `npm run bench`; set ROWS to change the dataset size
+ */
+
+import { JsonQuery } from '../core';
+
+interface Row {
+  id: number;
+  city: string;
+  status: 'active' | 'inactive' | 'banned';
+  score: number;
+  createdAt: Date;
+}
+
+const ROWS = Number(process.env.ROWS) || 100_000;
+const RUNS = Number(process.env.RUNS) || 20;
+
+const cities = ['London', 'Paris', 'Berlin', 'Madrid', 'Rome', 'Oslo', 'Vienna', 'Prague'];
+const statuses: Row['status'][] = ['active', 'inactive', 'banned'];
+
+// Deterministic pseudo-random data so runs are comparable
+let seed = 42;
+function random(): number {
+  seed = (seed * 1103515245 + 12345) % 2147483648;
+  return seed / 2147483648;
+}
+
+const rows: Row[] = Array.from({ length: ROWS }, (_, i) => ({
+  id: i + 1,
+  city: cities[Math.floor(random() * cities.length)],
+  status: statuses[Math.floor(random() * statuses.length)],
+  score: Math.floor(random() * 10_000),
+  createdAt: new Date(Date.UTC(2020, 0, 1) + Math.floor(random() * 1_000) * 86_400_000),
+}));
+
+function time(run: () => unknown): number {
+  run(); // warm up
+  const start = process.hrtime.bigint();
+  for (let i = 0; i < RUNS; i++) run();
+  return Number(process.hrtime.bigint() - start) / 1e6 / RUNS;
+}
+
+let start = process.hrtime.bigint();
+const indexed = JsonQuery.indexed(rows, {
+  indexes: [
+    { field: 'id', type: 'hash' },
+    { field: 'city', type: 'hash' },
+    { field: 'score', type: 'sorted' },
+    { field: 'createdAt', type: 'sorted' },
+  ],
+});
+const buildMs = Number(process.hrtime.bigint() - start) / 1e6;
+const plain = new JsonQuery(rows);
+
+const scenarios: Array<{ name: string; run: (query: JsonQuery<Row>) => unknown }> = [
+  {
+    name: 'equals on id',
+    run: query => query.reset().filter({ field: 'id', operator: 'equals', value: ROWS >> 1 }).execute(),
+  },
+  {
+    name: 'in on city + status',
+    run: query => query.reset().filter({
+      logicalOperator: 'and',
+      conditions: [
+        { field: 'city', operator: 'in', value: ['Oslo', 'Rome'] },
+        { field: 'status', operator: 'equals', value: 'active' },
+      ],
+    }).execute(),
+  },
+  {
+    name: 'range on score (1%)',
+    run: query => query.reset().filter({
+      logicalOperator: 'and',
+      conditions: [
+        { field: 'score', operator: 'greaterThanOrEqual', value: 5_000 },
+        { field: 'score', operator: 'lessThan', value: 5_100 },
+      ],
+    }).execute(),
+  },
+  {
+    name: 'top 20 by score',
+    run: query => query.reset()
+      .sort({ field: 'score', direction: 'desc' })
+      .paginate({ page: 1, pageSize: 20 })
+      .execute(),
+  },
+  {
+    name: 'page 3 by createdAt, city filter',
+    run: query => query.reset()
+      .filter({ field: 'city', operator: 'equals', value: 'Paris' })
+      .sort([{ field: 'createdAt', direction: 'asc' }, { field: 'id', direction: 'desc' }])
+      .paginate({ page: 3, pageSize: 50 })
+      .execute(),
+  },
+];
+
+console.log(`=== Indexed query benchmark: ${ROWS} rows, ${RUNS} runs ===\n`);
+console.log(`Index build: ${buildMs.toFixed(1)} ms\n`);
+console.log(['Scenario'.padEnd(34), 'Linear'.padStart(10), 'Indexed'.padStart(10), 'Speedup'.padStart(9)].join(''));
+
+for (const { name, run } of scenarios) {
+  const linearMs = time(() => run(plain));
+  const indexedMs = time(() => run(indexed));
+  console.log([
+    name.padEnd(34),
+    `${linearMs.toFixed(2)} ms`.padStart(10),
+    `${indexedMs.toFixed(2)} ms`.padStart(10),
+    `${(linearMs / indexedMs).toFixed(1)}x`.padStart(9),
+  ].join(''));
+}
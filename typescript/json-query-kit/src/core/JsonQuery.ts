@@ -5,6 +5,15 @@ import {
   PaginationOption,
   QueryResult,
   CompareFn,
+  FieldPath,
+  AggregateSpec,
+  GroupRow,
+  Selection,
+  ProjectedRow,
+  ComputedFields,
+  WithComputed,
+  IndexedQueryOptions,
+  QueryConfig,
 } from '../types';
 import {
   sortBySingleField,
@@ -12,19 +21,34 @@ import {
   sortByCustomFn,
   filterData,
   paginate,
+  groupData,
+  addComputedFields,
+  distinctBy,
+  projectData,
+  cursorSortOptions,
+  isCursorPagination,
+  paginationWindow,
+  matchesFilter,
+  IndexSet,
 } from '../utils';
+import { parseQuery, ParseQueryOptions } from '../parser';
 
 /**
  * JsonQuery - A fluent API for querying, sorting, filtering, and paginating JSON data
  *
  * @template T - The type of objects in the data array
+ * @template R - The type of result rows, which differs from T after select()
  */
-export class JsonQuery<T> {
+export class JsonQuery<T, R = T> {
   private data: T[];
   private sortOptions: SortOption<T>[] = [];
   private customSortFn?: CompareFn<T>;
   private filterConfig?: FilterCondition<T> | LogicalFilter<T>;
   private paginationConfig?: PaginationOption;
+  private computedFields: ComputedFields<any>[] = [];
+  private distinctFields?: FieldPath<T>[];
+  private selection?: Selection<any>;
+  private indexSet?: IndexSet<T>;
 
   /**
    * Create a new JsonQuery instance
@@ -35,6 +59,36 @@ export class JsonQuery<T> {
     this.data = [...data]; // Create a copy to avoid mutating original
   }
 
+  /**
+   * Create a JsonQuery backed by hash and sorted indexes
+   *
+   * Hash indexes answer `equals` and `in`; sorted indexes also answer range
+   * operators and let a paginated query sorted by the indexed field read
+   * only the rows of the requested page. Results are identical to an
+   * unindexed query. Indexes are built once, so rows must not be mutated
+   * afterwards.
+   *
+   * @param data - The array of data to query
+   * @param options - The indexes to build
+   * @returns A new JsonQuery instance
+   * @throws Error if a sorted index field holds values of different types
+   *
+   * @example
+   * ```typescript
+   * const query = JsonQuery.indexed(users, {
+   *   indexes: [
+   *     { field: 'city', type: 'hash' },
+   *     { field: 'age', type: 'sorted' },
+   *   ],
+   * });
+   * ```
+   */
+  static indexed<T>(data: T[], options: IndexedQueryOptions<T>): JsonQuery<T> {
+    const query = new JsonQuery(data);
+    query.indexSet = new IndexSet(query.data, options.indexes);
+    return query;
+  }
+
   /**
    * Add a sort operation
    *
@@ -103,10 +157,27 @@ export class JsonQuery<T> {
     return this;
   }
 
+  /**
+   * Add a filter written in the query language
+   *
+   * @param query - A query string such as `age > 28 and city = "London"`
+   * @param options - Parse options, e.g. the fields the query may reference
+   * @returns The JsonQuery instance for chaining
+   * @throws QuerySyntaxError if the query cannot be parsed
+   *
+   * @example
+   * ```typescript
+   * query.where('age > 28 and (city = "London" or tags contains "vip")')
+   * ```
+   */
+  where(query: string, options?: ParseQueryOptions): this {
+    return this.filter(parseQuery<T>(query, options));
+  }
+
   /**
    * Add pagination
    *
-   * @param options - Pagination options (page-based or offset-based)
+   * @param options - Pagination options (page-based, offset-based or cursor-based)
    * @returns The JsonQuery instance for chaining
    *
    * @example
@@ -116,6 +187,10 @@ export class JsonQuery<T> {
    *
    * // Offset-based pagination
    * query.paginate({ offset: 0, limit: 10 })
+   *
+   * // Cursor-based pagination: null for the first page, then meta.pagination.nextCursor
+   * query.paginate({ cursor: null, limit: 10 })
+   * query.paginate({ cursor: result.meta.pagination.nextCursor, limit: 10 })
    * ```
    */
   paginate(options: PaginationOption): this {
@@ -123,6 +198,125 @@ export class JsonQuery<T> {
     return this;
   }
 
+  /**
+   * Apply a filter, sort and pagination given as plain objects, e.g. from
+   * `parseQueryParams()`; the reverse of `toConfig()`
+   *
+   * Parts missing from the configuration are left unchanged.
+   *
+   * @param config - The query configuration
+   * @returns The JsonQuery instance for chaining
+   *
+   * @example
+   * ```typescript
+   * query.configure(parseQueryParams(req.query, schema))
+   * ```
+   */
+  configure(config: QueryConfig<T>): this {
+    if (config.filter) this.filter(config.filter);
+    if (config.sort) this.sort(config.sort);
+    if (config.pagination) this.paginate(config.pagination);
+    return this;
+  }
+
+  /**
+   * Add derived fields computed from each row
+   *
+   * Computed fields are added before filtering, so they can be filtered,
+   * sorted, grouped and selected like stored fields. A computed field
+   * replaces a stored field of the same name.
+   *
+   * @param fields - Map from field name to a function computing its value
+   * @returns The query, typed with the computed fields
+   *
+   * @example
+   * ```typescript
+   * query
+   *   .computed({ fullName: u => `${u.firstName} ${u.lastName}` })
+   *   .filter({ field: 'fullName', operator: 'startsWith', value: 'Jo' })
+   *   .sort({ field: 'fullName', direction: 'asc' })
+   * ```
+   */
+  computed<C extends ComputedFields<T>>(
+    fields: C
+  ): JsonQuery<WithComputed<T, C>, [R] extends [T] ? WithComputed<T, C> : R> {
+    this.computedFields.push(fields);
+    return this as unknown as JsonQuery<WithComputed<T, C>, [R] extends [T] ? WithComputed<T, C> : R>;
+  }
+
+  /**
+   * Keep only the first row for each distinct combination of field values
+   *
+   * Applied after sorting and before pagination, so the sort order decides
+   * which row is kept and pagination counts distinct rows.
+   *
+   * @param fields - Field path(s) that identify duplicates
+   * @returns The JsonQuery instance for chaining
+   *
+   * @example
+   * ```typescript
+   * // Youngest user per city
+   * query.sort({ field: 'age', direction: 'asc' }).distinct('city')
+   * ```
+   */
+  distinct(fields: FieldPath<T> | FieldPath<T>[]): this {
+    this.distinctFields = Array.isArray(fields) ? fields : [fields];
+    return this;
+  }
+
+  /**
+   * Shape result rows to a selection of fields
+   *
+   * The projection is applied last, so filters and sorts still refer to the
+   * unprojected fields.
+   *
+   * @param selection - Field paths to keep, or a map from output name to field path
+   * @returns The query, typed with the projected row shape
+   *
+   * @example
+   * ```typescript
+   * query.select(['id', 'address.city'])
+   * // rows: { id: number; 'address.city': string }
+   *
+   * query.select({ userId: 'id', city: 'address.city' })
+   * // rows: { userId: number; city: string }
+   * ```
+   */
+  select<S extends Selection<T>>(selection: S): JsonQuery<T, ProjectedRow<T, S>> {
+    this.selection = selection;
+    return this as unknown as JsonQuery<T, ProjectedRow<T, S>>;
+  }
+
+  /**
+   * Group the rows this query produces and compute aggregates per group
+   *
+   * Returns a new query over the grouped rows, which can be narrowed with
+   * `having()` and then sorted and paginated like any other query. The
+   * grouped query reads this query's results when it executes.
+   *
+   * @param fields - Field path(s) to group by; each becomes a column named by its path
+   * @param aggregates - Named aggregates to compute for every group
+   * @returns A query over one row per group
+   *
+   * @example
+   * ```typescript
+   * query
+   *   .groupBy('address.city', {
+   *     customers: { operator: 'count' },
+   *     revenue: { operator: 'sum', field: 'total' },
+   *   })
+   *   .having({ field: 'customers', operator: 'greaterThan', value: 2 })
+   *   .sort({ field: 'revenue', direction: 'desc' })
+   *   .execute();
+   * ```
+   */
+  groupBy<K extends FieldPath<R>, A extends AggregateSpec<R>>(
+    fields: K | K[],
+    aggregates: A
+  ): GroupedQuery<R, GroupRow<R, K, A>> {
+    return new GroupedQuery(this, Array.isArray(fields) ? fields : [fields], aggregates);
+  }
+
   /**
    * Execute the query and return results
    *
@@ -137,30 +331,68 @@ export class JsonQuery<T> {
    *   .execute();
    * ```
    */
-  execute(): QueryResult<T> {
-    let result = [...this.data];
+  execute(): QueryResult<R> {
+    // Cursor pagination needs a total order, so the tie-breaker joins the sort
+    const cursorMode = this.paginationConfig !== undefined && isCursorPagination(this.paginationConfig);
+    if (cursorMode && this.customSortFn) {
+      throw new Error('Cursor pagination requires sort options; it cannot be used with sortBy()');
+    }
+    const sortOptions = cursorMode
+      ? cursorSortOptions(this.sortOptions, this.paginationConfig?.tieBreaker)
+      : this.sortOptions;
 
-    // Apply filtering
-    if (this.filterConfig) {
-      result = filterData(result, this.filterConfig);
+    // Indexes describe the source rows, so computed fields rule them out
+    const indexSet = this.computedFields.length === 0 ? this.indexSet : undefined;
+    const positions = indexSet && this.filterConfig
+      ? indexSet.filterPositions(this.filterConfig)
+      : null;
+
+    if (
+      indexSet
+      && !cursorMode
+      && !this.customSortFn
+      && !this.distinctFields
+      && sortOptions.length > 0
+      && indexSet.canSort(sortOptions[0])
+    ) {
+      return this.executeIndexedSort(indexSet, sortOptions, positions);
+    }
+
+    let result: T[];
+    if (positions) {
+      result = positions.map(position => this.data[position]);
+    } else {
+      result = this.computedFields.length > 0
+        ? addComputedFields(this.source(), this.computedFields)
+        : [...this.source()];
+
+      // Apply filtering
+      if (this.filterConfig) {
+        result = filterData(result, this.filterConfig);
+      }
     }
 
     // Apply sorting
     if (this.customSortFn) {
       result = sortByCustomFn(result, this.customSortFn);
-    } else if (this.sortOptions.length > 0) {
-      if (this.sortOptions.length === 1) {
-        result = sortBySingleField(result, this.sortOptions[0]);
+    } else if (sortOptions.length > 0) {
+      if (sortOptions.length === 1) {
+        result = sortBySingleField(result, sortOptions[0]);
       } else {
-        result = sortByMultipleFields(result, this.sortOptions);
+        result = sortByMultipleFields(result, sortOptions);
       }
     }
 
+    // Remove duplicates
+    if (this.distinctFields) {
+      result = distinctBy(result, this.distinctFields);
+    }
+
     // Apply pagination
     if (this.paginationConfig) {
-      const paginationResult = paginate(result, this.paginationConfig);
+      const paginationResult = paginate(result, this.paginationConfig, sortOptions);
       return {
-        data: paginationResult.data,
+        data: this.project(paginationResult.data),
         meta: {
           pagination: paginationResult.meta,
         },
@@ -169,20 +401,53 @@ export class JsonQuery<T> {
 
     // Return without pagination
     return {
-      data: result,
+      data: this.project(result),
       meta: {},
     };
   }
 
+  /**
+   * Get the filter, sort and pagination of the query as plain objects, e.g.
+   * to run the same query against a database with `toSql()` or `toMongo()`
+   *
+   * The selection is not included; it only shapes result rows.
+   *
+   * @returns The query configuration
+   * @throws Error if the query uses sortBy(), computed fields or distinct,
+   * which have no plain-object form
+   *
+   * @example
+   * ```typescript
+   * const { text, params } = toSql(query.toConfig(), { fields: ['name', 'age'] });
+   * ```
+   */
+  toConfig(): QueryConfig<T> {
+    if (this.customSortFn) {
+      throw new Error('A query sorted with sortBy() cannot be converted to a configuration');
+    }
+    if (this.computedFields.length > 0 || this.distinctFields) {
+      throw new Error('A query with computed fields or distinct cannot be converted to a configuration');
+    }
+    return {
+      filter: this.filterConfig,
+      sort: this.sortOptions.length > 0 ? [...this.sortOptions] : undefined,
+      pagination: this.paginationConfig,
+    };
+  }
+
   /**
    * Reset the query to its initial state
    *
+   * Computed fields and the selection define the row types of the query, so
+   * they are kept; filtering, sorting, distinct and pagination are cleared.
+   *
    * @returns The JsonQuery instance for chaining
    */
   reset(): this {
     this.sortOptions = [];
     this.customSortFn = undefined;
     this.filterConfig = undefined;
+    this.distinctFields = undefined;
     this.paginationConfig = undefined;
     return this;
   }
@@ -194,6 +459,118 @@ export class JsonQuery<T> {
    * @returns A copy of the current data
    */
   getData(): T[] {
-    return [...this.data];
+    return [...this.source()];
+  }
+
+  /**
+   * The rows the query pipeline starts from
+   */
+  protected source(): T[] {
+    return this.data;
+  }
+
+  /**
+   * Sort and paginate by walking a sorted index in order, stopping once the
+   * requested page is filled instead of sorting every matching row
+   */
+  private executeIndexedSort(
+    indexSet: IndexSet<T>,
+    sortOptions: SortOption<T>[],
+    positions: number[] | null
+  ): QueryResult<R> {
+    let matched: Uint8Array | undefined;
+    let totalItems = this.data.length;
+    if (this.filterConfig) {
+      matched = new Uint8Array(this.data.length);
+      totalItems = 0;
+      const filter = this.filterConfig;
+      const mark = (position: number): void => {
+        matched![position] = 1;
+        totalItems++;
+      };
+      if (positions) {
+        positions.forEach(mark);
+      } else {
+        this.data.forEach((item, position) => {
+          if (matchesFilter(item, filter)) mark(position);
+        });
+      }
+    }
+
+    const window = this.paginationConfig
+      ? paginationWindow(totalItems, this.paginationConfig)
+      : undefined;
+    const startIndex = window?.startIndex ?? 0;
+    const endIndex = window?.endIndex ?? totalItems;
+
+    const rows: T[] = [];
+    let index = 0;
+    for (const position of indexSet.orderedPositions(sortOptions, matched)) {
+      if (index >= endIndex) break;
+      if (index >= startIndex) rows.push(this.data[position]);
+      index++;
+    }
+
+    return {
+      data: this.project(rows),
+      meta: window ? { pagination: window.meta } : {},
+    };
+  }
+
+  /**
+   * Apply the selection, if any, to result rows
+   */
+  private project(rows: T[]): R[] {
+    if (!this.selection) {
+      return rows as unknown as R[];
+    }
+    return projectData(rows, this.selection) as R[];
+  }
+}
+
+/**
+ * GroupedQuery - A query over the grouped rows of another query
+ *
+ * Created by `JsonQuery.groupBy()`. `having()` filters groups using the same
+ * conditions as `filter()`; sorting and pagination apply to the groups.
+ *
+ * @template T - The type of objects in the source query
+ * @template R - The type of grouped rows
+ */
+export class GroupedQuery<T, R> extends JsonQuery<R> {
+  constructor(
+    private readonly parent: JsonQuery<any, T>,
+    private readonly fields: FieldPath<T>[],
+    private readonly aggregates: AggregateSpec<T>
+  ) {
+    super([]);
+  }
+
+  /**
+   * Filter groups by their key fields or aggregate values
+   *
+   * @param filter - A filter condition or logical filter over grouped rows
+   * @returns The GroupedQuery instance for chaining
+   *
+   * @example
+   * ```typescript
+   * grouped.having({ field: 'revenue', operator: 'greaterThanOrEqual', value: 1000 })
+   * ```
+   */
+  having(filter: FilterCondition<R> | LogicalFilter<R>): this {
+    return this.filter(filter);
+  }
+
+  /**
+   * Grouped queries run in memory only
+   *
+   * @throws Error always
+   */
+  toConfig(): never {
+    throw new Error('A grouped query cannot be converted to a configuration');
+  }
+
+  protected source(): R[] {
+    return groupData(this.parent.execute().data, this.fields, this.aggregates) as R[];
   }
 }
@@ -5,64 +5,53 @@
 
 import express, { Request, Response } from 'express';
 import { JsonQuery } from '../core';
-import { fetchAllUsers } from './mock-remote-api';
+import { queryParams, queryParamsOpenApi, QueryParamsSchema } from '../http';
+import { fetchAllUsers, User } from './mock-remote-api';
 
 const app = express();
 app.use(express.json());
 
+/**
+ * Fields clients may filter and sort on, and the page size limit
+ */
+const userQuerySchema: QueryParamsSchema<User> = {
+  fields: {
+    id: { type: 'number' },
+    name: { description: 'Full name' },
+    age: { type: 'number' },
+    city: { operators: ['equals', 'notEquals', 'in', 'notIn'] },
+  },
+  maxPageSize: 50,
+  defaultSort: [{ field: 'id', direction: 'asc' }],
+};
+
 /**
  * GET /users - Query users with filtering, sorting, and pagination
  *
- * Query Parameters:
+ * Query Parameters (see GET /openapi.json):
+ * - q: Filter in the query language, e.g. age > 28 and city = "London"
  * - filter: JSON string of filter condition or logical filter
- * - sort: JSON string of sort option or array of sort options
+ * - sort: Fields such as -age,name, or JSON sort options
  * - page: Page number (for page-based pagination)
- * - pageSize: Number of items per page
+ * - pageSize: Number of items per page (at most 50)
  * - offset: Starting index (for offset-based pagination)
- * - limit: Number of items to return (for offset-based pagination)
+ * - limit: Number of items to return (for offset- or cursor-based pagination)
+ * - cursor: Cursor from a previous response (empty for the first page)
+ *
+ * Invalid parameters get a 400 response listing each problem.
  *
  * Examples:
+ * - Query language: ?q=age > 28 and (city = "London" or city = "Paris")
  * - Filter by age: ?filter={"field":"age","operator":"greaterThan","value":28}
- * - Sort by name: ?sort={"field":"name","direction":"asc"}
+ * - Sort by name: ?sort=name
  * - Paginate: ?page=1&pageSize=10
+ * - Cursor pagination: ?cursor=&limit=5, then ?cursor=<nextCursor>&limit=5
  */
-app.get('/users', async (req: Request, res: Response) => {
+app.get('/users', queryParams(userQuerySchema), async (req: Request, res: Response) => {
   try {
     // Fetch all users from the mock remote API
     const users = await fetchAllUsers();
-    const query = new JsonQuery(users);
-
-    // Apply filtering if provided
-    if (req.query.filter) {
-      try {
-        const filters = JSON.parse(req.query.filter as string);
-        query.filter(filters);
-      } catch (e) {
-        return res.status(400).json({ error: 'Invalid filter format' });
-      }
-    }
-
-    // Apply sorting if provided
-    if (req.query.sort) {
-      try {
-        const sortOptions = JSON.parse(req.query.sort as string);
-        query.sort(sortOptions);
-      } catch (e) {
-        return res.status(400).json({ error: 'Invalid sort format' });
-      }
-    }
-
-    // Apply pagination
-    const page = parseInt(req.query.page as string) || 1;
-    const pageSize = parseInt(req.query.pageSize as string) || 10;
-    const offset = req.query.offset ? parseInt(req.query.offset as string) : undefined;
-    const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
-
-    if (offset !== undefined && limit !== undefined) {
-      query.paginate({ offset, limit });
-    } else {
-      query.paginate({ page, pageSize });
-    }
+    const query = new JsonQuery(users).configure(res.locals.queryConfig);
 
     // Execute query and return results
     const result = query.execute();
@@ -74,6 +63,27 @@ app.get('/users', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /openapi.json - OpenAPI description of the /users endpoint
+ */
+app.get('/openapi.json', (req: Request, res: Response) => {
+  res.json({
+    openapi: '3.0.3',
+    info: { title: 'json-query-kit example server', version: '1.0.0' },
+    paths: {
+      '/users': {
+        get: {
+          parameters: queryParamsOpenApi(userQuerySchema),
+          responses: {
+            200: { description: 'A page of users' },
+            400: { description: 'Invalid query parameters' },
+          },
+        },
+      },
+    },
+  });
+});
+
 /**
  * GET /users/search - Advanced search endpoint with multiple filters
  *
@@ -166,17 +176,21 @@ app.listen(PORT, () => {
 Available endpoints:
   GET /health - Health check
   GET /users - Query users with filters, sorting, and pagination
+  GET /openapi.json - OpenAPI description of GET /users
   GET /users/search - Advanced search with multiple filters
 
 Example requests:
   # Get all users (paginated)
   curl "http://localhost:${PORT}/users"
 
+  # Filter with the query language
+  curl "http://localhost:${PORT}/users?q=age%20%3E%2028%20and%20city%20%3D%20%22London%22"
+
   # Filter users older than 28
   curl "http://localhost:${PORT}/users?filter=%7B%22field%22%3A%22age%22%2C%22operator%22%3A%22greaterThan%22%2C%22value%22%3A28%7D"
 
   # Sort by name ascending
-  curl "http://localhost:${PORT}/users?sort=%7B%22field%22%3A%22name%22%2C%22direction%22%3A%22asc%22%7D"
+  curl "http://localhost:${PORT}/users?sort=name"
 
   # Combined: filter, sort, and paginate
   curl "http://localhost:${PORT}/users?filter=%7B%22field%22%3A%22age%22%2C%22operator%22%3A%22greaterThan%22%2C%22value%22%3A28%7D&sort=%7B%22field%22%3A%22name%22%2C%22direction%22%3A%22asc%22%7D&page=1&pageSize=5"
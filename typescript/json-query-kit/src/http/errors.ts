@@ -0,0 +1,37 @@
+/**
+ * A problem with one query parameter
+ */
+export interface QueryParamIssue {
+  /** The query parameter at fault, e.g. `'q'` or `'pageSize'` */
+  parameter: string;
+  message: string;
+  /**
+   * Location of the bad clause inside a JSON `filter` or `sort`, e.g.
+   * `conditions[1].operator`
+   */
+  path?: string;
+  /** Zero-based offset of the bad clause in a `q` query */
+  position?: number;
+}
+
+/**
+ * Error thrown when request query parameters do not describe a valid query
+ * for a schema
+ *
+ * `issues` lists every problem found, so a client can fix them all at once.
+ * `toJSON()` gives the body for a 400 response.
+ */
+export class InvalidQueryParamsError extends Error {
+  readonly status = 400;
+  readonly issues: QueryParamIssue[];
+
+  constructor(issues: QueryParamIssue[]) {
+    super(issues.map(issue => `${issue.parameter}: ${issue.message}`).join('; '));
+    this.name = 'InvalidQueryParamsError';
+    this.issues = issues;
+  }
+
+  toJSON(): { error: string; issues: QueryParamIssue[] } {
+    return { error: 'Invalid query parameters', issues: this.issues };
+  }
+}
@@ -0,0 +1,5 @@
+export * from './errors';
+export * from './schema';
+export * from './params';
+export * from './openapi';
+export * from './middleware';
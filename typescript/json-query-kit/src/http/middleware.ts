@@ -0,0 +1,58 @@
+import { QueryConfig } from '../types';
+import { InvalidQueryParamsError } from './errors';
+import { parseQueryParams } from './params';
+import { QueryParamsSchema } from './schema';
+
+/**
+ * The parts of an Express request the middleware reads
+ */
+export interface QueryParamsRequest {
+  query: unknown;
+}
+
+/**
+ * The parts of an Express response the middleware uses
+ */
+export interface QueryParamsResponse {
+  locals: Record<string, any>;
+  status(code: number): { json(body: unknown): unknown };
+}
+
+/**
+ * Express middleware that validates query parameters against a schema
+ *
+ * On success the query configuration is stored in `res.locals.queryConfig`
+ * for the route handler. Invalid parameters end the request with a 400
+ * response listing the issues; other errors are passed to `next`.
+ *
+ * @example
+ * ```typescript
+ * app.get('/users', queryParams(schema), async (req, res) => {
+ *   const result = new JsonQuery(await loadUsers()).configure(res.locals.queryConfig).execute();
+ *   res.json(result);
+ * });
+ *
+ * // GET /users?q=age > "x"
+ * // 400 { "error": "Invalid query parameters",
+ * //       "issues": [{ "parameter": "q", "message": "Expected a number for \"age\", ...", "position": 0 }] }
+ * ```
+ */
+export function queryParams<T>(
+  schema: QueryParamsSchema<T>
+): (req: QueryParamsRequest, res: QueryParamsResponse, next: (error?: unknown) => void) => void {
+  return (req, res, next) => {
+    let config: QueryConfig<T>;
+    try {
+      config = parseQueryParams<T>((req.query ?? {}) as Record<string, unknown>, schema);
+    } catch (error) {
+      if (error instanceof InvalidQueryParamsError) {
+        res.status(error.status).json(error.toJSON());
+        return;
+      }
+      next(error);
+      return;
+    }
+    res.locals.queryConfig = config;
+    next();
+  };
+}
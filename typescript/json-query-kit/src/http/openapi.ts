@@ -0,0 +1,71 @@
+import { allowedOperators, DEFAULT_MAX_PAGE_SIZE, DEFAULT_PAGE_SIZE, QueryParamsSchema } from './schema';
+
+/**
+ * An OpenAPI 3 parameter object for a query parameter
+ */
+export interface OpenApiParameter {
+  name: string;
+  in: 'query';
+  required: false;
+  description: string;
+  schema: {
+    type: 'string' | 'integer';
+    minimum?: number;
+    maximum?: number;
+    default?: number;
+  };
+  example?: string;
+}
+
+/**
+ * Describe the query parameters `parseQueryParams()` accepts for a schema,
+ * for the `parameters` list of an OpenAPI operation
+ *
+ * @example
+ * ```typescript
+ * const spec = {
+ *   paths: {
+ *     '/users': { get: { parameters: queryParamsOpenApi(schema), responses: { ... } } },
+ *   },
+ * };
+ * ```
+ */
+export function queryParamsOpenApi(schema: QueryParamsSchema): OpenApiParameter[] {
+  const maxPageSize = schema.maxPageSize ?? DEFAULT_MAX_PAGE_SIZE;
+  const defaultPageSize = Math.min(schema.defaultPageSize ?? DEFAULT_PAGE_SIZE, maxPageSize);
+  const entries = Object.entries(schema.fields)
+    .filter((entry): entry is [string, NonNullable<typeof entry[1]>] => entry[1] !== undefined);
+
+  const fieldList = entries
+    .map(([field, definition]) => {
+      const description = definition.description ? ` ${definition.description}.` : '';
+      return `- \`${field}\` (${definition.type ?? 'string'}):${description} ${allowedOperators(definition).join(', ')}`;
+    })
+    .join('\n');
+  const sortable = entries
+    .filter(([, definition]) => definition.sortable !== false)
+    .map(([field]) => `\`${field}\``)
+    .join(', ');
+  const [example] = entries;
+
+  const param = (
+    name: string,
+    description: string,
+    type: 'string' | 'integer',
+    extra: Partial<OpenApiParameter['schema']> = {}
+  ): OpenApiParameter => ({ name, in: 'query', required: false, description, schema: { type, ...extra } });
+
+  return [
+    {
+      ...param('q', `Filter in the query language, e.g. \`field = "value" and (a > 1 or not b in [2, 3])\`. Cannot be combined with \`filter\`. Fields and their operators:\n${fieldList}`, 'string'),
+      ...(example ? { example: `${example[0]} = ${example[1].type === 'number' ? '1' : '"value"'}` } : {}),
+    },
+    param('filter', 'Filter as a JSON condition (`{"field", "operator", "value"}`) or logical filter (`{"logicalOperator", "conditions"}`), with the fields and operators listed for `q`.', 'string'),
+    param('sort', `Comma-separated fields, each prefixed with \`-\` to sort descending, or sort options as JSON. Sortable fields: ${sortable || 'none'}.`, 'string'),
+    param('page', 'Page number, starting at 1.', 'integer', { minimum: 1, default: 1 }),
+    param('pageSize', 'Items per page.', 'integer', { minimum: 1, maximum: maxPageSize, default: defaultPageSize }),
+    param('offset', 'Items to skip; use with `limit` instead of `page`.', 'integer', { minimum: 0 }),
+    param('limit', 'Items to return with `offset` or `cursor`.', 'integer', { minimum: 1, maximum: maxPageSize, default: defaultPageSize }),
+    param('cursor', 'Cursor-based pagination: empty for the first page, then `nextCursor` or `prevCursor` from a previous response.', 'string'),
+  ];
+}
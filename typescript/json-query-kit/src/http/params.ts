@@ -0,0 +1,282 @@
+import { parseQuery, QuerySyntaxError } from '../parser';
+import { FilterCondition, LogicalFilter, PaginationOption, QueryConfig, SortOption } from '../types';
+import { cursorSortOptions, decodeCursor, InvalidCursorError } from '../utils/cursor';
+import { InvalidQueryParamsError, QueryParamIssue } from './errors';
+import {
+  checkCondition,
+  DEFAULT_MAX_PAGE_SIZE,
+  DEFAULT_PAGE_SIZE,
+  fieldSchema,
+  QueryParamsSchema,
+} from './schema';
+
+/**
+ * Query parameters as `URLSearchParams` or a parsed object such as
+ * Express's `req.query`
+ */
+export type QueryParamsInput = URLSearchParams | Readonly<Record<string, unknown>>;
+
+/**
+ * Turn request query parameters into a validated query configuration
+ *
+ * Recognized parameters:
+ *
+ * - `q`: a filter in the query language, e.g. `age > 28 and city = "London"`
+ * - `filter`: a filter as JSON (`FilterCondition` or `LogicalFilter`)
+ * - `sort`: `name,-age` (a `-` sorts descending) or sort options as JSON
+ * - `page` and `pageSize`, `offset` and `limit`, or `cursor` and `limit`
+ *
+ * Every filter clause must use a field and operator the schema allows, with
+ * a value of the field's type. A cursor must be one created for the
+ * requested sort. The result is always paginated, with at most
+ * `maxPageSize` items per page. Other parameters are ignored.
+ *
+ * @throws InvalidQueryParamsError listing every problem found
+ *
+ * @example
+ * ```typescript
+ * const schema: QueryParamsSchema<User> = {
+ *   fields: { name: {}, age: { type: 'number' }, 'address.city': {} },
+ *   maxPageSize: 50,
+ * };
+ *
+ * // ?q=age > 28&sort=-age,name&page=2
+ * const config = parseQueryParams<User>(req.query, schema);
+ * new JsonQuery(users).configure(config).execute();
+ * ```
+ */
+export function parseQueryParams<T>(params: QueryParamsInput, schema: QueryParamsSchema<T>): QueryConfig<T> {
+  const reader = new ParamReader(params, schema as QueryParamsSchema);
+  const filter = reader.filter() as FilterCondition<T> | LogicalFilter<T> | undefined;
+  const sort = (reader.sort() as SortOption<T>[] | undefined) ?? schema.defaultSort;
+  const config: QueryConfig<T> = { filter, sort, pagination: reader.pagination(sort) };
+
+  if (reader.issues.length > 0) {
+    throw new InvalidQueryParamsError(reader.issues);
+  }
+  return config;
+}
+
+const LOGICAL_OPERATORS = ['and', 'or', 'not'];
+const CONDITION_KEYS = ['field', 'operator', 'value'];
+
+class ParamReader {
+  readonly issues: QueryParamIssue[] = [];
+
+  constructor(
+    private readonly params: QueryParamsInput,
+    private readonly schema: QueryParamsSchema
+  ) {}
+
+  filter(): FilterCondition<any> | LogicalFilter<any> | undefined {
+    const q = this.string('q');
+    const filter = this.string('filter');
+    if (q !== undefined && filter !== undefined) {
+      this.issue('filter', 'Use either "q" or "filter", not both');
+      return undefined;
+    }
+
+    if (q !== undefined) {
+      try {
+        return parseQuery(q, {
+          fields: Object.keys(this.schema.fields),
+          validate: ({ field, operator, value }) => checkCondition(this.schema, String(field), operator, value),
+        });
+      } catch (error) {
+        if (!(error instanceof QuerySyntaxError)) throw error;
+        this.issues.push({ parameter: 'q', message: error.reason, position: error.position });
+        return undefined;
+      }
+    }
+
+    if (filter !== undefined) {
+      const parsed = this.json('filter', filter);
+      if (parsed === undefined) return undefined;
+      const count = this.issues.length;
+      this.checkFilter(parsed, '');
+      return this.issues.length === count ? parsed as FilterCondition<any> | LogicalFilter<any> : undefined;
+    }
+    return undefined;
+  }
+
+  sort(): SortOption<any>[] | undefined {
+    const sort = this.string('sort');
+    if (sort === undefined || sort.trim() === '') return undefined;
+
+    let options: unknown[];
+    if (/^\s*[[{]/.test(sort)) {
+      const parsed = this.json('sort', sort);
+      if (parsed === undefined) return undefined;
+      options = Array.isArray(parsed) ? parsed : [parsed];
+    } else {
+      options = sort.split(',').map(part => {
+        const field = part.trim();
+        return field.startsWith('-')
+          ? { field: field.slice(1), direction: 'desc' }
+          : { field: field.replace(/^\+/, ''), direction: 'asc' };
+      });
+    }
+
+    const count = this.issues.length;
+    options.forEach((option, i) => this.checkSort(option, options.length > 1 ? `[${i}]` : ''));
+    return this.issues.length === count ? options as SortOption<any>[] : undefined;
+  }
+
+  /**
+   * @param sort - The query's sort, which a cursor must have been created for
+   */
+  pagination(sort: SortOption<any>[] = []): PaginationOption | undefined {
+    const maxPageSize = this.schema.maxPageSize ?? DEFAULT_MAX_PAGE_SIZE;
+    const defaultPageSize = Math.min(this.schema.defaultPageSize ?? DEFAULT_PAGE_SIZE, maxPageSize);
+    const page = this.integer('page', 1);
+    const pageSize = this.integer('pageSize', 1, maxPageSize);
+    const offset = this.integer('offset', 0);
+    const limit = this.integer('limit', 1, maxPageSize);
+    const cursor = this.string('cursor');
+
+    if (cursor !== undefined) {
+      if (page !== undefined || offset !== undefined) {
+        this.issue('cursor', 'Cursor pagination cannot be combined with "page" or "offset"');
+      }
+      // A bad sort is already an issue; checking the cursor against the
+      // fallback sort would only add a misleading one
+      if (cursor && !this.issues.some(issue => issue.parameter === 'sort')) {
+        this.checkCursor(cursor, sort);
+      }
+      return { cursor: cursor || null, limit: limit ?? pageSize ?? defaultPageSize, tieBreaker: this.schema.tieBreaker };
+    }
+    if (offset !== undefined || limit !== undefined) {
+      if (page !== undefined || pageSize !== undefined) {
+        this.issue(page !== undefined ? 'page' : 'pageSize', 'Use either "page" and "pageSize" or "offset" and "limit"');
+      }
+      return { offset: offset ?? 0, limit: limit ?? defaultPageSize };
+    }
+    return { page: page ?? 1, pageSize: pageSize ?? defaultPageSize };
+  }
+
+  private checkCursor(cursor: string, sort: SortOption<any>[]): void {
+    try {
+      decodeCursor(cursor, cursorSortOptions(sort, this.schema.tieBreaker));
+    } catch (error) {
+      if (!(error instanceof InvalidCursorError)) throw error;
+      this.issue('cursor', error.message);
+    }
+  }
+
+  private checkFilter(filter: unknown, path: string): void {
+    if (!isRecord(filter)) {
+      this.issue('filter', 'Expected a condition or logical filter object', path);
+      return;
+    }
+
+    if ('logicalOperator' in filter) {
+      if (!LOGICAL_OPERATORS.includes(filter.logicalOperator as string)) {
+        this.issue('filter', 'Expected "and", "or" or "not"', join(path, 'logicalOperator'));
+      }
+      if (!Array.isArray(filter.conditions)) {
+        this.issue('filter', 'Expected a list of conditions', join(path, 'conditions'));
+      } else {
+        filter.conditions.forEach((condition, i) => this.checkFilter(condition, `${join(path, 'conditions')}[${i}]`));
+      }
+      this.checkKeys(filter, ['logicalOperator', 'conditions'], 'filter', path);
+      return;
+    }
+
+    const { field, operator, value } = filter;
+    if (typeof field !== 'string') {
+      this.issue('filter', 'Expected a field name', join(path, 'field'));
+      return;
+    }
+    if (typeof operator !== 'string') {
+      this.issue('filter', 'Expected an operator', join(path, 'operator'));
+      return;
+    }
+    const problem = checkCondition(this.schema, field, operator, value);
+    if (problem) {
+      this.issue('filter', problem, path);
+    }
+    this.checkKeys(filter, CONDITION_KEYS, 'filter', path);
+  }
+
+  private checkSort(option: unknown, path: string): void {
+    if (!isRecord(option) || typeof option.field !== 'string') {
+      this.issue('sort', 'Expected a sort option with a field', path);
+      return;
+    }
+    const definition = fieldSchema(this.schema, option.field);
+    if (!definition) {
+      this.issue('sort', `Unknown field "${option.field}"`, path);
+    } else if (definition.sortable === false) {
+      this.issue('sort', `Field "${option.field}" cannot be sorted on`, path);
+    }
+    if (option.direction !== 'asc' && option.direction !== 'desc') {
+      this.issue('sort', 'Expected "asc" or "desc"', join(path, 'direction'));
+    }
+    this.checkKeys(option, ['field', 'direction'], 'sort', path);
+  }
+
+  private checkKeys(record: Record<string, unknown>, allowed: string[], parameter: string, path: string): void {
+    for (const key of Object.keys(record)) {
+      if (!allowed.includes(key)) {
+        this.issue(parameter, `Unexpected property "${key}"`, join(path, key));
+      }
+    }
+  }
+
+  private json(parameter: string, text: string): unknown {
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      this.issue(parameter, `Invalid JSON: ${(error as Error).message}`);
+      return undefined;
+    }
+  }
+
+  private integer(parameter: string, min: number, max = Number.MAX_SAFE_INTEGER): number | undefined {
+    const text = this.string(parameter);
+    if (text === undefined || text === '') return undefined;
+    const value = /^\d+$/.test(text) ? Number(text) : NaN;
+    if (!Number.isSafeInteger(value) || value < min) {
+      this.issue(parameter, `Expected an integer of at least ${min}, found ${JSON.stringify(text)}`);
+      return undefined;
+    }
+    if (value > max) {
+      this.issue(parameter, `Must be at most ${max}`);
+      return undefined;
+    }
+    return value;
+  }
+
+  /**
+   * A parameter's single string value; repeated or nested parameters are
+   * an issue
+   */
+  private string(parameter: string): string | undefined {
+    if (this.params instanceof URLSearchParams) {
+      const values = this.params.getAll(parameter);
+      if (values.length > 1) {
+        this.issue(parameter, 'Expected a single value');
+        return undefined;
+      }
+      return values[0];
+    }
+
+    if (!Object.prototype.hasOwnProperty.call(this.params, parameter)) return undefined;
+    const value = this.params[parameter];
+    if (value === undefined || typeof value === 'string') return value;
+    this.issue(parameter, Array.isArray(value) ? 'Expected a single value' : 'Expected a string value');
+    return undefined;
+  }
+
+  private issue(parameter: string, message: string, path?: string): void {
+    this.issues.push(path ? { parameter, message, path } : { parameter, message });
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
@@ -0,0 +1,164 @@
+import { FilterOperator, FilterPath, SortOption } from '../types';
+import { isIsoDateString } from '../utils/compare';
+import { getCustomOperator } from '../utils/operators';
+
+/**
+ * Type of a field's values, used to check condition values
+ */
+export type FieldType = 'string' | 'number' | 'boolean' | 'date';
+
+/**
+ * What a request may do with one field
+ */
+export interface FieldSchema {
+  /** Defaults to `'string'`. `'date'` values are ISO date strings. */
+  type?: FieldType;
+  /**
+   * Operators allowed on the field. Defaults depend on the type; `regex`,
+   * `exists` and the array operators must be allowed explicitly.
+   */
+  operators?: readonly FilterOperator[];
+  /** Defaults to `true` */
+  sortable?: boolean;
+  /** Shown in the OpenAPI description */
+  description?: string;
+}
+
+/**
+ * The fields and limits of a query endpoint
+ */
+export interface QueryParamsSchema<T = any> {
+  /** Fields that may be filtered and sorted on, by path */
+  fields: { readonly [P in FilterPath<T> & string]?: FieldSchema };
+  /** Largest `pageSize` or `limit` a request may ask for (default 100) */
+  maxPageSize?: number;
+  /** Page size when a request gives none (default 10) */
+  defaultPageSize?: number;
+  /** Sort used when a request gives none */
+  defaultSort?: SortOption<T>[];
+  /** Unique field for cursor pagination (default `'id'`) */
+  tieBreaker?: string;
+}
+
+export const DEFAULT_MAX_PAGE_SIZE = 100;
+export const DEFAULT_PAGE_SIZE = 10;
+
+const ORDERED_OPERATORS: FilterOperator[] = [
+  'equals',
+  'notEquals',
+  'greaterThan',
+  'lessThan',
+  'greaterThanOrEqual',
+  'lessThanOrEqual',
+  'in',
+  'notIn',
+  'between',
+  'isNull',
+];
+
+/**
+ * Operators allowed on a field of each type unless the schema lists them
+ */
+export const DEFAULT_OPERATORS: Record<FieldType, readonly FilterOperator[]> = {
+  string: ['equals', 'notEquals', 'contains', 'startsWith', 'endsWith', 'in', 'notIn', 'isNull'],
+  number: ORDERED_OPERATORS,
+  date: ORDERED_OPERATORS,
+  boolean: ['equals', 'notEquals', 'isNull'],
+};
+
+const LIST_OPERATORS = new Set<string>(['in', 'notIn', 'between', 'arrayContainsAll', 'arrayContainsAny']);
+
+/**
+ * Operators allowed on a field
+ */
+export function allowedOperators(field: FieldSchema): readonly FilterOperator[] {
+  return field.operators ?? DEFAULT_OPERATORS[field.type ?? 'string'];
+}
+
+/**
+ * Look up a field's schema without reaching inherited properties
+ */
+export function fieldSchema(schema: QueryParamsSchema, field: string): FieldSchema | undefined {
+  const fields = schema.fields as Record<string, FieldSchema | undefined>;
+  return Object.prototype.hasOwnProperty.call(fields, field) ? fields[field] : undefined;
+}
+
+/**
+ * Check a condition against the schema
+ *
+ * @returns A message describing the first problem, or `undefined`
+ */
+export function checkCondition(
+  schema: QueryParamsSchema,
+  field: string,
+  operator: string,
+  value: unknown
+): string | undefined {
+  const definition = fieldSchema(schema, field);
+  if (!definition) {
+    return `Unknown field "${field}"`;
+  }
+
+  const operators = allowedOperators(definition);
+  if (!operators.includes(operator as FilterOperator)) {
+    return `Operator "${operator}" is not allowed on "${field}"; use one of ${operators.map(op => `"${op}"`).join(', ')}`;
+  }
+  if (getCustomOperator(operator)) {
+    return undefined;
+  }
+
+  const type = definition.type ?? 'string';
+  if (operator === 'exists' || operator === 'isNull') {
+    return typeof value === 'boolean' ? undefined : `Expected true or false for "${operator}" on "${field}"`;
+  }
+  if (LIST_OPERATORS.has(operator)) {
+    if (!Array.isArray(value)) {
+      return `Expected a list for "${operator}" on "${field}"`;
+    }
+    if (operator === 'between' && value.length !== 2) {
+      return `Expected a [min, max] list for "between" on "${field}"`;
+    }
+    const nullable = operator === 'in' || operator === 'notIn';
+    const bad = value.find(item => !(nullable && item === null) && !matchesType(item, type));
+    return bad === undefined ? undefined : typeMessage(field, type, bad);
+  }
+  if (Array.isArray(value)) {
+    return `Lists are not allowed with "${operator}" on "${field}"`;
+  }
+  if (operator === 'regex') {
+    if (typeof value !== 'string') {
+      return `Expected a pattern string for "regex" on "${field}"`;
+    }
+    try {
+      new RegExp(value);
+    } catch (error) {
+      return `Invalid regular expression for "${field}": ${(error as Error).message}`;
+    }
+    return undefined;
+  }
+  if (operator === 'contains' || operator === 'startsWith' || operator === 'endsWith') {
+    return typeof value === 'string' ? undefined : `Expected a string for "${operator}" on "${field}"`;
+  }
+  if (value === null && (operator === 'equals' || operator === 'notEquals')) {
+    return undefined;
+  }
+  return matchesType(value, type) ? undefined : typeMessage(field, type, value);
+}
+
+function matchesType(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'date':
+      return isIsoDateString(value);
+  }
+}
+
+function typeMessage(field: string, type: FieldType, value: unknown): string {
+  const expected = type === 'date' ? 'an ISO date string' : `a ${type}`;
+  return `Expected ${expected} for "${field}", found ${JSON.stringify(value)}`;
+}
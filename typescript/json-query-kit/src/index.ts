@@ -1,11 +1,18 @@
 // Main exports
-export { JsonQuery } from './core';
+export { JsonQuery, GroupedQuery } from './core';
+export { parseQuery, stringifyQuery, QuerySyntaxError } from './parser';
+export { InvalidCursorError, registerOperator, unregisterOperator } from './utils';
+export { toSql, toMongo, QueryTranslationError } from './adapters';
+export { parseQueryParams, queryParams, queryParamsOpenApi, InvalidQueryParamsError } from './http';
 
 // Type exports
 export type {
   SortOption,
   SortDirection,
   FilterOperator,
+  BuiltinFilterOperator,
+  CustomOperators,
+  CompareOptions,
   FilterCondition,
   LogicalOperator,
   LogicalFilter,
@@ -13,4 +20,35 @@ export type {
   PaginationMeta,
   QueryResult,
   CompareFn,
+  FieldPath,
+  FilterPath,
+  ArrayIndex,
+  ArrayQuantifier,
+  PathValue,
+  Aggregate,
+  AggregateOperator,
+  AggregateSpec,
+  AggregateValue,
+  GroupRow,
+  Selection,
+  ProjectedRow,
+  ComputedFields,
+  WithComputed,
+  IndexDefinition,
+  IndexedQueryOptions,
+  QueryConfig,
+  FieldWhitelist,
 } from './types';
+export type { SqlDialect, SqlOptions, SqlQuery, MongoOptions, MongoQuery } from './adapters';
+export type { ParseQueryOptions } from './parser';
+export type {
+  FieldType,
+  FieldSchema,
+  QueryParamsSchema,
+  QueryParamsInput,
+  QueryParamIssue,
+  QueryParamsRequest,
+  QueryParamsResponse,
+  OpenApiParameter,
+} from './http';
+export type { OperatorPredicate } from './utils';
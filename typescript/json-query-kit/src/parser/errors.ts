@@ -0,0 +1,19 @@
+/**
+ * Error thrown when a query string cannot be tokenized or parsed
+ *
+ * `position` is the zero-based offset into `input` where the problem was
+ * found; the message includes the input with a caret under that offset.
+ */
+export class QuerySyntaxError extends Error {
+  readonly input: string;
+  readonly position: number;
+  readonly reason: string;
+
+  constructor(reason: string, input: string, position: number) {
+    super(`${reason} at position ${position}\n  ${input}\n  ${' '.repeat(position)}^`);
+    this.name = 'QuerySyntaxError';
+    this.reason = reason;
+    this.input = input;
+    this.position = position;
+  }
+}
@@ -0,0 +1,4 @@
+export * from './errors';
+export * from './tokenizer';
+export * from './parser';
+export * from './serializer';
@@ -0,0 +1,349 @@
+import { FilterCondition, FilterOperator, LogicalFilter } from '../types';
+import { getCustomOperator } from '../utils/operators';
+import { parsePath } from '../utils/path';
+import { QuerySyntaxError } from './errors';
+import { Token, tokenize } from './tokenizer';
+
+/**
+ * Comparison symbols and the filter operators they compile to
+ */
+export const SYMBOL_OPERATORS: Record<string, FilterOperator> = {
+  '=': 'equals',
+  '==': 'equals',
+  '!=': 'notEquals',
+  '>': 'greaterThan',
+  '<': 'lessThan',
+  '>=': 'greaterThanOrEqual',
+  '<=': 'lessThanOrEqual',
+};
+
+/**
+ * Word operators (matched case-insensitively) and the filter operators they
+ * compile to
+ */
+export const WORD_OPERATORS: Record<string, FilterOperator> = {
+  contains: 'contains',
+  startswith: 'startsWith',
+  endswith: 'endsWith',
+  in: 'in',
+  notin: 'notIn',
+  between: 'between',
+  regex: 'regex',
+  matches: 'regex',
+  exists: 'exists',
+  isnull: 'isNull',
+  containsall: 'arrayContainsAll',
+  arraycontainsall: 'arrayContainsAll',
+  containsany: 'arrayContainsAny',
+  arraycontainsany: 'arrayContainsAny',
+};
+
+/**
+ * Operators whose value is a list
+ */
+const LIST_OPERATORS = new Set<string>(['in', 'notIn', 'between', 'arrayContainsAll', 'arrayContainsAny']);
+
+const LITERALS: Record<string, boolean | null> = {
+  true: true,
+  false: false,
+  null: null,
+};
+
+/**
+ * Options for parsing a query string
+ */
+export interface ParseQueryOptions {
+  /**
+   * Field paths the query may reference. When set, any other field is a
+   * syntax error pointing at the offending field.
+   */
+  fields?: string[];
+  /**
+   * Extra check for each parsed condition. A returned message becomes a
+   * syntax error pointing at the condition's field.
+   */
+  validate?: (condition: FilterCondition<any>) => string | undefined;
+}
+
+/**
+ * Parse a query string into a filter condition or logical filter.
+ *
+ * Grammar (keywords are case-insensitive, `and` binds tighter than `or`):
+ *
+ * ```
+ * query     := or
+ * or        := and ("or" and)*
+ * and       := primary ("and" primary)*
+ * primary   := "not" primary | "(" or ")" | condition
+ * condition := field operator value
+ * operator  := "=" | "==" | "!=" | ">" | "<" | ">=" | "<="
+ *            | "contains" | "startsWith" | "endsWith" | "in" | "notIn"
+ *            | "between" | "regex" | "matches" | "exists" | "isNull"
+ *            | "containsAll" | "containsAny" | registered custom operator
+ * value     := string | number | "true" | "false" | "null" | list
+ * list      := "[" (value ("," value)*)? "]"
+ * ```
+ *
+ * `between` takes a `[min, max]` list, `exists` and `isNull` take `true`
+ * or `false`, and `regex` a pattern string. Custom operators are matched
+ * by their exact registered name.
+ *
+ * @throws QuerySyntaxError with the position of the first problem
+ *
+ * @example
+ * ```typescript
+ * parseQuery<User>('age > 28 and (city = "London" or tags contains "vip")')
+ * ```
+ */
+export function parseQuery<T>(
+  input: string,
+  options: ParseQueryOptions = {}
+): FilterCondition<T> | LogicalFilter<T> {
+  return new Parser<T>(input, options).parse();
+}
+
+class Parser<T> {
+  private readonly tokens: Token[];
+  private index = 0;
+
+  constructor(
+    private readonly input: string,
+    private readonly options: ParseQueryOptions
+  ) {
+    this.tokens = tokenize(input);
+  }
+
+  parse(): FilterCondition<T> | LogicalFilter<T> {
+    if (this.peek().type === 'eof') {
+      throw this.error('Expected a condition', this.peek());
+    }
+    const result = this.parseOr();
+    const next = this.peek();
+    if (next.type !== 'eof') {
+      throw this.error(`Unexpected ${describe(next)}, expected "and", "or" or end of query`, next);
+    }
+    return result;
+  }
+
+  private parseOr(): FilterCondition<T> | LogicalFilter<T> {
+    return this.parseLogical('or', () => this.parseAnd());
+  }
+
+  private parseAnd(): FilterCondition<T> | LogicalFilter<T> {
+    return this.parseLogical('and', () => this.parsePrimary());
+  }
+
+  private parseLogical(
+    keyword: 'and' | 'or',
+    parseOperand: () => FilterCondition<T> | LogicalFilter<T>
+  ): FilterCondition<T> | LogicalFilter<T> {
+    const conditions = [parseOperand()];
+    while (this.isKeyword(this.peek(), keyword)) {
+      this.advance();
+      conditions.push(parseOperand());
+    }
+    if (conditions.length === 1) {
+      return conditions[0];
+    }
+    return { logicalOperator: keyword, conditions };
+  }
+
+  private parsePrimary(): FilterCondition<T> | LogicalFilter<T> {
+    const token = this.peek();
+    if (this.isNegation()) {
+      this.advance();
+      return { logicalOperator: 'not', conditions: [this.parsePrimary()] };
+    }
+    if (token.type === 'lparen') {
+      this.advance();
+      const inner = this.parseOr();
+      const close = this.peek();
+      if (close.type !== 'rparen') {
+        throw this.error(`Expected ")" to close "(" at position ${token.start}, found ${describe(close)}`, close);
+      }
+      this.advance();
+      return inner;
+    }
+    return this.parseCondition();
+  }
+
+  private parseCondition(): FilterCondition<T> {
+    const fieldToken = this.advance();
+    if (fieldToken.type !== 'word') {
+      throw this.error(`Expected a field name, found ${describe(fieldToken)}`, fieldToken);
+    }
+    const field = this.parseField(fieldToken);
+
+    const operatorToken = this.advance();
+    const operator = this.toOperator(operatorToken);
+    if (!operator) {
+      throw this.error(`Expected an operator after "${fieldToken.text}", found ${describe(operatorToken)}`, operatorToken);
+    }
+
+    const valueToken = this.peek();
+    const value = this.parseValue();
+    this.checkValue(operator, operatorToken, value, valueToken);
+
+    const condition = { field, operator, value } as FilterCondition<T>;
+    const problem = this.options.validate?.(condition);
+    if (problem) {
+      throw this.error(problem, fieldToken);
+    }
+    return condition;
+  }
+
+  /**
+   * Check that a value has the shape its operator needs
+   */
+  private checkValue(operator: FilterOperator, operatorToken: Token, value: unknown, valueToken: Token): void {
+    const name = operatorToken.text;
+    if (getCustomOperator(operator)) {
+      return;
+    }
+    if (LIST_OPERATORS.has(operator) && !Array.isArray(value)) {
+      throw this.error(`Expected a list such as ["a", "b"] after "${name}"`, valueToken);
+    }
+    if (!LIST_OPERATORS.has(operator) && Array.isArray(value)) {
+      throw this.error(
+        `Lists are only allowed with "in", "notIn", "between", "containsAll" and "containsAny", not "${name}"`,
+        valueToken
+      );
+    }
+    if (operator === 'between' && (value as unknown[]).length !== 2) {
+      throw this.error(`Expected a [min, max] list after "${name}"`, valueToken);
+    }
+    if ((operator === 'exists' || operator === 'isNull') && typeof value !== 'boolean') {
+      throw this.error(`Expected true or false after "${name}"`, valueToken);
+    }
+    if (operator === 'regex') {
+      if (typeof value !== 'string') {
+        throw this.error(`Expected a pattern string after "${name}"`, valueToken);
+      }
+      try {
+        new RegExp(value);
+      } catch (error) {
+        throw this.error(`Invalid regular expression: ${(error as Error).message}`, valueToken);
+      }
+    }
+  }
+
+  private parseField(token: Token): string {
+    try {
+      parsePath(token.text);
+    } catch {
+      throw this.error(`Invalid field path "${token.text}"`, token);
+    }
+    const { fields } = this.options;
+    if (fields && !fields.includes(token.text)) {
+      throw this.error(`Unknown field "${token.text}"`, token);
+    }
+    return token.text;
+  }
+
+  private parseValue(): unknown {
+    const token = this.advance();
+    switch (token.type) {
+      case 'string':
+        return token.text;
+      case 'number':
+        return token.value;
+      case 'word': {
+        const literal = token.text.toLowerCase();
+        if (hasOwn(LITERALS, literal)) {
+          return LITERALS[literal];
+        }
+        throw this.error(`Unexpected word "${token.text}", expected a value (quote strings)`, token);
+      }
+      case 'lbracket':
+        return this.parseList();
+      default:
+        throw this.error(`Expected a value, found ${describe(token)}`, token);
+    }
+  }
+
+  private parseList(): unknown[] {
+    const items: unknown[] = [];
+    if (this.peek().type === 'rbracket') {
+      this.advance();
+      return items;
+    }
+    for (;;) {
+      const itemToken = this.peek();
+      if (itemToken.type === 'lbracket') {
+        throw this.error('Nested lists are not supported', itemToken);
+      }
+      items.push(this.parseValue());
+      const next = this.advance();
+      if (next.type === 'rbracket') {
+        return items;
+      }
+      if (next.type !== 'comma') {
+        throw this.error(`Expected "," or "]" in list, found ${describe(next)}`, next);
+      }
+    }
+  }
+
+  private toOperator(token: Token): FilterOperator | undefined {
+    if (token.type === 'symbol' && hasOwn(SYMBOL_OPERATORS, token.text)) {
+      return SYMBOL_OPERATORS[token.text];
+    }
+    const word = token.text.toLowerCase();
+    if (token.type === 'word' && hasOwn(WORD_OPERATORS, word)) {
+      return WORD_OPERATORS[word];
+    }
+    if (token.type === 'word' && getCustomOperator(token.text)) {
+      return token.text as FilterOperator;
+    }
+    return undefined;
+  }
+
+  /**
+   * Whether the next token is a "not" prefix rather than a field named
+   * "not" (which is followed by an operator)
+   */
+  private isNegation(): boolean {
+    if (!this.isKeyword(this.peek(), 'not')) return false;
+    const next = this.tokens[this.index + 1];
+    return next.type === 'lparen' || (next.type === 'word' && !this.toOperator(next));
+  }
+
+  private isKeyword(token: Token, keyword: string): boolean {
+    return token.type === 'word' && token.text.toLowerCase() === keyword;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private advance(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'eof') {
+      this.index++;
+    }
+    return token;
+  }
+
+  private error(reason: string, token: Token): QuerySyntaxError {
+    return new QuerySyntaxError(reason, this.input, token.start);
+  }
+}
+
+function hasOwn(record: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(record, key);
+}
+
+/**
+ * Human-readable description of a token for error messages
+ */
+function describe(token: Token): string {
+  switch (token.type) {
+    case 'eof':
+      return 'end of query';
+    case 'string':
+      return `string ${JSON.stringify(token.text)}`;
+    case 'number':
+      return `number ${token.text}`;
+    default:
+      return `"${token.text}"`;
+  }
+}
@@ -0,0 +1,133 @@
+import { BuiltinFilterOperator, FilterCondition, LogicalFilter } from '../types';
+import { hasCompareOptions } from '../utils/compare';
+import { getCustomOperator } from '../utils/operators';
+
+/**
+ * Query-language spelling of each built-in filter operator
+ */
+const OPERATOR_TEXT: Record<BuiltinFilterOperator, string> = {
+  equals: '=',
+  notEquals: '!=',
+  greaterThan: '>',
+  lessThan: '<',
+  greaterThanOrEqual: '>=',
+  lessThanOrEqual: '<=',
+  contains: 'contains',
+  startsWith: 'startsWith',
+  endsWith: 'endsWith',
+  in: 'in',
+  notIn: 'notIn',
+  between: 'between',
+  regex: 'regex',
+  exists: 'exists',
+  isNull: 'isNull',
+  arrayContainsAll: 'containsAll',
+  arrayContainsAny: 'containsAny',
+};
+
+/**
+ * Field references the tokenizer reads back as a single word
+ */
+const FIELD_PATTERN = /^[A-Za-z_$][A-Za-z0-9_$.]*(\[(\d+|\*|all)\][A-Za-z0-9_$.]*)*$/;
+
+/**
+ * Serialize a filter condition or logical filter to the query language.
+ *
+ * The output parses back to an equivalent filter with `parseQuery`. Nested
+ * logical filters are parenthesized only where needed to keep their
+ * structure, so `or` groups inside `and` are wrapped while `and` groups
+ * inside `or` are not.
+ *
+ * @throws Error if the filter contains a value the query language cannot
+ * express (objects, dates, nested lists, non-finite numbers, regexes with
+ * flags), compare options, or an empty logical filter
+ *
+ * @example
+ * ```typescript
+ * stringifyQuery({ field: 'age', operator: 'greaterThan', value: 28 })
+ * // 'age > 28'
+ * ```
+ */
+export function stringifyQuery<T>(filter: FilterCondition<T> | LogicalFilter<T>): string {
+  return serializeFilter(filter);
+}
+
+function serializeFilter<T>(
+  filter: FilterCondition<T> | LogicalFilter<T>,
+  parent?: LogicalFilter<T>['logicalOperator']
+): string {
+  if (!('logicalOperator' in filter)) {
+    return serializeCondition(filter);
+  }
+
+  const { logicalOperator, conditions } = filter;
+  if (conditions.length === 0) {
+    throw new Error(`Cannot serialize an empty "${logicalOperator}" filter`);
+  }
+  if (logicalOperator === 'not') {
+    // "not" applies to a single primary, so compound operands need parens
+    const operand = unwrap(conditions.length === 1 ? conditions[0] : { logicalOperator: 'or', conditions });
+    const text = serializeFilter(operand);
+    const compound = 'logicalOperator' in operand && operand.logicalOperator !== 'not';
+    return compound ? `not (${text})` : `not ${text}`;
+  }
+  if (conditions.length === 1) {
+    return serializeFilter(conditions[0], parent);
+  }
+
+  const text = conditions
+    .map(condition => serializeFilter(condition, logicalOperator))
+    .join(` ${logicalOperator} `);
+
+  // Same-operator groups would be flattened and "or" would be split by the
+  // tighter-binding "and" unless wrapped
+  const needsParens = parent !== undefined && (parent === logicalOperator || logicalOperator === 'or');
+  return needsParens ? `(${text})` : text;
+}
+
+/**
+ * Skip "and"/"or" wrappers around a single condition
+ */
+function unwrap<T>(filter: FilterCondition<T> | LogicalFilter<T>): FilterCondition<T> | LogicalFilter<T> {
+  while ('logicalOperator' in filter && filter.logicalOperator !== 'not' && filter.conditions.length === 1) {
+    filter = filter.conditions[0];
+  }
+  return filter;
+}
+
+function serializeCondition<T>(condition: FilterCondition<T>): string {
+  const operator = hasOwn(OPERATOR_TEXT, condition.operator)
+    ? OPERATOR_TEXT[condition.operator as BuiltinFilterOperator]
+    : getCustomOperator(condition.operator) && condition.operator;
+  if (!operator) {
+    throw new Error(`Cannot serialize unknown operator "${condition.operator}"`);
+  }
+  if (hasCompareOptions(condition)) {
+    throw new Error(`Cannot serialize compare options of the "${String(condition.field)}" condition`);
+  }
+  const field = String(condition.field);
+  if (!FIELD_PATTERN.test(field)) {
+    throw new Error(`Cannot serialize field "${field}" to the query language`);
+  }
+  return `${field} ${operator} ${serializeValue(condition.value)}`;
+}
+
+function hasOwn(record: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(record, key);
+}
+
+function serializeValue(value: unknown, inList = false): string {
+  if (value instanceof RegExp && value.flags === '') {
+    return JSON.stringify(value.source);
+  }
+  if (Array.isArray(value) && !inList) {
+    return `[${value.map(item => serializeValue(item, true)).join(', ')}]`;
+  }
+  if (value === null || typeof value === 'boolean' || typeof value === 'string') {
+    return JSON.stringify(value);
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return String(value);
+  }
+  throw new Error(`Cannot serialize value ${String(value)} to the query language`);
+}
@@ -0,0 +1,188 @@
+import { QuerySyntaxError } from './errors';
+
+/**
+ * Token kinds produced by the tokenizer
+ */
+export type TokenType =
+  | 'word'
+  | 'string'
+  | 'number'
+  | 'symbol'
+  | 'lparen'
+  | 'rparen'
+  | 'lbracket'
+  | 'rbracket'
+  | 'comma'
+  | 'eof';
+
+/**
+ * A token with its source span
+ */
+export interface Token {
+  type: TokenType;
+  /** Raw text for words and symbols, decoded text for strings */
+  text: string;
+  /** Parsed value for number tokens */
+  value?: number;
+  start: number;
+  end: number;
+}
+
+const SYMBOLS = ['>=', '<=', '!=', '==', '=', '>', '<'];
+
+const WORD_START = /[A-Za-z_$]/;
+const WORD_CHAR = /[A-Za-z0-9_$]/;
+const NUMBER = /-?\d+(\.\d+)?([eE][+-]?\d+)?/y;
+
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  "'": "'",
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+/**
+ * Split a query string into tokens.
+ *
+ * Words cover keywords, literals and field paths; a path keeps its dots and
+ * bracket segments (`orders[0].total`, `tags[*]`) in a single token as long
+ * as they are not separated by whitespace.
+ */
+export function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+
+    if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen', text: char, start, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    if (char === '[' || char === ']') {
+      tokens.push({ type: char === '[' ? 'lbracket' : 'rbracket', text: char, start, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    if (char === ',') {
+      tokens.push({ type: 'comma', text: char, start, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const { text, end } = readString(input, i);
+      tokens.push({ type: 'string', text, start, end });
+      i = end;
+      continue;
+    }
+
+    NUMBER.lastIndex = i;
+    const numberMatch = NUMBER.exec(input);
+    if (numberMatch) {
+      const end = i + numberMatch[0].length;
+      if (end < input.length && WORD_CHAR.test(input[end])) {
+        throw new QuerySyntaxError(`Unexpected character "${input[end]}" in number`, input, end);
+      }
+      tokens.push({ type: 'number', text: numberMatch[0], value: Number(numberMatch[0]), start, end });
+      i = end;
+      continue;
+    }
+
+    const symbol = SYMBOLS.find(s => input.startsWith(s, i));
+    if (symbol) {
+      tokens.push({ type: 'symbol', text: symbol, start, end: i + symbol.length });
+      i += symbol.length;
+      continue;
+    }
+
+    if (WORD_START.test(char)) {
+      const end = readWord(input, i);
+      tokens.push({ type: 'word', text: input.slice(i, end), start, end });
+      i = end;
+      continue;
+    }
+
+    throw new QuerySyntaxError(`Unexpected character "${char}"`, input, i);
+  }
+
+  tokens.push({ type: 'eof', text: '', start: input.length, end: input.length });
+  return tokens;
+}
+
+/**
+ * Read a word or field path starting at `start` and return its end offset
+ */
+function readWord(input: string, start: number): number {
+  let i = start;
+  while (i < input.length) {
+    const char = input[i];
+    if (WORD_CHAR.test(char) || char === '.') {
+      i++;
+    } else if (char === '[' && i > start) {
+      const close = input.indexOf(']', i);
+      const inner = close === -1 ? '' : input.slice(i + 1, close);
+      if (!/^(\d+|\*|all)$/.test(inner)) break;
+      i = close + 1;
+    } else {
+      break;
+    }
+  }
+  return i;
+}
+
+/**
+ * Read a quoted string starting at `start`, decoding escape sequences
+ */
+function readString(input: string, start: number): { text: string; end: number } {
+  const quote = input[start];
+  let text = '';
+  let i = start + 1;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (char === quote) {
+      return { text, end: i + 1 };
+    }
+
+    if (char === '\\') {
+      const next = input[i + 1];
+      if (next === 'u') {
+        const hex = input.slice(i + 2, i + 6);
+        if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+          throw new QuerySyntaxError('Invalid unicode escape in string', input, i);
+        }
+        text += String.fromCharCode(parseInt(hex, 16));
+        i += 6;
+        continue;
+      }
+      if (next === undefined || !(next in ESCAPES)) {
+        throw new QuerySyntaxError('Invalid escape sequence in string', input, i);
+      }
+      text += ESCAPES[next];
+      i += 2;
+      continue;
+    }
+
+    text += char;
+    i++;
+  }
+
+  throw new QuerySyntaxError('Unterminated string', input, start);
+}
@@ -1,3 +1,120 @@
+/**
+ * Values that are treated as leaves when building field paths
+ */
+type PathLeaf =
+  | string
+  | number
+  | boolean
+  | bigint
+  | symbol
+  | Date
+  | RegExp
+  | Function
+  | null
+  | undefined;
+
+/**
+ * Recursion budget for path types, indexed by remaining depth
+ */
+type PrevDepth = [never, 0, 1, 2, 3, 4];
+
+/**
+ * Array index segment: a concrete position such as `[0]`
+ */
+export type ArrayIndex = `[${number}]`;
+
+/**
+ * Array quantifier segment: `[*]` matches when any element matches,
+ * `[all]` matches when every element matches
+ */
+export type ArrayQuantifier = '[*]' | '[all]';
+
+/**
+ * Dot/bracket paths below a property whose value is `V`
+ */
+type SubPath<K extends string, V, I extends string, D extends number> =
+  [D] extends [never]
+    ? never
+    : NonNullable<V> extends PathLeaf
+      ? never
+      : NonNullable<V> extends readonly (infer E)[]
+        ? `${K}${I}` | SubPath<`${K}${I}`, E, I, PrevDepth[D]>
+        : `${K}.${PathOf<NonNullable<V>, I, D>}`;
+
+/**
+ * All dot/bracket paths of `T`, using `I` as the array segment syntax
+ */
+type PathOf<T, I extends string, D extends number = 4> = [D] extends [never]
+  ? never
+  : {
+      [K in keyof T & string]-?: K | SubPath<K, T[K], I, PrevDepth[D]>;
+    }[keyof T & string];
+
+/**
+ * A field reference: a top-level key, a dot path into nested objects
+ * (`address.city`) or an indexed array element (`orders[0].total`)
+ */
+export type FieldPath<T> = keyof T | PathOf<T, ArrayIndex>;
+
+/**
+ * A field reference for filters, which additionally accepts array
+ * quantifiers (`tags[*]`, `orders[all].paid`)
+ */
+export type FilterPath<T> = keyof T | PathOf<T, ArrayIndex | ArrayQuantifier>;
+
+/**
+ * Value type of an array element, or `undefined` for non-arrays
+ */
+type ElementOf<V> = V extends readonly (infer E)[] ? E : undefined;
+
+/**
+ * Value type of property `K` on `T`, propagating `null`/`undefined` parents
+ * as `undefined`
+ */
+type KeyValue<T, K extends string> = T extends null | undefined
+  ? undefined
+  : K extends keyof T
+    ? T[K]
+    : unknown;
+
+/**
+ * Value type after applying bracket segments such as `[0][1]` to `V`
+ */
+type BracketValue<V, S extends string> = S extends ''
+  ? V
+  : S extends `[${number}]${infer Rest}`
+    ? BracketValue<ElementOf<NonNullable<V>> | undefined, Rest>
+    : unknown;
+
+/**
+ * Value type of a single dot-separated segment, e.g. `orders[0]`
+ */
+type SegmentValue<T, S extends string> = S extends `${infer K}[${infer Rest}`
+  ? BracketValue<KeyValue<T, K>, `[${Rest}`>
+  : KeyValue<T, S>;
+
+/**
+ * The value type found at field path `P` of `T`
+ *
+ * @example
+ * ```typescript
+ * type City = PathValue<Customer, 'address.city'>; // string
+ * type Total = PathValue<Customer, 'orders[0].total'>; // number | undefined
+ * ```
+ */
+export type PathValue<T, P> = P extends keyof T
+  ? T[P]
+  : P extends `${infer Head}.${infer Tail}`
+    ? PathValue<SegmentValue<T, Head>, Tail>
+    : P extends string
+      ? SegmentValue<T, P>
+      : unknown;
+
+/**
+ * Flatten an intersection into a single object type for readable hints
+ */
+export type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
 /**
  * Sort direction options
  */
@@ -6,15 +123,31 @@ export type SortDirection = 'asc' | 'desc';
 /**
  * Sort configuration for a single field
  */
-export interface SortOption<T> {
-  field: keyof T;
+export interface SortOption<T> extends CompareOptions {
+  field: FieldPath<T>;
   direction: SortDirection;
 }
 
 /**
- * Filter operators supported by the library
+ * How strings are compared by a filter condition or sort
+ *
+ * Without options, sorting uses `localeCompare` in the default locale and
+ * filters compare code units; `contains`, `startsWith` and `endsWith`
+ * ignore case and every other operator matches case.
+ */
+export interface CompareOptions {
+  /** Whether letter case matters; overrides the operator's default */
+  caseSensitive?: boolean;
+  /** Compare strings with `Intl.Collator` rules for this locale */
+  locale?: string;
+  /** Compare digit runs numerically, so "item2" sorts before "item10" */
+  numeric?: boolean;
+}
+
+/**
+ * Filter operators built into the library
  */
-export type FilterOperator =
+export type BuiltinFilterOperator =
   | 'equals'
   | 'notEquals'
   | 'contains'
@@ -24,21 +157,65 @@ export type FilterOperator =
   | 'lessThan'
   | 'greaterThanOrEqual'
   | 'lessThanOrEqual'
-  | 'in';
+  | 'in'
+  | 'notIn'
+  | 'between'
+  | 'regex'
+  | 'exists'
+  | 'isNull'
+  | 'arrayContainsAll'
+  | 'arrayContainsAny';
 
 /**
- * A single filter condition
+ * Custom operators added with `registerOperator`, mapped to the type of
+ * their filter value. Extend it with declaration merging:
+ *
+ * @example
+ * ```typescript
+ * declare module 'json-query-kit' {
+ *   interface CustomOperators {
+ *     divisibleBy: number;
+ *   }
+ * }
+ * ```
+ */
+export interface CustomOperators {}
+
+/**
+ * Filter operators supported by the library, including custom operators
  */
-export interface FilterCondition<T> {
-  field: keyof T;
-  operator: FilterOperator;
-  value: any;
+export type FilterOperator = BuiltinFilterOperator | (keyof CustomOperators & string);
+
+interface BaseFilterCondition<T> extends CompareOptions {
+  field: FilterPath<T>;
 }
 
 /**
- * Logical operators for combining filters
+ * Conditions using custom operators, with values typed by `CustomOperators`
  */
-export type LogicalOperator = 'and' | 'or';
+type CustomFilterCondition<T> = {
+  [K in keyof CustomOperators & string]: BaseFilterCondition<T> & {
+    operator: K;
+    value: CustomOperators[K];
+  };
+}[keyof CustomOperators & string];
+
+/**
+ * A single filter condition
+ *
+ * Values for `in`, `notIn`, `arrayContainsAll` and `arrayContainsAny` are
+ * arrays, `between` takes `[min, max]`, `regex` a pattern string or RegExp,
+ * and `exists` and `isNull` a boolean.
+ */
+export type FilterCondition<T> =
+  | (BaseFilterCondition<T> & { operator: BuiltinFilterOperator; value: any })
+  | CustomFilterCondition<T>;
+
+/**
+ * Logical operators for combining filters; `not` matches when none of its
+ * conditions do
+ */
+export type LogicalOperator = 'and' | 'or' | 'not';
 
 /**
  * Logical filter for combining multiple conditions
@@ -56,6 +233,16 @@ export interface PaginationOption {
   pageSize?: number;
   offset?: number;
   limit?: number;
+  /**
+   * Cursor-based pagination: `null` for the first page, then a
+   * `nextCursor`/`prevCursor` from a previous result
+   */
+  cursor?: string | null;
+  /**
+   * Field that makes the sort order total in cursor-based pagination
+   * (default `'id'`); it must be unique across rows
+   */
+  tieBreaker?: string;
 }
 
 /**
@@ -68,6 +255,10 @@ export interface PaginationMeta {
   totalPages: number;
   hasNextPage: boolean;
   hasPrevPage: boolean;
+  /** Cursor for the following page (cursor-based pagination only) */
+  nextCursor?: string | null;
+  /** Cursor for the preceding page (cursor-based pagination only) */
+  prevCursor?: string | null;
 }
 
 /**
@@ -80,6 +271,120 @@ export interface QueryResult<T> {
   };
 }
 
+/**
+ * Aggregate functions supported by groupBy
+ */
+export type AggregateOperator =
+  | 'count'
+  | 'sum'
+  | 'avg'
+  | 'min'
+  | 'max'
+  | 'distinct'
+  | 'percentile';
+
+/**
+ * A single aggregate over the rows of a group
+ *
+ * `count` without a field counts rows; every other aggregate ignores
+ * `null`/`undefined` values, and `sum`, `avg` and `percentile` also ignore
+ * non-numeric values.
+ */
+export type Aggregate<T> =
+  | { operator: 'count'; field?: FieldPath<T> }
+  | { operator: 'sum' | 'avg' | 'min' | 'max' | 'distinct'; field: FieldPath<T> }
+  | { operator: 'percentile'; field: FieldPath<T>; percentile: number };
+
+/**
+ * Named aggregates; each key becomes a column of the grouped rows
+ */
+export type AggregateSpec<T> = Record<string, Aggregate<T>>;
+
+/**
+ * Result type of an aggregate
+ */
+export type AggregateValue<T, A> = A extends { operator: 'count' | 'sum' }
+  ? number
+  : A extends { operator: 'avg' | 'percentile' }
+    ? number | null
+    : A extends { operator: 'min' | 'max'; field: infer F }
+      ? NonNullable<PathValue<T, F>> | null
+      : A extends { operator: 'distinct'; field: infer F }
+        ? NonNullable<PathValue<T, F>>[]
+        : never;
+
+/**
+ * A row produced by groupBy: the group key fields (named by their path)
+ * followed by one column per aggregate
+ */
+export type GroupRow<T, K extends FieldPath<T>, A extends AggregateSpec<T>> = Simplify<
+  { [P in K]: PathValue<T, P> } & { [N in keyof A]: AggregateValue<T, A[N]> }
+>;
+
+/**
+ * Fields to keep in output rows: a list of field paths (each column named
+ * by its path) or a map from output name to field path
+ */
+export type Selection<T> =
+  | readonly FieldPath<T>[]
+  | Readonly<Record<string, FieldPath<T>>>;
+
+/**
+ * Shape of an output row after applying a selection
+ */
+export type ProjectedRow<T, S> = Simplify<
+  S extends readonly (infer K)[]
+    ? { [P in K & PropertyKey]: PathValue<T, P> }
+    : { [N in keyof S]: PathValue<T, S[N]> }
+>;
+
+/**
+ * Derived fields: each function computes a value from the row
+ */
+export type ComputedFields<T> = Record<string, (item: T) => unknown>;
+
+/**
+ * Row type with computed fields added (replacing fields of the same name)
+ */
+export type WithComputed<T, C extends ComputedFields<T>> = Simplify<
+  Omit<T, keyof C> & { [K in keyof C]: ReturnType<C[K]> }
+>;
+
+/**
+ * An index to build for `JsonQuery.indexed`
+ *
+ * Hash indexes answer `equals` and `in`. Sorted indexes also answer range
+ * operators on numbers and dates and serve sorted (top-K) pagination; their
+ * non-null values must all be of one type.
+ */
+export interface IndexDefinition<T> {
+  field: FieldPath<T>;
+  type: 'hash' | 'sorted';
+}
+
+/**
+ * Options for `JsonQuery.indexed`
+ */
+export interface IndexedQueryOptions<T> {
+  indexes: IndexDefinition<T>[];
+}
+
+/**
+ * The filter, sort and pagination of a query as plain objects, as returned
+ * by `JsonQuery.toConfig` and accepted by `toSql` and `toMongo`
+ */
+export interface QueryConfig<T> {
+  filter?: FilterCondition<T> | LogicalFilter<T>;
+  sort?: SortOption<T>[];
+  pagination?: PaginationOption;
+}
+
+/**
+ * Allowed fields for a query translator: a list of field paths, or a map
+ * from field path to the column (or document path) to use instead
+ */
+export type FieldWhitelist = readonly string[] | Readonly<Record<string, string>>;
+
 /**
  * Custom comparison function for sorting
  */
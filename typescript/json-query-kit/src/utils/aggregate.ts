@@ -0,0 +1,142 @@
+import { Aggregate, AggregateSpec, FieldPath } from '../types';
+import { getFieldValue } from './path';
+import { compareValues } from './sort';
+
+/**
+ * Compute a single aggregate over the rows of one group
+ */
+export function computeAggregate<T>(rows: T[], aggregate: Aggregate<T>): unknown {
+  if (aggregate.operator === 'count' && aggregate.field === undefined) {
+    return rows.length;
+  }
+
+  const values = rows
+    .map(row => getFieldValue(row, aggregate.field as FieldPath<T>))
+    .filter(value => value != null);
+
+  switch (aggregate.operator) {
+    case 'count':
+      return values.length;
+
+    case 'sum':
+      return numbers(values).reduce((total, value) => total + value, 0);
+
+    case 'avg': {
+      const nums = numbers(values);
+      if (nums.length === 0) return null;
+      return nums.reduce((total, value) => total + value, 0) / nums.length;
+    }
+
+    case 'min':
+    case 'max': {
+      if (values.length === 0) return null;
+      const sign = aggregate.operator === 'min' ? -1 : 1;
+      return values.reduce((best, value) =>
+        sign * compareValues(value, best) > 0 ? value : best
+      );
+    }
+
+    case 'distinct':
+      return [...new Set(values)];
+
+    case 'percentile':
+      return percentile(numbers(values), aggregate.percentile);
+
+    default:
+      throw new Error(`Unknown aggregate operator "${(aggregate as Aggregate<T>).operator}"`);
+  }
+}
+
+function numbers(values: unknown[]): number[] {
+  return values.filter((value): value is number => typeof value === 'number' && !Number.isNaN(value));
+}
+
+/**
+ * Percentile (0-100) with linear interpolation between the closest ranks
+ */
+function percentile(values: number[], p: number): number | null {
+  if (!(p >= 0 && p <= 100)) {
+    throw new Error(`Percentile must be between 0 and 100, got ${p}`);
+  }
+  if (values.length === 0) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Rows sharing the same values for a set of key fields
+ */
+export interface RowGroup<T> {
+  key: unknown[];
+  rows: T[];
+}
+
+/**
+ * Partition rows by the values of one or more fields
+ *
+ * Groups appear in the order their first row appears in `data`. Key values
+ * are compared with SameValueZero, like the `equals` operator.
+ */
+export function groupRows<T>(data: T[], fields: FieldPath<T>[]): RowGroup<T>[] {
+  const root = new Map<unknown, any>();
+  const groups: RowGroup<T>[] = [];
+
+  for (const item of data) {
+    const key = fields.map(field => getFieldValue(item, field));
+
+    // Walk one nested map per key field; the last level holds the group
+    let level = root;
+    for (let i = 0; i < key.length - 1; i++) {
+      let next = level.get(key[i]);
+      if (!next) {
+        next = new Map();
+        level.set(key[i], next);
+      }
+      level = next;
+    }
+
+    const last = fields.length === 0 ? undefined : key[key.length - 1];
+    let group = level.get(last);
+    if (!group) {
+      group = { key, rows: [] };
+      level.set(last, group);
+      groups.push(group);
+    }
+    group.rows.push(item);
+  }
+
+  return groups;
+}
+
+/**
+ * Group rows by one or more fields and compute aggregates per group
+ *
+ * @example
+ * ```typescript
+ * groupData(orders, ['status'], {
+ *   orders: { operator: 'count' },
+ *   revenue: { operator: 'sum', field: 'total' },
+ * })
+ * // [{ status: 'paid', orders: 3, revenue: 420 }, ...]
+ * ```
+ */
+export function groupData<T>(
+  data: T[],
+  fields: FieldPath<T>[],
+  aggregates: AggregateSpec<T>
+): Record<PropertyKey, unknown>[] {
+  return groupRows(data, fields).map(({ key, rows }) => {
+    const row: Record<PropertyKey, unknown> = {};
+    fields.forEach((field, i) => {
+      row[field as PropertyKey] = key[i];
+    });
+    for (const [name, aggregate] of Object.entries(aggregates)) {
+      row[name] = computeAggregate(rows, aggregate);
+    }
+    return row;
+  });
+}
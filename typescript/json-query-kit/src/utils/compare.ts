@@ -0,0 +1,106 @@
+import { CompareOptions } from '../types';
+
+/**
+ * ISO 8601 dates such as `2025-01-31`, `2025-01-31T09:30` or
+ * `2025-01-31T09:30:00.000Z`
+ */
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Whether a value is a string holding a valid ISO 8601 date
+ */
+export function isIsoDateString(value: unknown): value is string {
+  return typeof value === 'string' && ISO_DATE.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+/**
+ * Coerce a pair of values for comparison: when either is a Date and the
+ * other is a Date or an ISO date string, both become timestamps. Other
+ * values are returned unchanged.
+ */
+export function coercePair(a: any, b: any): [any, any] {
+  if (a instanceof Date || b instanceof Date) {
+    const left = toTimestamp(a);
+    const right = toTimestamp(b);
+    if (left !== undefined && right !== undefined) {
+      return [left, right];
+    }
+  }
+  return [a, b];
+}
+
+function toTimestamp(value: unknown): number | undefined {
+  if (value instanceof Date) return value.getTime();
+  if (isIsoDateString(value)) return Date.parse(value);
+  return undefined;
+}
+
+/**
+ * Whether string comparison needs a collator or case folding instead of the
+ * default for its context
+ */
+export function hasCompareOptions(options: CompareOptions | undefined): boolean {
+  return options !== undefined
+    && (options.caseSensitive !== undefined || options.locale !== undefined || options.numeric !== undefined);
+}
+
+const collators = new Map<string, Intl.Collator>();
+
+function collator(options: CompareOptions): Intl.Collator {
+  const key = `${options.locale ?? ''}|${options.caseSensitive !== false}|${options.numeric === true}`;
+  let result = collators.get(key);
+  if (!result) {
+    result = new Intl.Collator(options.locale, {
+      sensitivity: options.caseSensitive === false ? 'accent' : 'variant',
+      numeric: options.numeric === true,
+    });
+    collators.set(key, result);
+  }
+  return result;
+}
+
+/**
+ * Compare two strings with collation options
+ *
+ * With a locale or `numeric`, an `Intl.Collator` decides the order.
+ * Otherwise strings compare by code units, after lower-casing them when
+ * `caseSensitive` is false.
+ */
+export function compareStrings(a: string, b: string, options: CompareOptions = {}): number {
+  if (options.locale !== undefined || options.numeric) {
+    return collator(options).compare(a, b);
+  }
+  const left = options.caseSensitive === false ? a.toLowerCase() : a;
+  const right = options.caseSensitive === false ? b.toLowerCase() : b;
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+/**
+ * Apply a relational test to two values for filtering: dates and ISO
+ * strings compare by time, strings by collation options when given, and
+ * anything else with the test as is (so `null` coerces to 0 as usual)
+ */
+export function relate(
+  a: any,
+  b: any,
+  options: CompareOptions,
+  test: (left: any, right: any) => boolean
+): boolean {
+  const [left, right] = coercePair(a, b);
+  if (typeof left === 'string' && typeof right === 'string' && hasCompareOptions(options)) {
+    return test(compareStrings(left, right, options), 0);
+  }
+  return test(left, right);
+}
+
+/**
+ * Equality for filtering: strict, except that dates match by time and
+ * strings follow collation options when given
+ */
+export function valuesEqual(a: any, b: any, options: CompareOptions = {}): boolean {
+  const [left, right] = coercePair(a, b);
+  if (typeof left === 'string' && typeof right === 'string' && hasCompareOptions(options)) {
+    return compareStrings(left, right, options) === 0;
+  }
+  return left === right;
+}
@@ -0,0 +1,253 @@
+import { SortOption } from '../types';
+import { PaginationResult } from './paginate';
+import { getFieldValue } from './path';
+import { compareFieldValues } from './sort';
+
+/**
+ * Error thrown when a pagination cursor is malformed or does not belong to
+ * the query it is used with
+ */
+export class InvalidCursorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+/**
+ * Decoded cursor contents
+ */
+interface CursorPayload {
+  /** Sort signature the cursor was created for */
+  s: string;
+  /** Sort key values of the row the cursor points at */
+  k: unknown[];
+  /** Direction: rows after (`n`) or before (`p`) the key */
+  d: 'n' | 'p';
+}
+
+const DATE_TAG = '$date';
+
+/**
+ * Sort options extended with the tie-breaker so that no two rows compare
+ * equal, which keyset pagination relies on
+ */
+export function cursorSortOptions<T>(
+  sortOptions: SortOption<T>[],
+  tieBreaker = 'id'
+): SortOption<T>[] {
+  if (sortOptions.some(option => option.field === tieBreaker)) {
+    return sortOptions;
+  }
+  return [...sortOptions, { field: tieBreaker as SortOption<T>['field'], direction: 'asc' }];
+}
+
+function sortSignature<T>(sortOptions: SortOption<T>[]): string {
+  return sortOptions.map(({ field, direction }) => `${String(field)}:${direction}`).join(',');
+}
+
+/**
+ * Encode a cursor pointing at `item` for the given (tie-broken) sort
+ */
+export function encodeCursor<T>(
+  item: T,
+  sortOptions: SortOption<T>[],
+  direction: 'next' | 'prev'
+): string {
+  const payload: CursorPayload = {
+    s: sortSignature(sortOptions),
+    k: sortOptions.map(({ field }) => getFieldValue(item, field)),
+    d: direction === 'next' ? 'n' : 'p',
+  };
+  return toBase64Url(JSON.stringify(tagDates(payload)));
+}
+
+/**
+ * Decode a cursor and check that it was created for the given sort
+ *
+ * @throws InvalidCursorError if the cursor is malformed or was created for a
+ * different sort
+ */
+export function decodeCursor<T>(
+  cursor: string,
+  sortOptions: SortOption<T>[]
+): { key: unknown[]; direction: 'next' | 'prev' } {
+  let payload: CursorPayload;
+  try {
+    payload = untagDates(JSON.parse(fromBase64Url(cursor)));
+  } catch {
+    throw new InvalidCursorError('Malformed pagination cursor');
+  }
+
+  if (
+    !payload
+    || typeof payload.s !== 'string'
+    || !Array.isArray(payload.k)
+    || (payload.d !== 'n' && payload.d !== 'p')
+  ) {
+    throw new InvalidCursorError('Malformed pagination cursor');
+  }
+
+  const signature = sortSignature(sortOptions);
+  if (payload.s !== signature || payload.k.length !== sortOptions.length) {
+    throw new InvalidCursorError(
+      `Cursor was created for sort "${payload.s}" but the query is sorted by "${signature}"`
+    );
+  }
+
+  return { key: payload.k, direction: payload.d === 'n' ? 'next' : 'prev' };
+}
+
+/**
+ * Paginate sorted data with opaque keyset cursors
+ *
+ * `data` must already be sorted by `cursorSortOptions(sortOptions, tieBreaker)`.
+ * Because cursors hold the sort values of the boundary row rather than a
+ * position, pages stay stable when rows are inserted or removed between
+ * requests.
+ */
+export function paginateByCursor<T>(
+  data: T[],
+  sortOptions: SortOption<T>[],
+  cursor: string | null | undefined,
+  limit: number,
+  tieBreaker = 'id'
+): PaginationResult<T> {
+  const options = cursorSortOptions(sortOptions, tieBreaker);
+  const totalItems = data.length;
+
+  if (!cursor) {
+    return buildPage(data, options, 0, Math.min(limit, totalItems), limit);
+  }
+
+  const { key, direction } = decodeCursor(cursor, options);
+  if (direction === 'next') {
+    // Rows strictly after the key
+    const startIndex = lowerBound(data, row => compareToKey(row, key, options) > 0);
+    return buildPage(data, options, startIndex, Math.min(startIndex + limit, totalItems), limit);
+  }
+
+  // Rows strictly before the key, taking the last `limit` of them
+  const endIndex = lowerBound(data, row => compareToKey(row, key, options) >= 0);
+  return buildPage(data, options, Math.max(0, endIndex - limit), endIndex, limit);
+}
+
+function buildPage<T>(
+  data: T[],
+  sortOptions: SortOption<T>[],
+  startIndex: number,
+  endIndex: number,
+  limit: number
+): PaginationResult<T> {
+  const totalItems = data.length;
+  const page = data.slice(startIndex, endIndex);
+  const hasNextPage = endIndex < totalItems;
+  const hasPrevPage = startIndex > 0;
+
+  return {
+    data: page,
+    meta: {
+      totalItems,
+      currentPage: Math.floor(startIndex / limit) + 1,
+      pageSize: limit,
+      totalPages: Math.ceil(totalItems / limit),
+      hasNextPage,
+      hasPrevPage,
+      nextCursor: hasNextPage && page.length > 0
+        ? encodeCursor(page[page.length - 1], sortOptions, 'next')
+        : null,
+      prevCursor: hasPrevPage && page.length > 0
+        ? encodeCursor(page[0], sortOptions, 'prev')
+        : null,
+    },
+  };
+}
+
+function compareToKey<T>(row: T, key: unknown[], sortOptions: SortOption<T>[]): number {
+  for (let i = 0; i < sortOptions.length; i++) {
+    const { field, direction } = sortOptions[i];
+    const result = compareFieldValues(getFieldValue(row, field), key[i], direction, sortOptions[i]);
+    if (result !== 0) return result;
+  }
+  return 0;
+}
+
+/**
+ * Index of the first row for which `predicate` holds, assuming it is false
+ * for a prefix of `data` and true for the rest
+ */
+function lowerBound<T>(data: T[], predicate: (row: T) => boolean): number {
+  let low = 0;
+  let high = data.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (predicate(data[mid])) {
+      high = mid;
+    } else {
+      low = mid + 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Replace Date values with tagged objects so they survive the JSON round trip
+ */
+function tagDates(payload: CursorPayload): CursorPayload {
+  return {
+    ...payload,
+    k: payload.k.map(value =>
+      value instanceof Date ? { [DATE_TAG]: value.toISOString() } : value
+    ),
+  };
+}
+
+function untagDates(payload: CursorPayload): CursorPayload {
+  if (!payload || !Array.isArray(payload.k)) return payload;
+  return {
+    ...payload,
+    k: payload.k.map(value =>
+      value !== null && typeof value === 'object' && DATE_TAG in value
+        ? new Date((value as Record<string, string>)[DATE_TAG])
+        : value
+    ),
+  };
+}
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+/**
+ * Base64url-encode a string as UTF-8 without relying on Node's Buffer, so
+ * cursors work in browsers too
+ */
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let output = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    const chars = i + 2 < bytes.length ? 4 : i + 1 < bytes.length ? 3 : 2;
+    for (let j = 0; j < chars; j++) {
+      output += BASE64_ALPHABET[(chunk >> (18 - 6 * j)) & 63];
+    }
+  }
+  return output;
+}
+
+function fromBase64Url(encoded: string): string {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of encoded) {
+    const value = BASE64_ALPHABET.indexOf(char);
+    if (value === -1) {
+      throw new Error(`Invalid base64url character "${char}"`);
+    }
+    buffer = ((buffer << 6) | value) & 0xffff;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+  return new TextDecoder('utf-8', { fatal: true }).decode(new Uint8Array(bytes));
+}
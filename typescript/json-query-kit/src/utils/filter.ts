@@ -1,73 +1,159 @@
-import { FilterCondition, FilterOperator, LogicalFilter } from '../types';
+import { CompareOptions, FilterCondition, FilterOperator, LogicalFilter } from '../types';
+import { relate, valuesEqual } from './compare';
+import { getCustomOperator } from './operators';
+import { matchesPath } from './path';
 
 /**
  * Apply a filter operator to a value
+ *
+ * Dates compare by time, also against ISO date strings. `options` change
+ * how strings are compared; see `CompareOptions`.
  */
-function applyOperator<T>(
+export function applyOperator<T>(
   itemValue: any,
   operator: FilterOperator,
-  filterValue: any
+  filterValue: any,
+  options: CompareOptions = {}
 ): boolean {
   switch (operator) {
     case 'equals':
-      return itemValue === filterValue;
+      return valuesEqual(itemValue, filterValue, options);
 
     case 'notEquals':
-      return itemValue !== filterValue;
+      return !valuesEqual(itemValue, filterValue, options);
 
     case 'contains':
       if (typeof itemValue === 'string' && typeof filterValue === 'string') {
-        return itemValue.toLowerCase().includes(filterValue.toLowerCase());
+        return foldCase(itemValue, options).includes(foldCase(filterValue, options));
       }
       if (Array.isArray(itemValue)) {
-        return itemValue.includes(filterValue);
+        return includesValue(itemValue, filterValue, options);
       }
       return false;
 
     case 'startsWith':
       if (typeof itemValue === 'string' && typeof filterValue === 'string') {
-        return itemValue.toLowerCase().startsWith(filterValue.toLowerCase());
+        return foldCase(itemValue, options).startsWith(foldCase(filterValue, options));
       }
       return false;
 
     case 'endsWith':
       if (typeof itemValue === 'string' && typeof filterValue === 'string') {
-        return itemValue.toLowerCase().endsWith(filterValue.toLowerCase());
+        return foldCase(itemValue, options).endsWith(foldCase(filterValue, options));
       }
       return false;
 
     case 'greaterThan':
-      return itemValue > filterValue;
+      return relate(itemValue, filterValue, options, (a, b) => a > b);
 
     case 'lessThan':
-      return itemValue < filterValue;
+      return relate(itemValue, filterValue, options, (a, b) => a < b);
 
     case 'greaterThanOrEqual':
-      return itemValue >= filterValue;
+      return relate(itemValue, filterValue, options, (a, b) => a >= b);
 
     case 'lessThanOrEqual':
-      return itemValue <= filterValue;
+      return relate(itemValue, filterValue, options, (a, b) => a <= b);
+
+    case 'between':
+      if (Array.isArray(filterValue) && filterValue.length === 2) {
+        return relate(itemValue, filterValue[0], options, (a, b) => a >= b)
+          && relate(itemValue, filterValue[1], options, (a, b) => a <= b);
+      }
+      return false;
 
     case 'in':
       if (Array.isArray(filterValue)) {
-        return filterValue.includes(itemValue);
+        return includesValue(filterValue, itemValue, options);
+      }
+      return false;
+
+    case 'notIn':
+      if (Array.isArray(filterValue)) {
+        return !includesValue(filterValue, itemValue, options);
       }
       return false;
 
-    default:
+    case 'regex':
+      if (typeof itemValue === 'string' && (typeof filterValue === 'string' || filterValue instanceof RegExp)) {
+        return compileRegex(filterValue, options).test(itemValue);
+      }
       return false;
+
+    case 'exists':
+      return (itemValue !== undefined) === (filterValue !== false);
+
+    case 'isNull':
+      return (itemValue == null) === (filterValue !== false);
+
+    case 'arrayContainsAll':
+      if (Array.isArray(itemValue) && Array.isArray(filterValue)) {
+        return filterValue.every(value => includesValue(itemValue, value, options));
+      }
+      return false;
+
+    case 'arrayContainsAny':
+      if (Array.isArray(itemValue) && Array.isArray(filterValue)) {
+        return filterValue.some(value => includesValue(itemValue, value, options));
+      }
+      return false;
+
+    default: {
+      const predicate = getCustomOperator(operator);
+      return predicate ? predicate(itemValue, filterValue, options) : false;
+    }
+  }
+}
+
+/**
+ * Lower-case a string for matching unless the options make case matter
+ */
+function foldCase(value: string, options: CompareOptions): string {
+  if (options.caseSensitive === true) return value;
+  return options.locale !== undefined ? value.toLocaleLowerCase(options.locale) : value.toLowerCase();
+}
+
+function includesValue(list: unknown[], value: unknown, options: CompareOptions): boolean {
+  return list.includes(value) || list.some(item => valuesEqual(value, item, options));
+}
+
+const regexCache = new Map<string, RegExp>();
+const REGEX_CACHE_LIMIT = 100;
+
+/**
+ * Compile a regex filter value. Patterns are case-sensitive unless
+ * `caseSensitive` is false; the stateful `g` and `y` flags are dropped so
+ * repeated tests do not depend on `lastIndex`.
+ */
+function compileRegex(pattern: string | RegExp, options: CompareOptions): RegExp {
+  const source = typeof pattern === 'string' ? pattern : pattern.source;
+  let flags = typeof pattern === 'string' ? '' : pattern.flags.replace(/[gy]/g, '');
+  if (options.caseSensitive === false && !flags.includes('i')) flags += 'i';
+  if (options.caseSensitive === true) flags = flags.replace('i', '');
+
+  const key = `${flags}/${source}`;
+  let regex = regexCache.get(key);
+  if (!regex) {
+    if (regexCache.size >= REGEX_CACHE_LIMIT) regexCache.clear();
+    regex = new RegExp(source, flags);
+    regexCache.set(key, regex);
   }
+  return regex;
 }
 
 /**
  * Check if an item matches a single filter condition
+ *
+ * The field may be a nested path; array quantifiers in the path decide
+ * whether any or all elements must satisfy the operator.
  */
 function matchesCondition<T>(
   item: T,
   condition: FilterCondition<T>
 ): boolean {
-  const itemValue = item[condition.field];
-  return applyOperator(itemValue, condition.operator, condition.value);
+  return matchesPath(item, condition.field, itemValue =>
+    applyOperator(itemValue, condition.operator, condition.value, condition)
+  );
 }
 
 /**
@@ -81,6 +167,8 @@ function matchesLogicalFilter<T>(
 
   if (logicalOperator === 'and') {
     return conditions.every(cond => matchesFilter(item, cond));
+  } else if (logicalOperator === 'not') {
+    return !conditions.some(cond => matchesFilter(item, cond));
   } else {
     return conditions.some(cond => matchesFilter(item, cond));
   }
@@ -89,7 +177,7 @@ function matchesLogicalFilter<T>(
 /**
  * Check if an item matches a filter (condition or logical filter)
  */
-function matchesFilter<T>(
+export function matchesFilter<T>(
   item: T,
   filter: FilterCondition<T> | LogicalFilter<T>
 ): boolean {
@@ -1,3 +1,10 @@
 export * from './sort';
+export * from './compare';
+export * from './operators';
 export * from './filter';
 export * from './paginate';
+export * from './path';
+export * from './aggregate';
+export * from './project';
+export * from './cursor';
+export * from './indexes';
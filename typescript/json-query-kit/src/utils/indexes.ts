@@ -0,0 +1,415 @@
+import {
+  FilterCondition,
+  FilterOperator,
+  IndexDefinition,
+  LogicalFilter,
+  SortDirection,
+  SortOption,
+} from '../types';
+import { hasCompareOptions, isIsoDateString } from './compare';
+import { applyOperator, matchesFilter } from './filter';
+import { getFieldValue } from './path';
+import { compareFieldValues, compareValues } from './sort';
+
+/**
+ * Value kinds a sorted index can order consistently with `compareValues`
+ */
+type SortedKind = 'number' | 'string' | 'boolean' | 'date';
+
+/**
+ * Rows sharing one value in a sorted index, positions ascending
+ */
+interface Run {
+  value: unknown;
+  positions: number[];
+}
+
+const RANGE_OPERATORS = new Set(['greaterThan', 'lessThan', 'greaterThanOrEqual', 'lessThanOrEqual']);
+
+function kindOf(value: unknown): SortedKind | null {
+  if (typeof value === 'number') return Number.isNaN(value) ? null : 'number';
+  if (typeof value === 'string') return 'string';
+  if (typeof value === 'boolean') return 'boolean';
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : 'date';
+  return null;
+}
+
+/**
+ * Hash index: value -> positions, for `equals` and `in`
+ *
+ * Dates are keyed by time in a separate map, since `equals` matches them
+ * by time against both dates and ISO date strings.
+ */
+export class HashIndex {
+  private readonly buckets = new Map<unknown, number[]>();
+  private readonly dates = new Map<number, number[]>();
+
+  constructor(values: unknown[]) {
+    values.forEach((value, position) => {
+      if (value instanceof Date) {
+        addToBucket(this.dates, value.getTime(), position);
+      } else {
+        addToBucket(this.buckets, value, position);
+      }
+    });
+  }
+
+  /**
+   * Positions whose value may equal `value`
+   */
+  lookup(value: unknown): number[] {
+    if (value instanceof Date) {
+      return [
+        ...(this.dates.get(value.getTime()) ?? []),
+        ...this.isoStrings(),
+      ];
+    }
+    const exact = this.buckets.get(value) ?? [];
+    if (isIsoDateString(value) && this.dates.size > 0) {
+      return [...exact, ...(this.dates.get(Date.parse(value)) ?? [])];
+    }
+    return exact;
+  }
+
+  /**
+   * Positions of ISO date strings, which a date matches by time whatever
+   * their format
+   */
+  private isoStrings(): number[] {
+    const positions: number[] = [];
+    for (const [key, bucket] of this.buckets) {
+      if (isIsoDateString(key)) positions.push(...bucket);
+    }
+    return positions;
+  }
+}
+
+function addToBucket<K>(buckets: Map<K, number[]>, key: K, position: number): void {
+  const bucket = buckets.get(key);
+  if (bucket) {
+    bucket.push(position);
+  } else {
+    buckets.set(key, [position]);
+  }
+}
+
+/**
+ * Sorted index: runs of equal values in ascending order, with `null` and
+ * `undefined` kept apart since they always sort last
+ *
+ * Only built over fields whose non-null values share one kind, so the index
+ * order matches the order `sortBySingleField` produces.
+ */
+export class SortedIndex {
+  readonly kind: SortedKind | null;
+  /** Whether the non-null values share one kind, so the index can be used */
+  readonly usable: boolean;
+  private readonly runs: Run[] = [];
+  private readonly nullish: number[] = [];
+
+  constructor(values: unknown[]) {
+    let kind: SortedKind | null | undefined;
+    const positions: number[] = [];
+
+    values.forEach((value, position) => {
+      if (value == null) {
+        this.nullish.push(position);
+        return;
+      }
+      const valueKind = kindOf(value);
+      kind = kind === undefined || kind === valueKind ? valueKind : null;
+      positions.push(position);
+    });
+
+    this.kind = kind ?? null;
+    this.usable = kind !== null;
+    if (!this.usable) {
+      return;
+    }
+
+    // Array.prototype.sort is stable, so equal values keep ascending positions
+    positions.sort((a, b) => compareValues(values[a], values[b]));
+    for (const position of positions) {
+      const last = this.runs[this.runs.length - 1];
+      if (last && compareValues(last.value, values[position]) === 0) {
+        last.positions.push(position);
+      } else {
+        this.runs.push({ value: values[position], positions: [position] });
+      }
+    }
+  }
+
+  /**
+   * Positions whose value may equal `value`
+   */
+  lookup(value: unknown): number[] {
+    if (value == null) return this.nullish;
+    if (this.kind === 'date' && isIsoDateString(value)) {
+      value = new Date(value);
+    }
+    if (kindOf(value) !== this.kind) return [];
+    const index = this.firstRun(run => compareValues(run.value, value) >= 0);
+    const run = this.runs[index];
+    return run && compareValues(run.value, value) === 0 ? run.positions : [];
+  }
+
+  /**
+   * Positions that may satisfy every range condition, or null when the
+   * index cannot answer them (string ranges use code-unit order, not
+   * locale order)
+   */
+  range(conditions: Array<{ operator: string; value: unknown }>): number[] | null {
+    if (this.kind !== 'number' && this.kind !== 'date') return null;
+
+    let from = 0;
+    let to = this.runs.length;
+    let includeNullish = true;
+    for (const { operator, value } of conditions) {
+      if (typeof value !== 'number' && !(value instanceof Date)) return null;
+      if (typeof value === 'number' && Number.isNaN(value)) return null;
+
+      const bound = value as number;
+      switch (operator) {
+        case 'greaterThan':
+          from = Math.max(from, this.firstRun(run => (run.value as number) > bound));
+          break;
+        case 'greaterThanOrEqual':
+          from = Math.max(from, this.firstRun(run => (run.value as number) >= bound));
+          break;
+        case 'lessThan':
+          to = Math.min(to, this.firstRun(run => (run.value as number) >= bound));
+          break;
+        case 'lessThanOrEqual':
+          to = Math.min(to, this.firstRun(run => (run.value as number) > bound));
+          break;
+        default:
+          return null;
+      }
+      // Relational operators coerce null to 0, so null rows can match
+      includeNullish = includeNullish
+        && (applyOperator(null, operator as FilterOperator, value)
+          || applyOperator(undefined, operator as FilterOperator, value));
+    }
+
+    const positions = this.runs.slice(from, Math.max(from, to)).flatMap(run => run.positions);
+    if (includeNullish) {
+      positions.push(...this.nullish);
+    }
+    return positions;
+  }
+
+  /**
+   * Runs in sort order for a direction. Equal values keep ascending
+   * positions in both directions and nullish values come last, matching
+   * the stable sort in `sortBySingleField`.
+   */
+  *orderedRuns(direction: SortDirection): Generator<number[]> {
+    if (direction === 'asc') {
+      for (const run of this.runs) yield run.positions;
+    } else {
+      for (let i = this.runs.length - 1; i >= 0; i--) yield this.runs[i].positions;
+    }
+    if (this.nullish.length > 0) {
+      yield this.nullish;
+    }
+  }
+
+  private firstRun(predicate: (run: Run) => boolean): number {
+    let low = 0;
+    let high = this.runs.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (predicate(this.runs[mid])) {
+        high = mid;
+      } else {
+        low = mid + 1;
+      }
+    }
+    return low;
+  }
+}
+
+/**
+ * Hash and sorted indexes over a dataset
+ *
+ * Index lookups return candidate positions that are then checked against
+ * the full filter, so indexed queries return exactly what a linear scan
+ * returns. Indexes are built once; rows must not be changed afterwards.
+ */
+export class IndexSet<T> {
+  private readonly hash = new Map<PropertyKey, HashIndex>();
+  private readonly sorted = new Map<PropertyKey, SortedIndex>();
+
+  constructor(
+    private readonly data: T[],
+    definitions: IndexDefinition<T>[]
+  ) {
+    for (const { field, type } of definitions) {
+      const values = data.map(item => getFieldValue(item, field));
+      if (type === 'hash') {
+        this.hash.set(field as PropertyKey, new HashIndex(values));
+      } else {
+        const index = new SortedIndex(values);
+        if (!index.usable) {
+          throw new Error(
+            `Cannot build a sorted index on "${String(field)}": its values are not all of one type`
+          );
+        }
+        this.sorted.set(field as PropertyKey, index);
+      }
+    }
+  }
+
+  /**
+   * Positions of rows matching the filter in ascending order, or null when
+   * the filter cannot use any index
+   */
+  filterPositions(filter: FilterCondition<T> | LogicalFilter<T>): number[] | null {
+    const candidates = this.candidates(filter);
+    if (!candidates) return null;
+
+    let positions: number[];
+    if (candidates.length * 16 < this.data.length) {
+      // Few candidates: sorting them is cheaper than a pass over all rows.
+      // Copy first, since candidates may be an index's own position list.
+      positions = [...new Set(candidates)].sort((a, b) => a - b);
+    } else {
+      const marked = new Uint8Array(this.data.length);
+      for (const position of candidates) marked[position] = 1;
+      positions = [];
+      marked.forEach((flag, position) => {
+        if (flag) positions.push(position);
+      });
+    }
+    return positions.filter(position => matchesFilter(this.data[position], filter));
+  }
+
+  /**
+   * Whether a sorted index can order results by `option`; collation
+   * options need an order the index does not keep
+   */
+  canSort(option: SortOption<T>): boolean {
+    return this.sorted.has(option.field as PropertyKey) && !hasCompareOptions(option);
+  }
+
+  /**
+   * Positions in sort order, restricted to `matched` when given
+   *
+   * The first sort option must have a sorted index; ties on it are ordered
+   * by the remaining options. Iteration is lazy, so taking the first rows
+   * of a page avoids sorting the rest.
+   */
+  *orderedPositions(sortOptions: SortOption<T>[], matched?: Uint8Array): Generator<number> {
+    const [first, ...rest] = sortOptions;
+    const index = this.sorted.get(first.field as PropertyKey);
+    if (!index) {
+      throw new Error(`No sorted index on "${String(first.field)}"`);
+    }
+
+    for (const run of index.orderedRuns(first.direction)) {
+      const positions = matched ? run.filter(position => matched[position]) : run;
+      if (rest.length === 0 || positions.length < 2) {
+        yield* positions;
+        continue;
+      }
+      // Positions are ascending, so the stable sort keeps input order for ties
+      yield* [...positions].sort((a, b) => {
+        for (const option of rest) {
+          const result = compareFieldValues(
+            getFieldValue(this.data[a], option.field),
+            getFieldValue(this.data[b], option.field),
+            option.direction,
+            option
+          );
+          if (result !== 0) return result;
+        }
+        return 0;
+      });
+    }
+  }
+
+  private candidates(filter: FilterCondition<T> | LogicalFilter<T>): number[] | null {
+    if (!('logicalOperator' in filter)) {
+      return this.conditionCandidates(filter);
+    }
+
+    if (filter.logicalOperator === 'not') {
+      return null;
+    }
+
+    if (filter.logicalOperator === 'or') {
+      // An "or" can only use indexes when every branch can
+      const children = filter.conditions.map(condition => this.candidates(condition));
+      if (children.some(c => c === null)) return null;
+      return (children as number[][]).flat();
+    }
+
+    // Any indexed child bounds an "and"; use the most selective one. Range
+    // conditions on one sorted field are combined into a single slice, so
+    // `score >= 10 and score < 20` does not read either open-ended range.
+    const ranges = this.groupRanges(filter.conditions);
+    const indexed: number[][] = [];
+    for (const group of ranges) {
+      const candidates = this.sorted.get(group[0].field as PropertyKey)!.range(group);
+      if (candidates) indexed.push(candidates);
+    }
+    for (const condition of filter.conditions) {
+      if (ranges.some(group => group.includes(condition as FilterCondition<T>))) continue;
+      const candidates = this.candidates(condition);
+      if (candidates) indexed.push(candidates);
+    }
+
+    if (indexed.length === 0) return null;
+    return indexed.reduce((best, c) => (c.length < best.length ? c : best));
+  }
+
+  /**
+   * Range conditions of an "and", grouped by sorted-index field where a
+   * field has more than one
+   */
+  private groupRanges(
+    conditions: Array<FilterCondition<T> | LogicalFilter<T>>
+  ): FilterCondition<T>[][] {
+    const byField = new Map<PropertyKey, FilterCondition<T>[]>();
+    for (const condition of conditions) {
+      if ('logicalOperator' in condition || !RANGE_OPERATORS.has(condition.operator)) continue;
+      const key = condition.field as PropertyKey;
+      if (!this.sorted.has(key)) continue;
+      byField.set(key, [...(byField.get(key) ?? []), condition]);
+    }
+    return [...byField.values()].filter(group => group.length > 1);
+  }
+
+  private conditionCandidates(condition: FilterCondition<T>): number[] | null {
+    const key = condition.field as PropertyKey;
+    const hash = this.hash.get(key);
+    const sorted = this.sorted.get(key);
+    const { operator, value } = condition;
+
+    // Collation options change which strings are equal or in range
+    if (hasCompareOptions(condition)) return null;
+
+    if (operator === 'equals') {
+      if (hash) return hash.lookup(value);
+      if (sorted) return sorted.lookup(value);
+    }
+
+    if (operator === 'in' && Array.isArray(value)) {
+      if (hash) return value.flatMap(v => hash.lookup(v));
+      if (sorted) return value.flatMap(v => sorted.lookup(v));
+    }
+
+    if (RANGE_OPERATORS.has(operator) && sorted) {
+      return sorted.range([{ operator, value }]);
+    }
+
+    if (operator === 'between' && sorted && Array.isArray(value) && value.length === 2) {
+      return sorted.range([
+        { operator: 'greaterThanOrEqual', value: value[0] },
+        { operator: 'lessThanOrEqual', value: value[1] },
+      ]);
+    }
+
+    return null;
+  }
+}
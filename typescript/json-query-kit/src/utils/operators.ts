@@ -0,0 +1,87 @@
+import { BuiltinFilterOperator, CompareOptions, CustomOperators } from '../types';
+
+/**
+ * Test for a custom operator: receives the item's field value, the
+ * condition's value and its compare options
+ */
+export type OperatorPredicate<V> = (itemValue: any, filterValue: V, options: CompareOptions) => boolean;
+
+const BUILTIN_OPERATORS: ReadonlySet<string> = new Set<BuiltinFilterOperator>([
+  'equals',
+  'notEquals',
+  'contains',
+  'startsWith',
+  'endsWith',
+  'greaterThan',
+  'lessThan',
+  'greaterThanOrEqual',
+  'lessThanOrEqual',
+  'in',
+  'notIn',
+  'between',
+  'regex',
+  'exists',
+  'isNull',
+  'arrayContainsAll',
+  'arrayContainsAny',
+]);
+
+const customOperators = new Map<string, OperatorPredicate<any>>();
+
+/**
+ * Whether an operator is built into the library
+ */
+export function isBuiltinOperator(operator: string): operator is BuiltinFilterOperator {
+  return BUILTIN_OPERATORS.has(operator);
+}
+
+/**
+ * Register a custom filter operator
+ *
+ * Declare the operator's value type on `CustomOperators` first, so
+ * conditions using it are type-checked. Custom operators work in filters,
+ * `having()` and the query language, but cannot use indexes or be
+ * translated to SQL or MongoDB.
+ *
+ * @throws Error if the name is a built-in operator or already registered
+ *
+ * @example
+ * ```typescript
+ * declare module 'json-query-kit' {
+ *   interface CustomOperators {
+ *     divisibleBy: number;
+ *   }
+ * }
+ *
+ * registerOperator('divisibleBy', (value, divisor) => value % divisor === 0);
+ * query.filter({ field: 'age', operator: 'divisibleBy', value: 5 });
+ * ```
+ */
+export function registerOperator<K extends keyof CustomOperators & string>(
+  name: K,
+  predicate: OperatorPredicate<CustomOperators[K]>
+): void {
+  if (isBuiltinOperator(name)) {
+    throw new Error(`Cannot register "${name}": it is a built-in operator`);
+  }
+  if (customOperators.has(name)) {
+    throw new Error(`Operator "${name}" is already registered`);
+  }
+  customOperators.set(name, predicate);
+}
+
+/**
+ * Remove a custom operator
+ *
+ * @returns Whether the operator was registered
+ */
+export function unregisterOperator(name: keyof CustomOperators & string): boolean {
+  return customOperators.delete(name);
+}
+
+/**
+ * The predicate registered for a custom operator, if any
+ */
+export function getCustomOperator(name: string): OperatorPredicate<any> | undefined {
+  return customOperators.get(name);
+}
@@ -1,4 +1,5 @@
-import { PaginationOption, PaginationMeta } from '../types';
+import { PaginationOption, PaginationMeta, SortOption } from '../types';
+import { paginateByCursor } from './cursor';
 
 /**
  * Paginate result structure
@@ -9,23 +10,30 @@ export interface PaginationResult<T> {
 }
 
 /**
- * Paginate an array using page-based pagination
+ * Slice bounds and metadata for a page, computed from the item count alone
  */
-export function paginateByPage<T>(
-  data: T[],
+export interface PaginationWindow {
+  startIndex: number;
+  endIndex: number;
+  meta: PaginationMeta;
+}
+
+/**
+ * Compute the window for page-based pagination
+ */
+export function pageWindow(
+  totalItems: number,
   page: number,
   pageSize: number
-): PaginationResult<T> {
-  const totalItems = data.length;
+): PaginationWindow {
   const totalPages = Math.ceil(totalItems / pageSize);
   const currentPage = Math.max(1, Math.min(page, totalPages || 1));
   const startIndex = (currentPage - 1) * pageSize;
-  const endIndex = startIndex + pageSize;
-
-  const paginatedData = data.slice(startIndex, endIndex);
+  const endIndex = Math.min(startIndex + pageSize, totalItems);
 
   return {
-    data: paginatedData,
+    startIndex,
+    endIndex,
     meta: {
       totalItems,
       currentPage,
@@ -38,17 +46,15 @@ export function paginateByPage<T>(
 }
 
 /**
- * Paginate an array using offset-based pagination
+ * Compute the window for offset-based pagination
  */
-export function paginateByOffset<T>(
-  data: T[],
+export function offsetWindow(
+  totalItems: number,
   offset: number,
   limit: number
-): PaginationResult<T> {
-  const totalItems = data.length;
+): PaginationWindow {
   const startIndex = Math.max(0, Math.min(offset, totalItems));
   const endIndex = Math.min(startIndex + limit, totalItems);
-  const paginatedData = data.slice(startIndex, endIndex);
 
   // Calculate equivalent page-based values for metadata
   const pageSize = limit;
@@ -56,7 +62,8 @@ export function paginateByOffset<T>(
   const totalPages = Math.ceil(totalItems / pageSize);
 
   return {
-    data: paginatedData,
+    startIndex,
+    endIndex,
     meta: {
       totalItems,
       currentPage,
@@ -69,19 +76,71 @@ export function paginateByOffset<T>(
 }
 
 /**
- * Paginate an array based on pagination options
+ * Compute the window for page- or offset-based pagination options
  */
-export function paginate<T>(
-  data: T[],
+export function paginationWindow(
+  totalItems: number,
   options: PaginationOption
-): PaginationResult<T> {
+): PaginationWindow {
   // Offset-based pagination takes precedence
   if (options.offset !== undefined && options.limit !== undefined) {
-    return paginateByOffset(data, options.offset, options.limit);
+    return offsetWindow(totalItems, options.offset, options.limit);
   }
 
   // Page-based pagination
   const page = options.page || 1;
   const pageSize = options.pageSize || 10;
-  return paginateByPage(data, page, pageSize);
+  return pageWindow(totalItems, page, pageSize);
+}
+
+/**
+ * Paginate an array using page-based pagination
+ */
+export function paginateByPage<T>(
+  data: T[],
+  page: number,
+  pageSize: number
+): PaginationResult<T> {
+  const { startIndex, endIndex, meta } = pageWindow(data.length, page, pageSize);
+  return { data: data.slice(startIndex, endIndex), meta };
+}
+
+/**
+ * Paginate an array using offset-based pagination
+ */
+export function paginateByOffset<T>(
+  data: T[],
+  offset: number,
+  limit: number
+): PaginationResult<T> {
+  const { startIndex, endIndex, meta } = offsetWindow(data.length, offset, limit);
+  return { data: data.slice(startIndex, endIndex), meta };
+}
+
+/**
+ * Whether pagination options request cursor-based pagination
+ */
+export function isCursorPagination(options: PaginationOption): boolean {
+  return options.cursor !== undefined;
+}
+
+/**
+ * Paginate an array based on pagination options
+ *
+ * For cursor-based pagination, `sortOptions` must be the sort the data is
+ * ordered by (including the tie-breaker, see `cursorSortOptions`).
+ */
+export function paginate<T>(
+  data: T[],
+  options: PaginationOption,
+  sortOptions: SortOption<T>[] = []
+): PaginationResult<T> {
+  // Cursor-based pagination when a cursor (or null for the first page) is given
+  if (isCursorPagination(options)) {
+    const limit = options.limit ?? options.pageSize ?? 10;
+    return paginateByCursor(data, sortOptions, options.cursor, limit, options.tieBreaker);
+  }
+
+  const { startIndex, endIndex, meta } = paginationWindow(data.length, options);
+  return { data: data.slice(startIndex, endIndex), meta };
 }
@@ -0,0 +1,169 @@
+/**
+ * A single step in a parsed field path
+ */
+export type PathSegment =
+  | { type: 'key'; key: string }
+  | { type: 'index'; index: number }
+  | { type: 'any' }
+  | { type: 'all' };
+
+const pathCache = new Map<string, PathSegment[]>();
+const PATH_CACHE_LIMIT = 500;
+
+/**
+ * Parse a field path such as `address.city`, `orders[0].total` or `tags[*]`
+ * into segments. Results are cached since the same paths are resolved for
+ * every item in a dataset; the cache is bounded because paths can come from
+ * client query strings.
+ */
+export function parsePath(path: string): PathSegment[] {
+  const cached = pathCache.get(path);
+  if (cached) return cached;
+
+  const segments: PathSegment[] = [];
+  let i = 0;
+  let expectKey = true;
+
+  while (i < path.length) {
+    const char = path[i];
+
+    if (char === '[') {
+      const end = path.indexOf(']', i);
+      if (end === -1 || i === 0) {
+        throw new Error(`Invalid field path "${path}" at position ${i}`);
+      }
+      const inner = path.slice(i + 1, end);
+      if (inner === '*') {
+        segments.push({ type: 'any' });
+      } else if (inner === 'all') {
+        segments.push({ type: 'all' });
+      } else if (/^\d+$/.test(inner)) {
+        segments.push({ type: 'index', index: Number(inner) });
+      } else {
+        throw new Error(`Invalid array segment "[${inner}]" in field path "${path}"`);
+      }
+      i = end + 1;
+      expectKey = false;
+      continue;
+    }
+
+    if (char === '.') {
+      if (expectKey) {
+        throw new Error(`Invalid field path "${path}" at position ${i}`);
+      }
+      i++;
+      expectKey = true;
+      continue;
+    }
+
+    if (!expectKey) {
+      throw new Error(`Invalid field path "${path}" at position ${i}`);
+    }
+
+    let end = i;
+    while (end < path.length && path[end] !== '.' && path[end] !== '[') {
+      end++;
+    }
+    segments.push({ type: 'key', key: path.slice(i, end) });
+    i = end;
+    expectKey = false;
+  }
+
+  if (expectKey) {
+    throw new Error(`Invalid field path "${path}": path must not be empty or end with "."`);
+  }
+
+  if (pathCache.size >= PATH_CACHE_LIMIT) pathCache.clear();
+  pathCache.set(path, segments);
+  return segments;
+}
+
+/**
+ * Whether a field reference needs path resolution rather than a plain
+ * property lookup. A property literally named like a path (such as the
+ * `address.city` column of a grouped row) takes precedence.
+ */
+function isPath(item: unknown, field: PropertyKey): field is string {
+  return typeof field === 'string'
+    && (field.includes('.') || field.includes('['))
+    && !(item != null && Object.prototype.hasOwnProperty.call(item, field));
+}
+
+function step(value: any, segment: PathSegment): any {
+  if (value == null) return undefined;
+  switch (segment.type) {
+    case 'key':
+      return value[segment.key];
+    case 'index':
+      return Array.isArray(value) ? value[segment.index] : undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Resolve a field reference against an item.
+ *
+ * Quantified segments (`[*]`, `[all]`) collect the values of every element,
+ * so `orders[*].total` resolves to an array of totals.
+ */
+export function getFieldValue<T>(item: T, field: PropertyKey): any {
+  if (!isPath(item, field)) {
+    return (item as any)?.[field];
+  }
+  return resolveSegments(item, parsePath(field), 0);
+}
+
+function resolveSegments(value: any, segments: PathSegment[], start: number): any {
+  let current = value;
+  for (let i = start; i < segments.length; i++) {
+    const segment = segments[i];
+    if (segment.type === 'any' || segment.type === 'all') {
+      if (!Array.isArray(current)) return undefined;
+      return current.map(element => resolveSegments(element, segments, i + 1));
+    }
+    current = step(current, segment);
+  }
+  return current;
+}
+
+/**
+ * Test a predicate against the value(s) a field reference points at.
+ *
+ * Without quantifiers this is `predicate(getFieldValue(item, field))`. A `[*]`
+ * segment passes when the rest of the path passes for any element, an
+ * `[all]` segment when it passes for every element. Quantifiers applied to a
+ * non-array value never match.
+ */
+export function matchesPath<T>(
+  item: T,
+  field: PropertyKey,
+  predicate: (value: any) => boolean
+): boolean {
+  if (!isPath(item, field)) {
+    return predicate((item as any)?.[field]);
+  }
+  return matchSegments(item, parsePath(field), 0, predicate);
+}
+
+function matchSegments(
+  value: any,
+  segments: PathSegment[],
+  start: number,
+  predicate: (value: any) => boolean
+): boolean {
+  let current = value;
+  for (let i = start; i < segments.length; i++) {
+    const segment = segments[i];
+    if (segment.type === 'any') {
+      return Array.isArray(current)
+        && current.some(element => matchSegments(element, segments, i + 1, predicate));
+    }
+    if (segment.type === 'all') {
+      return Array.isArray(current)
+        && current.every(element => matchSegments(element, segments, i + 1, predicate));
+    }
+    current = step(current, segment);
+  }
+  return predicate(current);
+}
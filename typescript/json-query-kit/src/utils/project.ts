@@ -0,0 +1,65 @@
+import { ComputedFields, FieldPath, Selection } from '../types';
+import { groupRows } from './aggregate';
+import { getFieldValue } from './path';
+
+/**
+ * Add computed fields to every row
+ *
+ * Each set of computed fields sees the fields added by the sets before it.
+ * Rows are shallow-copied, so the original objects are left untouched.
+ */
+export function addComputedFields<T>(
+  data: T[],
+  computed: ComputedFields<any>[]
+): T[] {
+  return data.map(item => {
+    let row: any = { ...item };
+    for (const fields of computed) {
+      const values: Record<string, unknown> = {};
+      for (const [name, compute] of Object.entries(fields)) {
+        values[name] = compute(row);
+      }
+      row = { ...row, ...values };
+    }
+    return row;
+  });
+}
+
+/**
+ * Keep the first row for each distinct combination of field values
+ */
+export function distinctBy<T>(data: T[], fields: FieldPath<T>[]): T[] {
+  return groupRows(data, fields).map(group => group.rows[0]);
+}
+
+/**
+ * Shape every row to a selection of fields
+ *
+ * A list of paths keeps each value under its path; a map renames values to
+ * its keys.
+ *
+ * @example
+ * ```typescript
+ * projectData(users, ['id', 'address.city'])
+ * // [{ id: 1, 'address.city': 'London' }, ...]
+ *
+ * projectData(users, { userId: 'id', city: 'address.city' })
+ * // [{ userId: 1, city: 'London' }, ...]
+ * ```
+ */
+export function projectData<T>(
+  data: T[],
+  selection: Selection<T>
+): Record<string, unknown>[] {
+  const entries: [string, FieldPath<T>][] = Array.isArray(selection)
+    ? selection.map(field => [String(field), field])
+    : Object.entries(selection as Record<string, FieldPath<T>>);
+
+  return data.map(item => {
+    const row: Record<string, unknown> = {};
+    for (const [name, field] of entries) {
+      row[name] = getFieldValue(item, field);
+    }
+    return row;
+  });
+}
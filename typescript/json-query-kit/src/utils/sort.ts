@@ -1,56 +1,66 @@
-import { SortOption, CompareFn } from '../types';
+import { SortOption, SortDirection, CompareFn, CompareOptions } from '../types';
+import { coercePair, compareStrings, hasCompareOptions } from './compare';
+import { getFieldValue } from './path';
 
 /**
- * Sort an array of objects by a single field
+ * Compare two non-null values: strings by locale (or by the collation
+ * options), dates and ISO date strings by time, everything else with the
+ * relational operators
+ */
+export function compareValues(aVal: any, bVal: any, options?: CompareOptions): number {
+  if (typeof aVal === 'string' && typeof bVal === 'string') {
+    return hasCompareOptions(options) ? compareStrings(aVal, bVal, options) : aVal.localeCompare(bVal);
+  }
+
+  const [left, right] = coercePair(aVal, bVal);
+  if (left < right) return -1;
+  if (left > right) return 1;
+  return 0;
+}
+
+/**
+ * Compare two field values for a sort direction; `null` and `undefined`
+ * always sort last
+ */
+export function compareFieldValues(
+  aVal: any,
+  bVal: any,
+  direction: SortDirection,
+  options?: CompareOptions
+): number {
+  if (aVal === bVal || (aVal == null && bVal == null)) return 0;
+  if (aVal == null) return 1;
+  if (bVal == null) return -1;
+
+  return (direction === 'asc' ? 1 : -1) * compareValues(aVal, bVal, options);
+}
+
+/**
+ * Sort an array of objects by a single field or nested path
  */
 export function sortBySingleField<T>(
   data: T[],
   sortOption: SortOption<T>
 ): T[] {
   const { field, direction } = sortOption;
-  const multiplier = direction === 'asc' ? 1 : -1;
 
-  return [...data].sort((a, b) => {
-    const aVal = a[field];
-    const bVal = b[field];
-
-    if (aVal === bVal) return 0;
-    if (aVal == null) return 1;
-    if (bVal == null) return -1;
-
-    if (typeof aVal === 'string' && typeof bVal === 'string') {
-      return multiplier * aVal.localeCompare(bVal);
-    }
-
-    if (aVal < bVal) return -1 * multiplier;
-    if (aVal > bVal) return 1 * multiplier;
-    return 0;
-  });
+  return [...data].sort((a, b) =>
+    compareFieldValues(getFieldValue(a, field), getFieldValue(b, field), direction, sortOption)
+  );
 }
 
 /**
- * Sort an array of objects by multiple fields
+ * Sort an array of objects by multiple fields or nested paths
  */
 export function sortByMultipleFields<T>(
   data: T[],
   sortOptions: SortOption<T>[]
 ): T[] {
   return [...data].sort((a, b) => {
-    for (const { field, direction } of sortOptions) {
-      const multiplier = direction === 'asc' ? 1 : -1;
-      const aVal = a[field];
-      const bVal = b[field];
-
-      if (aVal === bVal) continue;
-      if (aVal == null) return 1;
-      if (bVal == null) return -1;
-
-      if (typeof aVal === 'string' && typeof bVal === 'string') {
-        return multiplier * aVal.localeCompare(bVal);
-      }
-
-      if (aVal < bVal) return -1 * multiplier;
-      if (aVal > bVal) return 1 * multiplier;
+    for (const option of sortOptions) {
+      const { field, direction } = option;
+      const result = compareFieldValues(getFieldValue(a, field), getFieldValue(b, field), direction, option);
+      if (result !== 0) return result;
     }
     return 0;
   });
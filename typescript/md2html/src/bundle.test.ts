@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { inlineAssets, replaceLocalImages } from './bundle.js';
+import { writeFile, mkdir, rm } from 'fs/promises';
+import { join } from 'path';
+
+describe('inlineAssets', () => {
+  const testDir = join(process.cwd(), 'test-bundle-dir');
+  const png = Buffer.from('89504e470d0a1a0a', 'hex');
+
+  beforeEach(async () => {
+    await mkdir(join(testDir, 'img'), { recursive: true });
+    await mkdir(join(testDir, 'css'), { recursive: true });
+    await writeFile(join(testDir, 'img', 'a b.png'), png);
+    await writeFile(join(testDir, 'img', 'icon.svg'), '<svg/>');
+    await writeFile(join(testDir, 'css', 'site.css'), 'body { background: url("../img/icon.svg"); }\n.x { background: url(https://example.com/x.png); }');
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should embed local images as data URIs', async () => {
+    const { html, missing } = await inlineAssets(
+      '<p><img src="img/a%20b.png" alt="A"> <img alt="B" src=\'./img/icon.svg\'></p>',
+      testDir
+    );
+
+    expect(html).toBe(
+      `<p><img src="data:image/png;base64,${png.toString('base64')}" alt="A"> `
+      + `<img alt="B" src="data:image/svg+xml;base64,${Buffer.from('<svg/>').toString('base64')}"></p>`
+    );
+    expect(missing).toEqual([]);
+  });
+
+  it('should leave remote, data and missing images alone', async () => {
+    const html = '<img src="https://example.com/a.png"><img src="//cdn.example/a.png"><img src="data:image/gif;base64,R0"><img src="img/none.png"><img src="img/none.png">';
+    const result = await inlineAssets(html, testDir);
+
+    expect(result.html).toBe(html);
+    expect(result.missing).toEqual([join(testDir, 'img', 'none.png')]);
+  });
+
+  it('should embed local stylesheets and their images', async () => {
+    const { html } = await inlineAssets(
+      '<head><link rel="stylesheet" href="css/site.css"><link rel="icon" href="img/icon.svg"><link rel="stylesheet" href="https://example.com/a.css"></head>',
+      testDir
+    );
+
+    expect(html).toBe(
+      '<head><style>\n'
+      + `body { background: url("data:image/svg+xml;base64,${Buffer.from('<svg/>').toString('base64')}"); }\n`
+      + '.x { background: url(https://example.com/x.png); }\n'
+      + '</style><link rel="icon" href="img/icon.svg"><link rel="stylesheet" href="https://example.com/a.css"></head>'
+    );
+  });
+
+  it('should point local images wherever the callback says', async () => {
+    const seen: string[] = [];
+    const { html } = await replaceLocalImages('<img src="img/a%20b.png"><img src="https://example.com/x.png">', testDir, async (path) => {
+      seen.push(path);
+      return 'images/1.png';
+    });
+
+    expect(html).toBe('<img src="images/1.png"><img src="https://example.com/x.png">');
+    expect(seen).toEqual([join(testDir, 'img', 'a b.png')]);
+  });
+});
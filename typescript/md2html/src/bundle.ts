@@ -0,0 +1,137 @@
+import { readFile } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import { isFile } from './utils.js';
+
+export interface BundleResult {
+  html: string;
+  /** Local files referenced by the page that could not be read */
+  missing: string[];
+}
+
+const IMG_TAG = /<img\b[^>]*>/gi;
+const LINK_TAG = /<link\b[^>]*>/gi;
+const CSS_URL = /url\(\s*(?:"([^"]*)"|'([^']*)'|([^)\s]*))\s*\)/g;
+
+/**
+ * Makes an HTML page self-contained: local images become data URIs and
+ * local stylesheets are embedded, with the images they reference.
+ * Remote URLs are left as they are.
+ *
+ * @param baseDir - Directory that relative URLs in the page point into
+ */
+export async function inlineAssets(html: string, baseDir: string): Promise<BundleResult> {
+  const missing: string[] = [];
+
+  const images = await replaceLocalImages(html, baseDir, toDataUri);
+  html = images.html;
+  missing.push(...images.missing);
+
+  html = await replaceAsync(html, LINK_TAG, async (tag) => {
+    const href = getAttribute(tag, 'href');
+    const path = href === undefined ? undefined : localPath(href, baseDir);
+    if (path === undefined || !/^stylesheet$/i.test(getAttribute(tag, 'rel') ?? '')) {
+      return tag;
+    }
+    if (!(await isFile(path))) {
+      missing.push(path);
+      return tag;
+    }
+    const css = await replaceAsync(await readFile(path, 'utf-8'), CSS_URL, async (match, double, single, bare) => {
+      const file = localPath(double ?? single ?? bare, dirname(path));
+      if (file === undefined) {
+        return match;
+      }
+      if (!(await isFile(file))) {
+        missing.push(file);
+        return match;
+      }
+      return `url("${await toDataUri(file)}")`;
+    });
+    return `<style>\n${css.replace(/<\/style/gi, '<\\/style')}\n</style>`;
+  });
+
+  return { html, missing: [...new Set(missing)] };
+}
+
+/**
+ * Points the `src` of every `<img>` with a relative URL at whatever
+ * `replace` returns for the file. Images whose file does not exist are
+ * left alone and reported as missing.
+ */
+export async function replaceLocalImages(
+  html: string,
+  baseDir: string,
+  replace: (path: string) => Promise<string>
+): Promise<BundleResult> {
+  const missing: string[] = [];
+  html = await replaceAsync(html, IMG_TAG, async (tag) => {
+    const src = getAttribute(tag, 'src');
+    const path = src === undefined ? undefined : localPath(src, baseDir);
+    if (path === undefined) {
+      return tag;
+    }
+    if (!(await isFile(path))) {
+      missing.push(path);
+      return tag;
+    }
+    return setAttribute(tag, 'src', await replace(path));
+  });
+  return { html, missing: [...new Set(missing)] };
+}
+
+async function toDataUri(path: string): Promise<string> {
+  const file = Bun.file(path);
+  const data = Buffer.from(await file.arrayBuffer()).toString('base64');
+  return `data:${file.type.split(';')[0]};base64,${data}`;
+}
+
+/**
+ * Resolves a relative URL to a file path, or returns undefined for remote,
+ * data and fragment-only URLs
+ */
+function localPath(url: string, baseDir: string): string | undefined {
+  url = decodeHtml(url.trim());
+  if (!url || url.startsWith('#') || url.startsWith('//') || /^[a-z][a-z0-9+.-]*:/i.test(url)) {
+    return undefined;
+  }
+  const path = url.replace(/[?#].*$/, '');
+  try {
+    return resolve(baseDir, decodeURIComponent(path));
+  } catch {
+    return resolve(baseDir, path);
+  }
+}
+
+function getAttribute(tag: string, name: string): string | undefined {
+  const match = new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s"'>]+))`, 'i').exec(tag);
+  return match ? match[1] ?? match[2] ?? match[3] : undefined;
+}
+
+function setAttribute(tag: string, name: string, value: string): string {
+  return tag.replace(
+    new RegExp(`(\\s${name}\\s*=\\s*)(?:"[^"]*"|'[^']*'|[^\\s"'>]+)`, 'i'),
+    (_, prefix) => `${prefix}"${value}"`
+  );
+}
+
+function decodeHtml(text: string): string {
+  return text
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+async function replaceAsync(
+  text: string,
+  pattern: RegExp,
+  replacer: (match: string, ...groups: string[]) => Promise<string>
+): Promise<string> {
+  const replacements: string[] = [];
+  for (const match of text.matchAll(pattern)) {
+    replacements.push(await replacer(match[0], ...match.slice(1)));
+  }
+  let index = 0;
+  return text.replace(pattern, () => replacements[index++]);
+}
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
 import { spawn } from 'child_process';
-import { writeFile, unlink, mkdir, rmdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import { writeFile, unlink, mkdir, rmdir, rm, rename } from 'fs/promises';
 import { join } from 'path';
 
 describe('CLI Integration', () => {
@@ -100,6 +101,125 @@ describe('CLI Integration', () => {
     expect(result.code).toBe(0);
   }, 10000);
 
+  it('should apply front matter layouts and skip drafts', async () => {
+    const fmDir = join(process.cwd(), 'test-frontmatter-dir');
+    const docsDir = join(fmDir, 'docs');
+    const layoutsDir = join(fmDir, 'layouts');
+    const outDir = join(fmDir, 'out');
+    await mkdir(docsDir, { recursive: true });
+    await mkdir(layoutsDir, { recursive: true });
+    await writeFile(join(layoutsDir, 'default.html'), '<title>{{title}}</title>{{#each tags}}[{{this}}]{{/each}}{{content}}', 'utf-8');
+    await writeFile(join(docsDir, 'post.md'), '---\ntitle: <Post>\ntags: [a, b]\n---\nBody', 'utf-8');
+    await writeFile(join(docsDir, 'draft.md'), '---\ndraft: true\n---\n# Draft', 'utf-8');
+
+    try {
+      let result = await runCli(['-i', docsDir, '-o', outDir, '-t', layoutsDir]);
+      expect(result.code).toBe(0);
+      expect(result.stdout).toContain('Successfully converted 1 file(s)');
+      expect(await Bun.file(join(outDir, 'post.html')).text()).toBe('<title>&lt;Post&gt;</title>[a][b]<p>Body</p>\n');
+      expect(existsSync(join(outDir, 'draft.html'))).toBe(false);
+
+      result = await runCli(['-i', docsDir, '-o', outDir, '-t', layoutsDir, '--drafts']);
+      expect(result.stdout).toContain('Successfully converted 2 file(s)');
+      expect(existsSync(join(outDir, 'draft.html'))).toBe(true);
+    } finally {
+      await rm(fmDir, { recursive: true, force: true });
+    }
+  }, 10000);
+
+  it('should highlight code with the chosen theme', async () => {
+    await writeFile(testFile, '```js\nlet a = 1;\n```', 'utf-8');
+
+    let result = await runCli([testFile, '--theme', 'github-dark']);
+    expect(result.code).toBe(0);
+    expect(result.stdout).toContain('<span class="hljs-keyword">let</span>');
+    expect(result.stdout).toContain('.hljs{color:#c9d1d9;background:#0d1117}');
+
+    result = await runCli([testFile, '--theme', 'no-such-theme']);
+    expect(result.code).toBe(1);
+    expect(result.stderr).toContain('Unknown highlight theme "no-such-theme"');
+  });
+
+  it('should strip unsafe HTML with --safe', async () => {
+    await writeFile(testFile, '# Hi\n\n<img src=x onerror=alert(1)> [x](javascript:alert(1))\n\n<script>alert(1)</script>', 'utf-8');
+
+    let result = await runCli([testFile]);
+    expect(result.stdout).toContain('<script>alert(1)</script>');
+
+    result = await runCli([testFile, '--safe']);
+    expect(result.code).toBe(0);
+    expect(result.stdout).toContain('<h1>Hi</h1>');
+    expect(result.stdout).toContain('<img src="x"> <a>x</a>');
+    expect(result.stdout).not.toContain('alert(1)');
+  });
+
+  it('should write bundle, print and EPUB formats', async () => {
+    const formatDir = join(process.cwd(), 'test-format-dir');
+    await mkdir(join(formatDir, 'book'), { recursive: true });
+    await writeFile(join(formatDir, 'book', 'dot.gif'), 'GIF89a');
+    await writeFile(join(formatDir, 'book', 'two.md'), '---\norder: 2\n---\n# Two\n\n<!-- pagebreak -->\n\n![dot](dot.gif)', 'utf-8');
+    await writeFile(join(formatDir, 'book', 'one.md'), '---\norder: 1\n---\n# One', 'utf-8');
+    const chapter = join(formatDir, 'book', 'two.md');
+
+    try {
+      let result = await runCli([chapter, '--format', 'bundle']);
+      expect(result.code).toBe(0);
+      expect(result.stdout).toContain('<img src="data:image/gif;base64,R0lGODlh" alt="dot">');
+
+      result = await runCli([chapter, '-f', 'print', '--header', '{title}', '--break-before', '1']);
+      expect(result.code).toBe(0);
+      expect(result.stdout).toContain('@top-center { content: "Two"; }');
+      expect(result.stdout).toContain(':is(h1):not(:first-child) { break-before: page; }\n</style>\n</head>');
+      expect(result.stdout).toContain('<div class="page-break"></div>');
+
+      result = await runCli([chapter, '--header', 'x']);
+      expect(result.code).toBe(1);
+      expect(result.stderr).toContain('--header requires --format print');
+
+      result = await runCli([chapter, '-f', 'pdf']);
+      expect(result.code).toBe(1);
+      expect(result.stderr).toContain('Unknown format "pdf"');
+
+      result = await runCli([join(formatDir, 'book'), '-f', 'epub']);
+      expect(result.code).toBe(1);
+      expect(result.stderr).toContain('--format epub requires --output');
+
+      result = await runCli([join(formatDir, 'book'), '-f', 'epub', '-o', join(formatDir, 'book.epub')]);
+      expect(result.code).toBe(0);
+      expect(result.stdout).toContain('Wrote "book" with 2 chapter(s)');
+      expect(existsSync(join(formatDir, 'book.epub'))).toBe(true);
+    } finally {
+      await rm(formatDir, { recursive: true, force: true });
+    }
+  }, 15000);
+
+  it('should load plugins from --config and isolate their errors', async () => {
+    const configFile = join(testDir, 'plugins.config.ts');
+    await writeFile(testFile, '# Hello', 'utf-8');
+    await writeFile(configFile, [
+      'export default {',
+      '  plugins: [',
+      "    { name: 'broken', preParse: () => { throw new Error('boom'); } },",
+      "    { name: 'wrap', postHtml: (html: string) => `<main>${html}</main>` },",
+      '  ],',
+      '};',
+    ].join('\n'), 'utf-8');
+
+    try {
+      let result = await runCli([testFile, '--config', configFile]);
+      expect(result.code).toBe(0);
+      expect(result.stdout).toContain('<main><h1>Hello</h1>\n</main>');
+      expect(result.stderr).toContain('Warning: Plugin "broken" failed in preParse: boom');
+
+      await writeFile(configFile, "export default { plugins: [{ name: 'x', renderer: { nope: () => '' } }] };", 'utf-8');
+      result = await runCli([testFile, '--config', configFile]);
+      expect(result.code).toBe(1);
+      expect(result.stderr).toContain('Plugin "x" overrides unknown renderer method "nope"');
+    } finally {
+      await rm(configFile, { force: true });
+    }
+  });
+
   it('should show help with --help flag', async () => {
     const result = await runCli(['--help']);
     
@@ -117,4 +237,87 @@ describe('CLI Integration', () => {
     expect(result.stdout).toContain('<h1>Positional Test</h1>');
     expect(result.code).toBe(0);
   });
-});
\ No newline at end of file
+
+  it('should reject --serve without --watch', async () => {
+    const result = await runCli(['-i', testDir, '-o', join(testDir, 'out'), '--serve']);
+
+    expect(result.stderr).toContain('--serve requires --watch');
+    expect(result.code).toBe(1);
+  });
+
+  it('should build a site and fail on dead links', async () => {
+    const siteDir = join(process.cwd(), 'test-site-cli-dir');
+    const docsDir = join(siteDir, 'docs');
+    const outDir = join(siteDir, 'out');
+    await mkdir(docsDir, { recursive: true });
+    await writeFile(join(docsDir, 'a.md'), '# A\n\n## Setup\n\n[B](b.md)', 'utf-8');
+    await writeFile(join(docsDir, 'b.md'), '# B\n\n[Setup](a.md#setup)', 'utf-8');
+
+    try {
+      let result = await runCli(['-i', docsDir, '-o', outDir, '--site', '--base-url', 'https://example.com/']);
+      expect(result.code).toBe(0);
+      expect(result.stdout).toContain('Built site with 2 page(s)');
+      expect(existsSync(join(outDir, 'index.html'))).toBe(true);
+      expect(existsSync(join(outDir, 'sitemap.xml'))).toBe(true);
+
+      await writeFile(join(docsDir, 'b.md'), '# B\n\n[Setup](a.md#install)', 'utf-8');
+      result = await runCli(['-i', docsDir, '-o', outDir, '--site']);
+      expect(result.code).toBe(1);
+      expect(result.stderr).toContain(`${join('test-site-cli-dir', 'docs', 'b.md')}:3:9: Dead link "a.md#install"`);
+
+      result = await runCli(['-i', join(docsDir, 'a.md'), '-o', outDir, '--site']);
+      expect(result.stderr).toContain('--site requires an input directory');
+      expect(result.code).toBe(1);
+    } finally {
+      await rm(siteDir, { recursive: true, force: true });
+    }
+  }, 10000);
+
+  it('should rebuild changed files and remove deleted ones in watch mode', async () => {
+    const watchDir = join(process.cwd(), 'test-watch-dir');
+    const docsDir = join(watchDir, 'docs');
+    const outDir = join(watchDir, 'out');
+    const cssFile = join(watchDir, 'style.css');
+    await mkdir(join(docsDir, 'guide'), { recursive: true });
+    await writeFile(join(docsDir, 'a.md'), '# A', 'utf-8');
+    await writeFile(join(docsDir, 'guide', 'b.md'), '# B', 'utf-8');
+    await writeFile(cssFile, 'h1 { color: red; }', 'utf-8');
+
+    const child = spawn('bun', ['run', 'src/cli.ts', '-i', docsDir, '-o', outDir, '-c', cssFile, '--watch'], {
+      cwd: process.cwd(),
+      stdio: 'pipe'
+    });
+    let stdout = '';
+    child.stdout?.on('data', (data) => {
+      stdout += data.toString();
+    });
+
+    const waitFor = async (check: () => Promise<boolean> | boolean) => {
+      for (let i = 0; i < 100; i++) {
+        if (await check()) return;
+        await new Promise((r) => setTimeout(r, 50));
+      }
+      throw new Error(`Timed out; output so far:\n${stdout}`);
+    };
+    const read = (file: string) => Bun.file(join(outDir, file)).text().catch(() => '');
+
+    try {
+      await waitFor(() => stdout.includes('Watching for changes'));
+      expect(await read('a.html')).toContain('<h1>A</h1>');
+      expect(await read('guide/b.html')).toContain('<h1>B</h1>');
+
+      await writeFile(join(docsDir, 'a.md'), '# A changed', 'utf-8');
+      await waitFor(async () => (await read('a.html')).includes('A changed'));
+
+      await rename(join(docsDir, 'guide'), join(docsDir, 'manual'));
+      await waitFor(async () => (await read('manual/b.html')).includes('<h1>B</h1>'));
+      await waitFor(() => !existsSync(join(outDir, 'guide')));
+
+      await writeFile(cssFile, 'h1 { color: blue; }', 'utf-8');
+      await waitFor(async () => (await read('a.html')).includes('color: blue') && (await read('manual/b.html')).includes('color: blue'));
+    } finally {
+      child.kill();
+      await rm(watchDir, { recursive: true, force: true });
+    }
+  }, 20000);
+});
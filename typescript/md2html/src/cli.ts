@@ -1,10 +1,19 @@
 #!/usr/bin/env bun
 
 import meow from 'meow';
-import { writeFile } from 'fs/promises';
-import { resolve, relative, basename } from 'path';
+import { writeFile, unlink, rmdir } from 'fs/promises';
+import { resolve, relative, basename, dirname, extname, sep } from 'path';
 import { MarkdownConverter } from './converter.js';
 import { TemplateProcessor } from './template.js';
+import { FileWatcher } from './watcher.js';
+import { PreviewServer } from './server.js';
+import { SiteBuilder } from './site.js';
+import { EpubBuilder } from './epub.js';
+import { inlineAssets } from './bundle.js';
+import { applyPrintLayout, printCss, type PrintOptions } from './print.js';
+import { parseFrontMatter } from './frontmatter.js';
+import { DEFAULT_THEME, loadTheme } from './highlight.js';
+import { findConfig, loadConfig } from './config.js';
 import { findMarkdownFiles, getOutputPath, ensureDirectoryExists, isDirectory } from './utils.js';
 
 interface CliOptions {
@@ -13,8 +22,27 @@ interface CliOptions {
   template?: string;
   css?: string;
   watch?: boolean;
+  serve?: boolean;
+  port?: number;
+  site?: boolean;
+  baseUrl?: string;
+  drafts?: boolean;
+  highlight?: boolean;
+  theme?: string;
+  math?: boolean;
+  anchors?: boolean;
+  safe?: boolean;
+  format?: OutputFormat;
+  config?: string;
+  print?: PrintOptions;
 }
 
+const OUTPUT_FORMATS = ['html', 'bundle', 'epub', 'print'] as const;
+
+type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+const PRINT_FLAGS = ['pageSize', 'margin', 'header', 'footer', 'breakBefore'] as const;
+
 const cli = meow(`
   Usage
     $ md2html [options] <input>
@@ -22,9 +50,39 @@ const cli = meow(`
   Options
     --input, -i      Input file or directory (required)
     --output, -o     Output file or directory (optional, defaults to stdout)
-    --template, -t   Custom HTML template file
+    --template, -t   Custom HTML template file, or a directory of layouts
+                     and partials
     --css, -c        CSS file to embed in output
-    --watch, -w      Watch input files and re-convert on changes (not yet implemented)
+    --watch, -w      Watch input files and re-convert on changes
+    --serve, -s      With --watch, serve the output with live reload
+    --port, -p       Port for --serve (default 3000)
+    --site           Build a documentation site with navigation, tables of
+                     contents and link checking from a directory
+    --base-url       Site URL used to generate sitemap.xml with --site
+    --drafts         Include pages marked \`draft: true\` in their front matter
+    --highlight      Highlight code blocks when converting
+    --theme          Highlighting theme, implies --highlight (default github)
+    --math           Render $inline$ and $$display$$ TeX math
+    --anchors        Add ids and self-links to headings
+    --safe           Remove scripts, event handlers, unsafe links and other
+                     HTML outside an allow-list (for untrusted Markdown)
+    --format, -f     Output format (default html):
+                       html    HTML pages
+                       bundle  Self-contained HTML with images and
+                               stylesheets embedded
+                       epub    An EPUB book from a directory of chapters,
+                               written to --output
+                       print   HTML laid out for printing or PDF rendering
+    --page-size      With --format print, the page size (default A4)
+    --margin         With --format print, the page margins (default 20mm)
+    --header         With --format print, text at the top of every page;
+                     {title}, {page} and {pages} are replaced
+    --footer         With --format print, text at the bottom of every page
+                     (default "{page} / {pages}")
+    --break-before   With --format print, start a new page before headings
+                     of this level and above
+    --config         Config file with plugins (default md2html.config.ts in
+                     the current directory, if there is one)
     --help, -h       Show this help message
 
   Examples
@@ -41,8 +99,24 @@ const cli = meow(`
     # Use a custom template
     $ md2html -i README.md -t my-template.html
 
+    # Use layouts and partials from a directory
+    $ md2html -i docs/ -o dist/ -t layouts/
+
     # Add CSS styling
     $ md2html -i README.md -c styles.css
+
+    # Rebuild on changes and preview at http://localhost:3000
+    $ md2html -i docs/ -o dist/ --watch --serve
+
+    # Highlight code with a dark theme and render math
+    $ md2html -i docs/ -o dist/ --theme github-dark --math
+
+    # Make a book, or a page to print to PDF
+    $ md2html -i chapters/ -o book.epub --format epub
+    $ md2html -i report.md -o report.html --format print --header "{title}"
+
+    # Build a documentation site with a sitemap
+    $ md2html -i docs/ -o site/ --site --base-url https://example.com/docs/
 `, {
   importMeta: import.meta,
   flags: {
@@ -66,12 +140,71 @@ const cli = meow(`
       type: 'boolean',
       shortFlag: 'w',
     },
+    serve: {
+      type: 'boolean',
+      shortFlag: 's',
+    },
+    port: {
+      type: 'number',
+      shortFlag: 'p',
+      default: 3000,
+    },
+    site: {
+      type: 'boolean',
+    },
+    baseUrl: {
+      type: 'string',
+    },
+    drafts: {
+      type: 'boolean',
+    },
+    highlight: {
+      type: 'boolean',
+    },
+    theme: {
+      type: 'string',
+    },
+    math: {
+      type: 'boolean',
+    },
+    anchors: {
+      type: 'boolean',
+    },
+    safe: {
+      type: 'boolean',
+    },
+    format: {
+      type: 'string',
+      shortFlag: 'f',
+      default: 'html',
+    },
+    pageSize: {
+      type: 'string',
+    },
+    margin: {
+      type: 'string',
+    },
+    header: {
+      type: 'string',
+    },
+    footer: {
+      type: 'string',
+    },
+    breakBefore: {
+      type: 'number',
+    },
+    config: {
+      type: 'string',
+    },
   },
 });
 
 class Md2HtmlCli {
   private converter: MarkdownConverter;
   private templateProcessor: TemplateProcessor;
+  private knownFiles = new Set<string>();
+  private themeCss?: string;
+  private server?: PreviewServer;
 
   constructor() {
     this.converter = new MarkdownConverter();
@@ -87,9 +220,104 @@ class Md2HtmlCli {
       return;
     }
 
+    if (options.serve && !options.watch) {
+      console.error('Error: --serve requires --watch');
+      process.exit(1);
+    }
+    if (options.serve && options.output === undefined) {
+      console.error('Error: --serve requires --output');
+      process.exit(1);
+    }
+
+    if (options.site && !(await isDirectory(options.input))) {
+      console.error('Error: --site requires an input directory');
+      process.exit(1);
+    }
+    if (options.site && options.output === undefined) {
+      console.error('Error: --site requires --output');
+      process.exit(1);
+    }
+    if (options.baseUrl !== undefined && !options.site) {
+      console.error('Error: --base-url requires --site');
+      process.exit(1);
+    }
+
+    if (!OUTPUT_FORMATS.includes(options.format!)) {
+      console.error(`Error: Unknown format "${options.format}", expected one of ${OUTPUT_FORMATS.join(', ')}`);
+      process.exit(1);
+    }
+    if (options.site && options.format !== 'html') {
+      console.error(`Error: --site does not support --format ${options.format}`);
+      process.exit(1);
+    }
+    if (options.format === 'epub') {
+      if (options.watch) {
+        console.error('Error: --format epub does not support --watch');
+        process.exit(1);
+      }
+      if (!(await isDirectory(options.input))) {
+        console.error('Error: --format epub requires an input directory');
+        process.exit(1);
+      }
+      if (!options.output) {
+        console.error('Error: --format epub requires --output');
+        process.exit(1);
+      }
+    }
+    const printFlag = PRINT_FLAGS.find((flag) => options.print?.[flag] !== undefined);
+    if (printFlag && options.format !== 'print') {
+      console.error(`Error: --${printFlag.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`)} requires --format print`);
+      process.exit(1);
+    }
+    if (options.format === 'print') {
+      try {
+        printCss(options.print!, '');
+      } catch (error) {
+        console.error(`Error: ${error instanceof Error ? error.message : error}`);
+        process.exit(1);
+      }
+    }
+
+    try {
+      const configFile = options.config ?? await findConfig(process.cwd());
+      const config = configFile ? await loadConfig(configFile) : {};
+      this.converter = new MarkdownConverter({
+        highlight: options.highlight,
+        math: options.math,
+        headingAnchors: options.anchors,
+        sanitize: options.safe,
+        plugins: config.plugins,
+      });
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+    if (options.highlight) {
+      try {
+        this.themeCss = await loadTheme(options.theme ?? DEFAULT_THEME);
+      } catch (error) {
+        console.error(`Error: ${error instanceof Error ? error.message : error}`);
+        process.exit(1);
+      }
+    }
+
+    if (options.watch) {
+      await this.watch(options);
+      return;
+    }
+
     try {
       if (options.template) {
-        this.templateProcessor = await TemplateProcessor.fromFile(options.template);
+        this.templateProcessor = await this.loadTemplates(options.template);
+      }
+
+      if (options.site) {
+        await this.buildSite(options);
+        return;
+      }
+      if (options.format === 'epub') {
+        await this.buildEpub(options);
+        return;
       }
 
       const files = await findMarkdownFiles(options.input);
@@ -98,8 +326,8 @@ class Md2HtmlCli {
         process.exit(1);
       }
 
-      await this.convertFiles(files, options);
-      console.log(`Successfully converted ${files.length} file(s).`);
+      const converted = await this.convertFiles(files, options);
+      console.log(`Successfully converted ${converted} file(s).`);
     } catch (error) {
       console.error(`Error: ${error}`);
       process.exit(1);
@@ -114,50 +342,269 @@ class Md2HtmlCli {
     options.template = cli.flags.template;
     options.css = cli.flags.css;
     options.watch = cli.flags.watch;
+    options.serve = cli.flags.serve;
+    options.port = cli.flags.port;
+    options.site = cli.flags.site;
+    options.baseUrl = cli.flags.baseUrl;
+    options.drafts = cli.flags.drafts;
+    options.theme = cli.flags.theme;
+    options.highlight = cli.flags.highlight || options.theme !== undefined;
+    options.math = cli.flags.math;
+    options.anchors = cli.flags.anchors;
+    options.safe = cli.flags.safe;
+    options.format = cli.flags.format as OutputFormat;
+    options.config = cli.flags.config;
+    options.print = {
+      pageSize: cli.flags.pageSize,
+      margin: cli.flags.margin,
+      header: cli.flags.header,
+      footer: cli.flags.footer,
+      breakBefore: cli.flags.breakBefore,
+    };
 
     return options;
   }
 
-  private async convertFiles(files: string[], options: CliOptions): Promise<void> {
+  private async loadTemplates(path: string): Promise<TemplateProcessor> {
+    return (await isDirectory(path))
+      ? TemplateProcessor.fromDirectory(path)
+      : TemplateProcessor.fromFile(path);
+  }
+
+  private async convertFiles(files: string[], options: CliOptions): Promise<number> {
+    let converted = 0;
     for (const file of files) {
-      await this.convertSingleFile(file, options);
+      if (await this.convertSingleFile(file, options)) {
+        converted++;
+      }
     }
+    return converted;
   }
 
-  private async convertSingleFile(inputFile: string, options: CliOptions): Promise<void> {
+  /**
+   * @returns false when the file is a draft that was skipped
+   */
+  private async convertSingleFile(inputFile: string, options: CliOptions): Promise<boolean> {
     try {
-      const htmlContent = await this.converter.convertFile(inputFile);
       const markdownContent = await Bun.file(inputFile).text();
+      const { data, body } = parseFrontMatter(markdownContent);
+      // Drafts are skipped when converting a directory, not when named
+      if (data.draft && !options.drafts && await isDirectory(options.input!)) {
+        console.log(`${relative(process.cwd(), inputFile)} skipped (draft)`);
+        return false;
+      }
+
+      const htmlContent = this.converter.convertString(body);
       const title = this.converter.extractTitle(markdownContent) || basename(inputFile, '.md');
       
-      const processedHtml = await this.templateProcessor.processContent(htmlContent, {
+      let processedHtml = await this.templateProcessor.processContent(htmlContent, {
         title,
         cssFile: options.css,
+        cssContent: this.themeCss,
+        data,
       });
 
-      if (options.output === undefined) {
-        console.log(processedHtml);
-        return;
+      if (options.format === 'print') {
+        processedHtml = applyPrintLayout(processedHtml, options.print ?? {}, title);
+      } else if (options.format === 'bundle') {
+        const bundle = await inlineAssets(processedHtml, dirname(inputFile));
+        processedHtml = bundle.html;
+        for (const file of bundle.missing) {
+          console.warn(`Warning: ${relative(process.cwd(), inputFile)}: ${relative(process.cwd(), file)} not found`);
+        }
       }
 
-      let outputFile: string;
-      if (await isDirectory(options.input!)) {
-        const relativePath = relative(resolve(options.input!), inputFile);
-        const outputDir = options.output || './dist';
-        outputFile = resolve(outputDir, relativePath.replace(/\.md$/, '.html'));
-      } else {
-        outputFile = getOutputPath(inputFile, options.output);
+      const outputFile = await this.getOutputFile(inputFile, options);
+      if (outputFile === undefined) {
+        console.log(processedHtml);
+        return true;
       }
 
       await ensureDirectoryExists(outputFile);
       await writeFile(outputFile, processedHtml, 'utf-8');
       
       console.log(`${relative(process.cwd(), inputFile)} → ${relative(process.cwd(), outputFile)}`);
+      return true;
     } catch (error) {
       throw new Error(`Failed to convert ${inputFile}: ${error}`);
     }
   }
 
+  private async getOutputFile(inputFile: string, options: CliOptions): Promise<string | undefined> {
+    if (options.output === undefined) {
+      return undefined;
+    }
+    if (await isDirectory(options.input!)) {
+      const relativePath = relative(resolve(options.input!), inputFile);
+      const outputDir = options.output || './dist';
+      return resolve(outputDir, relativePath.replace(/\.md$/, '.html'));
+    }
+    return getOutputPath(inputFile, options.output);
+  }
+
+  private async buildSite(options: CliOptions): Promise<void> {
+    const outputDir = resolve(options.output || './dist');
+    const site = new SiteBuilder({
+      inputDir: options.input!,
+      outputDir,
+      converter: this.converter,
+      templateProcessor: this.templateProcessor,
+      cssFile: options.css,
+      cssContent: this.themeCss,
+      baseUrl: options.baseUrl,
+      drafts: options.drafts,
+    });
+    const { pages, written } = await site.build();
+    if (pages.length === 0) {
+      throw new Error('No markdown files found in the specified input.');
+    }
+    console.log(`Built site with ${pages.length} page(s), ${written.length} file(s) in ${relative(process.cwd(), outputDir) || '.'}`);
+  }
+
+  private async buildEpub(options: CliOptions): Promise<void> {
+    const outputFile = resolve(options.output!);
+    const epub = new EpubBuilder({
+      inputDir: options.input!,
+      outputFile,
+      converter: this.converter,
+      cssFile: options.css,
+      cssContent: this.themeCss,
+      drafts: options.drafts,
+    });
+    const { metadata, chapters, missing } = await epub.build();
+    if (chapters.length === 0) {
+      throw new Error('No markdown files found in the specified input.');
+    }
+    for (const file of missing) {
+      console.warn(`Warning: ${relative(process.cwd(), file)} not found`);
+    }
+    console.log(`Wrote "${metadata.title}" with ${chapters.length} chapter(s) to ${relative(process.cwd(), outputFile)}`);
+  }
+
+  private async watch(options: CliOptions): Promise<void> {
+    const input = resolve(options.input!);
+    const dependencies = [options.template, options.css]
+      .filter((path): path is string => path !== undefined)
+      .map((path) => resolve(path));
+
+    await (options.site ? this.rebuildSite(options, true) : this.rebuild(options, { all: true }));
+
+    if (options.serve) {
+      const root = (await isDirectory(input))
+        ? resolve(options.output || './dist')
+        : dirname(getOutputPath(input, options.output));
+      this.server = new PreviewServer({ root, port: options.port });
+      console.log(`Serving ${relative(process.cwd(), root) || '.'} at ${this.server.start()}`);
+    }
+
+    const watcher = new FileWatcher([input, ...dependencies], async (paths) => {
+      const all = paths.some((path) => dependencies.some((dependency) => path === dependency || path.startsWith(dependency + sep)));
+      const changed = paths.filter((path) => extname(path) === '.md');
+      if (all || changed.length > 0 || paths.some((path) => !extname(path))) {
+        await (options.site ? this.rebuildSite(options, all) : this.rebuild(options, { all, changed }));
+      }
+    });
+    await watcher.start();
+    console.log('Watching for changes... (press Ctrl+C to stop)');
+
+    process.once('SIGINT', () => {
+      watcher.close();
+      this.server?.stop();
+      process.exit(0);
+    });
+  }
+
+  /**
+   * Convert changed files, or all files when `all` is set, and remove the
+   * output of files that no longer exist. Errors are reported without
+   * stopping the watcher.
+   */
+  private async rebuild(options: CliOptions, { all = false, changed = [] }: { all?: boolean; changed?: string[] }): Promise<void> {
+    if (all && options.template) {
+      try {
+        this.templateProcessor = await this.loadTemplates(options.template);
+      } catch (error) {
+        console.error(`Error: ${error}`);
+        return;
+      }
+    }
+
+    const files = await findMarkdownFiles(options.input!);
+    const current = new Set(files);
+    const removed = [...this.knownFiles].filter((file) => !current.has(file));
+    const toConvert = files.filter((file) => all || !this.knownFiles.has(file) || changed.includes(file));
+    this.knownFiles = current;
+
+    for (const file of removed) {
+      await this.removeOutput(file, options);
+    }
+
+    let converted = 0;
+    for (const file of toConvert) {
+      try {
+        if (await this.convertSingleFile(file, options)) {
+          converted++;
+        } else {
+          await this.removeOutput(file, options);
+        }
+      } catch (error) {
+        console.error(`Error: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    if (files.length === 0) {
+      console.error('No markdown files found in the specified input.');
+    }
+    if (converted > 0 || removed.length > 0) {
+      this.server?.reload();
+    }
+  }
+
+  /**
+   * Rebuild the whole site, since navigation and link checks span all
+   * pages. Errors are reported without stopping the watcher.
+   */
+  private async rebuildSite(options: CliOptions, reloadTemplate: boolean): Promise<void> {
+    try {
+      if (reloadTemplate && options.template) {
+        this.templateProcessor = await this.loadTemplates(options.template);
+      }
+      await this.buildSite(options);
+      this.server?.reload();
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private async removeOutput(inputFile: string, options: CliOptions): Promise<void> {
+    // A single input file that disappears may be mid-save; keep its output
+    if (!(await isDirectory(options.input!))) {
+      return;
+    }
+    const outputFile = await this.getOutputFile(inputFile, options);
+    if (outputFile === undefined) {
+      return;
+    }
+
+    try {
+      await unlink(outputFile);
+      console.log(`Deleted ${relative(process.cwd(), outputFile)}`);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.error(`Error: Failed to delete ${outputFile}: ${error}`);
+      }
+    }
+
+    // Remove directories left empty, up to the output root
+    const outputRoot = resolve(options.output || './dist');
+    for (let dir = dirname(outputFile); dir.startsWith(outputRoot + sep); dir = dirname(dir)) {
+      try {
+        await rmdir(dir);
+      } catch {
+        break;
+      }
+    }
+  }
 }
 
 if (import.meta.main) {
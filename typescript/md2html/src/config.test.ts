@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { findConfig, loadConfig } from './config.js';
+import { writeFile, mkdir, rm } from 'fs/promises';
+import { join } from 'path';
+
+describe('config', () => {
+  const testDir = join(process.cwd(), 'test-config-dir');
+  const write = (name: string, content: string) => writeFile(join(testDir, name), content, 'utf-8');
+
+  beforeEach(async () => {
+    await mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should find the config file in a directory', async () => {
+    expect(await findConfig(testDir)).toBeUndefined();
+
+    await write('md2html.config.js', 'export default {};');
+    expect(await findConfig(testDir)).toBe(join(testDir, 'md2html.config.js'));
+
+    await write('md2html.config.ts', 'export default {};');
+    expect(await findConfig(testDir)).toBe(join(testDir, 'md2html.config.ts'));
+  });
+
+  it('should load plugins from a TypeScript config', async () => {
+    await write('md2html.config.ts', [
+      `import { defineConfig } from '${join(process.cwd(), 'src', 'config.ts')}';`,
+      `export default defineConfig({ plugins: [{ name: 'upper', preParse: (markdown: string) => markdown.toUpperCase() }] });`,
+    ].join('\n'));
+
+    const config = await loadConfig(join(testDir, 'md2html.config.ts'));
+
+    expect(config.plugins?.map((plugin) => plugin.name)).toEqual(['upper']);
+    expect(config.plugins?.[0].preParse?.('a', { options: {} })).toBe('A');
+  });
+
+  it('should accept a function returning the config', async () => {
+    await write('fn.config.js', 'export default async () => ({ plugins: [{ name: "late" }] });');
+
+    expect(await loadConfig(join(testDir, 'fn.config.js'))).toEqual({ plugins: [{ name: 'late' }] });
+  });
+
+  it('should reject configs that are not objects', async () => {
+    await write('none.config.js', 'export const plugins = [];');
+    await write('list.config.js', 'export default { plugins: {} };');
+
+    await expect(loadConfig(join(testDir, 'none.config.js'))).rejects.toThrow('must export a config object by default');
+    await expect(loadConfig(join(testDir, 'list.config.js'))).rejects.toThrow('"plugins" must be an array');
+    await expect(loadConfig(join(testDir, 'missing.config.js'))).rejects.toThrow('Failed to load config');
+  });
+});
@@ -0,0 +1,60 @@
+import { join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import type { Md2HtmlPlugin } from './plugins.js';
+import { isFile } from './utils.js';
+
+export interface Md2HtmlConfig {
+  /** Plugins for every conversion, run in order */
+  plugins?: Md2HtmlPlugin[];
+}
+
+/** Looked up in the working directory when no `--config` is given */
+export const CONFIG_FILES = ['md2html.config.ts', 'md2html.config.js', 'md2html.config.mjs'];
+
+/**
+ * Types a config file's default export:
+ *
+ *     export default defineConfig({ plugins: [myPlugin()] });
+ */
+export function defineConfig(config: Md2HtmlConfig): Md2HtmlConfig {
+  return config;
+}
+
+/**
+ * @returns The first of `CONFIG_FILES` that exists in `dir`
+ */
+export async function findConfig(dir: string): Promise<string | undefined> {
+  for (const name of CONFIG_FILES) {
+    const path = join(dir, name);
+    if (await isFile(path)) {
+      return path;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Imports a config file. Its default export is the config, or a function
+ * that returns it.
+ */
+export async function loadConfig(path: string): Promise<Md2HtmlConfig> {
+  let module: { default?: unknown };
+  try {
+    module = await import(pathToFileURL(resolve(path)).href);
+  } catch (error) {
+    throw new Error(`Failed to load config ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  let config = module.default;
+  if (typeof config === 'function') {
+    config = await config();
+  }
+  if (!config || typeof config !== 'object') {
+    throw new Error(`Config ${path} must export a config object by default`);
+  }
+  const { plugins } = config as Md2HtmlConfig;
+  if (plugins !== undefined && !Array.isArray(plugins)) {
+    throw new Error(`Config ${path}: "plugins" must be an array`);
+  }
+  return config as Md2HtmlConfig;
+}
@@ -65,6 +65,16 @@ describe('MarkdownConverter', () => {
       expect(result).toContain('This is a test.');
     });
 
+    it('should leave front matter out of the HTML', async () => {
+      await writeFile(testFile, '---\ntitle: Meta\n---\n# Body', 'utf-8');
+
+      const result = await converter.convertFile(testFile);
+
+      expect(result).not.toContain('title: Meta');
+      expect(result).not.toContain('<hr>');
+      expect(result).toContain('<h1>Body</h1>');
+    });
+
     it('should throw error for non-existent file', async () => {
       await expect(converter.convertFile('non-existent-file.md')).rejects.toThrow('Failed to read file');
     });
@@ -107,12 +117,21 @@ describe('MarkdownConverter', () => {
     });
   });
 
+  describe('extractTitle with front matter', () => {
+    it('should prefer the front matter title', () => {
+      expect(converter.extractTitle('---\ntitle: From Meta\n---\n# From Heading')).toBe('From Meta');
+    });
+
+    it('should not read YAML comments as headings', () => {
+      expect(converter.extractTitle('---\n# comment\ndate: 2024-01-01\n---\n# Real')).toBe('Real');
+    });
+  });
+
   describe('constructor options', () => {
     it('should create converter with custom options', () => {
       const customConverter = new MarkdownConverter({
         breaks: false,
         gfm: false,
-        headerIds: false,
         sanitize: true
       });
       
@@ -123,6 +142,76 @@ describe('MarkdownConverter', () => {
     });
   });
 
+  describe('syntax highlighting', () => {
+    it('should highlight known languages when enabled', () => {
+      const result = new MarkdownConverter({ highlight: true }).convertString('```js\nconst x = "<a>";\n```');
+
+      expect(result).toContain('<pre><code class="hljs language-js"><span class="hljs-keyword">const</span> x = <span class="hljs-string">&quot;&lt;a&gt;&quot;</span>;</code></pre>');
+    });
+
+    it('should leave unknown languages and plain blocks escaped', () => {
+      const highlighter = new MarkdownConverter({ highlight: true });
+
+      expect(highlighter.convertString('```nope\n<b>\n```')).toContain('<pre><code class="language-nope">&lt;b&gt;</code></pre>');
+      expect(highlighter.convertString('```\n<b>\n```')).toContain('<pre><code>&lt;b&gt;</code></pre>');
+      expect(converter.convertString('```js\nconst x = 1;\n```')).toContain('<code class="language-js">const x = 1;</code>');
+    });
+  });
+
+  describe('extended blocks', () => {
+    it('should render admonitions', () => {
+      const result = converter.convertString('> [!TIP]\n> Use **this**.\n\n> [!CAUTION] Data loss\n> Back up first.\n\n> [!OTHER]\n> quote');
+
+      expect(result).toContain('<div class="admonition admonition-tip">\n<p class="admonition-title">Tip</p>\n<p>Use <strong>this</strong>.</p>\n</div>');
+      expect(result).toContain('<p class="admonition-title">Data loss</p>');
+      expect(result).toContain('<blockquote>\n<p>[!OTHER]');
+    });
+
+    it('should number footnotes by first reference and list them at the end', () => {
+      const result = converter.convertString('B[^b] A[^a] B again[^b] none[^x]\n\n[^a]: First *note*.\n[^b]: Second note\n    continued.\n\n[^unused]: Never shown.');
+
+      expect(result).toContain('B<sup class="footnote-ref"><a href="#fn-b" id="fnref-b">1</a></sup>');
+      expect(result).toContain('A<sup class="footnote-ref"><a href="#fn-a" id="fnref-a">2</a></sup>');
+      expect(result).toContain('<a href="#fn-b" id="fnref-b-2">1</a>');
+      expect(result).toContain('none[^x]');
+      expect(result).toMatch(/<section class="footnotes">\n<ol>\n<li id="fn-b">[\s\S]*continued\.[\s\S]*<li id="fn-a">\n<p>First <em>note<\/em>\. <a href="#fnref-a" class="footnote-backref"/);
+      expect(result).not.toContain('Never shown');
+    });
+
+    it('should not carry footnotes over to the next document', () => {
+      converter.convertString('a[^1]\n\n[^1]: note');
+
+      expect(converter.convertString('b[^1]')).toBe('<p>b[^1]</p>\n');
+    });
+
+    it('should mark task list items', () => {
+      const result = converter.convertString('- [x] done\n- [ ] todo\n- plain');
+
+      expect(result).toContain('<li class="task-list-item"><input checked="" disabled="" type="checkbox"> done</li>');
+      expect(result).toContain('<li>plain</li>');
+    });
+
+    it('should add heading anchors when enabled', () => {
+      const anchored = new MarkdownConverter({ headingAnchors: true });
+      const result = anchored.convertString('# Intro\n\n## Intro');
+
+      expect(result).toContain('<h1 id="intro">Intro<a class="heading-anchor" href="#intro" aria-label="Link to this section">#</a></h1>');
+      expect(result).toContain('<h2 id="intro-1">');
+      expect(anchored.convertString('# Intro')).toContain('id="intro"');
+    });
+
+    it('should render math to MathML when enabled', () => {
+      const mathConverter = new MarkdownConverter({ math: true });
+      const result = mathConverter.convertString('Area $\\pi r^2$ costs $5 or $10.\n\n$$\n\\frac{1}{2}\n$$\n\n```math\nx\n```');
+
+      expect(result).toContain('<math xmlns="http://www.w3.org/1998/Math/MathML"><semantics><mrow><mi>π</mi>');
+      expect(result).toContain('costs $5 or $10.');
+      expect(result).toContain('<div class="math-display"><span class="katex"><math xmlns="http://www.w3.org/1998/Math/MathML" display="block"><semantics><mrow><mfrac>');
+      expect(result.match(/display="block"/g)?.length).toBe(2);
+      expect(converter.convertString('$x$')).toBe('<p>$x$</p>\n');
+    });
+  });
+
   describe('escapeHtml', () => {
     it('should escape HTML entities in code', () => {
       const markdown = '`<script>alert("test")</script>`';
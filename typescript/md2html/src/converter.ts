@@ -1,39 +1,133 @@
-import { marked } from 'marked';
+import { Marked, Renderer } from 'marked';
 import { readFile } from 'fs/promises';
+import { parseFrontMatter } from './frontmatter.js';
+import { highlightCode } from './highlight.js';
+import { admonitions, footnotes, math, renderMath } from './extensions.js';
+import { Slugger } from './utils.js';
+import { HtmlSanitizer, type SanitizeOptions } from './sanitizer.js';
+import { PluginPipeline, type Md2HtmlPlugin, type PluginError } from './plugins.js';
 
 export interface ConversionOptions {
   breaks?: boolean;
   gfm?: boolean;
-  headerIds?: boolean;
-  sanitize?: boolean;
+  /** Remove unsafe HTML from the output, with the default or a custom allow-list */
+  sanitize?: boolean | SanitizeOptions;
+  /** Highlight code blocks at build time (default false) */
+  highlight?: boolean;
+  /** Render `$…$` and `$$…$$` math to MathML (default false) */
+  math?: boolean;
+  /** Give headings ids and a `#` link to themselves (default false) */
+  headingAnchors?: boolean;
+  /** Hooks into parsing and rendering, run in order (see `Md2HtmlPlugin`) */
+  plugins?: Md2HtmlPlugin[];
+  /** Called when a plugin hook throws; by default a warning is printed */
+  onPluginError?: (error: PluginError) => void;
+}
+
+export interface RenderHooks {
+  /** Rewrites link targets, e.g. `.md` links to `.html` */
+  link?: (href: string) => string;
+  /** Returns the id for a heading from its plain text */
+  headingId?: (text: string, level: number) => string;
 }
 
 export class MarkdownConverter {
-  private renderer: marked.Renderer;
+  private renderer: Renderer;
+  private parser = new Marked();
+  private slugger = new Slugger();
+  private sanitizer?: HtmlSanitizer;
+  private plugins: PluginPipeline;
 
-  constructor(options: ConversionOptions = {}) {
-    this.renderer = new marked.Renderer();
+  constructor(private readonly options: ConversionOptions = {}) {
+    this.renderer = new Renderer();
+    this.plugins = new PluginPipeline(
+      options.plugins ?? [],
+      { options },
+      options.onPluginError ?? ((error) => console.warn(`Warning: ${error.message}`))
+    );
     
-    marked.setOptions({
+    // Extensions keep per-document state, so each converter has its own
+    // instance rather than configuring the global one
+    this.parser.setOptions({
       breaks: options.breaks ?? true,
       gfm: options.gfm ?? true,
-      headerIds: options.headerIds ?? true,
-      sanitize: options.sanitize ?? false,
       renderer: this.renderer
     });
+    this.parser.use(admonitions(), footnotes(), {
+      hooks: {
+        preprocess: (markdown) => {
+          this.slugger = new Slugger();
+          return markdown;
+        },
+      },
+    });
+    if (options.math) {
+      this.parser.use(math());
+    }
+    this.parser.use({
+      hooks: {
+        processAllTokens: (tokens) => this.plugins.transformTokens(tokens),
+      },
+    });
+    // marked no longer sanitizes, so unsafe HTML is removed from its output
+    if (options.sanitize) {
+      this.sanitizer = new HtmlSanitizer(options.sanitize === true ? {} : options.sanitize);
+    }
 
-    this.setupCustomRenderer();
+    this.setupCustomRenderer(this.renderer);
+    this.plugins.applyRenderer(this.renderer);
   }
 
-  private setupCustomRenderer(): void {
-    this.renderer.code = (code: string, language: string | undefined) => {
+  private setupCustomRenderer(renderer: Renderer): void {
+    renderer.code = (code: string, language: string | undefined) => {
+      const name = language?.match(/^\S*/)?.[0];
+      if (this.options.math && name === 'math') {
+        return `<div class="math-display">${renderMath(code, true)}</div>\n`;
+      }
+      const highlighted = this.options.highlight ? highlightCode(code, name) : undefined;
+      if (highlighted !== undefined) {
+        return `<pre><code class="hljs language-${this.escapeHtml(name!)}">${highlighted}</code></pre>\n`;
+      }
+
       const lang = language ? ` class="language-${language}"` : '';
       return `<pre><code${lang}>${this.escapeHtml(code)}</code></pre>\n`;
     };
 
-    this.renderer.codespan = (code: string) => {
+    renderer.codespan = (code: string) => {
       return `<code>${this.escapeHtml(code)}</code>`;
     };
+
+    renderer.listitem = (text: string, task: boolean) => {
+      return task ? `<li class="task-list-item">${text}</li>\n` : `<li>${text}</li>\n`;
+    };
+
+    if (this.options.headingAnchors) {
+      renderer.heading = (text: string, level: number, raw: string) =>
+        this.renderHeading(text, level, this.slugger.slug(raw));
+    }
+  }
+
+  private renderHeading(text: string, level: number, id: string): string {
+    const anchor = this.options.headingAnchors
+      ? `<a class="heading-anchor" href="#${this.escapeHtml(id)}" aria-label="Link to this section">#</a>`
+      : '';
+    return `<h${level} id="${this.escapeHtml(id)}">${text}${anchor}</h${level}>\n`;
+  }
+
+  private createHookedRenderer(hooks: RenderHooks) {
+    const renderer = new Renderer();
+    this.setupCustomRenderer(renderer);
+
+    const { link: rewriteLink, headingId } = hooks;
+    if (rewriteLink) {
+      const link = renderer.link.bind(renderer);
+      renderer.link = (href, title, text) => link(rewriteLink(href), title, text);
+    }
+    if (headingId) {
+      renderer.heading = (text, level, raw) => this.renderHeading(text, level, headingId(raw, level));
+    }
+    this.plugins.applyRenderer(renderer);
+    return renderer;
   }
 
   private escapeHtml(text: string): string {
@@ -50,22 +144,35 @@ export class MarkdownConverter {
   async convertFile(filePath: string): Promise<string> {
     try {
       const content = await readFile(filePath, 'utf-8');
-      return this.convertString(content);
+      return this.convertString(parseFrontMatter(content).body);
     } catch (error) {
       throw new Error(`Failed to read file ${filePath}: ${error}`);
     }
   }
 
-  convertString(markdown: string): string {
+  convertString(markdown: string, hooks: RenderHooks = {}): string {
     try {
-      return marked(markdown);
+      markdown = this.plugins.preParse(markdown);
+      let html = !hooks.link && !hooks.headingId
+        ? this.parser.parse(markdown) as string
+        : this.parser.parse(markdown, { renderer: this.createHookedRenderer(hooks) }) as string;
+      html = this.plugins.postHtml(html);
+      return this.sanitizer ? this.sanitizer.sanitize(html) : html;
     } catch (error) {
       throw new Error(`Failed to convert markdown: ${error}`);
     }
   }
 
+  /**
+   * Returns the front matter `title`, or else the text of the first H1
+   */
   extractTitle(markdown: string): string | null {
-    const lines = markdown.split('\n');
+    const { data, body } = parseFrontMatter(markdown);
+    if (data.title) {
+      return data.title;
+    }
+
+    const lines = body.split('\n');
     for (const line of lines) {
       const trimmed = line.trim();
       if (trimmed.startsWith('# ')) {
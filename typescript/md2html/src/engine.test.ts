@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'bun:test';
+import { Template, SafeString, TemplateError } from './engine.js';
+
+describe('Template', () => {
+  const render = (source: string, data: Record<string, unknown> = {}, partials: Record<string, string> = {}) =>
+    new Template(source).render(data, (name) => partials[name] === undefined ? undefined : new Template(partials[name], name));
+
+  it('should escape values unless they are raw or safe', () => {
+    const data = { title: '<b>"A" & B</b>', html: new SafeString('<em>ok</em>') };
+
+    expect(render('{{title}}|{{{title}}}|{{ html }}', data)).toBe('&lt;b&gt;&quot;A&quot; &amp; B&lt;/b&gt;|<b>"A" & B</b>|<em>ok</em>');
+  });
+
+  it('should look up nested values and render missing ones as empty', () => {
+    const data = { page: { author: { name: 'Ada' }, tags: ['a', '<b>'] } };
+
+    expect(render('{{page.author.name}}-{{page.tags}}-{{page.missing.deep}}-{{nope}}', data)).toBe('Ada-a, &lt;b&gt;--');
+  });
+
+  it('should render conditionals', () => {
+    const source = '{{#if tags}}tagged{{else}}untagged{{/if}} {{#unless draft}}published{{/unless}}';
+
+    expect(render(source, { tags: ['a'], draft: false })).toBe('tagged published');
+    expect(render(source, { tags: [], draft: true })).toBe('untagged ');
+  });
+
+  it('should loop over lists and objects', () => {
+    expect(render('{{#each tags}}{{@index}}:{{this}}{{#unless @last}}, {{/unless}}{{/each}}', { tags: ['x', 'y'] })).toBe('0:x, 1:y');
+    expect(render('{{#each links}}{{@key}}={{url}} {{/each}}', { links: { home: { url: '/' } } })).toBe('home=/ ');
+    expect(render('{{#each items}}{{name}} of {{title}}{{else}}none{{/each}}', { items: [{ name: 'a' }], title: 'T' })).toBe('a of T');
+    expect(render('{{#each items}}x{{else}}none{{/each}}', {})).toBe('none');
+  });
+
+  it('should include partials with the current context', () => {
+    const partials = { header: '<h1>{{title}}</h1>{{> nav}}', nav: '[{{#each pages}}{{this}}{{/each}}]' };
+
+    expect(render('{{> header}}{{! a comment }}', { title: 'Home', pages: [1, 2] }, partials)).toBe('<h1>Home</h1>[12]');
+    expect(() => render('{{> missing}}')).toThrow('Unknown partial "missing" (template:1)');
+    expect(() => render('{{> loop}}', {}, { loop: '{{> loop}}' })).toThrow('Partials nested more than 20 deep');
+  });
+
+  it('should report syntax errors with their line', () => {
+    expect(() => new Template('a\n{{#if x}}', 'page')).toThrow(new TemplateError('Unclosed "#if"', 'page', 2));
+    expect(() => new Template('{{#each x}}{{/if}}')).toThrow('Expected "/each" to close the block from line 1, got "/if"');
+    expect(() => new Template('{{else}}')).toThrow('Unexpected "else"');
+    expect(() => new Template('{{#with x}}{{/with}}')).toThrow('Unknown block "#with"');
+    expect(() => new Template('\n\n{{ a b }}')).toThrow('Invalid expression "a b" (template:3)');
+    expect(() => new Template('{{title')).toThrow('Unclosed "{{"');
+  });
+
+  it('should list the top-level variables it reads', () => {
+    expect(new Template('{{a.b}}{{#each list}}{{this}}{{@index}}{{c}}{{/each}}{{#if a}}{{/if}}').variables()).toEqual(['a', 'list', 'c']);
+  });
+});
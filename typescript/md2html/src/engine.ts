@@ -0,0 +1,288 @@
+import { escapeHtml } from './utils.js';
+
+/**
+ * HTML that is inserted into templates without escaping
+ */
+export class SafeString {
+  constructor(public readonly html: string) {}
+
+  toString(): string {
+    return this.html;
+  }
+}
+
+export class TemplateError extends Error {
+  constructor(message: string, public readonly template: string, public readonly line: number) {
+    super(`${message} (${template}:${line})`);
+    this.name = 'TemplateError';
+  }
+}
+
+export type PartialResolver = (name: string) => Template | undefined;
+
+type Node =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; path: string[]; raw: boolean; line: number }
+  | { type: 'if'; path: string[]; negate: boolean; then: Node[]; otherwise: Node[] }
+  | { type: 'each'; path: string[]; body: Node[]; otherwise: Node[] }
+  | { type: 'partial'; name: string; line: number };
+
+type Block = Extract<Node, { type: 'if' | 'each' }>;
+
+interface Frame {
+  value: unknown;
+  locals: Record<string, unknown>;
+}
+
+const PATH = /^(?:this|@?[\w-]+)(?:\.[\w-]+)*$/;
+const MAX_PARTIAL_DEPTH = 20;
+
+/**
+ * A compiled template in a small Handlebars-like language:
+ *
+ * - `{{name}}` and `{{page.tags}}` insert escaped values, `{{{name}}}` raw ones
+ * - `{{#if x}}…{{else}}…{{/if}}` and `{{#unless x}}…{{/unless}}`
+ * - `{{#each list}}…{{else}}…{{/each}}`, with `{{this}}`, `{{@index}}`,
+ *   `{{@first}}`, `{{@last}}` and, for objects, `{{@key}}`
+ * - `{{> name}}` includes a partial with the current context
+ * - `{{! comment }}`
+ *
+ * Names are looked up in the innermost `each` item first, then outwards.
+ */
+export class Template {
+  private readonly nodes: Node[];
+
+  constructor(source: string, public readonly name = 'template') {
+    this.nodes = this.parse(source);
+  }
+
+  render(data: Record<string, unknown>, partials: PartialResolver = () => undefined): string {
+    return this.renderNodes(this.nodes, [{ value: data, locals: {} }], partials, 0);
+  }
+
+  /**
+   * Top-level names the template reads, in order of first use
+   */
+  variables(): string[] {
+    const names = new Set<string>();
+    const visit = (nodes: Node[]) => {
+      for (const node of nodes) {
+        if (node.type === 'variable' || node.type === 'if' || node.type === 'each') {
+          if (node.path[0] !== 'this' && !node.path[0].startsWith('@')) {
+            names.add(node.path[0]);
+          }
+        }
+        if (node.type === 'if') {
+          visit(node.then);
+          visit(node.otherwise);
+        } else if (node.type === 'each') {
+          visit(node.body);
+          visit(node.otherwise);
+        }
+      }
+    };
+    visit(this.nodes);
+    return [...names];
+  }
+
+  private parse(source: string): Node[] {
+    const root: Node[] = [];
+    const stack: { block: Block; keyword: string; line: number; inElse: boolean }[] = [];
+    const current = () => {
+      const top = stack[stack.length - 1];
+      if (!top) {
+        return root;
+      }
+      if (top.block.type === 'if') {
+        return top.inElse ? top.block.otherwise : top.block.then;
+      }
+      return top.inElse ? top.block.otherwise : top.block.body;
+    };
+    const lineAt = (offset: number) => source.slice(0, offset).split('\n').length;
+    const error = (message: string, offset: number) => new TemplateError(message, this.name, lineAt(offset));
+
+    let position = 0;
+    while (position < source.length) {
+      const open = source.indexOf('{{', position);
+      if (open === -1) {
+        current().push({ type: 'text', value: source.slice(position) });
+        break;
+      }
+      if (open > position) {
+        current().push({ type: 'text', value: source.slice(position, open) });
+      }
+
+      const raw = source.startsWith('{{{', open);
+      const closer = raw ? '}}}' : '}}';
+      const close = source.indexOf(closer, open + closer.length);
+      if (close === -1) {
+        throw error(`Unclosed "${raw ? '{{{' : '{{'}"`, open);
+      }
+      const tag = source.slice(open + closer.length, close).trim();
+      const line = lineAt(open);
+      position = close + closer.length;
+
+      if (raw) {
+        current().push({ type: 'variable', path: this.parsePath(tag, open, error), raw: true, line });
+      } else if (tag.startsWith('!')) {
+        continue;
+      } else if (tag.startsWith('#')) {
+        const [keyword, argument = '', ...extra] = tag.slice(1).trim().split(/\s+/);
+        if (!['if', 'unless', 'each'].includes(keyword)) {
+          throw error(`Unknown block "#${keyword}"`, open);
+        }
+        if (!argument || extra.length > 0) {
+          throw error(`"#${keyword}" takes one name`, open);
+        }
+        const path = this.parsePath(argument, open, error);
+        const block: Block = keyword === 'each'
+          ? { type: 'each', path, body: [], otherwise: [] }
+          : { type: 'if', path, negate: keyword === 'unless', then: [], otherwise: [] };
+        current().push(block);
+        stack.push({ block, keyword, line, inElse: false });
+      } else if (tag === 'else') {
+        const top = stack[stack.length - 1];
+        if (!top || top.inElse) {
+          throw error('Unexpected "else"', open);
+        }
+        top.inElse = true;
+      } else if (tag.startsWith('/')) {
+        const keyword = tag.slice(1).trim();
+        const top = stack.pop();
+        if (!top) {
+          throw error(`Unexpected "/${keyword}"`, open);
+        } else if (top.keyword !== keyword) {
+          throw error(`Expected "/${top.keyword}" to close the block from line ${top.line}, got "/${keyword}"`, open);
+        }
+      } else if (tag.startsWith('>')) {
+        const name = tag.slice(1).trim();
+        if (!/^[\w./-]+$/.test(name)) {
+          throw error(`Invalid partial name "${name}"`, open);
+        }
+        current().push({ type: 'partial', name, line });
+      } else {
+        current().push({ type: 'variable', path: this.parsePath(tag, open, error), raw: false, line });
+      }
+    }
+
+    const unclosed = stack.pop();
+    if (unclosed) {
+      throw new TemplateError(`Unclosed "#${unclosed.keyword}"`, this.name, unclosed.line);
+    }
+    return root;
+  }
+
+  private parsePath(expression: string, offset: number, error: (message: string, offset: number) => TemplateError): string[] {
+    if (!PATH.test(expression)) {
+      throw error(`Invalid expression "${expression}"`, offset);
+    }
+    return expression.split('.');
+  }
+
+  private renderNodes(nodes: Node[], frames: Frame[], partials: PartialResolver, depth: number): string {
+    let output = '';
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'text':
+          output += node.value;
+          break;
+        case 'variable': {
+          const value = lookup(node.path, frames);
+          output += node.raw ? stringify(value) : format(value);
+          break;
+        }
+        case 'if': {
+          const truthy = isTruthy(lookup(node.path, frames)) !== node.negate;
+          output += this.renderNodes(truthy ? node.then : node.otherwise, frames, partials, depth);
+          break;
+        }
+        case 'each': {
+          const value = lookup(node.path, frames);
+          const entries: [string | number, unknown][] = Array.isArray(value)
+            ? value.map((item, index) => [index, item])
+            : value && typeof value === 'object' && !(value instanceof SafeString)
+              ? Object.entries(value)
+              : [];
+          if (entries.length === 0) {
+            output += this.renderNodes(node.otherwise, frames, partials, depth);
+          }
+          entries.forEach(([key, item], index) => {
+            const locals = { index, key, first: index === 0, last: index === entries.length - 1 };
+            output += this.renderNodes(node.body, [...frames, { value: item, locals }], partials, depth);
+          });
+          break;
+        }
+        case 'partial': {
+          const partial = partials(node.name);
+          if (!partial) {
+            throw new TemplateError(`Unknown partial "${node.name}"`, this.name, node.line);
+          }
+          if (depth >= MAX_PARTIAL_DEPTH) {
+            throw new TemplateError(`Partials nested more than ${MAX_PARTIAL_DEPTH} deep`, this.name, node.line);
+          }
+          output += partial.renderNodes(partial.nodes, frames, partials, depth + 1);
+          break;
+        }
+      }
+    }
+    return output;
+  }
+}
+
+function lookup([head, ...rest]: string[], frames: Frame[]): unknown {
+  let value: unknown;
+  const top = frames[frames.length - 1];
+  if (head === 'this') {
+    value = top.value;
+  } else if (head.startsWith('@')) {
+    value = top.locals[head.slice(1)];
+  } else {
+    const frame = [...frames].reverse().find((f) => hasOwn(f.value, head));
+    value = frame ? (frame.value as Record<string, unknown>)[head] : undefined;
+  }
+
+  for (const key of rest) {
+    value = hasOwn(value, key) ? (value as Record<string, unknown>)[key] : undefined;
+  }
+  return value;
+}
+
+function hasOwn(value: unknown, key: string): boolean {
+  return value !== null && typeof value === 'object' && Object.prototype.hasOwnProperty.call(value, key);
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  if (value instanceof SafeString) {
+    return value.html !== '';
+  }
+  return Boolean(value);
+}
+
+function stringify(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value.map(stringify).join(', ');
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'object' && !(value instanceof SafeString)) {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function format(value: unknown): string {
+  if (value instanceof SafeString) {
+    return value.html;
+  }
+  if (Array.isArray(value)) {
+    return value.map(format).join(', ');
+  }
+  return escapeHtml(stringify(value));
+}
@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { EpubBuilder, toXhtml } from './epub.js';
+import { MarkdownConverter } from './converter.js';
+import { writeFile, readFile, mkdir, rm } from 'fs/promises';
+import { join } from 'path';
+import { crc32, inflateRawSync } from 'zlib';
+
+/**
+ * Reads the entries of a ZIP archive in order, checking their checksums
+ */
+function readZip(zip: Buffer): { name: string; method: number; text: string }[] {
+  const entries = [];
+  let offset = 0;
+  while (zip.readUInt32LE(offset) === 0x04034b50) {
+    const method = zip.readUInt16LE(offset + 8);
+    const checksum = zip.readUInt32LE(offset + 14);
+    const size = zip.readUInt32LE(offset + 18);
+    const nameLength = zip.readUInt16LE(offset + 26);
+    const name = zip.subarray(offset + 30, offset + 30 + nameLength).toString('utf-8');
+    const raw = zip.subarray(offset + 30 + nameLength, offset + 30 + nameLength + size);
+    const data = method === 8 ? inflateRawSync(raw) : raw;
+    expect(crc32(data)).toBe(checksum);
+    entries.push({ name, method, text: data.toString('utf-8') });
+    offset += 30 + nameLength + size;
+  }
+  expect(zip.readUInt32LE(offset)).toBe(0x02014b50);
+  return entries;
+}
+
+describe('EpubBuilder', () => {
+  const testDir = join(process.cwd(), 'test-epub-dir');
+  const inputDir = join(testDir, 'book');
+  const outputFile = join(testDir, 'out', 'book.epub');
+
+  const write = async (path: string, content: string) => {
+    await mkdir(join(inputDir, path, '..'), { recursive: true });
+    await writeFile(join(inputDir, path), content, 'utf-8');
+  };
+  const build = (drafts?: boolean) => new EpubBuilder({
+    inputDir,
+    outputFile,
+    converter: new MarkdownConverter({ math: true }),
+    cssContent: '.extra { color: red; }',
+    drafts,
+  }).build();
+  const read = async () => {
+    const entries = readZip(await readFile(outputFile));
+    return Object.fromEntries(entries.map((entry) => [entry.name, entry.text]));
+  };
+
+  beforeEach(async () => {
+    await write('index.md', '---\ntitle: The Book\nauthor: [Ann, Bob]\nlang: de\n---\n');
+    await write('b.md', '---\norder: 1\n---\n# Start\n\n## Setup & Use\n\n![Cover](img/cover.png) ![Gone](img/gone.png)');
+    await write('a.md', '# Appendix\n\nSee [setup](b.md#setup--use) and $x^2$.');
+    await write('parts/c.md', '---\norder: 2\n---\n# Middle\n\n![Cover](../img/cover.png)');
+    await write('wip.md', '---\norder: 0\ndraft: true\n---\n# Draft');
+    await write('img/cover.png', 'png');
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should order chapters by front matter, then path', async () => {
+    const { chapters, metadata } = await build();
+
+    expect(chapters.map((chapter) => [chapter.title, chapter.href])).toEqual([
+      ['Start', 'text/chapter-001.xhtml'],
+      ['Middle', 'text/chapter-002.xhtml'],
+      ['Appendix', 'text/chapter-003.xhtml'],
+    ]);
+    expect(metadata).toMatchObject({ title: 'The Book', authors: ['Ann', 'Bob'], lang: 'de' });
+    expect(metadata.identifier).toMatch(/^urn:uuid:[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect((await build()).metadata.identifier).toBe(metadata.identifier);
+
+    expect((await build(true)).chapters[0].title).toBe('Draft');
+  });
+
+  it('should write an EPUB 3 container', async () => {
+    await build();
+    const entries = readZip(await readFile(outputFile));
+
+    expect(entries[0]).toEqual({ name: 'mimetype', method: 0, text: 'application/epub+zip' });
+    expect(entries.map((entry) => entry.name)).toEqual([
+      'mimetype',
+      'META-INF/container.xml',
+      'OEBPS/content.opf',
+      'OEBPS/nav.xhtml',
+      'OEBPS/style.css',
+      'OEBPS/text/chapter-001.xhtml',
+      'OEBPS/text/chapter-002.xhtml',
+      'OEBPS/text/chapter-003.xhtml',
+      'OEBPS/images/image-001.png',
+    ]);
+
+    const files = await read();
+    const opf = files['OEBPS/content.opf'];
+    expect(files['META-INF/container.xml']).toContain('full-path="OEBPS/content.opf"');
+    expect(opf).toContain('<dc:title>The Book</dc:title>');
+    expect(opf).toContain('<dc:creator>Ann</dc:creator>\n    <dc:creator>Bob</dc:creator>');
+    expect(opf).toContain('<dc:language>de</dc:language>');
+    expect(opf).toMatch(/<meta property="dcterms:modified">\d{4}-\d\d-\d\dT\d\d:\d\d:\d\dZ<\/meta>/);
+    expect(opf).toContain('<item id="chapter-003" href="text/chapter-003.xhtml" media-type="application/xhtml+xml" properties="mathml"/>');
+    expect(opf).toContain('<item id="image-001" href="images/image-001.png" media-type="image/png"/>');
+    expect(opf).toContain('<itemref idref="chapter-001"/>\n    <itemref idref="chapter-002"/>\n    <itemref idref="chapter-003"/>');
+    expect(files['OEBPS/nav.xhtml']).toContain('<li><a href="text/chapter-002.xhtml">Middle</a></li>');
+    expect(files['OEBPS/style.css']).toContain('.extra { color: red; }');
+  });
+
+  it('should carry links and images over into the chapters', async () => {
+    const { missing } = await build();
+    const files = await read();
+
+    const start = files['OEBPS/text/chapter-001.xhtml'];
+    expect(start).toStartWith('<?xml version="1.0" encoding="UTF-8"?>');
+    expect(start).toContain('lang="de" xml:lang="de"');
+    expect(start).toContain('<h2 id="setup--use">Setup &amp; Use</h2>');
+    expect(start).toContain('<img src="../images/image-001.png" alt="Cover" /> <img src="img/gone.png" alt="Gone" />');
+    expect(files['OEBPS/text/chapter-002.xhtml']).toContain('<img src="../images/image-001.png" alt="Cover" />');
+    expect(files['OEBPS/text/chapter-003.xhtml']).toContain('<a href="chapter-001.xhtml#setup--use">setup</a>');
+    expect(missing).toEqual([join(inputDir, 'img/gone.png')]);
+  });
+
+  it('should use the index as the first chapter when it has content', async () => {
+    await write('index.md', '# Preface\n\nHello.');
+    const { chapters, metadata } = await build();
+
+    expect(chapters[0].title).toBe('Preface');
+    expect(metadata.title).toBe('book');
+  });
+
+  it('should reject an order that is not a number', async () => {
+    await write('a.md', '---\norder: first\n---\n# A');
+
+    await expect(build()).rejects.toThrow('"order" must be a number');
+  });
+});
+
+describe('toXhtml', () => {
+  it('should close void elements and quote attributes', () => {
+    expect(toXhtml('<p>a<br>b<img src=x alt=\'y "z"\'><hr/></p>')).toBe('<p>a<br />b<img src="x" alt="y &quot;z&quot;" /><hr /></p>');
+    expect(toXhtml('<li><input checked="" disabled="" type="checkbox"> <details open>x</details></li>'))
+      .toBe('<li><input checked="" disabled="" type="checkbox" /> <details open="open">x</details></li>');
+  });
+
+  it('should replace entities XML does not define', () => {
+    expect(toXhtml('a&nbsp;b &copy; &amp; &#160; &#xA0; &lt;x&gt; &bogus; R&D')).toBe('a&#160;b &#169; &amp; &#160; &#xA0; &lt;x&gt; &amp;bogus; R&amp;D');
+  });
+});
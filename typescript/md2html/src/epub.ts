@@ -0,0 +1,337 @@
+import { readFile, writeFile } from 'fs/promises';
+import { createHash } from 'crypto';
+import { basename, dirname, extname, relative, resolve, sep } from 'path';
+import { MarkdownConverter } from './converter.js';
+import { parseFrontMatter, type FrontMatter } from './frontmatter.js';
+import { replaceLocalImages } from './bundle.js';
+import { createZip, type ZipEntry } from './zip.js';
+import { ensureDirectoryExists, escapeHtml, findMarkdownFiles, Slugger } from './utils.js';
+
+export interface EpubOptions {
+  /** Directory of chapters; `index.md` holds the book's metadata */
+  inputDir: string;
+  /** Path of the `.epub` file to write */
+  outputFile: string;
+  converter: MarkdownConverter;
+  cssFile?: string;
+  /** Extra CSS for every chapter, e.g. a highlighting theme */
+  cssContent?: string;
+  /** Include chapters marked `draft: true` */
+  drafts?: boolean;
+}
+
+export interface EpubMetadata {
+  title: string;
+  authors: string[];
+  lang: string;
+  identifier: string;
+  date?: string;
+  description?: string;
+}
+
+export interface EpubChapter {
+  /** Absolute path of the Markdown source */
+  source: string;
+  /** Path inside the book, e.g. `text/chapter-001.xhtml` */
+  href: string;
+  title: string;
+  data: FrontMatter;
+}
+
+export interface EpubResult {
+  metadata: EpubMetadata;
+  chapters: EpubChapter[];
+  /** Images referenced by chapters that could not be found */
+  missing: string[];
+}
+
+const BOOK_CSS = `body { font-family: serif; line-height: 1.5; }
+h1, h2, h3, h4, h5, h6 { font-family: sans-serif; line-height: 1.2; page-break-after: avoid; }
+code, pre { font-family: monospace; font-size: 0.9em; }
+pre { white-space: pre-wrap; background-color: #f4f4f4; padding: 0.5em; }
+blockquote { border-left: 3px solid #ccc; margin-left: 0; padding-left: 1em; }
+table { border-collapse: collapse; }
+th, td { border: 1px solid #ccc; padding: 0.2em 0.5em; }
+img { max-width: 100%; }
+.admonition { border-left: 3px solid #0969da; padding: 0.2em 1em; margin: 1em 0; }
+.admonition-title { font-weight: bold; }
+.task-list-item { list-style: none; }
+.footnotes { border-top: 1px solid #ccc; font-size: 0.9em; }`;
+
+// HTML entities that XML does not know, written as character references
+const NAMED_ENTITIES: Record<string, number> = {
+  nbsp: 160, copy: 169, reg: 174, trade: 8482, mdash: 8212, ndash: 8211, hellip: 8230,
+  lsquo: 8216, rsquo: 8217, ldquo: 8220, rdquo: 8221, laquo: 171, raquo: 187, middot: 183,
+  bull: 8226, times: 215, divide: 247, deg: 176, euro: 8364, pound: 163, yen: 165, sect: 167,
+  para: 182, larr: 8592, rarr: 8594, uarr: 8593, darr: 8595, harr: 8596, shy: 173, ensp: 8194,
+  emsp: 8195, thinsp: 8201, zwnj: 8204, zwj: 8205,
+};
+
+const VOID_TAGS = /^(?:area|base|br|col|embed|hr|img|input|link|meta|source|track|wbr)$/i;
+const START_TAG = /<([a-zA-Z][a-zA-Z0-9:-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/g;
+const ATTRIBUTE = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+/**
+ * Builds an EPUB 3 book from a directory of Markdown chapters.
+ *
+ * Chapters are ordered by the `order` number in their front matter, then
+ * by path. `index.md`, when present, provides the book's `title`,
+ * `author`, `lang`, `date` and `description`, and comes first if it has
+ * any content. Links between chapters and local images are carried over
+ * into the book.
+ */
+export class EpubBuilder {
+  private readonly inputDir: string;
+
+  constructor(private readonly options: EpubOptions) {
+    this.inputDir = resolve(options.inputDir);
+  }
+
+  async build(): Promise<EpubResult> {
+    const sources = await this.collectChapters();
+    const index = sources.find(({ file }) => file === resolve(this.inputDir, 'index.md'));
+    const metadata = this.readMetadata(index?.data ?? {}, sources.map(({ file }) => file));
+
+    const chapters: EpubChapter[] = sources
+      .filter((source) => source !== index || source.body.trim() !== '')
+      .map(({ file, data, markdown }, i) => ({
+        source: file,
+        href: `text/chapter-${String(i + 1).padStart(3, '0')}.xhtml`,
+        title: this.options.converter.extractTitle(markdown) || basename(file, '.md'),
+        data,
+      }));
+    if (chapters.length === 0) {
+      return { metadata, chapters, missing: [] };
+    }
+
+    const hrefs = new Map(chapters.map((chapter) => [chapter.source, chapter.href]));
+    const images = new Map<string, string>();
+    const missing: string[] = [];
+    const documents: ZipEntry[] = [];
+    const mathml = new Set<string>();
+
+    for (const chapter of chapters) {
+      const { body } = sources.find(({ file }) => file === chapter.source)!;
+      const slugger = new Slugger();
+      const converted = this.options.converter.convertString(body, {
+        link: (href) => this.rewriteLink(href, chapter.source, hrefs),
+        headingId: (text) => slugger.slug(text),
+      });
+
+      const result = await replaceLocalImages(converted, dirname(chapter.source), async (path) => {
+        if (!images.has(path)) {
+          images.set(path, `images/image-${String(images.size + 1).padStart(3, '0')}${extname(path).toLowerCase()}`);
+        }
+        return `../${images.get(path)}`;
+      });
+      missing.push(...result.missing);
+      if (result.html.includes('<math')) {
+        mathml.add(chapter.href);
+      }
+      documents.push({ name: `OEBPS/${chapter.href}`, data: this.chapterDocument(chapter.title, result.html, metadata.lang) });
+    }
+
+    const imageEntries: ZipEntry[] = [];
+    for (const [path, name] of images) {
+      // Images are compressed already
+      imageEntries.push({ name: `OEBPS/${name}`, data: new Uint8Array(await readFile(path)), store: true });
+    }
+
+    const zip = createZip([
+      { name: 'mimetype', data: 'application/epub+zip', store: true },
+      { name: 'META-INF/container.xml', data: CONTAINER_XML },
+      { name: 'OEBPS/content.opf', data: this.packageDocument(metadata, chapters, images, mathml) },
+      { name: 'OEBPS/nav.xhtml', data: this.navDocument(metadata, chapters) },
+      { name: 'OEBPS/style.css', data: await this.stylesheet() },
+      ...documents,
+      ...imageEntries,
+    ]);
+
+    await ensureDirectoryExists(this.options.outputFile);
+    await writeFile(this.options.outputFile, zip);
+    return { metadata, chapters, missing: [...new Set(missing)] };
+  }
+
+  private async collectChapters(): Promise<{ file: string; markdown: string; data: FrontMatter; body: string }[]> {
+    const chapters = [];
+    for (const file of await findMarkdownFiles(this.inputDir)) {
+      const markdown = await readFile(file, 'utf-8');
+      let parsed;
+      try {
+        parsed = parseFrontMatter(markdown);
+      } catch (error) {
+        throw new Error(`${relative(process.cwd(), file)}: ${error instanceof Error ? error.message : error}`);
+      }
+      if (parsed.data.order !== undefined && typeof parsed.data.order !== 'number') {
+        throw new Error(`${relative(process.cwd(), file)}: "order" must be a number`);
+      }
+      if (parsed.data.draft && !this.options.drafts) {
+        continue;
+      }
+      chapters.push({ file, markdown, data: parsed.data, body: parsed.body });
+    }
+
+    const index = resolve(this.inputDir, 'index.md');
+    const rank = (file: string, data: FrontMatter) =>
+      file === index ? -Infinity : typeof data.order === 'number' ? data.order : Infinity;
+    return chapters.sort((a, b) =>
+      rank(a.file, a.data) - rank(b.file, b.data) || this.toPath(a.file).localeCompare(this.toPath(b.file))
+    );
+  }
+
+  private readMetadata(data: FrontMatter, files: string[]): EpubMetadata {
+    const title = data.title || basename(this.inputDir);
+    const authors = (Array.isArray(data.author) ? data.author : data.author === undefined ? [] : [data.author]).map(String);
+    // Stable across builds of the same book, so readers keep their place
+    const hash = createHash('sha1').update([title, ...authors, ...files.map((file) => this.toPath(file))].join('\n')).digest('hex');
+    const uuid = `${hash.slice(0, 8)}-${hash.slice(8, 12)}-5${hash.slice(13, 16)}-${((parseInt(hash[16], 16) & 3) | 8).toString(16)}${hash.slice(17, 20)}-${hash.slice(20, 32)}`;
+
+    return {
+      title,
+      authors,
+      lang: typeof data.lang === 'string' ? data.lang : 'en',
+      identifier: typeof data.identifier === 'string' ? data.identifier : `urn:uuid:${uuid}`,
+      date: data.date,
+      description: typeof data.description === 'string' ? data.description : undefined,
+    };
+  }
+
+  private rewriteLink(href: string, from: string, hrefs: Map<string, string>): string {
+    const match = /^([^?#:]+\.md)(#.*)?$/i.exec(href);
+    if (!match) {
+      return href;
+    }
+    let target: string;
+    try {
+      target = resolve(dirname(from), decodeURIComponent(match[1]));
+    } catch {
+      return href;
+    }
+    const chapter = hrefs.get(target);
+    return chapter ? `${basename(chapter)}${match[2] ?? ''}` : href;
+  }
+
+  private async stylesheet(): Promise<string> {
+    let css = BOOK_CSS;
+    if (this.options.cssFile) {
+      try {
+        css += `\n${await readFile(this.options.cssFile, 'utf-8')}`;
+      } catch (error) {
+        console.warn(`Warning: Failed to read CSS file ${this.options.cssFile}: ${error}`);
+      }
+    }
+    if (this.options.cssContent) {
+      css += `\n${this.options.cssContent}`;
+    }
+    return css;
+  }
+
+  private chapterDocument(title: string, html: string, lang: string): string {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${escapeHtml(lang)}" xml:lang="${escapeHtml(lang)}">
+<head>
+  <meta charset="UTF-8" />
+  <title>${escapeHtml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="../style.css" />
+</head>
+<body>
+<section epub:type="chapter">
+${toXhtml(html)}</section>
+</body>
+</html>
+`;
+  }
+
+  private navDocument(metadata: EpubMetadata, chapters: EpubChapter[]): string {
+    const items = chapters.map((chapter) => `      <li><a href="${chapter.href}">${escapeHtml(chapter.title)}</a></li>`);
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${escapeHtml(metadata.lang)}" xml:lang="${escapeHtml(metadata.lang)}">
+<head>
+  <meta charset="UTF-8" />
+  <title>${escapeHtml(metadata.title)}</title>
+</head>
+<body>
+  <nav epub:type="toc" id="toc">
+    <h1>Contents</h1>
+    <ol>
+${items.join('\n')}
+    </ol>
+  </nav>
+</body>
+</html>
+`;
+  }
+
+  private packageDocument(metadata: EpubMetadata, chapters: EpubChapter[], images: Map<string, string>, mathml: Set<string>): string {
+    const modified = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+    const optional = [
+      ...metadata.authors.map((author) => `    <dc:creator>${escapeHtml(author)}</dc:creator>`),
+      ...(metadata.date ? [`    <dc:date>${escapeHtml(metadata.date)}</dc:date>`] : []),
+      ...(metadata.description ? [`    <dc:description>${escapeHtml(metadata.description)}</dc:description>`] : []),
+    ];
+    const id = (href: string) => basename(href, extname(href));
+    const manifest = [
+      '    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+      '    <item id="style" href="style.css" media-type="text/css"/>',
+      ...chapters.map((chapter) =>
+        `    <item id="${id(chapter.href)}" href="${chapter.href}" media-type="application/xhtml+xml"${mathml.has(chapter.href) ? ' properties="mathml"' : ''}/>`
+      ),
+      ...[...images].map(([path, name]) =>
+        `    <item id="${id(name)}" href="${name}" media-type="${Bun.file(path).type.split(';')[0]}"/>`
+      ),
+    ];
+    const spine = chapters.map((chapter) => `    <itemref idref="${id(chapter.href)}"/>`);
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${escapeHtml(metadata.lang)}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">${escapeHtml(metadata.identifier)}</dc:identifier>
+    <dc:title>${escapeHtml(metadata.title)}</dc:title>
+    <dc:language>${escapeHtml(metadata.lang)}</dc:language>
+${optional.map((line) => `${line}\n`).join('')}    <meta property="dcterms:modified">${modified}</meta>
+  </metadata>
+  <manifest>
+${manifest.join('\n')}
+  </manifest>
+  <spine>
+${spine.join('\n')}
+  </spine>
+</package>
+`;
+  }
+
+  private toPath(file: string): string {
+    return relative(this.inputDir, file).split(sep).join('/');
+  }
+}
+
+const CONTAINER_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`;
+
+/**
+ * Rewrites HTML as XHTML, which EPUB chapters must be: void elements are
+ * self-closed, attributes quoted and given values, and entities that XML
+ * does not define replaced
+ */
+export function toXhtml(html: string): string {
+  return html
+    .replace(START_TAG, (_, name: string, attributes: string, selfClosing: string) => {
+      let result = `<${name}`;
+      for (const [, attribute, double, single, bare] of attributes.matchAll(ATTRIBUTE)) {
+        const value = double ?? single ?? bare ?? attribute;
+        result += ` ${attribute}="${value.replace(/"/g, '&quot;').replace(/</g, '&lt;')}"`;
+      }
+      return `${result}${VOID_TAGS.test(name) || selfClosing ? ' />' : '>'}`;
+    })
+    .replace(/&(?!#\d+;|#x[0-9a-f]+;|(?:amp|lt|gt|quot|apos);)([a-z][a-z0-9]*;)?/gi, (match, entity?: string) => {
+      const code = entity ? NAMED_ENTITIES[entity.slice(0, -1)] : undefined;
+      return code === undefined ? `&amp;${entity ?? ''}` : `&#${code};`;
+    });
+}
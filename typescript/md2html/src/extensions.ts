@@ -0,0 +1,188 @@
+import katex from 'katex';
+import type { MarkedExtension, TokenizerAndRendererExtension } from 'marked';
+import { escapeHtml, slugify } from './utils.js';
+
+const ADMONITION_KINDS = ['note', 'tip', 'important', 'warning', 'caution'];
+const ADMONITION = /^ {0,3}> ?\[!(\w+)\][ \t]*([^\n]*)(?:\n|$)((?: {0,3}>[^\n]*(?:\n|$))*)/;
+
+/**
+ * GitHub-style callouts:
+ *
+ *     > [!WARNING] Optional title
+ *     > Body text
+ *
+ * Kinds other than note, tip, important, warning and caution stay
+ * ordinary blockquotes.
+ */
+export function admonitions(): MarkedExtension {
+  const extension: TokenizerAndRendererExtension = {
+    name: 'admonition',
+    level: 'block',
+    start: (src) => src.match(/^ {0,3}> ?\[!/m)?.index,
+    tokenizer(src) {
+      const match = ADMONITION.exec(src);
+      if (!match || !ADMONITION_KINDS.includes(match[1].toLowerCase())) {
+        return undefined;
+      }
+      return {
+        type: 'admonition',
+        raw: match[0],
+        kind: match[1].toLowerCase(),
+        title: match[2].trim(),
+        tokens: this.lexer.blockTokens(match[3].replace(/^ {0,3}> ?/gm, ''), []),
+      };
+    },
+    renderer(token) {
+      const title = token.title || token.kind.charAt(0).toUpperCase() + token.kind.slice(1);
+      return `<div class="admonition admonition-${token.kind}">\n`
+        + `<p class="admonition-title">${escapeHtml(title)}</p>\n`
+        + `${this.parser.parse(token.tokens ?? [])}</div>\n`;
+    },
+  };
+  return { extensions: [extension] };
+}
+
+/**
+ * Footnotes: `[^label]` references and `[^label]: text` definitions, whose
+ * following lines belong to them when indented by four spaces. Notes are
+ * numbered by first reference and listed at the end of the document;
+ * definitions that are never referenced are left out.
+ */
+export function footnotes(): MarkedExtension {
+  let defined = new Set<string>();
+  let order: string[] = [];
+  let references = new Map<string, number>();
+  let rendered = new Map<string, string>();
+
+  const id = (label: string) => slugify(label) || 'note';
+
+  const definition: TokenizerAndRendererExtension = {
+    name: 'footnoteDefinition',
+    level: 'block',
+    start: (src) => src.match(/^ {0,3}\[\^[^\]\s]+\]:/m)?.index,
+    tokenizer(src) {
+      const match = /^ {0,3}\[\^([^\]\s]+)\]:[ \t]*([^\n]*(?:\n(?:[ \t]*\n)*(?: {4}|\t)[^\n]*)*)(?:\n|$)/.exec(src);
+      if (!match) {
+        return undefined;
+      }
+      defined.add(match[1]);
+      return {
+        type: 'footnoteDefinition',
+        raw: match[0],
+        label: match[1],
+        tokens: this.lexer.blockTokens(match[2].replace(/^(?: {4}|\t)/gm, ''), []),
+      };
+    },
+    renderer(token) {
+      if (!rendered.has(token.label)) {
+        rendered.set(token.label, this.parser.parse(token.tokens ?? []));
+      }
+      return '';
+    },
+  };
+
+  const reference: TokenizerAndRendererExtension = {
+    name: 'footnoteReference',
+    level: 'inline',
+    start: (src) => {
+      const index = src.indexOf('[^');
+      return index === -1 ? undefined : index;
+    },
+    tokenizer(src) {
+      const match = /^\[\^([^\]\s]+)\]/.exec(src);
+      if (!match || !defined.has(match[1])) {
+        return undefined;
+      }
+      const label = match[1];
+      if (!order.includes(label)) {
+        order.push(label);
+      }
+      const count = (references.get(label) ?? 0) + 1;
+      references.set(label, count);
+      return { type: 'footnoteReference', raw: match[0], label, number: order.indexOf(label) + 1, count };
+    },
+    renderer(token) {
+      const refId = token.count === 1 ? `fnref-${id(token.label)}` : `fnref-${id(token.label)}-${token.count}`;
+      return `<sup class="footnote-ref"><a href="#fn-${id(token.label)}" id="${refId}">${token.number}</a></sup>`;
+    },
+  };
+
+  return {
+    extensions: [definition, reference],
+    hooks: {
+      preprocess(markdown) {
+        defined = new Set();
+        order = [];
+        references = new Map();
+        rendered = new Map();
+        return markdown;
+      },
+      postprocess(html) {
+        if (order.length === 0) {
+          return html;
+        }
+        const items = order.map((label) => {
+          const backref = `<a href="#fnref-${id(label)}" class="footnote-backref" aria-label="Back to reference">↩</a>`;
+          const note = rendered.get(label) ?? '';
+          const body = /<\/p>\n?$/.test(note)
+            ? note.replace(/<\/p>\n?$/, ` ${backref}</p>\n`)
+            : `${note}${backref}\n`;
+          return `<li id="fn-${id(label)}">\n${body}</li>`;
+        });
+        return `${html}<section class="footnotes">\n<ol>\n${items.join('\n')}\n</ol>\n</section>\n`;
+      },
+    },
+  };
+}
+
+/**
+ * Renders TeX to MathML, which browsers display without scripts or fonts.
+ * Invalid TeX is shown as its source with the error as a tooltip.
+ */
+export function renderMath(tex: string, displayMode: boolean): string {
+  return katex.renderToString(tex, { displayMode, output: 'mathml', throwOnError: false });
+}
+
+/**
+ * Math between `$…$` (inline) and `$$…$$` (display), including `$$` blocks
+ * on their own lines. A `$` followed by a space or preceded by one, like
+ * in "$5 and $10", is left as text.
+ */
+export function math(): MarkedExtension {
+  const block: TokenizerAndRendererExtension = {
+    name: 'mathBlock',
+    level: 'block',
+    start: (src) => src.match(/^ {0,3}\$\$/m)?.index,
+    tokenizer(src) {
+      const match = /^ {0,3}\$\$([\s\S]+?)\$\$[ \t]*(?:\n|$)/.exec(src);
+      if (!match) {
+        return undefined;
+      }
+      return { type: 'mathBlock', raw: match[0], text: match[1].trim() };
+    },
+    renderer: (token) => `<div class="math-display">${renderMath(token.text, true)}</div>\n`,
+  };
+
+  const inline: TokenizerAndRendererExtension = {
+    name: 'mathInline',
+    level: 'inline',
+    start: (src) => {
+      const index = src.indexOf('$');
+      return index === -1 ? undefined : index;
+    },
+    tokenizer(src) {
+      const display = /^\$\$((?:\\.|[^\\$])+?)\$\$/.exec(src);
+      if (display) {
+        return { type: 'mathInline', raw: display[0], text: display[1].trim(), displayMode: true };
+      }
+      const match = /^\$(?![\s$])((?:\\.|[^\\$\n])+?)(?<!\s)\$(?!\d)/.exec(src);
+      if (!match) {
+        return undefined;
+      }
+      return { type: 'mathInline', raw: match[0], text: match[1], displayMode: false };
+    },
+    renderer: (token) => renderMath(token.text, token.displayMode),
+  };
+
+  return { extensions: [block, inline] };
+}
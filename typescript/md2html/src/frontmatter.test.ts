@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'bun:test';
+import { parseFrontMatter, parseYaml, FrontMatterError } from './frontmatter.js';
+
+describe('parseFrontMatter', () => {
+  it('should split front matter from the body', () => {
+    const result = parseFrontMatter('---\ntitle: Hello\ndate: 2024-03-01\ntags: [a, b]\ndraft: false\n---\n# Body\n');
+
+    expect(result.data).toEqual({ title: 'Hello', date: '2024-03-01', tags: ['a', 'b'], draft: false });
+    expect(result.body).toBe('# Body\n');
+    expect(result.bodyLine).toBe(7);
+  });
+
+  it('should leave documents without front matter alone', () => {
+    expect(parseFrontMatter('# Title\n---\n')).toEqual({ data: {}, body: '# Title\n---\n', bodyLine: 1 });
+    expect(parseFrontMatter('---\nnot closed')).toEqual({ data: {}, body: '---\nnot closed', bodyLine: 1 });
+  });
+
+  it('should normalize known keys', () => {
+    const { data } = parseFrontMatter('---\ntitle: 2024\ntags: docs, guide\nlayout: post\n---\n');
+
+    expect(data.title).toBe('2024');
+    expect(data.tags).toEqual(['docs', 'guide']);
+    expect(data.layout).toBe('post');
+  });
+
+  it('should reject invalid known keys with their line', () => {
+    expect(() => parseFrontMatter('---\ntitle: x\ndate: someday\n---\n')).toThrow('Invalid date "someday" (line 3)');
+    expect(() => parseFrontMatter('---\ndraft: maybe\n---\n')).toThrow(FrontMatterError);
+    expect(() => parseFrontMatter('---\n- a\n---\n')).toThrow('must be a mapping');
+  });
+
+  it('should keep __proto__ keys as plain data', () => {
+    const { data } = parseFrontMatter('---\n__proto__:\n  draft: true\nmeta:\n  __proto__:\n    draft: true\n---\n');
+    const meta = data.meta as Record<string, unknown>;
+
+    expect(data.draft).toBeUndefined();
+    expect(meta.draft).toBeUndefined();
+    expect(Object.getPrototypeOf(meta)).toBe(Object.prototype);
+    expect(Object.getPrototypeOf(data)).toBe(Object.prototype);
+  });
+});
+
+describe('parseYaml', () => {
+  it('should parse scalars', () => {
+    expect(parseYaml([
+      'plain: Hello world',
+      'double: "a \\"quoted\\" # value"  # comment',
+      "single: 'it''s'",
+      'int: 42',
+      'float: -1.5',
+      'version: 1.2.3',
+      'yes: true',
+      'nothing: ~',
+      'url: https://example.com/#top',
+    ].join('\n'))).toEqual({
+      plain: 'Hello world',
+      double: 'a "quoted" # value',
+      single: "it's",
+      int: 42,
+      float: -1.5,
+      version: '1.2.3',
+      yes: true,
+      nothing: null,
+      url: 'https://example.com/#top',
+    });
+  });
+
+  it('should parse nested mappings and sequences', () => {
+    const yaml = [
+      'author:',
+      '  name: Ada',
+      '  links:',
+      '  - https://a.dev',
+      '  - https://b.dev',
+      'items:',
+      '  - name: one',
+      '    count: 1',
+      '  - name: two',
+      '  -',
+      '    - nested',
+      'flow: { a: [1, "x, y"], b: {} }',
+      'empty:',
+    ].join('\n');
+
+    expect(parseYaml(yaml)).toEqual({
+      author: { name: 'Ada', links: ['https://a.dev', 'https://b.dev'] },
+      items: [{ name: 'one', count: 1 }, { name: 'two' }, ['nested']],
+      flow: { a: [1, 'x, y'], b: {} },
+      empty: null,
+    });
+  });
+
+  it('should parse literal and folded block scalars', () => {
+    const yaml = 'literal: |\n  line one\n  # not a comment\n\n  line three\nfolded: >-\n  one\n  two\n\n  three\nafter: x';
+
+    expect(parseYaml(yaml)).toEqual({
+      literal: 'line one\n# not a comment\n\nline three\n',
+      folded: 'one two\nthree',
+      after: 'x',
+    });
+  });
+
+  it('should report errors with their line', () => {
+    expect(() => parseYaml('a: 1\n  b: 2', 5)).toThrow('Nested mappings are not allowed in compact mappings (line 5)');
+    expect(() => parseYaml('a: 1\na: 2')).toThrow('Map keys must be unique (line 2)');
+    expect(() => parseYaml('a: [1, 2')).toThrow(FrontMatterError);
+    expect(() => parseYaml('a: 1\nb: "open', 3)).toThrow('Missing closing "quote (line 4)');
+    expect(() => parseYaml('a: 1\n\tb: 2')).toThrow(FrontMatterError);
+  });
+});
@@ -0,0 +1,105 @@
+import { parseDocument } from 'yaml';
+
+export interface FrontMatter {
+  title?: string;
+  date?: string;
+  tags?: string[];
+  layout?: string;
+  draft?: boolean;
+  [key: string]: unknown;
+}
+
+export interface ParsedDocument {
+  data: FrontMatter;
+  /** Markdown after the front matter */
+  body: string;
+  /** 1-based line of the source where the body starts */
+  bodyLine: number;
+}
+
+export class FrontMatterError extends Error {
+  constructor(message: string, public readonly line: number) {
+    super(`${message} (line ${line})`);
+    this.name = 'FrontMatterError';
+  }
+}
+
+const OPEN = /^(?:﻿)?---[ \t]*\r?$/;
+const CLOSE = /^(?:---|\.\.\.)[ \t]*\r?$/;
+
+/**
+ * Splits a leading YAML front matter block from Markdown. A document that
+ * does not start with `---`, or never closes it, has no front matter.
+ */
+export function parseFrontMatter(markdown: string): ParsedDocument {
+  const lines = markdown.split('\n');
+  if (!OPEN.test(lines[0])) {
+    return { data: {}, body: markdown, bodyLine: 1 };
+  }
+
+  const end = lines.findIndex((line, index) => index > 0 && CLOSE.test(line));
+  if (end === -1) {
+    return { data: {}, body: markdown, bodyLine: 1 };
+  }
+
+  const yaml = lines.slice(1, end);
+  const data = parseYaml(yaml.join('\n'), 2);
+  if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+    throw new FrontMatterError('Front matter must be a mapping of keys to values', 2);
+  }
+  const keyLine = (key: string) => 2 + Math.max(0, yaml.findIndex((line) => line.startsWith(`${key}:`)));
+  return {
+    data: normalize(data as Record<string, unknown>, keyLine),
+    body: lines.slice(end + 1).join('\n'),
+    bodyLine: end + 2,
+  };
+}
+
+/**
+ * Checks the types of the keys md2html understands
+ */
+function normalize(data: Record<string, unknown>, keyLine: (key: string) => number): FrontMatter {
+  const result: FrontMatter = { ...data };
+
+  for (const key of ['title', 'layout'] as const) {
+    if (data[key] !== undefined && data[key] !== null && typeof data[key] !== 'string') {
+      result[key] = String(data[key]);
+    }
+  }
+
+  if (data.date !== undefined && data.date !== null) {
+    const date = String(data.date);
+    if (Number.isNaN(Date.parse(date))) {
+      throw new FrontMatterError(`Invalid date "${date}"`, keyLine('date'));
+    }
+    result.date = date;
+  }
+
+  if (data.tags !== undefined && data.tags !== null) {
+    result.tags = (Array.isArray(data.tags) ? data.tags : String(data.tags).split(','))
+      .map((tag) => String(tag).trim())
+      .filter(Boolean);
+  }
+
+  if (data.draft !== undefined && typeof data.draft !== 'boolean') {
+    throw new FrontMatterError('"draft" must be true or false', keyLine('draft'));
+  }
+
+  return result;
+}
+
+/**
+ * Parses YAML with the `yaml` package, reporting the first error as a
+ * `FrontMatterError` on its line. An empty document is an empty mapping.
+ *
+ * @param firstLine - line number of the text in its file, for errors
+ */
+export function parseYaml(text: string, firstLine = 1): unknown {
+  const document = parseDocument(text, { prettyErrors: false });
+  const [error] = document.errors;
+  if (error) {
+    const line = firstLine + text.slice(0, error.pos[0]).split('\n').length - 1;
+    throw new FrontMatterError(error.message, line);
+  }
+  return document.contents === null ? {} : document.toJS();
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'bun:test';
+import { highlightCode, listThemes, loadTheme } from './highlight.js';
+
+describe('highlightCode', () => {
+  it('should highlight common languages and their aliases', () => {
+    expect(highlightCode('echo hi', 'sh')).toContain('<span class="hljs-built_in">echo</span>');
+    expect(highlightCode('x', 'python')).toBe('x');
+  });
+
+  it('should skip unknown or missing languages', () => {
+    expect(highlightCode('x', 'not-a-language')).toBeUndefined();
+    expect(highlightCode('x', undefined)).toBeUndefined();
+  });
+});
+
+describe('themes', () => {
+  it('should list and load bundled themes', async () => {
+    const themes = await listThemes();
+
+    expect(themes).toContain('github');
+    expect(themes).toContain('base16/dracula');
+    expect(await loadTheme('github-dark')).toContain('.hljs');
+  });
+
+  it('should reject unknown themes', async () => {
+    await expect(loadTheme('nope')).rejects.toThrow('Unknown highlight theme "nope". Available themes: ');
+    await expect(loadTheme('../../package')).rejects.toThrow('Unknown highlight theme');
+  });
+});
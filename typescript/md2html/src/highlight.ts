@@ -0,0 +1,54 @@
+import hljs from 'highlight.js/lib/common';
+import { readFile, readdir } from 'fs/promises';
+import { createRequire } from 'module';
+import { dirname, join } from 'path';
+
+export const DEFAULT_THEME = 'github';
+
+const require = createRequire(import.meta.url);
+
+/**
+ * Highlights code for one of the common languages bundled with
+ * highlight.js, or one of their aliases such as `js` or `sh`
+ *
+ * @returns HTML with `hljs-*` classes, or undefined for unknown languages
+ */
+export function highlightCode(code: string, language: string | undefined): string | undefined {
+  if (!language || !hljs.getLanguage(language)) {
+    return undefined;
+  }
+  return hljs.highlight(code, { language, ignoreIllegals: true }).value;
+}
+
+function stylesDirectory(): string {
+  return dirname(require.resolve('highlight.js/styles/default.css'));
+}
+
+/**
+ * Names of the highlight.js themes, e.g. `github` or `base16/dracula`
+ */
+export async function listThemes(): Promise<string[]> {
+  const themes: string[] = [];
+  const collect = async (dir: string, prefix: string) => {
+    for (const entry of await readdir(dir, { withFileTypes: true })) {
+      if (entry.isDirectory()) {
+        await collect(join(dir, entry.name), `${prefix}${entry.name}/`);
+      } else if (entry.name.endsWith('.min.css')) {
+        themes.push(prefix + entry.name.slice(0, -'.min.css'.length));
+      }
+    }
+  };
+  await collect(stylesDirectory(), '');
+  return themes.sort();
+}
+
+/**
+ * Reads the CSS of a highlight.js theme
+ */
+export async function loadTheme(name: string): Promise<string> {
+  const themes = await listThemes();
+  if (!themes.includes(name)) {
+    throw new Error(`Unknown highlight theme "${name}". Available themes: ${themes.join(', ')}`);
+  }
+  return readFile(join(stylesDirectory(), `${name}.min.css`), 'utf-8');
+}
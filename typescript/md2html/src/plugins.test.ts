@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'bun:test';
+import { MarkdownConverter } from './converter.js';
+import { PluginError, type Md2HtmlPlugin } from './plugins.js';
+
+describe('plugins', () => {
+  const convert = (plugins: Md2HtmlPlugin[], markdown: string, errors: PluginError[] = []) =>
+    new MarkdownConverter({ plugins, onPluginError: (error) => errors.push(error) }).convertString(markdown);
+
+  it('should run every stage of the pipeline', () => {
+    const calls: string[] = [];
+    const html = convert([{
+      name: 'all',
+      preParse: (markdown) => {
+        calls.push('preParse');
+        return markdown.replace(':wave:', '👋');
+      },
+      transformTokens: (tokens) => {
+        calls.push('transformTokens');
+        for (const token of tokens) {
+          if (token.type === 'heading') {
+            token.depth = 2;
+          }
+        }
+      },
+      renderer: {
+        codespan(code) {
+          calls.push('renderer.codespan');
+          return `<kbd>${code}</kbd>`;
+        },
+      },
+      postHtml: (html) => {
+        calls.push('postHtml');
+        return `<article>\n${html}</article>\n`;
+      },
+    }], '# Hi :wave:\n\nPress `Ctrl`');
+
+    expect(html).toBe('<article>\n<h2>Hi 👋</h2>\n<p>Press <kbd>Ctrl</kbd></p>\n</article>\n');
+    expect(calls).toEqual(['preParse', 'transformTokens', 'renderer.codespan', 'postHtml']);
+  });
+
+  it('should run plugins in order, with pre and post ones first and last', () => {
+    const tag = (name: string, enforce?: 'pre' | 'post'): Md2HtmlPlugin => ({
+      name,
+      enforce,
+      preParse: (markdown) => `${markdown} ${name}`,
+      postHtml: (html) => `${html.trimEnd()}|${name}`,
+    });
+
+    expect(convert([tag('a'), tag('last', 'post'), tag('b'), tag('first', 'pre')], 'x'))
+      .toBe('<p>x first a b last</p>|first|a|b|last');
+  });
+
+  it('should fall back to the next renderer when an override returns false', () => {
+    const html = convert([
+      { name: 'python', renderer: { code: (code, lang) => lang === 'python' ? `<pre class="py">${code}</pre>\n` : false } },
+      { name: 'shell', renderer: { code: (code, lang) => lang === 'sh' ? `<pre class="sh">${code}</pre>\n` : false } },
+    ], '```python\np\n```\n\n```sh\ns\n```\n\n```js\nj\n```');
+
+    expect(html).toBe('<pre class="py">p</pre>\n<pre class="sh">s</pre>\n<pre><code class="language-js">j</code></pre>\n');
+  });
+
+  it('should apply render overrides with site hooks too', () => {
+    const converter = new MarkdownConverter({
+      plugins: [{ name: 'external', renderer: { link: (href, title, text) => href.startsWith('http') ? `<a href="${href}" rel="external">${text}</a>` : false } }],
+    });
+
+    expect(converter.convertString('[a](a.md) [b](https://b.dev)', { link: (href) => href.replace('.md', '.html') }))
+      .toBe('<p><a href="a.html">a</a> <a href="https://b.dev" rel="external">b</a></p>\n');
+  });
+
+  it('should isolate plugins that throw', () => {
+    const errors: PluginError[] = [];
+    const html = convert([
+      { name: 'bad-parse', preParse: () => { throw new Error('no parse'); } },
+      { name: 'bad-type', postHtml: () => undefined as unknown as string },
+      { name: 'bad-render', renderer: { strong: () => { throw new Error('no strong'); } } },
+      { name: 'good', postHtml: (html) => html.replace('<p>', '<p class="ok">') },
+    ], '**a**', errors);
+
+    expect(html).toBe('<p class="ok"><strong>a</strong></p>\n');
+    expect(errors.map((error) => error.message)).toEqual([
+      'Plugin "bad-parse" failed in preParse: no parse',
+      'Plugin "bad-render" failed in renderer.strong: no strong',
+      'Plugin "bad-type" failed in postHtml: expected a string, got undefined',
+    ]);
+    expect(errors[0]).toBeInstanceOf(PluginError);
+    expect(errors[0]).toMatchObject({ plugin: 'bad-parse', hook: 'preParse' });
+  });
+
+  it('should sanitize what plugins add', () => {
+    const converter = new MarkdownConverter({
+      sanitize: true,
+      plugins: [{ name: 'inject', postHtml: (html) => `${html}<img src=x onerror=alert(1)>` }],
+    });
+
+    expect(converter.convertString('a')).toBe('<p>a</p>\n<img src="x">');
+  });
+
+  it('should keep converters independent', () => {
+    const plain = new MarkdownConverter();
+    const custom = new MarkdownConverter({ headingAnchors: true, plugins: [{ name: 'em', renderer: { em: (text) => `<i>${text}</i>` } }] });
+    const markdown = '# A\n\n_b_';
+
+    expect(custom.convertString(markdown)).toContain('<i>b</i>');
+    expect(plain.convertString(markdown)).toBe('<h1>A</h1>\n<p><em>b</em></p>\n');
+    expect(custom.convertString(markdown)).toContain('<h1 id="a">A<a class="heading-anchor"');
+  });
+
+  it('should reject invalid plugins', () => {
+    const create = (plugin: unknown) => () => new MarkdownConverter({ plugins: [plugin as Md2HtmlPlugin] });
+
+    expect(create(null)).toThrow('Plugin 1 is not an object');
+    expect(create({ preParse: (markdown: string) => markdown })).toThrow('Plugin 1 has no name');
+    expect(create({ name: 'x', enforce: 'first' })).toThrow('Plugin "x" has an invalid enforce "first", expected "pre" or "post"');
+    expect(create({ name: 'x', postHtml: 'html' })).toThrow('Plugin "x" has a postHtml that is not a function');
+    expect(create({ name: 'x', renderer: { admonition: () => '' } })).toThrow('Plugin "x" overrides unknown renderer method "admonition"');
+  });
+});
@@ -0,0 +1,145 @@
+import { Renderer, type RendererObject, type Token } from 'marked';
+import type { ConversionOptions } from './converter.js';
+
+export interface PluginContext {
+  /** Options of the converter running the plugin */
+  options: ConversionOptions;
+}
+
+/**
+ * Hooks into a converter's pipeline. Every hook is optional:
+ *
+ * 1. `preParse` edits the Markdown before it is parsed
+ * 2. `transformTokens` edits the parsed tokens, in place or by returning new ones
+ * 3. `renderer` overrides how tokens become HTML; an override returning
+ *    `false` falls back to the next plugin, then to the built-in renderer
+ * 4. `postHtml` edits the finished HTML, before `sanitize` runs
+ */
+export interface Md2HtmlPlugin {
+  /** Identifies the plugin in error messages */
+  name: string;
+  /** Run before (`pre`) or after (`post`) plugins without it; otherwise in the order given */
+  enforce?: 'pre' | 'post';
+  preParse?: (markdown: string, context: PluginContext) => string;
+  transformTokens?: (tokens: Token[], context: PluginContext) => Token[] | void;
+  renderer?: RendererObject;
+  postHtml?: (html: string, context: PluginContext) => string;
+}
+
+/**
+ * A plugin hook that threw. The conversion goes on as if the hook had not
+ * been there.
+ */
+export class PluginError extends Error {
+  constructor(public readonly plugin: string, public readonly hook: string, public readonly cause: unknown) {
+    super(`Plugin "${plugin}" failed in ${hook}: ${cause instanceof Error ? cause.message : cause}`);
+    this.name = 'PluginError';
+  }
+}
+
+const HOOKS = ['preParse', 'transformTokens', 'postHtml'] as const;
+
+/**
+ * Runs the hooks of a converter's plugins in order, isolating failures:
+ * a hook that throws is reported to `onError` and its step is skipped
+ */
+export class PluginPipeline {
+  readonly plugins: Md2HtmlPlugin[];
+
+  constructor(
+    plugins: Md2HtmlPlugin[],
+    private readonly context: PluginContext,
+    private readonly onError: (error: PluginError) => void
+  ) {
+    plugins.forEach(validatePlugin);
+    const rank = (plugin: Md2HtmlPlugin) => plugin.enforce === 'pre' ? 0 : plugin.enforce === 'post' ? 2 : 1;
+    this.plugins = [...plugins].sort((a, b) => rank(a) - rank(b));
+  }
+
+  preParse(markdown: string): string {
+    for (const plugin of this.plugins) {
+      if (plugin.preParse) {
+        markdown = this.run(plugin, 'preParse', () => expectString(plugin.preParse!(markdown, this.context)), markdown);
+      }
+    }
+    return markdown;
+  }
+
+  transformTokens(tokens: Token[]): Token[] {
+    for (const plugin of this.plugins) {
+      if (plugin.transformTokens) {
+        tokens = this.run(plugin, 'transformTokens', () => plugin.transformTokens!(tokens, this.context) ?? tokens, tokens);
+      }
+    }
+    return tokens;
+  }
+
+  postHtml(html: string): string {
+    for (const plugin of this.plugins) {
+      if (plugin.postHtml) {
+        html = this.run(plugin, 'postHtml', () => expectString(plugin.postHtml!(html, this.context)), html);
+      }
+    }
+    return html;
+  }
+
+  /**
+   * Wraps the renderer's methods with the plugins' overrides, so the first
+   * plugin gets the first say
+   */
+  applyRenderer(renderer: Renderer): void {
+    const methods = renderer as unknown as Record<string, (...args: unknown[]) => string>;
+    for (const plugin of [...this.plugins].reverse()) {
+      for (const [name, override] of Object.entries(plugin.renderer ?? {})) {
+        const fallback = methods[name].bind(renderer);
+        const render = override as (...args: unknown[]) => string | false;
+        methods[name] = (...args) => {
+          const html = this.run(plugin, `renderer.${name}`, () => render.apply(renderer, args), false);
+          return html === false ? fallback(...args) : html;
+        };
+      }
+    }
+  }
+
+  private run<T>(plugin: Md2HtmlPlugin, hook: string, step: () => T, fallback: T): T {
+    try {
+      return step();
+    } catch (error) {
+      this.onError(new PluginError(plugin.name, hook, error));
+      return fallback;
+    }
+  }
+}
+
+function expectString(value: unknown): string {
+  if (typeof value !== 'string') {
+    throw new TypeError(`expected a string, got ${value === null ? 'null' : typeof value}`);
+  }
+  return value;
+}
+
+function validatePlugin(plugin: Md2HtmlPlugin, index: number): void {
+  if (!plugin || typeof plugin !== 'object') {
+    throw new TypeError(`Plugin ${index + 1} is not an object`);
+  }
+  if (typeof plugin.name !== 'string' || !plugin.name) {
+    throw new TypeError(`Plugin ${index + 1} has no name`);
+  }
+  if (plugin.enforce !== undefined && plugin.enforce !== 'pre' && plugin.enforce !== 'post') {
+    throw new TypeError(`Plugin "${plugin.name}" has an invalid enforce "${plugin.enforce}", expected "pre" or "post"`);
+  }
+  for (const hook of HOOKS) {
+    if (plugin[hook] !== undefined && typeof plugin[hook] !== 'function') {
+      throw new TypeError(`Plugin "${plugin.name}" has a ${hook} that is not a function`);
+    }
+  }
+  const renderer = Renderer.prototype as unknown as Record<string, unknown>;
+  for (const [name, override] of Object.entries(plugin.renderer ?? {})) {
+    if (typeof renderer[name] !== 'function' || name === 'constructor') {
+      throw new TypeError(`Plugin "${plugin.name}" overrides unknown renderer method "${name}"`);
+    }
+    if (typeof override !== 'function') {
+      throw new TypeError(`Plugin "${plugin.name}" has a renderer.${name} that is not a function`);
+    }
+  }
+}
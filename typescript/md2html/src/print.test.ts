@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'bun:test';
+import { applyPrintLayout, printCss } from './print.js';
+
+describe('printCss', () => {
+  it('should set the page size, margins and page numbers', () => {
+    const css = printCss({}, 'Report');
+
+    expect(css).toStartWith('@page {\n  size: A4;\n  margin: 20mm;\n  @bottom-center { content: counter(page) " / " counter(pages); }\n}');
+    expect(css).toContain('pre, blockquote, table, figure, img, .admonition, .math-display { break-inside: avoid; }');
+    expect(css).not.toContain('@top-center');
+  });
+
+  it('should fill in headers and footers', () => {
+    const css = printCss({ pageSize: 'Letter landscape', margin: '1in 0.75in', header: '{title} – "draft"', footer: 'Page {page} of {pages}' }, 'A </style> \\ B');
+
+    expect(css).toContain('size: Letter landscape;\n  margin: 1in 0.75in;');
+    expect(css).toContain('@top-center { content: "A \\3C /style> \\\\ B – \\"draft\\""; }');
+    expect(css).toContain('@bottom-center { content: "Page " counter(page) " of " counter(pages); }');
+    expect(printCss({ footer: '' }, 'A')).not.toContain('@bottom-center');
+  });
+
+  it('should break pages before headings', () => {
+    expect(printCss({ breakBefore: 2 }, 'A')).toEndWith('\n:is(h1, h2):not(:first-child) { break-before: page; }');
+    expect(() => printCss({ breakBefore: 7 }, 'A')).toThrow('Invalid heading level 7 for page breaks, expected 1 to 6');
+  });
+
+  it('should reject values that would escape the rule', () => {
+    expect(() => printCss({ pageSize: 'A4; } body { display: none' }, 'A')).toThrow('Invalid page size');
+    expect(() => printCss({ margin: '1in}' }, 'A')).toThrow('Invalid margin');
+  });
+});
+
+describe('applyPrintLayout', () => {
+  it('should add the print styles last in the head', () => {
+    const html = applyPrintLayout('<html><head><style>body{}</style></head><body><p>a</p>\n<!-- pagebreak -->\n<p>b</p><!--page-break--></body></html>', {}, 'A');
+
+    expect(html).toMatch(/^<html><head><style>body\{\}<\/style><style>\n@page \{[\s\S]*\.page-break \{ break-after: page; \}\n<\/style>\n<\/head>/);
+    expect(html).toContain('<p>a</p>\n<div class="page-break"></div>\n<p>b</p><div class="page-break"></div></body>');
+  });
+
+  it('should prepend the print styles to fragments', () => {
+    expect(applyPrintLayout('<p>a</p>', {}, 'A')).toMatch(/^<style>\n@page[\s\S]*<\/style>\n<p>a<\/p>$/);
+  });
+});
@@ -0,0 +1,91 @@
+export interface PrintOptions {
+  /** CSS page size, e.g. `A4`, `Letter` or `210mm 297mm` (default A4) */
+  pageSize?: string;
+  /** CSS page margins (default `20mm`) */
+  margin?: string;
+  /** Text at the top of every page; `{title}`, `{page}` and `{pages}` are replaced */
+  header?: string;
+  /** Text at the bottom of every page (default `{page} / {pages}`); empty for none */
+  footer?: string;
+  /** Start a new page before headings of this level and above, e.g. 2 for h1 and h2 */
+  breakBefore?: number;
+}
+
+export const DEFAULT_FOOTER = '{page} / {pages}';
+
+const PAGE_BREAK = /<!--\s*page-?break\s*-->/gi;
+
+/**
+ * CSS that lays a page out for printing or headless PDF rendering: page
+ * size and margins, running headers and footers, page breaks, and no
+ * breaks inside code blocks, tables and figures
+ */
+export function printCss(options: PrintOptions, title: string): string {
+  const pageSize = checkCssValue('page size', options.pageSize ?? 'A4');
+  const margin = checkCssValue('margin', options.margin ?? '20mm');
+  const header = options.header ? `\n  @top-center { content: ${marginContent(options.header, title)}; }` : '';
+  const footer = options.footer ?? DEFAULT_FOOTER;
+  const footerBox = footer ? `\n  @bottom-center { content: ${marginContent(footer, title)}; }` : '';
+
+  let css = `@page {
+  size: ${pageSize};
+  margin: ${margin};${header}${footerBox}
+}
+@media print {
+  body { max-width: none; margin: 0; padding: 0; font-size: 11pt; }
+  * { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  a { color: inherit; }
+  a[href^="http"]::after { content: " (" attr(href) ")"; font-size: 0.85em; color: #555; }
+  h1, h2, h3, h4, h5, h6 { break-after: avoid; }
+  pre, blockquote, table, figure, img, .admonition, .math-display { break-inside: avoid; }
+  p, li { orphans: 3; widows: 3; }
+  pre, pre code { white-space: pre-wrap; word-break: break-word; }
+  .heading-anchor, .site-nav { display: none; }
+}
+.page-break { break-after: page; }`;
+
+  if (options.breakBefore !== undefined) {
+    if (!Number.isInteger(options.breakBefore) || options.breakBefore < 1 || options.breakBefore > 6) {
+      throw new Error(`Invalid heading level ${options.breakBefore} for page breaks, expected 1 to 6`);
+    }
+    const headings = Array.from({ length: options.breakBefore }, (_, i) => `h${i + 1}`).join(', ');
+    css += `\n:is(${headings}):not(:first-child) { break-before: page; }`;
+  }
+  return css;
+}
+
+/**
+ * Lays out a rendered page for print: `<!-- pagebreak -->` comments become
+ * page breaks, and the print styles are added last in the head so they
+ * win over the template's own
+ */
+export function applyPrintLayout(html: string, options: PrintOptions, title: string): string {
+  const style = `<style>\n${printCss(options, title)}\n</style>`;
+  html = html.replace(PAGE_BREAK, '<div class="page-break"></div>');
+  return /<\/head>/i.test(html)
+    ? html.replace(/<\/head>/i, `${style}\n</head>`)
+    : `${style}\n${html}`;
+}
+
+function checkCssValue(name: string, value: string): string {
+  if (!/^[\w\s.%-]+$/.test(value)) {
+    throw new Error(`Invalid ${name} "${value}"`);
+  }
+  return value.trim();
+}
+
+/**
+ * Builds a margin box `content` value, with page counters for `{page}`
+ * and `{pages}`
+ */
+function marginContent(text: string, title: string): string {
+  const parts = text.replace(/\{title\}/g, title).split(/(\{page\}|\{pages\})/);
+  return parts
+    .filter((part) => part !== '')
+    .map((part) => part === '{page}' ? 'counter(page)' : part === '{pages}' ? 'counter(pages)' : cssString(part))
+    .join(' ') || '""';
+}
+
+function cssString(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\A ').replace(/</g, '\\3C ')}"`;
+}
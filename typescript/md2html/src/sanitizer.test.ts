@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'bun:test';
+import { HtmlSanitizer, sanitizeHtml } from './sanitizer.js';
+import { MarkdownConverter } from './converter.js';
+
+// Markdown and HTML an attacker might submit; each must come out inert
+const XSS_VECTORS = [
+  '<script>alert(1)</script>',
+  '<SCRIPT SRC=//evil.example/x.js></SCRIPT>',
+  '<script>document.write("<img src=x onerror=alert(1)>")</script>',
+  '<img src=x onerror=alert(1)>',
+  '<img src="x" onerror="alert(1)">',
+  '<IMG SRC="javascript:alert(1);">',
+  '<img src=javascript:alert(1)>',
+  '<img """><script>alert(1)</script>">',
+  '<img src=x:alert(1) onerror=eval(src)>',
+  '<svg onload=alert(1)>',
+  '<svg><script>alert(1)</script></svg>',
+  '<body onload=alert(1)>',
+  '<iframe src="javascript:alert(1)"></iframe>',
+  '<iframe srcdoc="<script>alert(1)</script>"></iframe>',
+  '<object data="javascript:alert(1)"></object>',
+  '<embed src="javascript:alert(1)">',
+  '<a href="javascript:alert(1)">x</a>',
+  '<a href="JaVaScRiPt:alert(1)">x</a>',
+  '<a href=" javascript:alert(1)">x</a>',
+  '<a href="java\tscript:alert(1)">x</a>',
+  '<a href="java&#x09;script:alert(1)">x</a>',
+  '<a href="&#106;&#97;&#118;&#97;&#115;&#99;&#114;&#105;&#112;&#116;&#58;alert(1)">x</a>',
+  '<a href="&#x6A&#x61&#x76&#x61&#x73&#x63&#x72&#x69&#x70&#x74&#x3A;alert(1)">x</a>',
+  '<a href="javascript&colon;alert(1)">x</a>',
+  '<a href="vbscript:msgbox(1)">x</a>',
+  '<a href="data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==">x</a>',
+  '<a href="x" onclick="alert(1)">x</a>',
+  '<a href="x" onmouseover=alert(1)>x</a>',
+  '<a/href="javascript:alert(1)">x</a>',
+  '[x](javascript:alert(1))',
+  '[x](JAVASCRIPT:alert(1))',
+  '[x](javascript&#58;alert(1))',
+  '[x](<javascript:alert(1)>)',
+  '[x][ref]\n\n[ref]: javascript:alert(1)',
+  '![x](javascript:alert(1))',
+  '![x](data:image/svg+xml;base64,PHN2ZyBvbmxvYWQ9YWxlcnQoMSk+)',
+  '<javascript:alert(1)>',
+  '<div style="background:url(javascript:alert(1))">x</div>',
+  '<div style="x:expression(alert(1))">x</div>',
+  '<style>@import "javascript:alert(1)";</style>',
+  '<link rel="stylesheet" href="javascript:alert(1)">',
+  '<meta http-equiv="refresh" content="0;url=javascript:alert(1)">',
+  '<base href="javascript:alert(1)//">',
+  '<form action="javascript:alert(1)"><button>x</button></form>',
+  '<button formaction="javascript:alert(1)">x</button>',
+  '<input onfocus=alert(1) autofocus>',
+  '<details open ontoggle=alert(1)>',
+  '<video><source onerror="alert(1)"></video>',
+  '<math><mtext><table><mglyph><style><!--</style><img title="--&gt;&lt;img src=1 onerror=alert(1)&gt;">',
+  '<!--<img src=x onerror=alert(1)>-->',
+  '<!--><img src=x onerror=alert(1)>-->',
+  '<noscript><p title="</noscript><img src=x onerror=alert(1)>">',
+  '<textarea><img src=x onerror=alert(1)></textarea>',
+  '<title><img src=x onerror=alert(1)></title>',
+  '<xmp><img src=x onerror=alert(1)></xmp>',
+  '<template><img src=x onerror=alert(1)></template>',
+  '<scr<script>ipt>alert(1)</scr</script>ipt>',
+  '<<script>alert(1)//<</script>',
+  '<img src=x onerror=alert(1)//',
+  '<a href="#" title="x" onfocus="alert(1)" autofocus>x</a>',
+  '> [!NOTE] <img src=x onerror=alert(1)>\n> <script>alert(1)</script>',
+  'Note[^1]\n\n[^1]: <a href="javascript:alert(1)">x</a>',
+  '<p id="x" class="y" title=\'a"><script>alert(1)</script>\'>z</p>',
+];
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);?/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);?/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&colon;/gi, ':');
+}
+
+function expectInert(html: string): void {
+  expect(html).not.toMatch(/<\/?(script|style|iframe|object|embed|svg|link|meta|base|form|button|body|video|source|template|noscript|textarea|title|xmp)\b/i);
+  // Attribute values are always double-quoted and escaped, so text inside them is inert
+  expect(html.replace(/"[^"]*"/g, '""')).not.toMatch(/<[^>]*\s(on\w+|style|srcdoc|formaction|action)\s*=/i);
+  for (const [, value] of html.matchAll(/\s(?:href|src)="([^"]*)"/gi)) {
+    expect(decodeEntities(value).replace(/[\u0000- ]/g, '')).not.toMatch(/^(javascript|vbscript|data):/i);
+  }
+}
+
+describe('HtmlSanitizer', () => {
+  describe('XSS vectors', () => {
+    const sanitizer = new HtmlSanitizer();
+    const converter = new MarkdownConverter({ sanitize: true });
+    const mathConverter = new MarkdownConverter({ sanitize: true, math: true, headingAnchors: true });
+
+    for (const vector of XSS_VECTORS) {
+      it(`should neutralize ${JSON.stringify(vector)}`, () => {
+        expectInert(sanitizer.sanitize(vector));
+        expectInert(converter.convertString(vector));
+        expectInert(mathConverter.convertString(vector));
+      });
+    }
+  });
+
+  it('should keep what Markdown produces', () => {
+    const converter = new MarkdownConverter({ sanitize: true, math: true, headingAnchors: true });
+    const markdown = [
+      '# Title',
+      '',
+      '**bold** _em_ ~~del~~ `code` [link](https://example.com "T") ![alt](img/a.png)',
+      '',
+      '| a | b |',
+      '|:--|--:|',
+      '| 1 | 2 |',
+      '',
+      '- [x] done',
+      '',
+      '> [!NOTE]',
+      '> note',
+      '',
+      'Math $x^2$ and note[^1].',
+      '',
+      '[^1]: Footnote.',
+    ].join('\n');
+
+    expect(converter.convertString(markdown)).toBe(new MarkdownConverter({ math: true, headingAnchors: true }).convertString(markdown));
+  });
+
+  it('should remove disallowed tags but keep their text', () => {
+    expect(sanitizeHtml('<p>a <font color=red>b</font> <script>c</script>d</p>')).toBe('<p>a b d</p>');
+  });
+
+  it('should filter attributes and quote what it keeps', () => {
+    expect(sanitizeHtml('<a href=/docs title=\'say "hi"\' onclick=x target=_blank>x</a>'))
+      .toBe('<a href="/docs" title="say &quot;hi&quot;">x</a>');
+    expect(sanitizeHtml('<img src="a.png" src="javascript:x" alt="<b>">')).toBe('<img src="a.png" alt="&lt;b&gt;">');
+  });
+
+  it('should balance tags', () => {
+    expect(sanitizeHtml('</div><p><em>open')).toBe('<p><em>open</em></p>');
+    expect(sanitizeHtml('<ul><li>a</ul>')).toBe('<ul><li>a</li></ul>');
+    expect(sanitizeHtml('a < b and <3')).toBe('a &lt; b and &lt;3');
+  });
+
+  it('should accept a custom allow-list', () => {
+    const sanitizer = new HtmlSanitizer({
+      allowedTags: ['a', 'img'],
+      allowedAttributes: { a: ['href'], img: ['src'] },
+      allowedSchemes: ['https', 'data'],
+    });
+
+    expect(sanitizer.sanitize('<p><a href="http://x.dev" class="c">x</a><img src="data:image/png;base64,AA"></p>'))
+      .toBe('<a>x</a><img src="data:image/png;base64,AA">');
+  });
+});
@@ -0,0 +1,198 @@
+export interface SanitizeOptions {
+  /** Tags to keep; others are removed but their text is kept */
+  allowedTags?: string[];
+  /** Attributes to keep by tag name, with `*` for every tag */
+  allowedAttributes?: Record<string, string[]>;
+  /** URL schemes allowed in links and images; relative URLs always are */
+  allowedSchemes?: string[];
+}
+
+const MATHML_TAGS = [
+  'math', 'semantics', 'annotation', 'mrow', 'mi', 'mn', 'mo', 'ms', 'mtext', 'mspace', 'msup', 'msub',
+  'msubsup', 'mfrac', 'msqrt', 'mroot', 'mover', 'munder', 'munderover', 'mtable', 'mtr', 'mtd',
+  'mstyle', 'mpadded', 'mphantom', 'menclose',
+];
+
+export const DEFAULT_SANITIZE_OPTIONS: Required<SanitizeOptions> = {
+  allowedTags: [
+    'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'br', 'hr', 'blockquote', 'pre', 'code', 'kbd', 'samp',
+    'em', 'strong', 'b', 'i', 'u', 's', 'del', 'ins', 'mark', 'small', 'sub', 'sup', 'abbr',
+    'ul', 'ol', 'li', 'dl', 'dt', 'dd', 'a', 'img', 'input', 'table', 'thead', 'tbody', 'tfoot',
+    'tr', 'th', 'td', 'caption', 'div', 'span', 'section', 'details', 'summary', 'figure', 'figcaption',
+    ...MATHML_TAGS,
+  ],
+  allowedAttributes: {
+    '*': ['class', 'id', 'title', 'lang', 'dir', 'aria-label', 'aria-hidden'],
+    a: ['href'],
+    img: ['src', 'alt', 'width', 'height'],
+    input: ['type', 'checked', 'disabled'],
+    ol: ['start'],
+    th: ['align', 'colspan', 'rowspan'],
+    td: ['align', 'colspan', 'rowspan'],
+    details: ['open'],
+    math: ['xmlns', 'display'],
+    annotation: ['encoding'],
+    mo: ['stretchy', 'fence', 'separator', 'lspace', 'rspace', 'form', 'largeop', 'movablelimits'],
+    mi: ['mathvariant'],
+    mstyle: ['displaystyle', 'scriptlevel', 'mathcolor'],
+    mspace: ['width'],
+    mpadded: ['width', 'height', 'depth', 'lspace', 'voffset'],
+    mfrac: ['linethickness'],
+    mtable: ['rowspacing', 'columnspacing', 'columnalign'],
+    mtd: ['columnalign'],
+    menclose: ['notation'],
+  },
+  allowedSchemes: ['http', 'https', 'mailto', 'tel'],
+};
+
+const VOID_TAGS = new Set(['br', 'hr', 'img', 'input', 'mspace']);
+
+// Removed together with everything inside them
+const DROP_CONTENT_TAGS = new Set([
+  'script', 'style', 'iframe', 'object', 'embed', 'template', 'noscript', 'noembed', 'noframes',
+  'textarea', 'title', 'xmp', 'plaintext', 'svg',
+]);
+
+const URL_ATTRIBUTES = new Set(['href', 'src']);
+
+const TAG = /^<(\/?)([a-zA-Z][a-zA-Z0-9:-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?|\s*\/)*)\s*>/;
+const ATTRIBUTE = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  colon: ':', tab: '\t', newline: '\n', amp: '&', lt: '<', gt: '>', quot: '"', apos: "'",
+  lpar: '(', rpar: ')', sol: '/', bsol: '\\', period: '.', comma: ',', semi: ';', num: '#',
+};
+
+/**
+ * Removes everything from HTML that is not on an allow-list: unknown tags,
+ * attributes such as event handlers, and URLs with schemes like
+ * `javascript:`. The output is re-serialized, so unbalanced or malformed
+ * markup cannot change how the result is parsed.
+ */
+export class HtmlSanitizer {
+  private readonly allowedTags: Set<string>;
+  private readonly allowedAttributes: Map<string, Set<string>>;
+  private readonly allowedSchemes: Set<string>;
+
+  constructor(options: SanitizeOptions = {}) {
+    this.allowedTags = new Set((options.allowedTags ?? DEFAULT_SANITIZE_OPTIONS.allowedTags).map((t) => t.toLowerCase()));
+    this.allowedAttributes = new Map(
+      Object.entries(options.allowedAttributes ?? DEFAULT_SANITIZE_OPTIONS.allowedAttributes)
+        .map(([tag, attributes]) => [tag.toLowerCase(), new Set(attributes.map((a) => a.toLowerCase()))])
+    );
+    this.allowedSchemes = new Set((options.allowedSchemes ?? DEFAULT_SANITIZE_OPTIONS.allowedSchemes).map((s) => s.toLowerCase()));
+  }
+
+  sanitize(html: string): string {
+    let output = '';
+    const open: string[] = [];
+    let position = 0;
+
+    while (position < html.length) {
+      const next = html.indexOf('<', position);
+      if (next === -1) {
+        output += html.slice(position);
+        break;
+      }
+      output += html.slice(position, next);
+      position = next;
+      const rest = html.slice(position);
+
+      // Comments, doctypes and processing instructions are dropped
+      if (rest.startsWith('<!--')) {
+        const end = /^<!--(?:>|->|[\s\S]*?--!?>)/.exec(rest);
+        position += end ? end[0].length : rest.length;
+        continue;
+      }
+      if (/^<[!?]/.test(rest)) {
+        const end = rest.indexOf('>');
+        position += end === -1 ? rest.length : end + 1;
+        continue;
+      }
+
+      const match = TAG.exec(rest);
+      if (!match) {
+        output += '&lt;';
+        position++;
+        continue;
+      }
+      position += match[0].length;
+
+      const closing = match[1] === '/';
+      const name = match[2].toLowerCase();
+      if (!closing && DROP_CONTENT_TAGS.has(name) && !this.allowedTags.has(name)) {
+        const end = new RegExp(`</${name}\\s*>`, 'i').exec(html.slice(position));
+        position = end ? position + end.index + end[0].length : html.length;
+        continue;
+      }
+      if (!this.allowedTags.has(name)) {
+        continue;
+      }
+
+      if (closing) {
+        const index = open.lastIndexOf(name);
+        if (index !== -1) {
+          output += open.splice(index).reverse().map((tag) => `</${tag}>`).join('');
+        }
+        continue;
+      }
+
+      output += `<${name}${this.sanitizeAttributes(name, match[3])}>`;
+      if (!VOID_TAGS.has(name) && !/\/\s*$/.test(match[3])) {
+        open.push(name);
+      }
+    }
+
+    return output + open.reverse().map((tag) => `</${tag}>`).join('');
+  }
+
+  private sanitizeAttributes(tag: string, source: string): string {
+    const allowed = new Set([
+      ...(this.allowedAttributes.get('*') ?? []),
+      ...(this.allowedAttributes.get(tag) ?? []),
+    ]);
+    const seen = new Set<string>();
+    let result = '';
+
+    for (const match of source.matchAll(ATTRIBUTE)) {
+      const name = match[1].toLowerCase();
+      if (!allowed.has(name) || seen.has(name)) {
+        continue;
+      }
+      const value = match[2] ?? match[3] ?? match[4];
+      if (URL_ATTRIBUTES.has(name) && value !== undefined && !this.isSafeUrl(value)) {
+        continue;
+      }
+      seen.add(name);
+      result += value === undefined
+        ? ` ${name}`
+        : ` ${name}="${value.replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;')}"`;
+    }
+    return result;
+  }
+
+  private isSafeUrl(value: string): boolean {
+    // Browsers ignore whitespace and control characters inside schemes,
+    // and decode entities before reading them
+    const url = decodeEntities(value).replace(/[\u0000- \u007f-\u009f]/g, '').toLowerCase();
+    const scheme = /^([^/?#]*?):/.exec(url);
+    return !scheme || this.allowedSchemes.has(scheme[1]);
+  }
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(?:#(\d+)|#x([0-9a-f]+)|([a-z]+));?/gi, (entity, decimal, hex, name) => {
+    if (decimal || hex) {
+      const code = parseInt(decimal ?? hex, decimal ? 10 : 16);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '';
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Sanitizes HTML with the default allow-list, or the given one
+ */
+export function sanitizeHtml(html: string, options?: SanitizeOptions): string {
+  return new HtmlSanitizer(options).sanitize(html);
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { PreviewServer } from './server.js';
+import { writeFile, mkdir, rm } from 'fs/promises';
+import { join } from 'path';
+
+describe('PreviewServer', () => {
+  const testDir = join(process.cwd(), 'test-server-dir');
+  let server: PreviewServer;
+  let url: string;
+
+  beforeAll(async () => {
+    await mkdir(join(testDir, 'guide'), { recursive: true });
+    await writeFile(join(testDir, 'page.html'), '<html><body><h1>Page</h1></body></html>', 'utf-8');
+    await writeFile(join(testDir, 'guide', 'index.html'), '<h1>Guide</h1>', 'utf-8');
+    await writeFile(join(testDir, 'style.css'), 'body {}', 'utf-8');
+    server = new PreviewServer({ root: testDir, port: 0 });
+    url = server.start();
+  });
+
+  afterAll(async () => {
+    server.stop();
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should serve HTML with the live reload script', async () => {
+    const response = await fetch(`${url}page.html`);
+    const html = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(html).toContain('<h1>Page</h1>');
+    expect(html).toMatch(/EventSource\('\/__md2html\/livereload'\)[\s\S]*<\/script>\n<\/body>/);
+  });
+
+  it('should serve index.html for directories and other files as they are', async () => {
+    expect(await (await fetch(`${url}guide/`)).text()).toContain('<h1>Guide</h1>');
+    expect(await (await fetch(`${url}style.css`)).text()).toBe('body {}');
+  });
+
+  it('should not serve files outside the root', async () => {
+    expect((await fetch(`${url}missing.html`)).status).toBe(404);
+    expect((await fetch(`${url}..%2Fpackage.json`)).status).toBe(404);
+    expect((await fetch(`${url}%E0%A4%A`)).status).toBe(400);
+  });
+
+  it('should send reload events to connected pages', async () => {
+    const response = await fetch(`${url}__md2html/livereload`);
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let received = decoder.decode((await reader.read()).value);
+    expect(received).toContain(': connected');
+
+    server.reload();
+    received = decoder.decode((await reader.read()).value);
+    expect(received).toContain('event: reload');
+    await reader.cancel();
+  });
+});
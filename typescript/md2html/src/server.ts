@@ -0,0 +1,121 @@
+import { join, resolve, sep } from 'path';
+import type { Server } from 'bun';
+import { isDirectory } from './utils.js';
+
+export interface PreviewServerOptions {
+  root: string;
+  port?: number;
+  hostname?: string;
+}
+
+const LIVE_RELOAD_PATH = '/__md2html/livereload';
+
+const LIVE_RELOAD_SCRIPT = `<script>
+  new EventSource('${LIVE_RELOAD_PATH}').addEventListener('reload', () => location.reload());
+</script>`;
+
+/**
+ * Serves a directory for local preview. HTML pages get a small script that
+ * reloads them whenever `reload()` is called.
+ */
+export class PreviewServer {
+  private server?: Server;
+  private clients = new Set<ReadableStreamDefaultController<string>>();
+  private readonly root: string;
+
+  constructor(private readonly options: PreviewServerOptions) {
+    this.root = resolve(options.root);
+  }
+
+  get url(): string {
+    if (!this.server) {
+      throw new Error('Preview server is not running');
+    }
+    return `http://${this.server.hostname}:${this.server.port}/`;
+  }
+
+  start(): string {
+    this.server = Bun.serve({
+      port: this.options.port ?? 3000,
+      hostname: this.options.hostname ?? 'localhost',
+      // Live reload connections stay open without traffic
+      idleTimeout: 0,
+      fetch: (request) => this.handle(request),
+    });
+    return this.url;
+  }
+
+  reload(): void {
+    for (const client of this.clients) {
+      client.enqueue('event: reload\ndata: \n\n');
+    }
+  }
+
+  stop(): void {
+    for (const client of this.clients) {
+      client.close();
+    }
+    this.clients.clear();
+    this.server?.stop(true);
+    this.server = undefined;
+  }
+
+  private async handle(request: Request): Promise<Response> {
+    const { pathname } = new URL(request.url);
+    if (pathname === LIVE_RELOAD_PATH) {
+      return this.liveReload();
+    }
+
+    let decoded: string;
+    try {
+      decoded = decodeURIComponent(pathname);
+    } catch {
+      return new Response('Bad Request', { status: 400 });
+    }
+    let filePath = resolve(this.root, `.${decoded}`);
+    if (filePath !== this.root && !filePath.startsWith(this.root + sep)) {
+      return new Response('Not Found', { status: 404 });
+    }
+    if (await isDirectory(filePath)) {
+      filePath = join(filePath, 'index.html');
+    }
+
+    const file = Bun.file(filePath);
+    if (!(await file.exists())) {
+      return new Response('Not Found', { status: 404 });
+    }
+    if (!filePath.endsWith('.html')) {
+      return new Response(file);
+    }
+
+    const html = await file.text();
+    const body = html.includes('</body>')
+      ? html.replace(/<\/body>(?![\s\S]*<\/body>)/, `${LIVE_RELOAD_SCRIPT}\n</body>`)
+      : html + LIVE_RELOAD_SCRIPT;
+    return new Response(body, {
+      headers: { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' },
+    });
+  }
+
+  private liveReload(): Response {
+    let controller: ReadableStreamDefaultController<string>;
+    const stream = new ReadableStream<string>({
+      start: (c) => {
+        controller = c;
+        this.clients.add(c);
+        c.enqueue(': connected\n\n');
+      },
+      cancel: () => {
+        this.clients.delete(controller);
+      },
+    });
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      },
+    });
+  }
+}
+
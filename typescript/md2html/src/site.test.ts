@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { SiteBuilder, DeadLinkError, findLinks, rewriteMarkdownLink } from './site.js';
+import { MarkdownConverter } from './converter.js';
+import { TemplateProcessor } from './template.js';
+import { existsSync } from 'fs';
+import { writeFile, readFile, mkdir, rm } from 'fs/promises';
+import { join } from 'path';
+
+describe('SiteBuilder', () => {
+  const testDir = join(process.cwd(), 'test-site-dir');
+  const inputDir = join(testDir, 'docs');
+  const outputDir = join(testDir, 'dist');
+
+  const write = async (path: string, content: string) => {
+    await mkdir(join(inputDir, path, '..'), { recursive: true });
+    await writeFile(join(inputDir, path), content, 'utf-8');
+  };
+  const read = (path: string) => readFile(join(outputDir, path), 'utf-8');
+  const build = (baseUrl?: string) => new SiteBuilder({
+    inputDir,
+    outputDir,
+    converter: new MarkdownConverter(),
+    templateProcessor: new TemplateProcessor(),
+    baseUrl,
+  }).build();
+
+  beforeEach(async () => {
+    await write('guide/install.md', '# Install\n\n## Requirements\n\n### Bun\n\n## Steps\n\nSee [usage](../usage.md#options).');
+    await write('usage.md', '# Usage\n\n## Options\n\n![diagram](img/flow.png)\n\n[Install](guide/install.md)');
+    await write('img/flow.png', 'png');
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should rewrite Markdown links and add heading ids', async () => {
+    await build();
+    const usage = await read('usage.html');
+
+    expect(usage).toContain('<a href="guide/install.html">Install</a>');
+    expect(usage).toContain('<h2 id="options">Options</h2>');
+    expect(await read('guide/install.html')).toContain('<a href="../usage.html#options">usage</a>');
+  });
+
+  it('should add navigation with the current page marked', async () => {
+    await build();
+    const install = await read('guide/install.html');
+
+    expect(install).toContain('<nav class="site-nav"');
+    expect(install).toContain('<a href="install.html" aria-current="page">Install</a>');
+    expect(install).toContain('<a href="../usage.html">Usage</a>');
+    expect(install).toContain('<span>Guide</span>');
+  });
+
+  it('should add a nested table of contents', async () => {
+    await build();
+    const install = await read('guide/install.html');
+
+    expect(install).toMatch(
+      /<nav class="toc"[^>]*>\n<ul>\n<li><a href="#requirements">Requirements<\/a>\n<ul>\n<li><a href="#bun">Bun<\/a><\/li>\n<\/ul>\n<\/li>\n<li><a href="#steps">Steps<\/a><\/li>\n<\/ul>\n<\/nav>/
+    );
+    expect(await read('usage.html')).toContain('<a href="#options">Options</a>');
+  });
+
+  it('should generate an index page unless one exists', async () => {
+    await build();
+    const index = await read('index.html');
+    expect(index).toContain('<ul class="site-index">');
+    expect(index).toContain('<a href="guide/install.html">Install</a>');
+
+    await write('index.md', '# Home');
+    await build();
+    expect(await read('index.html')).toContain('<h1 id="home">Home</h1>');
+  });
+
+  it('should write a sitemap only with a base URL', async () => {
+    await build();
+    expect(existsSync(join(outputDir, 'sitemap.xml'))).toBe(false);
+
+    await build('https://example.com/docs');
+    const sitemap = await read('sitemap.xml');
+    expect(sitemap).toContain('<loc>https://example.com/docs/guide/install.html</loc>');
+    expect(sitemap).toContain('<loc>https://example.com/docs/usage.html</loc>');
+    expect(sitemap).toMatch(/<lastmod>\d{4}-\d{2}-\d{2}<\/lastmod>/);
+  });
+
+  it('should copy linked files', async () => {
+    const { written } = await build();
+
+    expect(written).toContain('img/flow.png');
+    expect(await read('img/flow.png')).toBe('png');
+  });
+
+  it('should use front matter and leave out drafts', async () => {
+    await write('usage.md', '---\ntitle: How to use\n---\n# Usage\n\n## Options\n\n[Install](guide/install.md)');
+    await write('wip.md', '---\ndraft: true\n---\n# Work in progress');
+    await build();
+
+    expect(await read('usage.html')).toContain('<title>How to use</title>');
+    expect(await read('guide/install.html')).toContain('<a href="../usage.html">How to use</a>');
+    expect(existsSync(join(outputDir, 'wip.html'))).toBe(false);
+
+    await write('usage.md', '---\ntitle: How to use\n---\n\n[WIP](wip.md)');
+    await rm(outputDir, { recursive: true, force: true });
+    await expect(build()).rejects.toThrow(`${join('test-site-dir', 'docs', 'usage.md')}:5:7: Dead link "wip.md": ${join('test-site-dir', 'docs', 'wip.md')} is a draft`);
+  });
+
+  it('should fail on dead links and anchors with their location', async () => {
+    await write('usage.md', '# Usage\n\n[missing](missing.md)\n\n```\n[ignored](nope.md)\n```\n\nSee `[code](nope.md)` and [install](guide/install.md#nope).\n\n[ref]: ./gone.png\n\n## Options');
+
+    let error: unknown;
+    try {
+      await build();
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(DeadLinkError);
+    const problems = (error as DeadLinkError).problems;
+    expect(problems.map((p) => [p.line, p.column, p.href])).toEqual([
+      [3, 11, 'missing.md'],
+      [9, 37, 'guide/install.md#nope'],
+      [11, 8, './gone.png'],
+    ]);
+    expect((error as Error).message).toContain(`${join('test-site-dir', 'docs', 'usage.md')}:3:11:`);
+    expect(existsSync(outputDir)).toBe(false);
+  });
+});
+
+describe('findLinks', () => {
+  it('should find inline links, images and external URLs', () => {
+    expect(findLinks('[a](https://x.dev) [b](//cdn.dev/x.js) [c](mailto:a@b.c) [d](#top)').map((l) => l.href))
+      .toEqual(['https://x.dev', '//cdn.dev/x.js', 'mailto:a@b.c', '#top']);
+  });
+
+  it('should not read footnotes as links', () => {
+    expect(findLinks('Note[^1]\n\n[^1]: See the docs.\n[docs]: ./docs.md')).toEqual([{ href: './docs.md', line: 4, column: 9 }]);
+  });
+
+  it('should read titles and angle brackets', () => {
+    expect(findLinks('[a](<my file.md> "Title") [b](b.md \'t\')').map((l) => l.href)).toEqual(['my file.md', 'b.md']);
+  });
+});
+
+describe('rewriteMarkdownLink', () => {
+  it('should only rewrite relative Markdown links', () => {
+    expect(rewriteMarkdownLink('a/b.md')).toBe('a/b.html');
+    expect(rewriteMarkdownLink('b.md?x=1#top')).toBe('b.html?x=1#top');
+    expect(rewriteMarkdownLink('https://github.com/a/README.md')).toBe('https://github.com/a/README.md');
+    expect(rewriteMarkdownLink('notes.mdx')).toBe('notes.mdx');
+  });
+});
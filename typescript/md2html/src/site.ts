@@ -0,0 +1,432 @@
+import { readFile, writeFile, copyFile, stat } from 'fs/promises';
+import { basename, dirname, join, posix, relative, resolve, sep } from 'path';
+import { MarkdownConverter } from './converter.js';
+import { TemplateProcessor } from './template.js';
+import { parseFrontMatter, type FrontMatter } from './frontmatter.js';
+import { ensureDirectoryExists, escapeHtml, findMarkdownFiles, isFile, Slugger } from './utils.js';
+
+export interface SiteOptions {
+  inputDir: string;
+  outputDir: string;
+  converter: MarkdownConverter;
+  templateProcessor: TemplateProcessor;
+  cssFile?: string;
+  /** Extra CSS embedded in every page, e.g. a highlighting theme */
+  cssContent?: string;
+  /** Absolute URL of the site root; enables sitemap.xml */
+  baseUrl?: string;
+  /** Include pages marked `draft: true` */
+  drafts?: boolean;
+}
+
+export interface Heading {
+  level: number;
+  text: string;
+  id: string;
+}
+
+export interface SitePage {
+  /** Absolute path of the Markdown source */
+  source: string;
+  /** Output path relative to the site root, with forward slashes */
+  url: string;
+  title: string;
+  html: string;
+  headings: Heading[];
+  modified: Date;
+  data: FrontMatter;
+}
+
+export interface LinkProblem {
+  file: string;
+  line: number;
+  column: number;
+  href: string;
+  message: string;
+}
+
+export interface SiteResult {
+  pages: SitePage[];
+  /** Files written, relative to the output directory */
+  written: string[];
+}
+
+/**
+ * Thrown when pages link to files or headings that do not exist
+ */
+export class DeadLinkError extends Error {
+  constructor(public readonly problems: LinkProblem[]) {
+    super(
+      `Found ${problems.length} dead link(s):\n` +
+      problems.map((p) => `  ${p.file}:${p.line}:${p.column}: ${p.message}`).join('\n')
+    );
+    this.name = 'DeadLinkError';
+  }
+}
+
+interface SourceLink {
+  href: string;
+  line: number;
+  column: number;
+}
+
+interface NavNode {
+  name: string;
+  pages: SitePage[];
+  children: Map<string, NavNode>;
+}
+
+const INLINE_LINK = /(!?)\[(?:[^[\]]|\[[^\]]*\])*\]\(\s*(<[^>]*>|[^\s)]+)(?:\s+(?:"[^"]*"|'[^']*'|\([^)]*\)))?\s*\)/g;
+// Footnote definitions (`[^1]: text`) look similar but are not links
+const REFERENCE_DEFINITION = /^( {0,3}\[(?!\^)[^\]]+\]:\s*)(<[^>]*>|\S+)/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * Builds a static documentation site from a directory of Markdown files:
+ * `.md` links become `.html`, every page gets a navigation tree and a table
+ * of contents, and an index page and sitemap are generated. Links to
+ * missing pages, files or headings fail the build before anything is
+ * written.
+ */
+export class SiteBuilder {
+  private readonly inputDir: string;
+  private readonly outputDir: string;
+
+  constructor(private readonly options: SiteOptions) {
+    this.inputDir = resolve(options.inputDir);
+    this.outputDir = resolve(options.outputDir);
+  }
+
+  async build(): Promise<SiteResult> {
+    const files = await findMarkdownFiles(this.inputDir);
+    const sources = new Map<string, string>();
+    const drafts = new Set<string>();
+    for (const file of files) {
+      const source = await readFile(file, 'utf-8');
+      try {
+        if (parseFrontMatter(source).data.draft && !this.options.drafts) {
+          drafts.add(file);
+          continue;
+        }
+      } catch (error) {
+        throw new Error(`${relative(process.cwd(), file)}: ${error instanceof Error ? error.message : error}`);
+      }
+      sources.set(file, source);
+    }
+
+    const pages = await Promise.all([...sources].map(([file, source]) => this.renderPage(file, source)));
+    const { problems, assets } = await this.checkLinks(pages, sources, drafts);
+    if (problems.length > 0) {
+      throw new DeadLinkError(problems);
+    }
+
+    const written: string[] = [];
+    const write = async (url: string, content: string) => {
+      const outputFile = join(this.outputDir, ...url.split('/'));
+      await ensureDirectoryExists(outputFile);
+      await writeFile(outputFile, content, 'utf-8');
+      written.push(url);
+    };
+
+    for (const page of pages) {
+      await write(page.url, await this.options.templateProcessor.processContent(page.html, {
+        title: page.title,
+        cssFile: this.options.cssFile,
+        cssContent: this.options.cssContent,
+        nav: this.renderNav(pages, page),
+        toc: this.renderToc(page),
+        data: page.data,
+      }));
+    }
+
+    if (!pages.some((page) => page.url === 'index.html')) {
+      const index: SitePage = {
+        source: join(this.inputDir, 'index.md'),
+        url: 'index.html',
+        title: 'Index',
+        html: '',
+        headings: [],
+        modified: new Date(),
+        data: {},
+      };
+      await write('index.html', await this.options.templateProcessor.processContent(
+        `<h1>Index</h1>\n${this.renderTree(pages, index, 'site-index')}`,
+        { title: 'Index', cssFile: this.options.cssFile, cssContent: this.options.cssContent, nav: '' }
+      ));
+    }
+
+    if (this.options.baseUrl) {
+      await write('sitemap.xml', this.renderSitemap(pages, this.options.baseUrl));
+    }
+
+    for (const asset of assets) {
+      const target = join(this.outputDir, relative(this.inputDir, asset));
+      await ensureDirectoryExists(target);
+      await copyFile(asset, target);
+      written.push(relative(this.inputDir, asset).split(sep).join('/'));
+    }
+
+    return { pages, written };
+  }
+
+  private async renderPage(file: string, markdown: string): Promise<SitePage> {
+    const headings: Heading[] = [];
+    const slugger = new Slugger();
+    const { data, body } = parseFrontMatter(markdown);
+    const html = this.options.converter.convertString(body, {
+      link: (href) => rewriteMarkdownLink(href),
+      headingId: (text, level) => {
+        const id = slugger.slug(text);
+        headings.push({ level, text, id });
+        return id;
+      },
+    });
+
+    return {
+      source: file,
+      url: this.toUrl(file),
+      title: this.options.converter.extractTitle(markdown) || basename(file, '.md'),
+      html,
+      headings,
+      modified: (await stat(file)).mtime,
+      data,
+    };
+  }
+
+  /**
+   * Checks every relative link against the pages, their headings and the
+   * files in the input directory
+   *
+   * @returns Problems found, and the non-Markdown files linked to, which
+   * are copied to the output
+   */
+  private async checkLinks(
+    pages: SitePage[],
+    sources: Map<string, string>,
+    drafts: Set<string>
+  ): Promise<{ problems: LinkProblem[]; assets: Set<string> }> {
+    const bySource = new Map(pages.map((page) => [page.source, page]));
+    const problems: LinkProblem[] = [];
+    const assets = new Set<string>();
+
+    for (const page of pages) {
+      const file = relative(process.cwd(), page.source);
+      const { body, bodyLine } = parseFrontMatter(sources.get(page.source)!);
+      for (const link of findLinks(body, bodyLine)) {
+        const problem = (message: string) => problems.push({ file, line: link.line, column: link.column, href: link.href, message });
+        if (isExternal(link.href)) {
+          continue;
+        }
+
+        const [pathPart, fragment] = splitHref(link.href);
+        let target = page;
+        if (pathPart) {
+          const targetPath = pathPart.startsWith('/')
+            ? join(this.inputDir, safeDecode(pathPart))
+            : resolve(dirname(page.source), safeDecode(pathPart));
+          if (targetPath !== this.inputDir && !targetPath.startsWith(this.inputDir + sep)) {
+            problem(`Link "${link.href}" points outside the site`);
+            continue;
+          }
+
+          const linkedPage = bySource.get(targetPath)
+            ?? bySource.get(targetPath.replace(/\.html$/i, '.md'));
+          if (!linkedPage) {
+            const draft = drafts.has(targetPath) ? targetPath : targetPath.replace(/\.html$/i, '.md');
+            if (drafts.has(draft)) {
+              problem(`Dead link "${link.href}": ${relative(process.cwd(), draft)} is a draft`);
+            } else if (/\.md$/i.test(targetPath) || !(await isFile(targetPath))) {
+              problem(`Dead link "${link.href}": ${relative(process.cwd(), targetPath)} does not exist`);
+            } else {
+              assets.add(targetPath);
+            }
+            continue;
+          }
+          target = linkedPage;
+        }
+
+        if (fragment !== undefined) {
+          const id = safeDecode(fragment);
+          if (id && !target.headings.some((heading) => heading.id === id)) {
+            problem(`Dead link "${link.href}": no heading "#${id}" in ${relative(process.cwd(), target.source)}`);
+          }
+        }
+      }
+    }
+
+    return { problems, assets };
+  }
+
+  private toUrl(file: string): string {
+    return relative(this.inputDir, file).split(sep).join('/').replace(/\.md$/, '.html');
+  }
+
+  private renderNav(pages: SitePage[], current: SitePage): string {
+    return `<nav class="site-nav" aria-label="Site">\n${this.renderTree(pages, current)}\n</nav>`;
+  }
+
+  private renderTree(pages: SitePage[], current: SitePage, className?: string): string {
+    const root: NavNode = { name: '', pages: [], children: new Map() };
+    for (const page of pages) {
+      const parts = page.url.split('/');
+      let node = root;
+      for (const dir of parts.slice(0, -1)) {
+        if (!node.children.has(dir)) {
+          node.children.set(dir, { name: dir, pages: [], children: new Map() });
+        }
+        node = node.children.get(dir)!;
+      }
+      node.pages.push(page);
+    }
+
+    const renderNode = (node: NavNode): string => {
+      const items: string[] = [];
+      const sorted = [...node.pages].sort((a, b) => navOrder(a) - navOrder(b) || a.url.localeCompare(b.url));
+      for (const page of sorted) {
+        const href = escapeHtml(relativeUrl(current.url, page.url));
+        const currentAttr = page === current ? ' aria-current="page"' : '';
+        items.push(`<li><a href="${href}"${currentAttr}>${escapeHtml(page.title)}</a></li>`);
+      }
+      for (const child of [...node.children.values()].sort((a, b) => a.name.localeCompare(b.name))) {
+        items.push(`<li><span>${escapeHtml(prettifyName(child.name))}</span>\n${renderNode(child)}</li>`);
+      }
+      return `<ul>\n${items.join('\n')}\n</ul>`;
+    };
+
+    const html = renderNode(root);
+    return className ? html.replace('<ul>', `<ul class="${className}">`) : html;
+  }
+
+  private renderToc(page: SitePage): string {
+    const headings = page.headings.filter((heading) => heading.level >= 2 && heading.level <= 3);
+    if (headings.length === 0) {
+      return '';
+    }
+
+    let html = '<nav class="toc" aria-label="Table of contents">\n<ul>\n';
+    let depth = headings[0].level;
+    let open = false;
+    for (const heading of headings) {
+      if (heading.level > depth) {
+        html += '\n<ul>\n';
+      } else if (heading.level < depth) {
+        html += '</li>\n</ul>\n</li>\n';
+      } else if (open) {
+        html += '</li>\n';
+      }
+      depth = heading.level;
+      open = true;
+      html += `<li><a href="#${escapeHtml(heading.id)}">${escapeHtml(heading.text)}</a>`;
+    }
+    html += '</li>\n';
+    while (depth > headings[0].level) {
+      html += '</ul>\n</li>\n';
+      depth--;
+    }
+    return `${html}</ul>\n</nav>`;
+  }
+
+  private renderSitemap(pages: SitePage[], baseUrl: string): string {
+    const base = baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`;
+    const entries = [...pages]
+      .sort((a, b) => a.url.localeCompare(b.url))
+      .map((page) => [
+        '  <url>',
+        `    <loc>${escapeHtml(new URL(page.url.split('/').map(encodeURIComponent).join('/'), base).href)}</loc>`,
+        `    <lastmod>${page.modified.toISOString().slice(0, 10)}</lastmod>`,
+        '  </url>',
+      ].join('\n'));
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+      ...entries,
+      '</urlset>',
+      '',
+    ].join('\n');
+  }
+}
+
+/**
+ * Finds link targets in Markdown source with their 1-based line and
+ * column, skipping fenced code blocks and inline code
+ *
+ * @param firstLine - line number of the text in its file
+ */
+export function findLinks(markdown: string, firstLine = 1): SourceLink[] {
+  const links: SourceLink[] = [];
+  let fence: string | null = null;
+
+  markdown.split('\n').forEach((rawLine, index) => {
+    const fenceMatch = rawLine.match(FENCE);
+    if (fence) {
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+        fence = null;
+      }
+      return;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      return;
+    }
+
+    // Blank out code spans so their contents are not read as links
+    const line = rawLine.replace(/(`+)[^`]*?\1/g, (code) => ' '.repeat(code.length));
+
+    const definition = line.match(REFERENCE_DEFINITION);
+    if (definition) {
+      links.push({ href: unwrapAngles(definition[2]), line: index + firstLine, column: definition[1].length + 1 });
+      return;
+    }
+    for (const match of line.matchAll(INLINE_LINK)) {
+      const hrefOffset = match[0].indexOf('(') + match[0].slice(match[0].indexOf('(') + 1).search(/\S/) + 1;
+      links.push({ href: unwrapAngles(match[2]), line: index + firstLine, column: match.index! + hrefOffset + 1 });
+    }
+  });
+
+  return links;
+}
+
+/**
+ * Points a relative `.md` link at the generated `.html` page
+ */
+export function rewriteMarkdownLink(href: string): string {
+  if (isExternal(href)) {
+    return href;
+  }
+  return href.replace(/^([^?#]*?)\.md(?=$|[?#])/i, '$1.html');
+}
+
+function isExternal(href: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:/i.test(href) || href.startsWith('//');
+}
+
+function splitHref(href: string): [string, string | undefined] {
+  const hash = href.indexOf('#');
+  const path = (hash === -1 ? href : href.slice(0, hash)).replace(/\?.*$/, '');
+  return [path, hash === -1 ? undefined : href.slice(hash + 1)];
+}
+
+function unwrapAngles(href: string): string {
+  return href.startsWith('<') && href.endsWith('>') ? href.slice(1, -1) : href;
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function relativeUrl(from: string, to: string): string {
+  return posix.relative(posix.dirname(from), to) || posix.basename(to);
+}
+
+function navOrder(page: SitePage): number {
+  return /(^|\/)(index|readme)\.html$/i.test(page.url) ? 0 : 1;
+}
+
+function prettifyName(name: string): string {
+  const words = name.replace(/[-_]+/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
 import { TemplateProcessor } from './template.js';
-import { writeFile, unlink } from 'fs/promises';
+import { writeFile, unlink, mkdir, rm } from 'fs/promises';
 import { join } from 'path';
 
 describe('TemplateProcessor', () => {
@@ -55,6 +55,21 @@ describe('TemplateProcessor', () => {
       
       expect(result).toContain('<style>\nbody { background: red; }\n</style>');
     });
+    it('should add navigation and table of contents before the content', async () => {
+      const result = await processor.processContent('<h1>Doc</h1>', {
+        nav: '<nav class="site-nav"></nav>',
+        toc: '<nav class="toc"></nav>',
+      });
+
+      expect(result).toContain('<nav class="site-nav"></nav>\n<nav class="toc"></nav>\n<h1>Doc</h1>');
+    });
+
+    it('should use nav and toc placeholders when the template has them', async () => {
+      const custom = new TemplateProcessor('<aside>{{nav}}</aside><main>{{toc}}{{content}}</main>');
+      const result = await custom.processContent('<p>$& text</p>', { nav: 'N', toc: 'T' });
+
+      expect(result).toBe('<aside>N</aside><main>T<p>$& text</p></main>');
+    });
   });
 
   describe('fromFile', () => {
@@ -164,4 +179,46 @@ describe('TemplateProcessor', () => {
       expect(result).toBe('<html><body class="custom"><p>test</p></body></html>');
     });
   });
-});
\ No newline at end of file
+
+  describe('front matter and layouts', () => {
+    const layouts = {
+      default: '<title>{{title}}</title>{{> partials/meta}}{{{content}}}',
+      post: '<article data-date="{{date}}">{{content}}</article>',
+      'partials/meta': '{{#if tags}}<ul>{{#each tags}}<li>{{this}}</li>{{/each}}</ul>{{/if}}{{#if page.author}}by {{author}}{{/if}}',
+    };
+
+    it('should expose front matter to the template, escaped', async () => {
+      const processor = new TemplateProcessor(undefined, layouts);
+      const result = await processor.processContent('<p>Body</p>', {
+        title: 'A & B',
+        data: { tags: ['x', '<script>'], author: '<img onerror=alert(1)>' },
+      });
+
+      expect(result).toBe('<title>A &amp; B</title><ul><li>x</li><li>&lt;script&gt;</li></ul>by &lt;img onerror=alert(1)&gt;<p>Body</p>');
+    });
+
+    it('should use the layout named in the front matter', async () => {
+      const processor = new TemplateProcessor(undefined, layouts);
+
+      expect(await processor.processContent('<p>Post</p>', { data: { layout: 'post', date: '2024-05-01' } }))
+        .toBe('<article data-date="2024-05-01"><p>Post</p></article>');
+      await expect(processor.processContent('', { data: { layout: 'missing' } })).rejects.toThrow('Unknown layout "missing"');
+    });
+
+    it('should load layouts and partials from a directory', async () => {
+      const dir = join(process.cwd(), 'test-layouts-dir');
+      await mkdir(join(dir, 'partials'), { recursive: true });
+      try {
+        for (const [name, source] of Object.entries(layouts)) {
+          await writeFile(join(dir, `${name}.html`), source, 'utf-8');
+        }
+        const processor = await TemplateProcessor.fromDirectory(dir);
+
+        expect(await processor.processContent('<p>Hi</p>', { title: 'Dir' })).toBe('<title>Dir</title><p>Hi</p>');
+        expect(processor.getPlaceholders()).toEqual(['title', 'content']);
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
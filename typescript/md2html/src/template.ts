@@ -1,4 +1,7 @@
-import { readFile } from 'fs/promises';
+import { readFile, readdir } from 'fs/promises';
+import { join, relative, sep } from 'path';
+import { Template, SafeString } from './engine.js';
+import type { FrontMatter } from './frontmatter.js';
 
 export interface TemplateOptions {
   title?: string;
@@ -6,6 +9,12 @@ export interface TemplateOptions {
   cssFile?: string;
   charset?: string;
   lang?: string;
+  /** Site navigation, placed at `{{nav}}` or before the content */
+  nav?: string;
+  /** Table of contents, placed at `{{toc}}` or before the content */
+  toc?: string;
+  /** Front matter of the page; `layout` picks the template */
+  data?: FrontMatter;
 }
 
 export class TemplateProcessor {
@@ -70,6 +79,76 @@ export class TemplateProcessor {
       max-width: 100%;
       height: auto;
     }
+    .site-nav {
+      border-bottom: 1px solid #ddd;
+      margin-bottom: 1em;
+      padding-bottom: 0.5em;
+      font-size: 0.9em;
+    }
+    .site-nav ul, .toc ul {
+      list-style: none;
+      padding-left: 1em;
+    }
+    .site-nav > ul {
+      padding-left: 0;
+    }
+    .site-nav a[aria-current="page"] {
+      font-weight: bold;
+    }
+    .toc {
+      background-color: #f9f9f9;
+      border-radius: 5px;
+      padding: 0.5em 1em;
+      font-size: 0.9em;
+    }
+    pre:has(> code.hljs) {
+      padding: 0;
+    }
+    pre code.hljs {
+      border-radius: 5px;
+    }
+    .admonition {
+      border-left: 4px solid #0969da;
+      background-color: #f6f8fa;
+      margin: 1em 0;
+      padding: 0.5em 1em;
+    }
+    .admonition-title {
+      font-weight: bold;
+      margin: 0;
+    }
+    .admonition-tip {
+      border-left-color: #1a7f37;
+    }
+    .admonition-important {
+      border-left-color: #8250df;
+    }
+    .admonition-warning {
+      border-left-color: #9a6700;
+    }
+    .admonition-caution {
+      border-left-color: #cf222e;
+    }
+    .task-list-item {
+      list-style: none;
+    }
+    .heading-anchor {
+      margin-left: 0.3em;
+      color: #aaa;
+      text-decoration: none;
+      visibility: hidden;
+    }
+    :is(h1, h2, h3, h4, h5, h6):hover .heading-anchor {
+      visibility: visible;
+    }
+    .footnotes {
+      border-top: 1px solid #ddd;
+      margin-top: 2em;
+      font-size: 0.9em;
+    }
+    .math-display {
+      overflow-x: auto;
+    }
   </style>
 </head>
 <body>
@@ -77,10 +156,20 @@ export class TemplateProcessor {
 </body>
 </html>`;
 
-  private template: string;
+  private template: Template;
+  private templates = new Map<string, Template>();
 
-  constructor(customTemplate?: string) {
-    this.template = customTemplate || TemplateProcessor.DEFAULT_TEMPLATE;
+  /**
+   * @param templates - Layouts and partials by name, e.g. `post` or
+   * `partials/header`
+   */
+  constructor(customTemplate?: string, templates: Record<string, string> = {}) {
+    for (const [name, source] of Object.entries(templates)) {
+      this.templates.set(name, new Template(source, name));
+    }
+    this.template = customTemplate
+      ? new Template(customTemplate)
+      : this.templates.get('default') ?? new Template(TemplateProcessor.DEFAULT_TEMPLATE, 'default');
   }
 
   static async fromFile(templatePath: string): Promise<TemplateProcessor> {
@@ -92,18 +181,69 @@ export class TemplateProcessor {
     }
   }
 
-  async processContent(htmlContent: string, options: TemplateOptions = {}): Promise<string> {
-    let result = this.template;
+  /**
+   * Loads every `.html` file in a directory as a layout or partial named by
+   * its path without the extension. `default.html`, when present, is used
+   * for pages without a `layout`.
+   */
+  static async fromDirectory(templateDir: string): Promise<TemplateProcessor> {
+    const templates: Record<string, string> = {};
+    const load = async (dir: string) => {
+      for (const entry of await readdir(dir, { withFileTypes: true })) {
+        const fullPath = join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await load(fullPath);
+        } else if (entry.isFile() && entry.name.endsWith('.html')) {
+          const name = relative(templateDir, fullPath).split(sep).join('/').replace(/\.html$/, '');
+          templates[name] = await readFile(fullPath, 'utf-8');
+        }
+      }
+    };
+
+    try {
+      await load(templateDir);
+    } catch (error) {
+      throw new Error(`Failed to read template directory ${templateDir}: ${error}`);
+    }
+    return new TemplateProcessor(undefined, templates);
+  }
 
-    result = result.replace(/\{\{content\}\}/g, htmlContent);
-    result = result.replace(/\{\{title\}\}/g, options.title || 'Converted Document');
-    result = result.replace(/\{\{charset\}\}/g, options.charset || 'UTF-8');
-    result = result.replace(/\{\{lang\}\}/g, options.lang || 'en');
+  /**
+   * Renders the page's layout. Front matter keys are available by name and
+   * under `page`; every value is escaped except the generated `content`,
+   * `css`, `nav` and `toc`.
+   */
+  async processContent(htmlContent: string, options: TemplateOptions = {}): Promise<string> {
+    const data = options.data ?? {};
+    let template = this.template;
+    if (data.layout) {
+      const layout = this.templates.get(data.layout);
+      if (!layout) {
+        throw new Error(`Unknown layout "${data.layout}"`);
+      }
+      template = layout;
+    }
 
-    const cssContent = await this.processCss(options);
-    result = result.replace(/\{\{css\}\}/g, cssContent);
+    // Templates without {{nav}} or {{toc}} get them above the content
+    const variables = template.variables();
+    for (const part of ['toc', 'nav'] as const) {
+      const html = options[part];
+      if (html && !variables.includes(part)) {
+        htmlContent = `${html}\n${htmlContent}`;
+      }
+    }
 
-    return result;
+    return template.render({
+      ...data,
+      page: data,
+      title: options.title || data.title || 'Converted Document',
+      charset: options.charset || 'UTF-8',
+      lang: options.lang || 'en',
+      css: new SafeString(await this.processCss(options)),
+      content: new SafeString(htmlContent),
+      nav: new SafeString(options.nav ?? ''),
+      toc: new SafeString(options.toc ?? ''),
+    }, (name) => this.templates.get(name));
   }
 
   private async processCss(options: TemplateOptions): Promise<string> {
@@ -126,16 +266,6 @@ export class TemplateProcessor {
   }
 
   getPlaceholders(): string[] {
-    const placeholderRegex = /\{\{(\w+)\}\}/g;
-    const placeholders: string[] = [];
-    let match;
-
-    while ((match = placeholderRegex.exec(this.template)) !== null) {
-      if (!placeholders.includes(match[1])) {
-        placeholders.push(match[1]);
-      }
-    }
-
-    return placeholders;
+    return this.template.variables();
   }
 }
\ No newline at end of file
@@ -5,7 +5,8 @@ import {
   ensureDirectoryExists, 
   findMarkdownFiles, 
   changeExtension, 
-  getOutputPath 
+  getOutputPath,
+  Slugger
 } from './utils.js';
 import { writeFile, unlink, rmdir, mkdir } from 'fs/promises';
 import { join } from 'path';
@@ -196,4 +197,23 @@ describe('utils', () => {
       expect(result.includes('input.html')).toBe(true);
     });
   });
-});
\ No newline at end of file
+
+  describe('Slugger', () => {
+    it('should create GitHub style ids', () => {
+      const slugger = new Slugger();
+
+      expect(slugger.slug('Getting Started!')).toBe('getting-started');
+      expect(slugger.slug('Use `foo()` & <em>bar</em>')).toBe('use-foo--bar');
+      expect(slugger.slug('Überblick')).toBe('überblick');
+    });
+
+    it('should make repeated ids unique', () => {
+      const slugger = new Slugger();
+
+      expect(slugger.slug('Options')).toBe('options');
+      expect(slugger.slug('Options')).toBe('options-1');
+      expect(slugger.slug('Options 1')).toBe('options-1-1');
+      expect(slugger.slug('???')).toBe('section');
+    });
+  });
+});
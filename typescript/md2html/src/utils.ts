@@ -77,4 +77,48 @@ export function getOutputPath(inputPath: string, outputPath?: string): string {
   }
 
   return resolvedOutput;
-}
\ No newline at end of file
+}
+
+/**
+ * Turns heading text into a URL fragment the way GitHub does: lower-cased,
+ * punctuation removed and spaces replaced by hyphens
+ */
+export function slugify(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/<[^>]*>/g, '')
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .replace(/\s/g, '-');
+}
+
+/**
+ * Generates unique heading ids within a page, suffixing repeats with -1, -2...
+ */
+export class Slugger {
+  private seen = new Map<string, number>();
+
+  slug(text: string): string {
+    const base = slugify(text) || 'section';
+    let slug = base;
+    let count = this.seen.get(base) ?? 0;
+    while (this.seen.has(slug)) {
+      count++;
+      slug = `${base}-${count}`;
+    }
+    this.seen.set(base, count);
+    this.seen.set(slug, 0);
+    return slug;
+  }
+}
+
+export function escapeHtml(text: string): string {
+  const map: Record<string, string> = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#39;'
+  };
+  return text.replace(/[&<>"']/g, (m) => map[m]);
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { FileWatcher } from './watcher.js';
+import { writeFile, mkdir, rm, rename } from 'fs/promises';
+import { join } from 'path';
+
+describe('FileWatcher', () => {
+  const testDir = join(process.cwd(), 'test-watcher-dir');
+  let watcher: FileWatcher | undefined;
+
+  const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+  beforeEach(async () => {
+    await mkdir(join(testDir, 'sub'), { recursive: true });
+    await writeFile(join(testDir, 'a.md'), '# A', 'utf-8');
+  });
+
+  afterEach(async () => {
+    watcher?.close();
+    watcher = undefined;
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should collect a burst of changes into one call', async () => {
+    const calls: string[][] = [];
+    watcher = new FileWatcher([testDir], (paths) => {
+      calls.push(paths);
+    }, { debounceMs: 80 });
+    await watcher.start();
+
+    await writeFile(join(testDir, 'a.md'), '# A2', 'utf-8');
+    await writeFile(join(testDir, 'sub', 'b.md'), '# B', 'utf-8');
+    await writeFile(join(testDir, 'a.md'), '# A3', 'utf-8');
+    await sleep(20);
+    await watcher.idle();
+
+    expect(calls.length).toBe(1);
+    expect(calls[0]).toContain(join(testDir, 'a.md'));
+    expect(calls[0]).toContain(join(testDir, 'sub', 'b.md'));
+  });
+
+  it('should report deletions and both names of a rename', async () => {
+    const seen = new Set<string>();
+    watcher = new FileWatcher([testDir], (paths) => {
+      paths.forEach((path) => seen.add(path));
+    }, { debounceMs: 30 });
+    await watcher.start();
+
+    await rename(join(testDir, 'a.md'), join(testDir, 'sub', 'c.md'));
+    await sleep(20);
+    await watcher.idle();
+
+    expect(seen.has(join(testDir, 'a.md'))).toBe(true);
+    expect(seen.has(join(testDir, 'sub', 'c.md'))).toBe(true);
+  });
+
+  it('should keep watching a single file that is replaced', async () => {
+    const file = join(testDir, 'a.md');
+    let calls = 0;
+    watcher = new FileWatcher([file], () => {
+      calls++;
+    }, { debounceMs: 30 });
+    await watcher.start();
+
+    await writeFile(join(testDir, 'a.md.tmp'), '# New', 'utf-8');
+    await rename(join(testDir, 'a.md.tmp'), file);
+    await sleep(20);
+    await watcher.idle();
+    await writeFile(file, '# Newer', 'utf-8');
+    await writeFile(join(testDir, 'other.md'), '# Other', 'utf-8');
+    await sleep(20);
+    await watcher.idle();
+
+    expect(calls).toBe(2);
+  });
+
+  it('should not overlap handler calls', async () => {
+    let active = 0;
+    let maxActive = 0;
+    watcher = new FileWatcher([testDir], async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await sleep(60);
+      active--;
+    }, { debounceMs: 10 });
+    await watcher.start();
+
+    await writeFile(join(testDir, 'a.md'), '# 1', 'utf-8');
+    await sleep(30);
+    await writeFile(join(testDir, 'a.md'), '# 2', 'utf-8');
+    await sleep(20);
+    await watcher.idle();
+
+    expect(maxActive).toBe(1);
+  });
+
+  it('should report handler errors and keep watching', async () => {
+    const errors: unknown[] = [];
+    let calls = 0;
+    watcher = new FileWatcher([testDir], () => {
+      calls++;
+      throw new Error('broken');
+    }, { debounceMs: 20, onError: (error) => errors.push(error) });
+    await watcher.start();
+
+    await writeFile(join(testDir, 'a.md'), '# 1', 'utf-8');
+    await sleep(20);
+    await watcher.idle();
+    await writeFile(join(testDir, 'a.md'), '# 2', 'utf-8');
+    await sleep(20);
+    await watcher.idle();
+
+    expect(calls).toBe(2);
+    expect(errors.length).toBe(2);
+  });
+});
@@ -0,0 +1,87 @@
+import { watch, type FSWatcher } from 'fs';
+import { basename, dirname, join, resolve } from 'path';
+import { isDirectory } from './utils.js';
+
+export interface WatchOptions {
+  debounceMs?: number;
+  onError?: (error: unknown) => void;
+}
+
+export type ChangeHandler = (paths: string[]) => void | Promise<void>;
+
+/**
+ * Watches files and directories, collecting bursts of changes into a single
+ * call of the change handler. Handler calls never overlap; changes that
+ * arrive while one runs are delivered in the next call.
+ */
+export class FileWatcher {
+  private watchers: FSWatcher[] = [];
+  private pending = new Set<string>();
+  private timer?: ReturnType<typeof setTimeout>;
+  private running: Promise<void> = Promise.resolve();
+  private readonly debounceMs: number;
+  private readonly onError: (error: unknown) => void;
+
+  constructor(
+    private readonly paths: string[],
+    private readonly onChange: ChangeHandler,
+    options: WatchOptions = {}
+  ) {
+    this.debounceMs = options.debounceMs ?? 100;
+    this.onError = options.onError ?? ((error) => console.error(`Error: ${error}`));
+  }
+
+  async start(): Promise<void> {
+    for (const path of this.paths.map((p) => resolve(p))) {
+      if (await isDirectory(path)) {
+        this.watchers.push(watch(path, { recursive: true }, (_event, filename) => {
+          this.queue(filename ? join(path, filename.toString()) : path);
+        }));
+      } else {
+        // Editors often save by replacing the file, which ends a watch on
+        // the file itself, so watch its directory instead
+        const name = basename(path);
+        this.watchers.push(watch(dirname(path), (_event, filename) => {
+          if (filename?.toString() === name) {
+            this.queue(path);
+          }
+        }));
+      }
+    }
+  }
+
+  /**
+   * Resolves once pending changes have been handled
+   */
+  async idle(): Promise<void> {
+    while (this.timer || this.pending.size > 0) {
+      await new Promise((r) => setTimeout(r, this.debounceMs));
+    }
+    await this.running;
+  }
+
+  close(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.pending.clear();
+    for (const watcher of this.watchers) {
+      watcher.close();
+    }
+    this.watchers = [];
+  }
+
+  private queue(path: string): void {
+    this.pending.add(path);
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.flush(), this.debounceMs);
+  }
+
+  private flush(): void {
+    this.timer = undefined;
+    const paths = [...this.pending];
+    this.pending.clear();
+    this.running = this.running
+      .then(() => this.onChange(paths))
+      .catch(this.onError);
+  }
+}
@@ -33,8 +33,9 @@ export default githubChannel({
       ? {
           auth: defaultGitHubAuth(ctx),
           context: [
-            `CI failed at ${suite.headSha}. Look at the failing checks and the ` +
-              "diff, then comment the likely causes with file references.",
+            `CI failed at ${suite.headSha}. Call analyze_ci_failure for the PR with ` +
+              "that headSha, then comment the likely causes with file references, " +
+              "calling out probable flaky tests separately.",
           ],
         }
       : null,
@@ -0,0 +1,164 @@
+// Pulls the useful parts out of a GitHub Actions job log: the failing step,
+// failed test names, compiler errors and stack frames, with file paths made
+// repo-relative so they can be matched against the PR's diff.
+
+export interface Location {
+  file: string;
+  line?: number;
+}
+
+export interface CompilerError extends Location {
+  message: string;
+}
+
+export interface JobLogSummary {
+  // From the `##[group]Run …` header before the first error, when present.
+  failedStep?: string;
+  tests: { name: string; file?: string }[];
+  errors: CompilerError[];
+  frames: Location[];
+  // `##[error]` annotations, minus the generic "exit code" ones.
+  annotations: string[];
+}
+
+// Every Actions log line starts with an ISO timestamp.
+const TIMESTAMP = /^\d{4}-\d\d-\d\dT[\d:.]+Z ?/;
+// ANSI colour codes, which test runners love.
+const ANSI = /\x1b\[[0-9;]*m/g;
+// A source path, relative or absolute, with an extension.
+const PATH = String.raw`(\/?(?:[\w@.~-]+\/)*[\w@.-]+\.[A-Za-z]{1,5})`;
+
+const TEST_PATTERNS: { re: RegExp; name: (m: RegExpExecArray) => string; file?: (m: RegExpExecArray) => string }[] = [
+  // Jest / Vitest: "  ● Suite › test"  or  " × suite > test 12ms"
+  { re: /^\s*● (.+?)\s*$/, name: (m) => m[1] },
+  { re: /^\s*[×✕] (.+?)(?:\s+\d+\s*m?s)?\s*$/, name: (m) => m[1] },
+  // pytest: "FAILED tests/test_api.py::test_login - AssertionError"
+  { re: /^FAILED ([^\s:]+)::(\S+)/, name: (m) => m[2], file: (m) => m[1] },
+  // go test: "--- FAIL: TestLogin (0.01s)"
+  { re: /^\s*--- FAIL: (\S+)/, name: (m) => m[1] },
+  // RSpec: "rspec ./spec/models/user_spec.rb:12 # User validates email"
+  { re: /^rspec (\S+?):\d+ # (.+)$/, name: (m) => m[2], file: (m) => m[1] },
+  // cargo test: "test auth::tests::rejects_expired ... FAILED"
+  { re: /^test (\S+) \.\.\. FAILED$/, name: (m) => m[1] },
+  // Maven Surefire: "[ERROR]   UserTest.rejectsExpired:42 expected …"
+  { re: /^\[ERROR\]\s+(\w+)\.(\w+):\d+/, name: (m) => `${m[1]}.${m[2]}` },
+];
+
+// Compiler errors start a line, or are indented under Jest's "Test suite failed
+// to run" header.
+const ERROR_PATTERNS: RegExp[] = [
+  // tsc: "src/a.ts(12,5): error TS2322: …"
+  new RegExp(String.raw`^\s*${PATH}\((\d+),\d+\): error (.+)$`),
+  // tsc --pretty, gcc/clang, javac: "src/a.ts:12:5 - error TS2322: …", "App.java:12: error: …"
+  new RegExp(String.raw`^\s*${PATH}:(\d+)(?::\d+)?(?::| -) (?:fatal )?error:? (.+)$`),
+  // go build / vet: "./auth/session.go:12:3: undefined: x"
+  /^(\S+\.go):(\d+):\d+: (.+)$/,
+];
+
+// rustc prints the message, then the location on a following " --> " line.
+const RUST_ERROR = /^error(?:\[E\d+\])?: (.+)$/;
+const RUST_LOCATION = new RegExp(String.raw`^\s*--> ${PATH}:(\d+):\d+`);
+
+const FRAME_PATTERNS: RegExp[] = [
+  // Node: "    at fn (/home/runner/work/app/app/src/a.ts:12:5)" or "at src/a.ts:12:5"
+  new RegExp(String.raw`^\s*at (?:.*? \()?(?:file://)?${PATH}:(\d+):\d+\)?$`),
+  // Python: '  File "/home/runner/work/app/app/api/auth.py", line 12, in login'
+  /^\s*File "([^"]+)", line (\d+)/,
+  // Java: "\tat com.acme.Auth.login(Auth.java:12)"
+  /^\s*at [\w$.]+\(([\w$]+\.(?:java|kt|scala)):(\d+)\)$/,
+  // Go: "\t/home/runner/work/app/app/auth/session.go:12 +0x1d"
+  /^\s+(\S+\.go):(\d+)(?: \+0x[0-9a-f]+)?$/,
+];
+
+// Strips the runner's checkout prefix so paths line up with the diff.
+export function repoRelative(path: string): string {
+  return path
+    .replace(/^file:\/\//, "")
+    .replace(/\\/g, "/")
+    .replace(/^(?:\/home\/runner\/work|\/Users\/runner\/work|[A-Za-z]:\/a|\/__w)\/[^/]+\/[^/]+\//, "")
+    .replace(/^\.\//, "");
+}
+
+const isVendored = (file: string) => /(^|\/)(node_modules|site-packages|vendor|\.cargo|go\/pkg\/mod)\//.test(file) || file.startsWith("node:");
+
+export function parseJobLog(log: string): JobLogSummary {
+  const summary: JobLogSummary = { tests: [], errors: [], frames: [], annotations: [] };
+  const testNames = new Set<string>();
+  const seen = new Set<string>();
+  let step: string | undefined;
+  let rustMessage: string | undefined;
+  // Jest/Vitest print "FAIL <file>" above that file's failures.
+  let testFile: string | undefined;
+
+  for (const raw of log.split(/\r?\n/)) {
+    const line = raw.replace(TIMESTAMP, "").replace(ANSI, "");
+
+    const group = /^##\[group\]Run (.+)$/.exec(line);
+    if (group) {
+      step = group[1].trim();
+      continue;
+    }
+    const annotation = /^##\[error\](.*)$/.exec(line);
+    if (annotation) {
+      summary.failedStep ??= step;
+      if (!/^Process completed with exit code \d+\.?$/.test(annotation[1])) summary.annotations.push(annotation[1]);
+      continue;
+    }
+
+    const failedFile = /^\s*FAIL\s+(\S+\.\w+)/.exec(line);
+    if (failedFile) {
+      testFile = repoRelative(failedFile[1]);
+      continue;
+    }
+    // Jest's header for a suite that didn't compile or import; the reason
+    // follows as a compiler error or stack trace, and no test in it ran.
+    if (/^\s*● Test suite failed to run\s*$/.test(line)) {
+      if (testFile && !seen.has(`${testFile}::suite`)) {
+        seen.add(`${testFile}::suite`);
+        summary.errors.push({ file: testFile, message: "Test suite failed to run" });
+      }
+      continue;
+    }
+    for (const { re, name, file } of TEST_PATTERNS) {
+      const m = re.exec(line);
+      if (!m) continue;
+      const test = name(m);
+      if (!testNames.has(test)) {
+        testNames.add(test);
+        const where = file ? repoRelative(file(m)) : testFile;
+        summary.tests.push({ name: test, ...(where && { file: where }) });
+      }
+      break;
+    }
+
+    const rust = RUST_ERROR.exec(line);
+    if (rust) rustMessage = rust[1];
+    const rustAt = rustMessage && RUST_LOCATION.exec(line);
+    if (rustAt && rustMessage) {
+      summary.errors.push({ file: repoRelative(rustAt[1]), line: Number(rustAt[2]), message: rustMessage });
+      rustMessage = undefined;
+      continue;
+    }
+
+    const error = ERROR_PATTERNS.map((re) => re.exec(line)).find(Boolean);
+    if (error) {
+      const key = `${error[1]}:${error[2]}:${error[3]}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        summary.errors.push({ file: repoRelative(error[1]), line: Number(error[2]), message: error[3].trim() });
+      }
+      continue;
+    }
+
+    const frame = FRAME_PATTERNS.map((re) => re.exec(line)).find(Boolean);
+    if (frame) {
+      const file = repoRelative(frame[1]);
+      const key = `${file}:${frame[2]}`;
+      if (!isVendored(file) && !seen.has(key)) {
+        seen.add(key);
+        summary.frames.push({ file, line: Number(frame[2]) });
+      }
+    }
+  }
+  return summary;
+}
@@ -0,0 +1,87 @@
+// CODEOWNERS parsing with GitHub's semantics: gitignore-style patterns, and
+// the last matching line wins.
+import { gh, GitHubError } from "./github.js";
+
+// Where GitHub looks, in order.
+export const CODEOWNERS_PATHS = [".github/CODEOWNERS", "CODEOWNERS", "docs/CODEOWNERS"];
+
+export interface OwnerRule {
+  pattern: string;
+  // `@user` and `@org/team` handles.
+  owners: string[];
+  // Owners given by email. GitHub maps them to accounts, but the REST API
+  // can't, so they can't be requested as reviewers directly.
+  emails: string[];
+  line: number;
+  re: RegExp;
+}
+
+function toRegExp(pattern: string): RegExp {
+  const anchored = pattern.startsWith("/") || pattern.slice(0, -1).includes("/");
+  let body = pattern.replace(/^\//, "");
+  const dirOnly = body.endsWith("/");
+  if (dirOnly) body = body.slice(0, -1);
+
+  let re = "";
+  for (let i = 0; i < body.length; i++) {
+    const c = body[i];
+    if (c === "*" && body[i + 1] === "*") {
+      // "**/" matches zero or more directories; a trailing "**" everything below.
+      re += body[i + 2] === "/" ? "(?:.*/)?" : ".*";
+      i += body[i + 2] === "/" ? 2 : 1;
+    } else if (c === "*") re += "[^/]*";
+    else if (c === "?") re += "[^/]";
+    else re += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+  }
+  // A match on a directory covers everything inside it, except that a trailing
+  // "/*" stops at that level: `docs/*` owns docs/a.md but not docs/b/c.md.
+  const tail = dirOnly ? "/" : /(^|[^*])\*$/.test(body) ? "$" : "(?:/|$)";
+  return new RegExp(`^${anchored ? "" : "(?:.*/)?"}${re}${tail}`);
+}
+
+const EMAIL = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+
+// Owners that are neither handles nor emails are invalid on GitHub and ignored.
+export function parseCodeowners(text: string): OwnerRule[] {
+  const rules: OwnerRule[] = [];
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.replace(/(^|\s)#.*$/, "").trim();
+    if (!line) return;
+    const [pattern, ...owners] = line.split(/\s+/);
+    rules.push({
+      pattern,
+      owners: owners.filter((o) => o.startsWith("@")),
+      emails: owners.filter((o) => EMAIL.test(o)),
+      line: i + 1,
+      re: toRegExp(pattern),
+    });
+  });
+  return rules;
+}
+
+// The rule that owns `path`, if any. A matching rule with no owners or emails
+// un-owns it.
+export function ownersOf(rules: OwnerRule[], path: string): OwnerRule | undefined {
+  for (let i = rules.length - 1; i >= 0; i--) {
+    if (rules[i].re.test(path)) return rules[i];
+  }
+  return undefined;
+}
+
+export async function loadCodeowners(
+  owner: string,
+  repo: string,
+  ref?: string,
+): Promise<{ path: string; rules: OwnerRule[] } | undefined> {
+  const query = ref ? `?ref=${encodeURIComponent(ref)}` : "";
+  for (const path of CODEOWNERS_PATHS) {
+    try {
+      const file = await gh<{ content: string; encoding: string }>(`/repos/${owner}/${repo}/contents/${path}${query}`);
+      const text = Buffer.from(file.content, file.encoding as BufferEncoding).toString("utf8");
+      return { path, rules: parseCodeowners(text) };
+    } catch (err) {
+      if (!(err instanceof GitHubError && err.status === 404)) throw err;
+    }
+  }
+  return undefined;
+}
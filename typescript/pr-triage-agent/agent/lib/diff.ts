@@ -0,0 +1,104 @@
+// Unified-diff parsing for the content-aware checks in assess_pr_risk.
+
+export interface DiffLine {
+  kind: "added" | "removed" | "context";
+  // New-file line for added/context lines, old-file line for removed ones.
+  line: number;
+  text: string;
+}
+
+export interface DiffFile {
+  path: string;
+  status: "added" | "removed" | "modified" | "renamed";
+  lines: DiffLine[];
+}
+
+const HUNK = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+const HUNK_COUNTS = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+// Parses the hunks of one file — the shape of the `patch` field GitHub returns
+// from `GET /pulls/{n}/files`.
+export function parsePatch(path: string, patch: string, status: DiffFile["status"] = "modified"): DiffFile {
+  const lines: DiffLine[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  for (const raw of patch.split("\n")) {
+    const hunk = HUNK.exec(raw);
+    if (hunk) {
+      oldLine = Number(hunk[1]);
+      newLine = Number(hunk[2]);
+    } else if (raw.startsWith("+")) {
+      lines.push({ kind: "added", line: newLine++, text: raw.slice(1) });
+    } else if (raw.startsWith("-")) {
+      lines.push({ kind: "removed", line: oldLine++, text: raw.slice(1) });
+    } else if (raw.startsWith(" ")) {
+      lines.push({ kind: "context", line: newLine++, text: raw.slice(1) });
+      oldLine++;
+    }
+    // "\ No newline at end of file" and blank trailing lines carry no content.
+  }
+  return { path, status, lines };
+}
+
+// Parses a full `git diff` (or plain `diff -u`) into per-file hunks. Hunk
+// headers' line counts tell content apart from the next file's headers.
+export function parseUnifiedDiff(diff: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  let file: DiffFile | undefined;
+  let oldLeft = 0;
+  let newLeft = 0;
+  let oldLine = 0;
+  let newLine = 0;
+
+  const start = (path = ""): DiffFile => {
+    const next: DiffFile = { path, status: "modified", lines: [] };
+    files.push(next);
+    return next;
+  };
+
+  for (const raw of diff.split(/\r?\n/)) {
+    if (file && (oldLeft > 0 || newLeft > 0)) {
+      if (raw.startsWith("+")) {
+        file.lines.push({ kind: "added", line: newLine++, text: raw.slice(1) });
+        newLeft--;
+      } else if (raw.startsWith("-")) {
+        file.lines.push({ kind: "removed", line: oldLine++, text: raw.slice(1) });
+        oldLeft--;
+      } else if (raw.startsWith(" ") || raw === "") {
+        file.lines.push({ kind: "context", line: newLine++, text: raw.slice(1) });
+        oldLine++;
+        oldLeft--;
+        newLeft--;
+      }
+      if (/^[-+ \\]/.test(raw) || raw === "") continue;
+      // Miscounted hunk: treat the line as a header instead of dropping it.
+      oldLeft = newLeft = 0;
+    }
+
+    const hunk = HUNK_COUNTS.exec(raw);
+    if (hunk && file) {
+      oldLine = Number(hunk[1]);
+      oldLeft = Number(hunk[2] ?? 1);
+      newLine = Number(hunk[3]);
+      newLeft = Number(hunk[4] ?? 1);
+    } else if (raw.startsWith("diff --git ")) {
+      file = start(/^diff --git a\/.+? b\/(.+)$/.exec(raw)?.[1]);
+    } else if (raw.startsWith("--- ")) {
+      // Plain `diff -u` output has no `diff --git` line to open the file.
+      if (!file || file.lines.length) file = start();
+      if (raw.startsWith("--- /dev/null")) file.status = "added";
+      else file.path ||= raw.slice(4).replace(/\t.*$/, "").replace(/^a\//, "");
+    } else if (raw.startsWith("+++ ") && file) {
+      if (raw.startsWith("+++ /dev/null")) file.status = "removed";
+      else file.path = raw.slice(4).replace(/\t.*$/, "").replace(/^b\//, "");
+    } else if (file) {
+      if (raw.startsWith("new file mode")) file.status = "added";
+      else if (raw.startsWith("deleted file mode")) file.status = "removed";
+      else if (raw.startsWith("rename to ")) {
+        file.status = "renamed";
+        file.path = raw.slice("rename to ".length);
+      }
+    }
+  }
+  return files.filter((f) => f.path);
+}
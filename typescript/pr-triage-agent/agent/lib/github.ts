@@ -0,0 +1,72 @@
+// Minimal GitHub REST client shared by the tools. Not a capability: Eve only
+// auto-discovers tools/, skills/, channels/ and schedules/.
+
+export class GitHubError extends Error {
+  constructor(
+    readonly status: number,
+    readonly path: string,
+    message: string,
+  ) {
+    super(`GitHub ${status} on ${path}: ${message}`);
+    this.name = "GitHubError";
+  }
+}
+
+interface RequestOptions {
+  method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  body?: unknown;
+}
+
+async function request(path: string, { method = "GET", body }: RequestOptions = {}): Promise<Response> {
+  const token = process.env.GITHUB_TOKEN;
+  if (!token) throw new Error("GITHUB_TOKEN is not set.");
+
+  // Read per call so a local stand-in (testing/fake-github.ts) can be swapped in.
+  const apiUrl = process.env.GITHUB_API_URL ?? "https://api.github.com";
+  const res = await fetch(path.startsWith("http") ? path : `${apiUrl}${path}`, {
+    method,
+    headers: {
+      accept: "application/vnd.github+json",
+      authorization: `Bearer ${token}`,
+      "x-github-api-version": "2022-11-28",
+      ...(body !== undefined && { "content-type": "application/json" }),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const text = await res.text();
+    let message = text;
+    try {
+      message = (JSON.parse(text) as { message?: string }).message ?? text;
+    } catch {
+      // Not JSON; keep the raw body.
+    }
+    throw new GitHubError(res.status, path, message);
+  }
+  return res;
+}
+
+export async function gh<T = unknown>(path: string, options?: RequestOptions): Promise<T> {
+  const res = await request(path, options);
+  if (res.status === 204) return undefined as T;
+  return (await res.json()) as T;
+}
+
+// Follows the `Link: rel="next"` cursor through a list endpoint. `maxPages`
+// bounds the calls on huge repos; `truncated` says whether it cut the list short.
+export async function ghPages<T>(path: string, maxPages = 20): Promise<{ items: T[]; truncated: boolean }> {
+  const items: T[] = [];
+  let next: string | undefined = path;
+  for (let page = 0; next && page < maxPages; page++) {
+    const res = await request(next);
+    items.push(...((await res.json()) as T[]));
+    next = /<([^>]+)>;\s*rel="next"/.exec(res.headers.get("link") ?? "")?.[1];
+  }
+  return { items, truncated: next !== undefined };
+}
+
+// For plain-text endpoints like Actions job logs, which answer with a redirect
+// to the raw file; fetch follows it.
+export async function ghText(path: string): Promise<string> {
+  return (await request(path)).text();
+}
@@ -0,0 +1,249 @@
+// Content checks run over a PR's patch hunks by assess_pr_risk. Each finding
+// cites the file and line so the agent can quote it in the triage comment.
+import { basename, posix } from "node:path";
+import type { DiffFile, DiffLine } from "./diff.js";
+import type { TriageConfig } from "./triage-config.js";
+
+export type Severity = "low" | "medium" | "high";
+
+export interface Finding {
+  rule: string;
+  severity: Severity;
+  file: string;
+  // New-file line for added code, old-file line when `side` is "removed".
+  line: number;
+  side: "added" | "removed";
+  message: string;
+  excerpt: string;
+}
+
+interface Rule {
+  id: string;
+  check(file: DiffFile): Finding[];
+}
+
+const MAX_EXCERPT = 160;
+
+function finding(
+  rule: string,
+  severity: Severity,
+  file: DiffFile,
+  line: DiffLine,
+  message: string,
+  excerpt = line.text.trim(),
+): Finding {
+  const side = line.kind === "removed" ? "removed" : "added";
+  const clipped = excerpt.length > MAX_EXCERPT ? `${excerpt.slice(0, MAX_EXCERPT)}…` : excerpt;
+  return { rule, severity, file: file.path, line: line.line, side, message, excerpt: clipped };
+}
+
+const added = (file: DiffFile) => file.lines.filter((l) => l.kind === "added");
+const removed = (file: DiffFile) => file.lines.filter((l) => l.kind === "removed");
+
+// --- secret ------------------------------------------------------------------
+
+const SECRETS: [RegExp, string][] = [
+  [/\bAKIA[0-9A-Z]{16}\b/, "AWS access key ID"],
+  [/\bgh[pousr]_[A-Za-z0-9]{36,}\b/, "GitHub token"],
+  [/\bgithub_pat_[A-Za-z0-9_]{22,}\b/, "GitHub fine-grained token"],
+  [/\bxox[abposr]-[A-Za-z0-9-]{10,}\b/, "Slack token"],
+  [/\b[sr]k_live_[A-Za-z0-9]{20,}\b/, "Stripe live key"],
+  [/\bAIza[0-9A-Za-z_-]{35}\b/, "Google API key"],
+  [/\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{32,}\b/, "LLM provider API key"],
+  [/-----BEGIN (?:RSA |EC |DSA |OPENSSH |PGP |ENCRYPTED )?PRIVATE KEY( BLOCK)?-----/, "private key"],
+  [
+    /\b(?:api[_-]?key|secret|passw(?:or)?d|access[_-]?token|auth[_-]?token|client[_-]?secret)\w*["']?\s*[:=]\s*["'][^"'\s$%{}<>]{12,}["']/i,
+    "hard-coded credential",
+  ],
+];
+
+// Never echo a live secret back into a PR comment.
+function redact(text: string, match: string): string {
+  return text.replace(match, `${match.slice(0, 4)}…[redacted]`);
+}
+
+const secret: Rule = {
+  id: "secret",
+  check(file) {
+    const out: Finding[] = [];
+    for (const line of added(file)) {
+      for (const [re, what] of SECRETS) {
+        const match = re.exec(line.text);
+        if (!match) continue;
+        out.push(finding("secret", "high", file, line, `Adds what looks like a ${what}.`, redact(line.text.trim(), match[0])));
+        break;
+      }
+    }
+    return out;
+  },
+};
+
+// --- disabled-test -----------------------------------------------------------
+
+const TEST_FILE = /(^|\/)(__tests__|tests?|spec)\/|[._-](test|spec)\.[cm]?[jt]sx?$|_test\.(go|py|rb)$|(^|\/)test_[^/]+\.py$|Tests?\.(java|kt|cs)$/;
+
+const SKIPS = [
+  /\b(?:describe|context|it|test|suite)\.(?:skip|todo)\s*\(/,
+  /\b(?:xdescribe|xcontext|xit|xtest)\s*\(/,
+  /\b(?:describe|it|test)\.only\s*\(/,
+  /@pytest\.mark\.(?:skip|xfail)\b|@unittest\.skip|\bpytest\.skip\(/,
+  /@(?:Disabled|Ignore)\b|\[(?:Ignore|Fact\(Skip\s*=)/,
+  /\bt\.Skip(?:f|Now)?\(|#\[ignore\]/,
+];
+
+const disabledTest: Rule = {
+  id: "disabled-test",
+  check(file) {
+    if (file.status === "removed" && TEST_FILE.test(file.path)) {
+      const first = file.lines[0];
+      return first ? [finding("disabled-test", "medium", file, first, "Deletes a test file.", file.path)] : [];
+    }
+    return added(file)
+      .filter((line) => SKIPS.some((re) => re.test(line.text)))
+      .map((line) =>
+        finding(
+          "disabled-test",
+          "medium",
+          file,
+          line,
+          /\.only\s*\(/.test(line.text) ? "Focuses a test, which skips every other test in the file." : "Skips or disables a test.",
+        ),
+      );
+  },
+};
+
+// --- removed-auth-check ------------------------------------------------------
+
+const AUTH_CHECK =
+  /\b(?:require_?[Aa]uth\w*|requireUser|requireRole|isAuthenticated|ensureAuthenticated|ensureLoggedIn|authenticate\w*|authorize\w*|checkPermissions?|hasPermission|hasRole|verifyToken|jwt\.verify|login_required|permission_required|PreAuthorize|Secured|RolesAllowed|UseGuards|Authorize)\b/;
+const AUTH_BYPASS = /\b(?:AllowAnonymous|PermitAll|skip_before_action\s+:authenticate\w*|csrf_exempt|skipAuth)\b/;
+
+const removedAuthCheck: Rule = {
+  id: "removed-auth-check",
+  check(file) {
+    // A check that moved within the file isn't a removal.
+    const kept = new Set(added(file).map((l) => l.text.trim()));
+    const out = removed(file)
+      .filter((line) => AUTH_CHECK.test(line.text) && !kept.has(line.text.trim()))
+      .map((line) => finding("removed-auth-check", "high", file, line, "Removes an authentication/authorization check."));
+    for (const line of added(file)) {
+      if (AUTH_BYPASS.test(line.text)) {
+        out.push(finding("removed-auth-check", "high", file, line, "Opts a route out of authentication."));
+      }
+    }
+    return out;
+  },
+};
+
+// --- new-dependency ----------------------------------------------------------
+
+// Per lockfile, a pattern whose first group is a package name on the line
+// that introduces the package.
+const LOCKFILES: Record<string, RegExp> = {
+  "package-lock.json": /^\s*"(?:.*\/)?node_modules\/((?:@[^/"]+\/)?[^/"]+)": \{/,
+  "npm-shrinkwrap.json": /^\s*"(?:.*\/)?node_modules\/((?:@[^/"]+\/)?[^/"]+)": \{/,
+  "yarn.lock": /^"?((?:@[^@/\s"]+\/)?[^@\s"]+)@/,
+  "pnpm-lock.yaml": /^ {2}'?\/?((?:@[^@/\s']+\/)?[^@\s'(]+)@[^:]*:\s*$/,
+  "bun.lock": /^\s{4}"((?:@[^@/"]+\/)?[^@"]+)": \["/,
+  "Cargo.lock": /^name = "([^"]+)"/,
+  "poetry.lock": /^name = "([^"]+)"/,
+  "uv.lock": /^name = "([^"]+)"/,
+  "Gemfile.lock": /^ {4}([A-Za-z0-9_.-]+) \(/,
+  "composer.lock": /^\s*"name": "([^"/]+\/[^"]+)"/,
+  "go.sum": /^(\S+) v\S+(?<!\/go\.mod) h1:/,
+};
+
+const newDependency: Rule = {
+  id: "new-dependency",
+  check(file) {
+    const re = LOCKFILES[basename(file.path)];
+    if (!re) return [];
+    const names = (lines: DiffLine[]) => lines.map((line) => ({ line, name: re.exec(line.text)?.[1] }));
+    // A version bump removes and re-adds the same package; only new names count.
+    const before = new Set(names(removed(file)).map((n) => n.name));
+    const seen = new Set<string>();
+    const out: Finding[] = [];
+    for (const { line, name } of names(added(file))) {
+      if (!name || before.has(name) || seen.has(name)) continue;
+      seen.add(name);
+      out.push(finding("new-dependency", "medium", file, line, `Adds dependency \`${name}\` to the lockfile.`));
+    }
+    return out;
+  },
+};
+
+// --- sql-concatenation -------------------------------------------------------
+
+const SQL = String.raw`\b(?:SELECT|INSERT\s+INTO|UPDATE|DELETE\s+FROM|WHERE|VALUES\s*\()`;
+const SQL_BUILDS = [
+  // "... WHERE id = " + id   /   base + " WHERE ..."
+  new RegExp(String.raw`["'][^"']*${SQL}[^"']*["']\s*\+|\+\s*["'][^"']*${SQL}`),
+  // `SELECT ... ${x}` — but not tagged templates like sql`...`, which parameterize
+  new RegExp(String.raw`(?<![\w.)\]])\x60[^\x60]*${SQL}[^\x60]*\$\{`),
+  // f"SELECT ... {x}"
+  new RegExp(String.raw`\bf["'][^"']*${SQL}[^"']*\{`),
+  // "SELECT ... %s" % x   /   "SELECT ... {}".format(x)
+  new RegExp(String.raw`["'][^"']*${SQL}[^"']*["']\s*(?:%\s*[\w(]|\.format\()`),
+  // fmt.Sprintf("SELECT ... %s", x)   /   String.format("SELECT ...", x)
+  new RegExp(String.raw`\b(?:Sprintf|String\.format)\(\s*["\x60][^"\x60]*${SQL}`),
+];
+
+const sqlConcatenation: Rule = {
+  id: "sql-concatenation",
+  check(file) {
+    return added(file)
+      .filter((line) => SQL_BUILDS.some((re) => re.test(line.text)))
+      .map((line) =>
+        finding("sql-concatenation", "high", file, line, "Builds SQL from strings; use bound parameters to rule out injection."),
+      );
+  },
+};
+
+// --- migration-drop ----------------------------------------------------------
+
+const MIGRATION_FILE = /(^|\/)(migrations?|migrate|alembic)\/|\.sql$/i;
+const DROPS = [
+  /\bDROP\s+(?:TABLE|COLUMN|INDEX|SCHEMA|DATABASE|CONSTRAINT|VIEW|TYPE)\b|\bTRUNCATE\b/i,
+  /\b(?:drop_table|remove_column|remove_columns|remove_index|remove_reference|drop_column|dropTable|dropColumn|dropIndex|dropSchema|dropIfExists|RemoveField|DeleteModel)\b/,
+];
+
+const migrationDrop: Rule = {
+  id: "migration-drop",
+  check(file) {
+    if (!MIGRATION_FILE.test(file.path)) return [];
+    return added(file)
+      .filter((line) => DROPS.some((re) => re.test(line.text)))
+      .map((line) => finding("migration-drop", "high", file, line, "Drops schema or data in a migration; check it's reversible and deployed safely."));
+  },
+};
+
+export const BUILTIN_RULES: Rule[] = [secret, disabledTest, removedAuthCheck, newDependency, sqlConcatenation, migrationDrop];
+
+const matches = (path: string, globs: string[]) => globs.some((glob) => posix.matchesGlob(path, glob));
+
+function customRule({ id, pattern, message, severity, paths, lines }: TriageConfig["rules"][number]): Rule {
+  const re = new RegExp(pattern);
+  return {
+    id,
+    check(file) {
+      if (paths && !matches(file.path, paths)) return [];
+      return (lines === "removed" ? removed(file) : added(file))
+        .filter((line) => re.test(line.text))
+        .map((line) => finding(id, severity, file, line, message));
+    },
+  };
+}
+
+export function scanDiff(files: DiffFile[], config: TriageConfig): Finding[] {
+  const rules = [
+    ...BUILTIN_RULES.filter((rule) => !config.disable.includes(rule.id)),
+    ...config.rules.map(customRule),
+  ];
+  return files
+    .filter((file) => !matches(file.path, config.ignore))
+    .flatMap((file) => rules.flatMap((rule) => rule.check(file)));
+}
+
+export function isSensitivePath(path: string, config: TriageConfig): boolean {
+  return matches(path, config.sensitivePaths);
+}
@@ -0,0 +1,79 @@
+// Per-repo triage settings, read from `.triage.yml` at the repo root:
+//
+//   disable: [sql-concatenation]        # built-in rules to skip
+//   ignore: ["vendor/**", "**/*.snap"]  # files never scanned
+//   sensitivePaths: ["infra/**"]        # extra paths that make a PR high risk
+//   rules:
+//     - id: no-console
+//       pattern: "console\\.log\\("
+//       message: Leftover console.log
+//       severity: low                   # low | medium | high
+//       paths: ["src/**"]               # optional; default is every file
+//       lines: added                    # added (default) | removed
+import { parse } from "yaml";
+import { z } from "zod";
+import { gh, GitHubError } from "./github.js";
+
+export const CONFIG_PATH = ".triage.yml";
+
+const regex = z.string().refine(
+  (source) => {
+    try {
+      new RegExp(source);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  { message: "Not a valid regular expression." },
+);
+
+const RuleSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, "Use lowercase letters, digits and dashes."),
+  pattern: regex,
+  message: z.string().min(1),
+  severity: z.enum(["low", "medium", "high"]).default("medium"),
+  paths: z.array(z.string()).optional(),
+  lines: z.enum(["added", "removed"]).default("added"),
+});
+
+const TriageConfigSchema = z.object({
+  disable: z.array(z.string()).default([]),
+  ignore: z.array(z.string()).default([]),
+  sensitivePaths: z.array(z.string()).default([]),
+  rules: z.array(RuleSchema).default([]),
+});
+
+export type CustomRule = z.infer<typeof RuleSchema>;
+export type TriageConfig = z.infer<typeof TriageConfigSchema>;
+
+export const DEFAULT_CONFIG: TriageConfig = TriageConfigSchema.parse({});
+
+export function parseTriageConfig(text: string): TriageConfig {
+  let raw: unknown;
+  try {
+    raw = parse(text) ?? {};
+  } catch (err) {
+    throw new Error(`${CONFIG_PATH} is not valid YAML: ${(err as Error).message}`);
+  }
+  const result = TriageConfigSchema.safeParse(raw);
+  if (!result.success) {
+    throw new Error(`${CONFIG_PATH} is invalid:\n${z.prettifyError(result.error)}`);
+  }
+  return result.data;
+}
+
+// Reads the config from `ref` (the PR's base, so a PR can't relax its own
+// rules). A repo without one gets the defaults.
+export async function loadTriageConfig(owner: string, repo: string, ref?: string): Promise<TriageConfig> {
+  const query = ref ? `?ref=${encodeURIComponent(ref)}` : "";
+  try {
+    const file = await gh<{ content: string; encoding: string }>(
+      `/repos/${owner}/${repo}/contents/${CONFIG_PATH}${query}`,
+    );
+    return parseTriageConfig(Buffer.from(file.content, file.encoding as BufferEncoding).toString("utf8"));
+  } catch (err) {
+    if (err instanceof GitHubError && err.status === 404) return DEFAULT_CONFIG;
+    throw err;
+  }
+}
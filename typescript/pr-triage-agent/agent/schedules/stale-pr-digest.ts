@@ -2,6 +2,11 @@ import { defineSchedule } from "eve/schedules";
 
 const owner = process.env.DIGEST_OWNER ?? "your-org";
 const repo = process.env.DIGEST_REPO ?? "your-repo";
+const pingDays = Number(process.env.DIGEST_PING_DAYS || 3);
+const closeWarnDays = Number(process.env.DIGEST_CLOSE_WARN_DAYS || 14);
+const label = process.env.DIGEST_LABEL || "stale";
+// Optional: without it the tool finds (or opens) the issue labeled `pr-digest`.
+const trackingIssue = process.env.DIGEST_TRACKING_ISSUE;
 
 // Task-mode schedule: fires on a cron cadence, runs the agent, discards output.
 // The agent can still call tools along the way. On Vercel this becomes a Cron
@@ -10,7 +15,10 @@ const repo = process.env.DIGEST_REPO ?? "your-repo";
 export default defineSchedule({
   cron: "0 9 * * 1-5", // 09:00 UTC on weekdays
   markdown:
-    `List open pull requests in ${owner}/${repo} that have had no activity for ` +
-    `at least 2 days using list_open_prs (staleDays: 2). For each one, add the ` +
-    `"stale" label with set_pr_labels. If there are none, do nothing.`,
+    `Escalate stale pull requests in ${owner}/${repo} with escalate_stale_prs ` +
+    `(pingDays: ${pingDays}, closeWarnDays: ${closeWarnDays}, label: "${label}"` +
+    (trackingIssue ? `, trackingIssue: ${trackingIssue}` : "") +
+    `). It pings authors, posts close warnings, labels the PRs, and posts ` +
+    `the summary to the tracking issue itself. Do not close any pull request. ` +
+    `If it reports nothing to escalate, do nothing.`,
 });
@@ -0,0 +1,193 @@
+import { defineTool } from "eve/tools";
+import { never } from "eve/tools/approval";
+import { z } from "zod";
+import { parseJobLog, type CompilerError, type JobLogSummary, type Location } from "../lib/ci-logs.js";
+import { gh, ghPages, ghText, GitHubError } from "../lib/github.js";
+
+// Bounds on API calls: failed jobs looked at on the PR, base-branch runs
+// listed per workflow, and base-branch logs downloaded per job.
+const MAX_JOBS = 10;
+const BASE_RUNS = 10;
+const BASE_LOGS = 5;
+
+interface RestCheckRun {
+  id: number;
+  name: string;
+  conclusion: string | null;
+  html_url: string;
+  app: { slug: string } | null;
+}
+
+interface RestJob {
+  id: number;
+  run_id: number;
+  name: string;
+  conclusion: string | null;
+  steps?: { name: string; conclusion: string | null }[];
+}
+
+interface RestRun {
+  id: number;
+  workflow_id: number;
+  conclusion: string | null;
+  created_at: string;
+}
+
+type Verdict = "flaky" | "failing-on-base" | "caused-by-pr" | "unknown";
+
+interface BaseHistory {
+  // Completed base-branch runs of the workflow that were checked.
+  runs: number;
+  // How many of them failed each test, in the job with the same name.
+  failures: Map<string, number>;
+  // Tests failing in the newest base run; empty when it passed.
+  latest: Set<string>;
+}
+
+interface JobReport {
+  name: string;
+  url: string;
+  logAvailable: boolean;
+  failedStep?: string;
+  errors: (CompilerError & { inDiff: boolean })[];
+  frames: (Location & { inDiff: boolean })[];
+  tests: { name: string; file?: string; inDiff: boolean; verdict: Verdict; baseFailures: number; baseRuns: number }[];
+  annotations: string[];
+}
+
+const FAILED = new Set(["failure", "timed_out"]);
+
+// Logs expire (410) or are withheld without `actions:read` (403/404); the job
+// is still reported, just without log details.
+async function jobLog(base: string, jobId: number): Promise<JobLogSummary | null> {
+  try {
+    return parseJobLog(await ghText(`${base}/actions/jobs/${jobId}/logs`));
+  } catch (err) {
+    if (err instanceof GitHubError && [403, 404, 410].includes(err.status)) return null;
+    throw err;
+  }
+}
+
+// Recent push runs of the same workflow on the base branch, and which tests
+// the same-named job failed in them.
+async function baseHistory(base: string, workflowId: number, branch: string, jobName: string): Promise<BaseHistory> {
+  const query = new URLSearchParams({ branch, event: "push", status: "completed", per_page: String(BASE_RUNS) });
+  const { workflow_runs: runs } = await gh<{ workflow_runs: RestRun[] }>(`${base}/actions/workflows/${workflowId}/runs?${query}`);
+  const history: BaseHistory = { runs: runs.length, failures: new Map(), latest: new Set() };
+
+  let logs = 0;
+  for (const [i, run] of runs.entries()) {
+    if (run.conclusion !== "failure" || logs >= BASE_LOGS) continue;
+    const { jobs } = await gh<{ jobs: RestJob[] }>(`${base}/actions/runs/${run.id}/jobs?per_page=100`);
+    const job = jobs.find((j) => j.name === jobName && FAILED.has(j.conclusion ?? ""));
+    if (!job) continue;
+    logs++;
+    const summary = await jobLog(base, job.id);
+    for (const { name } of summary?.tests ?? []) {
+      history.failures.set(name, (history.failures.get(name) ?? 0) + 1);
+      if (i === 0) history.latest.add(name);
+    }
+  }
+  return history;
+}
+
+export default defineTool({
+  approval: never(),
+  description:
+    "Analyze failed GitHub Actions checks on a pull request: download the failed " +
+    "jobs' logs, extract the failing step, failed tests, compiler errors and stack " +
+    "frames, mark which of them point into the PR's diff, and flag tests that also " +
+    "fail on recent base-branch runs as probably flaky or already broken.",
+  inputSchema: z.object({
+    owner: z.string().describe("Repository owner (user or org)."),
+    repo: z.string().describe("Repository name."),
+    prNumber: z.number().int().positive().describe("Pull request number."),
+    headSha: z.string().optional().describe("Commit whose checks failed. Defaults to the PR's current head."),
+  }),
+  async execute({ owner, repo, prNumber, headSha }) {
+    const base = `/repos/${owner}/${repo}`;
+    const pull = await gh<{ head: { sha: string }; base: { ref: string } }>(`${base}/pulls/${prNumber}`);
+    const sha = headSha ?? pull.head.sha;
+
+    const { check_runs: checkRuns } = await gh<{ check_runs: RestCheckRun[] }>(
+      `${base}/commits/${sha}/check-runs?filter=latest&per_page=100`,
+    );
+    const failed = checkRuns.filter((c) => FAILED.has(c.conclusion ?? ""));
+    const { items: files } = await ghPages<{ filename: string }>(`${base}/pulls/${prNumber}/files?per_page=100`, 30);
+    const changed = new Set(files.map((f) => f.filename));
+
+    const histories = new Map<string, BaseHistory>();
+    const jobs: JobReport[] = [];
+    for (const check of failed.slice(0, MAX_JOBS)) {
+      // Only Actions jobs have logs to read; other apps' checks are just listed.
+      if (check.app?.slug !== "github-actions") {
+        jobs.push({ name: check.name, url: check.html_url, logAvailable: false, errors: [], frames: [], tests: [], annotations: [] });
+        continue;
+      }
+      const job = await gh<RestJob>(`${base}/actions/jobs/${check.id}`);
+      const summary = await jobLog(base, job.id);
+      const failedStep = job.steps?.find((s) => FAILED.has(s.conclusion ?? ""))?.name ?? summary?.failedStep;
+      const errors = (summary?.errors ?? []).slice(0, 20).map((e) => ({ ...e, inDiff: changed.has(e.file) }));
+      const frames = (summary?.frames ?? []).slice(0, 10).map((f) => ({ ...f, inDiff: changed.has(f.file) }));
+      const touchesDiff = errors.some((e) => e.inDiff) || frames.some((f) => f.inDiff);
+
+      let history: BaseHistory | undefined;
+      if (summary?.tests.length) {
+        const { workflow_id: workflowId } = await gh<RestRun>(`${base}/actions/runs/${job.run_id}`);
+        const key = `${workflowId}:${job.name}`;
+        history = histories.get(key) ?? (await baseHistory(base, workflowId, pull.base.ref, job.name));
+        histories.set(key, history);
+      }
+      const tests = (summary?.tests ?? []).slice(0, 30).map((t) => {
+        const baseFailures = history?.failures.get(t.name) ?? 0;
+        const inDiff = t.file !== undefined && changed.has(t.file);
+        let verdict: Verdict = "unknown";
+        if (history?.latest.has(t.name)) verdict = "failing-on-base";
+        else if (baseFailures > 0) verdict = "flaky";
+        else if (inDiff || touchesDiff) verdict = "caused-by-pr";
+        return { ...t, inDiff, verdict, baseFailures, baseRuns: history?.runs ?? 0 };
+      });
+
+      jobs.push({
+        name: job.name,
+        url: check.html_url,
+        logAvailable: summary !== null,
+        ...(failedStep && { failedStep }),
+        errors,
+        frames,
+        tests,
+        annotations: (summary?.annotations ?? []).slice(0, 10),
+      });
+    }
+
+    return {
+      prNumber,
+      headSha: sha,
+      baseBranch: pull.base.ref,
+      failedChecks: failed.length,
+      // More failed checks than were analyzed.
+      truncated: failed.length > MAX_JOBS,
+      jobs,
+    };
+  },
+  toModelOutput(o) {
+    if (!o.jobs.length) return { type: "text", value: `No failed checks on ${o.headSha.slice(0, 7)}.` };
+    const lines = [`${o.failedChecks} failed check(s) on ${o.headSha.slice(0, 7)} (base \`${o.baseBranch}\`):`];
+    for (const job of o.jobs) {
+      lines.push("", `**${job.name}**${job.failedStep ? ` — failed at \`${job.failedStep}\`` : ""} (${job.url})`);
+      if (!job.logAvailable) lines.push("- log unavailable");
+      for (const e of job.errors) {
+        lines.push(`- error ${e.file}${e.line ? `:${e.line}` : ""}${e.inDiff ? " (in diff)" : ""}: ${e.message}`);
+      }
+      for (const t of job.tests) {
+        const base = t.baseFailures ? `, failed in ${t.baseFailures}/${t.baseRuns} recent base runs` : "";
+        lines.push(`- test ${t.name}${t.file ? ` (${t.file})` : ""}: ${t.verdict}${base}`);
+      }
+      const inDiff = job.frames.filter((f) => f.inDiff);
+      if (inDiff.length) lines.push(`- stack frames in the diff: ${inDiff.map((f) => `${f.file}:${f.line}`).join(", ")}`);
+      for (const a of job.annotations) lines.push(`- annotation: ${a}`);
+    }
+    if (o.truncated) lines.push("", `Only the first ${o.jobs.length} failed checks were analyzed.`);
+    return { type: "text", value: lines.join("\n") };
+  },
+});
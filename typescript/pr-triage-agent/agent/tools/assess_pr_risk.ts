@@ -1,6 +1,10 @@
 import { defineTool } from "eve/tools";
 import { never } from "eve/tools/approval";
 import { z } from "zod";
+import { parsePatch, parseUnifiedDiff, type DiffFile } from "../lib/diff.js";
+import { gh, ghPages } from "../lib/github.js";
+import { isSensitivePath, scanDiff, type Finding } from "../lib/risk-rules.js";
+import { DEFAULT_CONFIG, loadTriageConfig, type TriageConfig } from "../lib/triage-config.js";
 
 // Paths that warrant extra scrutiny regardless of diff size.
 const SENSITIVE = [
@@ -14,20 +18,76 @@ const SENSITIVE = [
   /package(-lock)?\.json$/i,
 ];
 
+// How many findings the model sees; the full list stays in the tool result.
+const MAX_MODEL_FINDINGS = 25;
+const SEVERITY_RANK = { high: 0, medium: 1, low: 2 } as const;
+
+interface RestPullFile {
+  filename: string;
+  status: string;
+  patch?: string;
+}
+
+// GitHub caps the files endpoint at 3000 files (30 pages of 100).
+async function fetchPatches(owner: string, repo: string, prNumber: number) {
+  const files: DiffFile[] = [];
+  const unscanned: string[] = [];
+  const { items } = await ghPages<RestPullFile>(`/repos/${owner}/${repo}/pulls/${prNumber}/files?per_page=100`, 30);
+  for (const f of items) {
+    // Binary files and very large diffs come back without a patch.
+    if (f.patch === undefined) unscanned.push(f.filename);
+    else {
+      const status = f.status === "added" || f.status === "removed" || f.status === "renamed" ? f.status : "modified";
+      files.push(parsePatch(f.filename, f.patch, status));
+    }
+  }
+  return { files, unscanned };
+}
+
 export default defineTool({
   approval: never(),
   description:
-    "Score the risk of a pull request from its diff stats and changed file paths. " +
-    "Returns a risk level (low | medium | high) with reasons so the review can " +
-    "prioritize scrutiny. Call this before writing the triage summary.",
+    "Score the risk of a pull request from its diff stats, changed file paths and, " +
+    "when given the PR coordinates or its diff, the patch content itself: added " +
+    "secrets, disabled tests, removed auth checks, new lockfile dependencies, SQL " +
+    "built from strings, migration drops, and the repo's own `.triage.yml` rules. " +
+    "Returns a risk level (low | medium | high) with reasons and file:line findings " +
+    "to quote. Call this before writing the triage summary.",
   inputSchema: z.object({
     additions: z.number().int().nonnegative().describe("Lines added across the PR."),
     deletions: z.number().int().nonnegative().describe("Lines removed across the PR."),
     changedFiles: z.array(z.string()).describe("Paths of every changed file in the PR."),
+    owner: z.string().optional().describe("Repository owner. With `repo` and `prNumber`, the patch and `.triage.yml` are fetched."),
+    repo: z.string().optional().describe("Repository name."),
+    prNumber: z.number().int().positive().optional().describe("Pull request number."),
+    diff: z
+      .string()
+      .optional()
+      .describe("The PR's unified diff, when it is already in context. Scanned instead of fetching the patch."),
   }),
-  async execute({ additions, deletions, changedFiles }) {
+  async execute({ additions, deletions, changedFiles, owner, repo, prNumber, diff }) {
     const reasons: string[] = [];
-    const sensitiveFiles = changedFiles.filter((f) => SENSITIVE.some((re) => re.test(f)));
+    let config: TriageConfig = DEFAULT_CONFIG;
+    let files: DiffFile[] = [];
+    let unscanned: string[] = [];
+
+    if (owner && repo && prNumber) {
+      // Rules come from the base branch, so a PR can't relax its own checks.
+      const pull = await gh<{ base: { sha: string } }>(`/repos/${owner}/${repo}/pulls/${prNumber}`);
+      try {
+        config = await loadTriageConfig(owner, repo, pull.base.sha);
+      } catch (err) {
+        reasons.push(`${(err as Error).message} Using the built-in rules only.`);
+      }
+      if (!diff) ({ files, unscanned } = await fetchPatches(owner, repo, prNumber));
+    } else if (owner || repo || prNumber) {
+      throw new Error("Pass owner, repo and prNumber together.");
+    }
+    if (diff) files = parseUnifiedDiff(diff);
+
+    const sensitiveFiles = changedFiles.filter(
+      (f) => SENSITIVE.some((re) => re.test(f)) || isSensitivePath(f, config),
+    );
     if (sensitiveFiles.length) {
       reasons.push(`Touches sensitive paths: ${sensitiveFiles.join(", ")}.`);
     }
@@ -38,16 +98,38 @@ export default defineTool({
 
     if (changedFiles.length > 25) reasons.push(`Spans ${changedFiles.length} files.`);
 
+    const findings: Finding[] = scanDiff(files, config).sort(
+      (a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity],
+    );
+    const high = findings.filter((f) => f.severity === "high");
+    const medium = findings.filter((f) => f.severity === "medium");
+    if (findings.length) {
+      const rules = [...new Set(findings.map((f) => f.rule))].join(", ");
+      reasons.push(`${findings.length} diff finding(s) (${high.length} high, ${medium.length} medium): ${rules}.`);
+    }
+    if (unscanned.length) {
+      reasons.push(`Not scanned (binary or too large for a patch): ${unscanned.join(", ")}.`);
+    }
+
     let level: "low" | "medium" | "high" = "low";
-    if (sensitiveFiles.length || churn > 800) level = "high";
-    else if (churn > 300 || changedFiles.length > 25) level = "medium";
+    if (sensitiveFiles.length || churn > 800 || high.length) level = "high";
+    else if (churn > 300 || changedFiles.length > 25 || medium.length) level = "medium";
 
     if (!reasons.length) reasons.push("Small, contained change with no sensitive paths.");
 
-    return { level, reasons, churn, fileCount: changedFiles.length, sensitiveFiles };
+    return { level, reasons, churn, fileCount: changedFiles.length, sensitiveFiles, findings, unscanned };
   },
-  // The model only needs the verdict; the channel/hooks still get the full object.
+  // The model only needs the verdict and what to quote; the channel/hooks
+  // still get the full object.
   toModelOutput(o) {
-    return { type: "text", value: `Risk: ${o.level.toUpperCase()} — ${o.reasons.join(" ")}` };
+    const lines = [`Risk: ${o.level.toUpperCase()} — ${o.reasons.join(" ")}`];
+    for (const f of o.findings.slice(0, MAX_MODEL_FINDINGS)) {
+      const where = `${f.file}:${f.line}${f.side === "removed" ? " (removed line)" : ""}`;
+      lines.push(`- [${f.severity}] ${f.rule} at ${where}: ${f.message} \`${f.excerpt}\``);
+    }
+    if (o.findings.length > MAX_MODEL_FINDINGS) {
+      lines.push(`- …and ${o.findings.length - MAX_MODEL_FINDINGS} more.`);
+    }
+    return { type: "text", value: lines.join("\n") };
   },
 });
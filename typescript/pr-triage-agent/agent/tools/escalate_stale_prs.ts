@@ -0,0 +1,178 @@
+import { defineTool } from "eve/tools";
+import { never } from "eve/tools/approval";
+import { z } from "zod";
+import { gh, ghPages } from "../lib/github.js";
+
+const DAY = 86_400_000;
+// Our own label + comment bump `updated_at`; activity this close after a
+// marker comment is ours, not the author's.
+const GRACE_MS = 5 * 60_000;
+const TRACKING_LABEL = "pr-digest";
+const MARKER = /<!-- pr-triage:(stale-ping|close-warning) since=(\S+) -->/;
+
+interface RestPull {
+  number: number;
+  title: string;
+  html_url: string;
+  updated_at: string;
+  draft: boolean;
+  user: { login: string } | null;
+  labels: { name: string }[];
+}
+
+interface RestComment {
+  body: string;
+  created_at: string;
+}
+
+interface RestIssue {
+  number: number;
+  html_url: string;
+  pull_request?: unknown;
+}
+
+type Action = "pinged" | "close-warned" | "waiting" | "revived";
+
+interface Escalation {
+  number: number;
+  title: string;
+  author: string;
+  url: string;
+  idleDays: number;
+  action: Action;
+}
+
+const marker = (kind: "stale-ping" | "close-warning", since: string) => `<!-- pr-triage:${kind} since=${since} -->`;
+
+// Finds the open issue carrying the digest label, or opens one.
+async function trackingIssue(owner: string, repo: string): Promise<number> {
+  const open = await gh<RestIssue[]>(`/repos/${owner}/${repo}/issues?state=open&labels=${TRACKING_LABEL}&per_page=10`);
+  const issue = open.find((i) => !i.pull_request);
+  if (issue) return issue.number;
+  const created = await gh<RestIssue>(`/repos/${owner}/${repo}/issues`, {
+    method: "POST",
+    body: {
+      title: "Stale PR digest",
+      body: "Daily summaries of stale pull requests, posted by the PR triage bot.",
+      labels: [TRACKING_LABEL],
+    },
+  });
+  return created.number;
+}
+
+function summary(date: string, rows: Escalation[], pingDays: number, closeWarnDays: number): string {
+  const count = (action: Action) => rows.filter((r) => r.action === action).length;
+  const verb: Record<Action, string> = {
+    pinged: "pinged author",
+    "close-warned": "warned of closing",
+    waiting: "already escalated",
+    revived: "active again, unlabeled",
+  };
+  return [
+    `### Stale PR digest — ${date}`,
+    "",
+    `Pings after ${pingDays} idle days, close warnings after ${closeWarnDays}.`,
+    "",
+    "| PR | Author | Idle | Action |",
+    "| --- | --- | --- | --- |",
+    ...rows.map((r) => `| [#${r.number}](${r.url}) ${r.title.replace(/\|/g, "\\|")} | @${r.author} | ${r.idleDays}d | ${verb[r.action]} |`),
+    "",
+    `Pinged ${count("pinged")}, close-warned ${count("close-warned")}, waiting ${count("waiting")}, revived ${count("revived")}.`,
+  ].join("\n");
+}
+
+export default defineTool({
+  // Runs unattended from the digest schedule. It only labels and comments —
+  // it never closes a PR — so it goes without a human gate like set_pr_labels.
+  approval: never(),
+  description:
+    "Escalate stale pull requests: ping the author once a PR has been idle for " +
+    "`pingDays`, post a close warning at `closeWarnDays`, label both with `label`, " +
+    "drop the label when activity resumes, and post a summary table to a tracking " +
+    "issue. Each stage happens once per idle stretch, so it is safe to run daily.",
+  inputSchema: z.object({
+    owner: z.string().describe("Repository owner (user or org)."),
+    repo: z.string().describe("Repository name."),
+    pingDays: z.number().int().positive().default(3).describe("Idle days before pinging the author."),
+    closeWarnDays: z.number().int().positive().default(14).describe("Idle days before warning that the PR may be closed."),
+    label: z.string().default("stale").describe("Label for escalated PRs."),
+    trackingIssue: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe(`Issue for the summary. Defaults to the open issue labeled \`${TRACKING_LABEL}\`, created if missing.`),
+    dryRun: z.boolean().default(false).describe("Work out the escalations without writing anything."),
+  }),
+  async execute({ owner, repo, pingDays, closeWarnDays, label, trackingIssue: issueNumber, dryRun }) {
+    if (closeWarnDays <= pingDays) throw new Error("closeWarnDays must be greater than pingDays.");
+    const base = `/repos/${owner}/${repo}`;
+    const now = Date.now();
+    const { items: pulls } = await ghPages<RestPull>(`${base}/pulls?state=open&sort=updated&direction=asc&per_page=100`, 30);
+
+    const rows: Escalation[] = [];
+    for (const p of pulls) {
+      if (p.draft) continue;
+      const updated = new Date(p.updated_at).getTime();
+      const labeled = p.labels.some((l) => l.name === label);
+      if (now - updated < pingDays * DAY && !labeled) continue;
+
+      const { items: comments } = await ghPages<RestComment>(`${base}/issues/${p.number}/comments?per_page=100`, 10);
+      const markers = comments.flatMap((c) => {
+        const m = MARKER.exec(c.body);
+        return m ? [{ kind: m[1], since: m[2], at: new Date(c.created_at).getTime() }] : [];
+      });
+      const last = markers.at(-1);
+      // If nothing but our own escalation touched the PR, it has been idle since
+      // the stretch that escalation recorded.
+      const quiet = last !== undefined && updated <= last.at + GRACE_MS;
+      const since = quiet ? last.since : p.updated_at;
+      const idleDays = Math.floor((now - new Date(since).getTime()) / DAY);
+      const done = (kind: string) => markers.some((m) => m.kind === kind && m.since === since);
+
+      let action: Action | undefined;
+      if (idleDays >= closeWarnDays && !done("close-warning")) action = "close-warned";
+      else if (idleDays >= pingDays && !done("stale-ping") && !done("close-warning")) action = "pinged";
+      else if (idleDays >= pingDays) action = "waiting";
+      else if (labeled && last && !quiet) action = "revived";
+      if (!action) continue;
+
+      const author = p.user?.login ?? "unknown";
+      rows.push({ number: p.number, title: p.title, author, url: p.html_url, idleDays, action });
+      if (dryRun || action === "waiting") continue;
+
+      if (action === "revived") {
+        await gh(`${base}/issues/${p.number}/labels/${encodeURIComponent(label)}`, { method: "DELETE" });
+        continue;
+      }
+      if (!labeled) await gh(`${base}/issues/${p.number}/labels`, { method: "POST", body: { labels: [label] } });
+      const body =
+        action === "pinged"
+          ? `@${author} this pull request has had no activity for ${idleDays} days. Is it still in progress? ` +
+            "Push an update or leave a comment to keep it moving."
+          : `@${author} this pull request has been inactive for ${idleDays} days and may be closed soon. ` +
+            "Push an update or leave a comment if you'd like to keep it open.";
+      await gh(`${base}/issues/${p.number}/comments`, {
+        method: "POST",
+        body: { body: `${body}\n\n${marker(action === "pinged" ? "stale-ping" : "close-warning", since)}` },
+      });
+    }
+
+    let summaryIssue: number | null = null;
+    if (rows.length && !dryRun) {
+      summaryIssue = issueNumber ?? (await trackingIssue(owner, repo));
+      await gh(`${base}/issues/${summaryIssue}/comments`, {
+        method: "POST",
+        body: { body: summary(new Date(now).toISOString().slice(0, 10), rows, pingDays, closeWarnDays) },
+      });
+    }
+
+    return { escalations: rows, trackingIssue: summaryIssue, dryRun };
+  },
+  toModelOutput(o) {
+    if (!o.escalations.length) return { type: "text", value: "No stale pull requests to escalate." };
+    const lines = o.escalations.map((r) => `- #${r.number} (@${r.author}, idle ${r.idleDays}d): ${r.action}`);
+    const where = o.dryRun ? "Dry run — nothing was written." : `Summary posted to issue #${o.trackingIssue}.`;
+    return { type: "text", value: [...lines, where].join("\n") };
+  },
+});
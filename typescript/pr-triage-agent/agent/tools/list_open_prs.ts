@@ -1,7 +1,7 @@
 import { defineTool } from "eve/tools";
 import { never } from "eve/tools/approval";
 import { z } from "zod";
-import { gh } from "../lib/github.js";
+import { ghPages } from "../lib/github.js";
 
 interface RestPull {
   number: number;
@@ -10,13 +10,43 @@ interface RestPull {
   updated_at: string;
   draft: boolean;
   user: { login: string } | null;
+  labels: { name: string }[];
+  base: { ref: string };
+  requested_reviewers: { login: string }[];
+  requested_teams: { slug: string }[];
+}
+
+interface RestReview {
+  user: { login: string } | null;
+  state: "APPROVED" | "CHANGES_REQUESTED" | "COMMENTED" | "DISMISSED" | "PENDING";
+}
+
+const REVIEW_STATES = ["unreviewed", "review_requested", "changes_requested", "approved"] as const;
+type ReviewState = (typeof REVIEW_STATES)[number];
+
+// Like GitHub's review decision: each reviewer's latest verdict counts, and
+// one outstanding "changes requested" outweighs any approvals.
+async function reviewState(owner: string, repo: string, pull: RestPull): Promise<ReviewState> {
+  const { items: reviews } = await ghPages<RestReview>(`/repos/${owner}/${repo}/pulls/${pull.number}/reviews?per_page=100`, 5);
+  const latest = new Map<string, RestReview["state"]>();
+  for (const r of reviews) {
+    if (r.user && (r.state === "APPROVED" || r.state === "CHANGES_REQUESTED" || r.state === "DISMISSED")) {
+      latest.set(r.user.login, r.state);
+    }
+  }
+  const verdicts = [...latest.values()];
+  if (verdicts.includes("CHANGES_REQUESTED")) return "changes_requested";
+  if (pull.requested_reviewers.length || pull.requested_teams.length) return "review_requested";
+  if (verdicts.includes("APPROVED")) return "approved";
+  return "unreviewed";
 }
 
 export default defineTool({
   approval: never(),
   description:
-    "List open pull requests in a repository, optionally only those with no " +
-    "activity for at least `staleDays` days. Use for triage sweeps and digests.",
+    "List open pull requests in a repository, oldest activity first, following every " +
+    "page. Filter by staleness (`staleDays`), author, labels, base branch and review " +
+    "state. Use for triage sweeps and digests.",
   inputSchema: z.object({
     owner: z.string().describe("Repository owner (user or org)."),
     repo: z.string().describe("Repository name."),
@@ -26,23 +56,55 @@ export default defineTool({
       .nonnegative()
       .default(0)
       .describe("Only return PRs untouched for at least this many days. 0 returns all open PRs."),
+    author: z.string().optional().describe("Only PRs opened by this login."),
+    labels: z.array(z.string()).default([]).describe("Only PRs carrying every one of these labels."),
+    base: z.string().optional().describe("Only PRs targeting this base branch."),
+    reviewState: z
+      .enum(REVIEW_STATES)
+      .optional()
+      .describe(
+        "Only PRs in this review state: no reviews or requests yet, waiting on requested " +
+          "reviewers, changes requested, or approved.",
+      ),
+    includeDrafts: z.boolean().default(false).describe("Include draft PRs."),
   }),
-  async execute({ owner, repo, staleDays }) {
-    const pulls = await gh<RestPull[]>(
-      `/repos/${owner}/${repo}/pulls?state=open&sort=updated&direction=asc&per_page=50`,
-    );
+  async execute({ owner, repo, staleDays, author, labels, base, reviewState: wanted, includeDrafts }) {
+    const query = new URLSearchParams({ state: "open", sort: "updated", direction: "asc", per_page: "100" });
+    if (base) query.set("base", base);
+    const { items: pulls, truncated } = await ghPages<RestPull>(`/repos/${owner}/${repo}/pulls?${query}`, 30);
+
     const cutoff = Date.now() - staleDays * 86_400_000;
-    const stale = pulls.filter(
-      (p) => !p.draft && new Date(p.updated_at).getTime() <= cutoff,
+    const matching = pulls.filter(
+      (p) =>
+        (includeDrafts || !p.draft) &&
+        new Date(p.updated_at).getTime() <= cutoff &&
+        (!author || p.user?.login.toLowerCase() === author.replace(/^@/, "").toLowerCase()) &&
+        labels.every((l) => p.labels.some((pl) => pl.name.toLowerCase() === l.toLowerCase())),
     );
+
+    // Review state costs a call per PR, so it's only looked up when filtering on it.
+    const states = new Map<number, ReviewState>();
+    if (wanted) {
+      for (const p of matching) states.set(p.number, await reviewState(owner, repo, p));
+    }
+    const result = wanted ? matching.filter((p) => states.get(p.number) === wanted) : matching;
+
     return {
-      count: stale.length,
-      prs: stale.map((p) => ({
+      count: result.length,
+      // More open PRs than the page budget covers; the oldest ones are listed.
+      truncated,
+      prs: result.map((p) => ({
         number: p.number,
         title: p.title,
         author: p.user?.login ?? "unknown",
         url: p.html_url,
         updatedAt: p.updated_at,
+        idleDays: Math.floor((Date.now() - new Date(p.updated_at).getTime()) / 86_400_000),
+        base: p.base.ref,
+        labels: p.labels.map((l) => l.name),
+        draft: p.draft,
+        requestedReviewers: [...p.requested_reviewers.map((u) => u.login), ...p.requested_teams.map((t) => t.slug)],
+        ...(wanted && { reviewState: states.get(p.number) }),
       })),
     };
   },
@@ -0,0 +1,44 @@
+import { defineTool } from "eve/tools";
+import { always } from "eve/tools/approval";
+import { z } from "zod";
+import { gh } from "../lib/github.js";
+
+export default defineTool({
+  // Outward-facing: it notifies people and puts work in their queue, so like
+  // submit_pr_review it ALWAYS waits for a human to approve the picks.
+  approval: always(),
+  description:
+    "Request reviews on a pull request from people and/or teams — normally the " +
+    "picks from suggest_reviewers. Requires human approval before it runs.",
+  inputSchema: z.object({
+    owner: z.string().describe("Repository owner (user or org)."),
+    repo: z.string().describe("Repository name."),
+    prNumber: z.number().int().positive().describe("Pull request number."),
+    reviewers: z.array(z.string()).default([]).describe("GitHub logins, with or without the leading @."),
+    teamReviewers: z
+      .array(z.string())
+      .default([])
+      .describe("Team slugs, e.g. `maintainers` or `@acme/maintainers`."),
+  }),
+  async execute({ owner, repo, prNumber, reviewers, teamReviewers }) {
+    if (!reviewers.length && !teamReviewers.length) {
+      throw new Error("Pass at least one reviewer or team.");
+    }
+    const pull = await gh<{ requested_reviewers: { login: string }[]; requested_teams: { slug: string }[] }>(
+      `/repos/${owner}/${repo}/pulls/${prNumber}/requested_reviewers`,
+      {
+        method: "POST",
+        body: {
+          reviewers: reviewers.map((r) => r.replace(/^@/, "")),
+          // The API wants the bare slug, without the org.
+          team_reviewers: teamReviewers.map((t) => t.replace(/^@/, "").split("/").pop()!),
+        },
+      },
+    );
+    return {
+      prNumber,
+      requested: pull.requested_reviewers.map((u) => u.login),
+      requestedTeams: pull.requested_teams.map((t) => t.slug),
+    };
+  },
+});
@@ -0,0 +1,158 @@
+import { defineTool } from "eve/tools";
+import { never } from "eve/tools/approval";
+import { z } from "zod";
+import { loadCodeowners, ownersOf } from "../lib/codeowners.js";
+import { gh, ghPages } from "../lib/github.js";
+
+interface RestUser {
+  login: string;
+  type?: string;
+}
+
+interface RestPull {
+  number: number;
+  user: RestUser | null;
+  base: { sha: string };
+  requested_reviewers: RestUser[];
+}
+
+interface RestCommit {
+  sha: string;
+  author: RestUser | null;
+}
+
+// History lookups cost one call per file, so only the most-changed files count.
+const MAX_HISTORY_FILES = 15;
+
+interface Candidate {
+  login: string;
+  owned: string[];
+  commits: Set<string>;
+  touched: Set<string>;
+}
+
+const isBot = (user: RestUser) => user.type === "Bot" || user.login.endsWith("[bot]");
+
+export default defineTool({
+  // Read-only ranking; requesting the reviewers is request_reviewers' job.
+  approval: never(),
+  description:
+    "Rank who should review a pull request: CODEOWNERS for the changed files, " +
+    "authors of recent commits to them, and how many open review requests each " +
+    "person already has. Returns the top picks with the reason for each — quote " +
+    "those reasons in the triage comment, then call request_reviewers.",
+  inputSchema: z.object({
+    owner: z.string().describe("Repository owner (user or org)."),
+    repo: z.string().describe("Repository name."),
+    prNumber: z.number().int().positive().describe("Pull request number."),
+    count: z.number().int().min(1).max(5).default(2).describe("How many reviewers to suggest."),
+    historyDays: z
+      .number()
+      .int()
+      .positive()
+      .default(180)
+      .describe("How far back commit history counts toward ownership."),
+  }),
+  async execute({ owner, repo, prNumber, count, historyDays }) {
+    const base = `/repos/${owner}/${repo}`;
+    const pull = await gh<RestPull>(`${base}/pulls/${prNumber}`);
+    const { items: files } = await ghPages<{ filename: string; changes: number }>(
+      `${base}/pulls/${prNumber}/files?per_page=100`,
+      30,
+    );
+    const author = pull.user?.login;
+    const alreadyRequested = pull.requested_reviewers.map((u) => u.login);
+
+    const candidates = new Map<string, Candidate>();
+    const candidate = (login: string) => {
+      let c = candidates.get(login);
+      if (!c) candidates.set(login, (c = { login, owned: [], commits: new Set(), touched: new Set() }));
+      return c;
+    };
+
+    // CODEOWNERS from the base branch: the PR can't nominate its own owners.
+    const codeowners = await loadCodeowners(owner, repo, pull.base.sha);
+    const teams = new Map<string, string[]>();
+    const emails = new Map<string, string[]>();
+    for (const { filename } of files) {
+      const rule = codeowners && ownersOf(codeowners.rules, filename);
+      for (const o of rule?.owners ?? []) {
+        const name = o.slice(1);
+        if (name.includes("/")) teams.set(name, [...(teams.get(name) ?? []), filename]);
+        else candidate(name).owned.push(filename);
+      }
+      for (const email of rule?.emails ?? []) emails.set(email, [...(emails.get(email) ?? []), filename]);
+    }
+
+    const since = new Date(Date.now() - historyDays * 86_400_000).toISOString();
+    const historyFiles = [...files].sort((a, b) => b.changes - a.changes).slice(0, MAX_HISTORY_FILES);
+    for (const { filename } of historyFiles) {
+      const commits = await gh<RestCommit[]>(
+        `${base}/commits?sha=${pull.base.sha}&path=${encodeURIComponent(filename)}&since=${since}&per_page=30`,
+      );
+      for (const commit of commits) {
+        if (!commit.author || isBot(commit.author)) continue;
+        const c = candidate(commit.author.login);
+        c.commits.add(commit.sha);
+        c.touched.add(filename);
+      }
+    }
+
+    // Open review requests elsewhere are the load to balance against.
+    const { items: open } = await ghPages<RestPull>(`${base}/pulls?state=open&per_page=100`, 10);
+    const pending = new Map<string, number>();
+    for (const p of open) {
+      if (p.number === prNumber) continue;
+      for (const u of p.requested_reviewers) pending.set(u.login, (pending.get(u.login) ?? 0) + 1);
+    }
+
+    const ranked = [...candidates.values()]
+      .filter((c) => c.login !== author && !c.login.endsWith("[bot]") && !alreadyRequested.includes(c.login))
+      .map((c) => {
+        const load = pending.get(c.login) ?? 0;
+        const expertise = 2 * c.owned.length + c.commits.size;
+        const reasons: string[] = [];
+        if (c.owned.length) reasons.push(`CODEOWNERS for ${c.owned.join(", ")}`);
+        if (c.commits.size) {
+          reasons.push(`${c.commits.size} commit(s) in the last ${historyDays} days to ${[...c.touched].join(", ")}`);
+        }
+        reasons.push(load ? `${load} other open review request(s)` : "no other open review requests");
+        return {
+          login: c.login,
+          score: Math.round((expertise / (1 + load)) * 100) / 100,
+          ownedFiles: c.owned.length,
+          recentCommits: c.commits.size,
+          pendingReviews: load,
+          reason: reasons.join("; "),
+        };
+      })
+      .sort((a, b) => b.score - a.score || a.pendingReviews - b.pendingReviews || a.login.localeCompare(b.login));
+
+    return {
+      prNumber,
+      codeowners: codeowners?.path ?? null,
+      suggestions: ranked.slice(0, count),
+      teams: [...teams].map(([slug, owned]) => ({ slug, ownedFiles: owned.length, reason: `CODEOWNERS for ${owned.join(", ")}` })),
+      // Can't be requested by email; the agent has to name their handle.
+      emailOwners: [...emails].map(([email, owned]) => ({ email, ownedFiles: owned.length, reason: `CODEOWNERS for ${owned.join(", ")}` })),
+      alreadyRequested,
+      historyFilesScanned: historyFiles.length,
+      filesChanged: files.length,
+    };
+  },
+  toModelOutput(o) {
+    const lines = [
+      o.suggestions.length
+        ? `Suggested reviewers for #${o.prNumber}:`
+        : `No individual reviewer candidates for #${o.prNumber} (no CODEOWNERS match or recent history).`,
+      ...o.suggestions.map((s) => `- @${s.login} (score ${s.score}): ${s.reason}.`),
+    ];
+    if (o.teams.length) lines.push(...o.teams.map((t) => `- Team @${t.slug}: ${t.reason}.`));
+    if (o.emailOwners.length) {
+      lines.push(...o.emailOwners.map((e) => `- ${e.email} (listed by email; request them by GitHub handle): ${e.reason}.`));
+    }
+    if (o.alreadyRequested.length) lines.push(`Already requested: ${o.alreadyRequested.map((l) => `@${l}`).join(", ")}.`);
+    if (!o.codeowners) lines.push("The repo has no CODEOWNERS file; ranking is from history only.");
+    return { type: "text", value: lines.join("\n") };
+  },
+});
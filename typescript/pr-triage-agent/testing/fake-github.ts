@@ -0,0 +1,781 @@
+// An in-process stand-in for the slice of the GitHub REST API the agent uses.
+// Point the tools at it with GITHUB_API_URL; every request is recorded so tests
+// can assert on what the agent did. State lives in memory and starts from
+// fixtures, so runs are deterministic.
+import { createHash } from "node:crypto";
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+
+export interface FakeFile {
+  filename: string;
+  status?: "added" | "removed" | "modified" | "renamed";
+  patch?: string;
+}
+
+export interface FakePull {
+  number: number;
+  title: string;
+  body?: string;
+  author: string;
+  draft?: boolean;
+  state?: "open" | "closed";
+  base?: string;
+  head?: string;
+  labels?: string[];
+  requestedReviewers?: string[];
+  requestedTeams?: string[];
+  createdAt: string;
+  updatedAt: string;
+  files?: FakeFile[];
+}
+
+export interface FakeCheckSuite {
+  id: number;
+  pullNumber: number;
+  app: string;
+  status: "queued" | "in_progress" | "completed";
+  conclusion?: "success" | "failure" | "cancelled" | "timed_out" | null;
+  updatedAt: string;
+}
+
+export interface FakeJob {
+  id: number;
+  name: string;
+  conclusion: "success" | "failure" | "cancelled" | "timed_out" | "skipped";
+  steps?: { name: string; conclusion: "success" | "failure" | "skipped" }[];
+  // Raw log text; leave it out to simulate logs that have expired.
+  log?: string;
+}
+
+// A GitHub Actions workflow run, either on a PR's head or on a branch. Its jobs
+// double as the check runs on that commit, as they do on GitHub.
+export interface FakeWorkflowRun {
+  id: number;
+  workflowId: number;
+  name: string;
+  pullNumber?: number;
+  branch?: string;
+  conclusion: "success" | "failure" | "cancelled" | "timed_out";
+  createdAt: string;
+  jobs: FakeJob[];
+}
+
+export interface FakeIssue {
+  number: number;
+  title: string;
+  body?: string;
+  author?: string;
+  state?: "open" | "closed";
+  labels?: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FakeCommit {
+  author: string;
+  date: string;
+  files: string[];
+  message?: string;
+}
+
+export interface FakeRepo {
+  owner: string;
+  name: string;
+  defaultBranch?: string;
+  // Files on the default branch, served by the contents API.
+  contents?: Record<string, string>;
+  pulls: FakePull[];
+  checkSuites?: FakeCheckSuite[];
+  // Actions runs, newest first.
+  workflowRuns?: FakeWorkflowRun[];
+  // Plain issues; they share the number space with pulls.
+  issues?: FakeIssue[];
+  // Comments on pulls and issues, oldest first.
+  comments?: Omit<FakeComment, "id" | "repo">[];
+  // History of the default branch, newest first.
+  commits?: FakeCommit[];
+}
+
+export interface FakeReview {
+  id: number;
+  repo: string;
+  pullNumber: number;
+  event: "APPROVE" | "REQUEST_CHANGES" | "COMMENT";
+  body: string;
+}
+
+export interface FakeComment {
+  id: number;
+  repo: string;
+  issueNumber: number;
+  author: string;
+  body: string;
+  createdAt: string;
+}
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body?: unknown;
+  status: number;
+}
+
+export interface FakeGitHub {
+  url: string;
+  // Live state: mutated by the API, and by tests to set up a scenario.
+  repos: FakeRepo[];
+  reviews: FakeReview[];
+  comments: FakeComment[];
+  requests: RecordedRequest[];
+  close(): Promise<void>;
+}
+
+export interface FakeGitHubOptions {
+  repos: FakeRepo[];
+  port?: number;
+  // When set, requests must carry this bearer token; otherwise any token will do.
+  token?: string;
+  // Clock for `updated_at` bumps, so label/review writes stay deterministic.
+  now?: () => number;
+}
+
+class HttpError extends Error {
+  status: number;
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+type Handler = (ctx: RequestContext) => unknown;
+
+interface RequestContext {
+  repo: FakeRepo;
+  params: string[];
+  query: URLSearchParams;
+  body: unknown;
+  req: IncomingMessage;
+  res: ServerResponse;
+}
+
+export const sha = (seed: string) => createHash("sha1").update(seed).digest("hex");
+
+export function headSha(repo: FakeRepo, pull: FakePull): string {
+  return sha(`${repo.owner}/${repo.name}#${pull.number}`);
+}
+
+export function headRef(pull: FakePull): string {
+  return pull.head ?? `pr-${pull.number}`;
+}
+
+export function baseRef(repo: FakeRepo, pull: FakePull): string {
+  return pull.base ?? repo.defaultBranch ?? "main";
+}
+
+export function baseSha(repo: FakeRepo, ref: string): string {
+  return sha(`${repo.owner}/${repo.name}@${ref}`);
+}
+
+// --- REST shapes ---------------------------------------------------------
+
+const htmlUrl = (repo: FakeRepo, path: string) => `https://github.com/${repo.owner}/${repo.name}/${path}`;
+const user = (login: string) => ({ login, type: login.endsWith("[bot]") ? "Bot" : "User" });
+
+export function repoJson(repo: FakeRepo) {
+  return {
+    name: repo.name,
+    full_name: `${repo.owner}/${repo.name}`,
+    owner: user(repo.owner),
+    html_url: `https://github.com/${repo.owner}/${repo.name}`,
+    default_branch: repo.defaultBranch ?? "main",
+    private: false,
+  };
+}
+
+function countLines(files: FakeFile[], prefix: "+" | "-") {
+  return files
+    .flatMap((f) => (f.patch ?? "").split("\n"))
+    .filter((line) => line.startsWith(prefix)).length;
+}
+
+export function pullJson(repo: FakeRepo, pull: FakePull) {
+  const files = pull.files ?? [];
+  const base = baseRef(repo, pull);
+  return {
+    number: pull.number,
+    title: pull.title,
+    body: pull.body ?? null,
+    state: pull.state ?? "open",
+    draft: pull.draft ?? false,
+    html_url: htmlUrl(repo, `pull/${pull.number}`),
+    user: user(pull.author),
+    labels: (pull.labels ?? []).map((name) => ({ name })),
+    requested_reviewers: (pull.requestedReviewers ?? []).map(user),
+    requested_teams: (pull.requestedTeams ?? []).map((slug) => ({ slug })),
+    created_at: pull.createdAt,
+    updated_at: pull.updatedAt,
+    head: { ref: headRef(pull), sha: headSha(repo, pull) },
+    base: { ref: base, sha: baseSha(repo, base) },
+    additions: countLines(files, "+"),
+    deletions: countLines(files, "-"),
+    changed_files: files.length,
+  };
+}
+
+function fileJson(file: FakeFile) {
+  const lines = (file.patch ?? "").split("\n");
+  const additions = lines.filter((line) => line.startsWith("+")).length;
+  const deletions = lines.filter((line) => line.startsWith("-")).length;
+  return {
+    filename: file.filename,
+    status: file.status ?? "modified",
+    additions,
+    deletions,
+    changes: additions + deletions,
+    ...(file.patch !== undefined && { patch: file.patch }),
+  };
+}
+
+export function checkSuiteJson(repo: FakeRepo, suite: FakeCheckSuite) {
+  const pull = findPull(repo, suite.pullNumber);
+  const base = baseRef(repo, pull);
+  return {
+    id: suite.id,
+    head_branch: headRef(pull),
+    head_sha: headSha(repo, pull),
+    status: suite.status,
+    conclusion: suite.conclusion ?? null,
+    app: { slug: suite.app },
+    updated_at: suite.updatedAt,
+    pull_requests: [
+      {
+        number: pull.number,
+        head: { ref: headRef(pull), sha: headSha(repo, pull) },
+        base: { ref: base, sha: baseSha(repo, base) },
+      },
+    ],
+  };
+}
+
+export function commitJson(repo: FakeRepo, commit: FakeCommit) {
+  const id = sha(`${repo.owner}/${repo.name}:${commit.date}:${commit.author}:${commit.files.join(",")}`);
+  return {
+    sha: id,
+    html_url: htmlUrl(repo, `commit/${id}`),
+    author: user(commit.author),
+    commit: { author: { name: commit.author, date: commit.date }, message: commit.message ?? "" },
+  };
+}
+
+function runHead(repo: FakeRepo, run: FakeWorkflowRun) {
+  if (run.pullNumber === undefined) {
+    const branch = run.branch ?? repo.defaultBranch ?? "main";
+    return { branch, sha: sha(`${repo.owner}/${repo.name}@${branch}#${run.id}`) };
+  }
+  const pull = findPull(repo, run.pullNumber);
+  return { branch: headRef(pull), sha: headSha(repo, pull) };
+}
+
+export function workflowRunJson(repo: FakeRepo, run: FakeWorkflowRun) {
+  const head = runHead(repo, run);
+  return {
+    id: run.id,
+    name: run.name,
+    workflow_id: run.workflowId,
+    event: run.pullNumber === undefined ? "push" : "pull_request",
+    head_branch: head.branch,
+    head_sha: head.sha,
+    status: "completed",
+    conclusion: run.conclusion,
+    created_at: run.createdAt,
+    html_url: htmlUrl(repo, `actions/runs/${run.id}`),
+  };
+}
+
+export function jobJson(repo: FakeRepo, run: FakeWorkflowRun, job: FakeJob) {
+  return {
+    id: job.id,
+    run_id: run.id,
+    name: job.name,
+    head_sha: runHead(repo, run).sha,
+    status: "completed",
+    conclusion: job.conclusion,
+    html_url: htmlUrl(repo, `actions/runs/${run.id}/job/${job.id}`),
+    steps: (job.steps ?? []).map((step, i) => ({ number: i + 1, name: step.name, status: "completed", conclusion: step.conclusion })),
+  };
+}
+
+// The check run GitHub creates for each Actions job; they share an id.
+function checkRunJson(repo: FakeRepo, run: FakeWorkflowRun, job: FakeJob) {
+  return {
+    id: job.id,
+    name: job.name,
+    head_sha: runHead(repo, run).sha,
+    status: "completed",
+    conclusion: job.conclusion,
+    html_url: htmlUrl(repo, `actions/runs/${run.id}/job/${job.id}`),
+    details_url: htmlUrl(repo, `actions/runs/${run.id}/job/${job.id}`),
+    app: { slug: "github-actions" },
+  };
+}
+
+// The `application/vnd.github.diff` rendering of a PR.
+export function pullDiff(pull: FakePull): string {
+  return (pull.files ?? [])
+    .map((f) => {
+      const from = f.status === "added" ? "/dev/null" : `a/${f.filename}`;
+      const to = f.status === "removed" ? "/dev/null" : `b/${f.filename}`;
+      return [`diff --git a/${f.filename} b/${f.filename}`, `--- ${from}`, `+++ ${to}`, f.patch ?? ""].join("\n");
+    })
+    .join("\n");
+}
+
+export function issueJson(repo: FakeRepo, issue: FakeIssue) {
+  return {
+    number: issue.number,
+    title: issue.title,
+    body: issue.body ?? null,
+    state: issue.state ?? "open",
+    html_url: htmlUrl(repo, `issues/${issue.number}`),
+    user: user(issue.author ?? repo.owner),
+    labels: (issue.labels ?? []).map((name) => ({ name })),
+    created_at: issue.createdAt,
+    updated_at: issue.updatedAt,
+  };
+}
+
+function findPull(repo: FakeRepo, number: number): FakePull {
+  const pull = repo.pulls.find((p) => p.number === number);
+  if (!pull) throw new HttpError(404, "Not Found");
+  return pull;
+}
+
+// The issues API serves pulls too: labels and comments work on either.
+function findIssue(repo: FakeRepo, number: number): FakePull | FakeIssue {
+  const found = repo.pulls.find((p) => p.number === number) ?? repo.issues?.find((i) => i.number === number);
+  if (!found) throw new HttpError(404, "Not Found");
+  return found;
+}
+
+function findJob(repo: FakeRepo, id: number): { run: FakeWorkflowRun; job: FakeJob } {
+  for (const run of repo.workflowRuns ?? []) {
+    const job = run.jobs.find((j) => j.id === id);
+    if (job) return { run, job };
+  }
+  throw new HttpError(404, "Not Found");
+}
+
+function findRun(repo: FakeRepo, id: number): FakeWorkflowRun {
+  const run = repo.workflowRuns?.find((r) => r.id === id);
+  if (!run) throw new HttpError(404, "Not Found");
+  return run;
+}
+
+// --- Routing -------------------------------------------------------------
+
+// Page through `items` like GitHub does: `per_page` (max 100) and `page`, with
+// a `Link` header pointing at the neighbouring pages.
+function paginate<T>(ctx: RequestContext, baseUrl: string, items: T[]): T[] {
+  const perPage = Math.min(Math.max(Number(ctx.query.get("per_page") ?? 30) || 30, 1), 100);
+  const page = Math.max(Number(ctx.query.get("page") ?? 1) || 1, 1);
+  const last = Math.max(Math.ceil(items.length / perPage), 1);
+  const link = (n: number, rel: string) => {
+    const query = new URLSearchParams(ctx.query);
+    query.set("page", String(n));
+    query.set("per_page", String(perPage));
+    return `<${baseUrl}${new URL(ctx.req.url ?? "/", baseUrl).pathname}?${query}>; rel="${rel}"`;
+  };
+  const links = [];
+  if (page > 1) links.push(link(1, "first"), link(page - 1, "prev"));
+  if (page < last) links.push(link(page + 1, "next"), link(last, "last"));
+  if (links.length) ctx.res.setHeader("link", links.join(", "));
+  return items.slice((page - 1) * perPage, page * perPage);
+}
+
+function requireFields(body: unknown, check: (b: Record<string, unknown>) => boolean): Record<string, unknown> {
+  if (!body || typeof body !== "object" || !check(body as Record<string, unknown>)) {
+    throw new HttpError(422, "Validation Failed");
+  }
+  return body as Record<string, unknown>;
+}
+
+export async function startFakeGitHub(options: FakeGitHubOptions): Promise<FakeGitHub> {
+  const now = options.now ?? Date.now;
+  let nextId = 1000;
+  const repos = structuredClone(options.repos);
+  const state: Omit<FakeGitHub, "url" | "close"> = {
+    repos,
+    reviews: [],
+    comments: repos.flatMap((r) => (r.comments ?? []).map((c) => ({ id: nextId++, repo: `${r.owner}/${r.name}`, ...c }))),
+    requests: [],
+  };
+  let url = "";
+
+  const touch = (item: FakePull | FakeIssue) => {
+    item.updatedAt = new Date(now()).toISOString();
+  };
+  const commentJson = (repo: FakeRepo, c: FakeComment) => ({
+    id: c.id,
+    body: c.body,
+    user: user(c.author),
+    created_at: c.createdAt,
+    html_url: `${htmlUrl(repo, `issues/${c.issueNumber}`)}#issuecomment-${c.id}`,
+  });
+
+  const routes: [string, RegExp, Handler][] = [
+    ["GET", /^$/, ({ repo }) => repoJson(repo)],
+    [
+      "GET",
+      /^\/pulls$/,
+      (ctx) => {
+        const { repo, query } = ctx;
+        const wanted = query.get("state") ?? "open";
+        const sort = query.get("sort") ?? "created";
+        const direction = query.get("direction") ?? "desc";
+        const key = sort === "updated" ? "updatedAt" : "createdAt";
+        const pulls = repo.pulls
+          .filter((p) => wanted === "all" || (p.state ?? "open") === wanted)
+          .filter((p) => !query.get("base") || baseRef(repo, p) === query.get("base"))
+          .sort((a, b) => (direction === "asc" ? 1 : -1) * a[key].localeCompare(b[key]));
+        return paginate(ctx, url, pulls).map((p) => pullJson(repo, p));
+      },
+    ],
+    [
+      "GET",
+      /^\/pulls\/(\d+)$/,
+      ({ repo, params, req, res }) => {
+        const pull = findPull(repo, Number(params[0]));
+        if (req.headers.accept?.includes("diff")) {
+          res.setHeader("content-type", "text/plain; charset=utf-8");
+          return pullDiff(pull);
+        }
+        return pullJson(repo, pull);
+      },
+    ],
+    ["GET", /^\/pulls\/(\d+)\/files$/, (ctx) => paginate(ctx, url, findPull(ctx.repo, Number(ctx.params[0])).files ?? []).map(fileJson)],
+    [
+      "GET",
+      /^\/pulls\/(\d+)\/reviews$/,
+      ({ repo, params }) => {
+        findPull(repo, Number(params[0]));
+        const full = `${repo.owner}/${repo.name}`;
+        return state.reviews
+          .filter((r) => r.repo === full && r.pullNumber === Number(params[0]))
+          .map((r) => ({ id: r.id, body: r.body, state: reviewState(r.event), user: user("pr-triage[bot]") }));
+      },
+    ],
+    [
+      "POST",
+      /^\/pulls\/(\d+)\/reviews$/,
+      ({ repo, params, body }) => {
+        const pull = findPull(repo, Number(params[0]));
+        const { event, body: text = "" } = requireFields(
+          body,
+          (b) =>
+            (b.event === "APPROVE" || b.event === "REQUEST_CHANGES" || b.event === "COMMENT") &&
+            (b.event === "APPROVE" || (typeof b.body === "string" && b.body.length > 0)),
+        );
+        const review: FakeReview = {
+          id: nextId++,
+          repo: `${repo.owner}/${repo.name}`,
+          pullNumber: pull.number,
+          event: event as FakeReview["event"],
+          body: String(text),
+        };
+        state.reviews.push(review);
+        touch(pull);
+        return {
+          id: review.id,
+          state: reviewState(review.event),
+          body: review.body,
+          html_url: htmlUrl(repo, `pull/${pull.number}#pullrequestreview-${review.id}`),
+        };
+      },
+    ],
+    [
+      "GET",
+      /^\/pulls\/(\d+)\/requested_reviewers$/,
+      ({ repo, params }) => {
+        const pull = findPull(repo, Number(params[0]));
+        return { users: (pull.requestedReviewers ?? []).map(user), teams: (pull.requestedTeams ?? []).map((slug) => ({ slug })) };
+      },
+    ],
+    [
+      "POST",
+      /^\/pulls\/(\d+)\/requested_reviewers$/,
+      ({ repo, params, body, res }) => {
+        const pull = findPull(repo, Number(params[0]));
+        const strings = (v: unknown) => v === undefined || (Array.isArray(v) && v.every((x) => typeof x === "string"));
+        const { reviewers = [], team_reviewers: teams = [] } = requireFields(
+          body,
+          (b) => strings(b.reviewers) && strings(b.team_reviewers),
+        ) as { reviewers?: string[]; team_reviewers?: string[] };
+        if (reviewers.includes(pull.author)) {
+          throw new HttpError(422, "Review cannot be requested from pull request author.");
+        }
+        pull.requestedReviewers = [...new Set([...(pull.requestedReviewers ?? []), ...reviewers])];
+        pull.requestedTeams = [...new Set([...(pull.requestedTeams ?? []), ...teams])];
+        touch(pull);
+        res.statusCode = 201;
+        return pullJson(repo, pull);
+      },
+    ],
+    [
+      "GET",
+      /^\/issues$/,
+      (ctx) => {
+        const { repo, query } = ctx;
+        const wanted = query.get("state") ?? "open";
+        const labels = query.get("labels")?.split(",").filter(Boolean) ?? [];
+        const items = [
+          ...(repo.issues ?? []).map((i) => ({ item: i as FakePull | FakeIssue, json: issueJson(repo, i) })),
+          ...repo.pulls.map((p) => ({ item: p, json: { ...issueJson(repo, p), html_url: htmlUrl(repo, `pull/${p.number}`), pull_request: {} } })),
+        ]
+          .filter(({ item }) => wanted === "all" || (item.state ?? "open") === wanted)
+          .filter(({ item }) => labels.every((l) => item.labels?.includes(l)))
+          .sort((a, b) => b.item.createdAt.localeCompare(a.item.createdAt));
+        return paginate(ctx, url, items).map(({ json }) => json);
+      },
+    ],
+    [
+      "POST",
+      /^\/issues$/,
+      ({ repo, body, res }) => {
+        const { title, body: text, labels } = requireFields(
+          body,
+          (b) => typeof b.title === "string" && b.title.length > 0 && (b.labels === undefined || Array.isArray(b.labels)),
+        );
+        const numbers = [...repo.pulls, ...(repo.issues ?? [])].map((i) => i.number);
+        const at = new Date(now()).toISOString();
+        const issue: FakeIssue = {
+          number: Math.max(0, ...numbers) + 1,
+          title: String(title),
+          body: typeof text === "string" ? text : undefined,
+          author: "pr-triage[bot]",
+          labels: (labels as string[] | undefined) ?? [],
+          createdAt: at,
+          updatedAt: at,
+        };
+        (repo.issues ??= []).push(issue);
+        res.statusCode = 201;
+        return issueJson(repo, issue);
+      },
+    ],
+    ["GET", /^\/issues\/(\d+)\/labels$/, ({ repo, params }) => (findIssue(repo, Number(params[0])).labels ?? []).map((name) => ({ name }))],
+    [
+      "POST",
+      /^\/issues\/(\d+)\/labels$/,
+      ({ repo, params, body }) => {
+        const issue = findIssue(repo, Number(params[0]));
+        const { labels } = requireFields(body, (b) => Array.isArray(b.labels) && b.labels.every((l) => typeof l === "string"));
+        issue.labels = [...new Set([...(issue.labels ?? []), ...(labels as string[])])];
+        touch(issue);
+        return issue.labels.map((name) => ({ name }));
+      },
+    ],
+    [
+      "DELETE",
+      /^\/issues\/(\d+)\/labels\/([^/]+)$/,
+      ({ repo, params }) => {
+        const issue = findIssue(repo, Number(params[0]));
+        const name = decodeURIComponent(params[1]);
+        if (!issue.labels?.includes(name)) throw new HttpError(404, "Label does not exist");
+        issue.labels = issue.labels.filter((l) => l !== name);
+        touch(issue);
+        return issue.labels.map((l) => ({ name: l }));
+      },
+    ],
+    [
+      "GET",
+      /^\/issues\/(\d+)\/comments$/,
+      (ctx) => {
+        const issue = findIssue(ctx.repo, Number(ctx.params[0]));
+        const comments = state.comments.filter(
+          (c) => c.repo === `${ctx.repo.owner}/${ctx.repo.name}` && c.issueNumber === issue.number,
+        );
+        return paginate(ctx, url, comments).map((c) => commentJson(ctx.repo, c));
+      },
+    ],
+    [
+      "POST",
+      /^\/issues\/(\d+)\/comments$/,
+      ({ repo, params, body, res }) => {
+        const issue = findIssue(repo, Number(params[0]));
+        const { body: text } = requireFields(body, (b) => typeof b.body === "string" && b.body.length > 0);
+        const comment: FakeComment = {
+          id: nextId++,
+          repo: `${repo.owner}/${repo.name}`,
+          issueNumber: issue.number,
+          author: "pr-triage[bot]",
+          body: String(text),
+          createdAt: new Date(now()).toISOString(),
+        };
+        state.comments.push(comment);
+        touch(issue);
+        res.statusCode = 201;
+        return commentJson(repo, comment);
+      },
+    ],
+    [
+      "GET",
+      /^\/commits$/,
+      (ctx) => {
+        const path = ctx.query.get("path");
+        const since = ctx.query.get("since");
+        const commits = (ctx.repo.commits ?? [])
+          .filter((c) => !path || c.files.includes(path))
+          .filter((c) => !since || c.date >= since);
+        return paginate(ctx, url, commits).map((c) => commitJson(ctx.repo, c));
+      },
+    ],
+    [
+      "GET",
+      /^\/commits\/([^/]+)\/check-suites$/,
+      ({ repo, params }) => {
+        const suites = (repo.checkSuites ?? []).filter((s) => headSha(repo, findPull(repo, s.pullNumber)) === params[0]);
+        return { total_count: suites.length, check_suites: suites.map((s) => checkSuiteJson(repo, s)) };
+      },
+    ],
+    [
+      "GET",
+      /^\/check-suites\/(\d+)$/,
+      ({ repo, params }) => {
+        const suite = (repo.checkSuites ?? []).find((s) => s.id === Number(params[0]));
+        if (!suite) throw new HttpError(404, "Not Found");
+        return checkSuiteJson(repo, suite);
+      },
+    ],
+    [
+      "GET",
+      /^\/commits\/([^/]+)\/check-runs$/,
+      (ctx) => {
+        const { repo, params } = ctx;
+        const runs = (repo.workflowRuns ?? [])
+          .filter((r) => runHead(repo, r).sha === params[0])
+          .flatMap((r) => r.jobs.map((j) => checkRunJson(repo, r, j)));
+        return { total_count: runs.length, check_runs: paginate(ctx, url, runs) };
+      },
+    ],
+    [
+      "GET",
+      /^\/actions\/jobs\/(\d+)$/,
+      ({ repo, params }) => {
+        const { run, job } = findJob(repo, Number(params[0]));
+        return jobJson(repo, run, job);
+      },
+    ],
+    [
+      "GET",
+      /^\/actions\/jobs\/(\d+)\/logs$/,
+      ({ repo, params, res }) => {
+        const { job } = findJob(repo, Number(params[0]));
+        if (job.log === undefined) throw new HttpError(410, "Gone");
+        res.setHeader("content-type", "text/plain; charset=utf-8");
+        return job.log;
+      },
+    ],
+    ["GET", /^\/actions\/runs\/(\d+)$/, ({ repo, params }) => workflowRunJson(repo, findRun(repo, Number(params[0])))],
+    [
+      "GET",
+      /^\/actions\/runs\/(\d+)\/jobs$/,
+      (ctx) => {
+        const run = findRun(ctx.repo, Number(ctx.params[0]));
+        return { total_count: run.jobs.length, jobs: paginate(ctx, url, run.jobs).map((j) => jobJson(ctx.repo, run, j)) };
+      },
+    ],
+    [
+      "GET",
+      /^\/actions\/workflows\/(\d+)\/runs$/,
+      (ctx) => {
+        const { repo, params, query } = ctx;
+        const runs = (repo.workflowRuns ?? [])
+          .filter((r) => r.workflowId === Number(params[0]))
+          .filter((r) => !query.get("branch") || runHead(repo, r).branch === query.get("branch"))
+          .filter((r) => !query.get("event") || workflowRunJson(repo, r).event === query.get("event"));
+        return { total_count: runs.length, workflow_runs: paginate(ctx, url, runs).map((r) => workflowRunJson(repo, r)) };
+      },
+    ],
+    [
+      "GET",
+      /^\/contents\/(.+)$/,
+      ({ repo, params }) => {
+        const path = decodeURIComponent(params[0]);
+        const text = repo.contents?.[path];
+        if (text === undefined) throw new HttpError(404, "Not Found");
+        return { type: "file", path, encoding: "base64", content: Buffer.from(text).toString("base64") };
+      },
+    ],
+  ];
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const requestUrl = new URL(req.url ?? "/", url);
+    const record: RecordedRequest = {
+      method: req.method ?? "GET",
+      path: requestUrl.pathname,
+      query: Object.fromEntries(requestUrl.searchParams),
+      status: 200,
+    };
+    state.requests.push(record);
+
+    let result: unknown;
+    try {
+      const raw = await readBody(req);
+      if (raw) {
+        try {
+          record.body = JSON.parse(raw);
+        } catch {
+          throw new HttpError(400, "Problems parsing JSON");
+        }
+      }
+
+      const auth = req.headers.authorization ?? "";
+      if (!/^(Bearer|token) \S+/.test(auth) || (options.token && auth.split(" ")[1] !== options.token)) {
+        throw new HttpError(401, "Requires authentication");
+      }
+
+      const match = /^\/repos\/([^/]+)\/([^/]+)(\/.*)?$/.exec(requestUrl.pathname);
+      const repo = match && state.repos.find((r) => r.owner === match[1] && r.name === match[2]);
+      if (!match || !repo) throw new HttpError(404, "Not Found");
+
+      const rest = match[3] ?? "";
+      const route = routes.find(([method, re]) => method === record.method && re.test(rest));
+      if (!route) {
+        throw routes.some(([, re]) => re.test(rest)) ? new HttpError(405, "Method Not Allowed") : new HttpError(404, "Not Found");
+      }
+      const params = route[1].exec(rest)!.slice(1);
+      result = route[2]({ repo, params, query: requestUrl.searchParams, body: record.body, req, res });
+    } catch (err) {
+      res.statusCode = err instanceof HttpError ? err.status : 500;
+      result = { message: err instanceof Error ? err.message : String(err) };
+    }
+
+    record.status = res.statusCode;
+    if (typeof result === "string") {
+      res.end(result);
+    } else {
+      res.setHeader("content-type", "application/json; charset=utf-8");
+      res.end(JSON.stringify(result));
+    }
+  };
+
+  const server = createServer((req, res) => void handle(req, res));
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, "127.0.0.1", resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    ...state,
+    url,
+    close: () => new Promise<void>((resolve, reject) => server.close((err) => (err ? reject(err) : resolve()))),
+  };
+}
+
+function reviewState(event: FakeReview["event"]) {
+  return event === "APPROVE" ? "APPROVED" : event === "REQUEST_CHANGES" ? "CHANGES_REQUESTED" : "COMMENTED";
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString("utf8");
+}
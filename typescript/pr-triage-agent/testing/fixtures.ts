@@ -0,0 +1,235 @@
+import type { FakeRepo } from "./fake-github.ts";
+
+const DAY = 86_400_000;
+
+// Actions job logs prefix every line with a timestamp.
+const log = (at: string, lines: string[]) => lines.map((line) => `${at} ${line}`).join("\n");
+
+// A small repo covering the triage paths: a fresh PR, stale ones (one already
+// pinged by the digest), a draft, a risky patch, a failed CI run with a flaky
+// test that also failed on main, and enough history to pick reviewers. Timestamps are relative to `now` so stale checks
+// stay deterministic — pass a fixed `now` in tests.
+export function widgetsRepo(now = Date.now()): FakeRepo {
+  const ago = (days: number) => new Date(now - days * DAY).toISOString();
+  return {
+    owner: "acme",
+    name: "widgets",
+    defaultBranch: "main",
+    contents: {
+      ".triage.yml": "ignore: [\"vendor/**\"]\n",
+      CODEOWNERS: "* @acme/maintainers\n/src/auth/ @dana\n",
+    },
+    pulls: [
+      {
+        number: 1,
+        title: "Add dark mode toggle",
+        author: "alice",
+        createdAt: ago(1),
+        updatedAt: ago(0.5),
+        files: [
+          {
+            filename: "src/ui/toggle.tsx",
+            status: "added",
+            patch: "@@ -0,0 +1,3 @@\n+export function Toggle() {\n+  return <button>Dark</button>;\n+}",
+          },
+        ],
+      },
+      {
+        number: 2,
+        title: "Skip session check for health endpoint",
+        author: "bob",
+        labels: ["backend"],
+        createdAt: ago(9),
+        updatedAt: ago(6),
+        files: [
+          {
+            filename: "src/auth/session.ts",
+            status: "modified",
+            patch:
+              "@@ -10,6 +10,5 @@ export function route(req) {\n" +
+              "   if (req.path === \"/health\") return ok();\n" +
+              "-  requireAuth(req);\n" +
+              "   const user = req.user;\n" +
+              "-  return db.query(\"SELECT * FROM users WHERE id = $1\", [user.id]);\n" +
+              "+  return db.query(\"SELECT * FROM users WHERE id = \" + user.id);\n" +
+              " }",
+          },
+          {
+            filename: "package-lock.json",
+            status: "modified",
+            patch: "@@ -40,3 +40,7 @@\n     },\n+    \"node_modules/left-pad\": {\n+      \"version\": \"1.3.0\"\n+    },\n     \"node_modules/zod\": {",
+          },
+        ],
+      },
+      {
+        number: 3,
+        title: "WIP: migrate to the new billing API",
+        author: "carol",
+        draft: true,
+        createdAt: ago(20),
+        updatedAt: ago(15),
+        files: [
+          {
+            filename: "db/migrations/0042_drop_invoices.sql",
+            status: "added",
+            patch: "@@ -0,0 +1 @@\n+DROP TABLE invoices;",
+          },
+        ],
+      },
+      {
+        number: 4,
+        title: "Bump eslint",
+        author: "dependabot[bot]",
+        base: "release",
+        labels: ["dependencies"],
+        createdAt: ago(30),
+        updatedAt: ago(12),
+        requestedReviewers: ["alice"],
+        files: [{ filename: "package.json", status: "modified", patch: "@@ -5 +5 @@\n-    \"eslint\": \"^9.0.0\"\n+    \"eslint\": \"^9.1.0\"" }],
+      },
+      {
+        number: 5,
+        title: "Cache widget thumbnails",
+        author: "erin",
+        labels: ["stale"],
+        createdAt: ago(25),
+        // Last touched by the digest's own ping; idle since the day 16 it recorded.
+        updatedAt: ago(13),
+        files: [{ filename: "src/ui/thumbnails.ts", status: "added", patch: "@@ -0,0 +1 @@\n+export const cache = new Map();" }],
+      },
+    ],
+    comments: [
+      { issueNumber: 2, author: "dana", body: "Can we keep the auth check for non-health routes?", createdAt: ago(6) },
+      {
+        issueNumber: 5,
+        author: "pr-triage[bot]",
+        body: `@erin this pull request has had no activity for 3 days.\n\n<!-- pr-triage:stale-ping since=${ago(16)} -->`,
+        createdAt: ago(13),
+      },
+    ],
+    commits: [
+      { author: "dana", date: ago(3), files: ["src/auth/session.ts"], message: "Harden session expiry" },
+      { author: "erin", date: ago(8), files: ["src/auth/session.ts", "package-lock.json"], message: "Add session store" },
+      { author: "dana", date: ago(40), files: ["src/auth/session.ts"], message: "Rotate session keys" },
+      { author: "renovate[bot]", date: ago(2), files: ["package-lock.json"], message: "Update lockfile" },
+      { author: "alice", date: ago(300), files: ["src/ui/toggle.tsx"], message: "Old UI work" },
+    ],
+    checkSuites: [
+      {
+        id: 101,
+        pullNumber: 2,
+        app: "github-actions",
+        status: "completed",
+        conclusion: "failure",
+        updatedAt: ago(6),
+      },
+      {
+        id: 102,
+        pullNumber: 1,
+        app: "github-actions",
+        status: "completed",
+        conclusion: "success",
+        updatedAt: ago(0.5),
+      },
+    ],
+    workflowRuns: [
+      {
+        id: 510,
+        workflowId: 11,
+        name: "CI",
+        branch: "main",
+        conclusion: "success",
+        createdAt: ago(1),
+        jobs: [
+          { id: 5101, name: "typecheck", conclusion: "success", log: log(ago(1), ["Found 0 errors."]) },
+          { id: 5102, name: "test", conclusion: "success", log: log(ago(1), ["Tests: 42 passed, 42 total"]) },
+        ],
+      },
+      {
+        id: 501,
+        workflowId: 11,
+        name: "CI",
+        pullNumber: 2,
+        conclusion: "failure",
+        createdAt: ago(6),
+        jobs: [
+          {
+            id: 5011,
+            name: "typecheck",
+            conclusion: "failure",
+            steps: [
+              { name: "Set up job", conclusion: "success" },
+              { name: "Run npm run typecheck", conclusion: "failure" },
+            ],
+            log: log(ago(6), [
+              "##[group]Run npm run typecheck",
+              "npm run typecheck",
+              "##[endgroup]",
+              "src/auth/session.ts(13,3): error TS2322: Type 'Promise<Row[]>' is not assignable to type 'User'.",
+              "##[error]Process completed with exit code 2.",
+            ]),
+          },
+          {
+            id: 5012,
+            name: "test",
+            conclusion: "failure",
+            steps: [
+              { name: "Set up job", conclusion: "success" },
+              { name: "Run npm test", conclusion: "failure" },
+            ],
+            log: log(ago(6), [
+              "##[group]Run npm test",
+              "npm test",
+              "##[endgroup]",
+              "FAIL src/auth/session.test.ts",
+              "  ● route › rejects anonymous requests",
+              "    expect(received).toBe(expected)",
+              "      at route (/home/runner/work/widgets/widgets/src/auth/session.ts:12:5)",
+              "      at Object.<anonymous> (/home/runner/work/widgets/widgets/src/auth/session.test.ts:8:20)",
+              "      at runTest (/home/runner/work/widgets/widgets/node_modules/jest-circus/build/run.js:310:9)",
+              "FAIL src/ui/thumbnails.test.ts",
+              "  ● thumbnails › evicts the oldest entry",
+              "    Exceeded timeout of 5000 ms for a test.",
+              "Tests: 2 failed, 40 passed, 42 total",
+              "##[error]Process completed with exit code 1.",
+            ]),
+          },
+        ],
+      },
+      {
+        id: 509,
+        workflowId: 11,
+        name: "CI",
+        branch: "main",
+        conclusion: "failure",
+        createdAt: ago(8),
+        jobs: [
+          { id: 5091, name: "typecheck", conclusion: "success", log: log(ago(8), ["Found 0 errors."]) },
+          {
+            id: 5092,
+            name: "test",
+            conclusion: "failure",
+            log: log(ago(8), [
+              "FAIL src/ui/thumbnails.test.ts",
+              "  ● thumbnails › evicts the oldest entry",
+              "    Exceeded timeout of 5000 ms for a test.",
+              "##[error]Process completed with exit code 1.",
+            ]),
+          },
+        ],
+      },
+      {
+        id: 508,
+        workflowId: 11,
+        name: "CI",
+        branch: "main",
+        conclusion: "success",
+        createdAt: ago(10),
+        jobs: [
+          { id: 5081, name: "typecheck", conclusion: "success" },
+          { id: 5082, name: "test", conclusion: "success" },
+        ],
+      },
+    ],
+  };
+}
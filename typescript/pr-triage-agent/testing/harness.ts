@@ -0,0 +1,31 @@
+// Shared setup for the tests: the fake GitHub on the widgets fixture, and a way
+// to call a tool the way the agent loop does.
+import type { z } from "zod";
+import { startFakeGitHub, type FakeGitHub } from "./fake-github.ts";
+import { widgetsRepo } from "./fixtures.ts";
+
+export const DAY = 86_400_000;
+
+// The fixture clock. Tools read Date.now(), so tests pin it here too with
+// `mock.timers.enable({ apis: ["Date"], now: NOW })`.
+export const NOW = Date.parse("2026-03-02T12:00:00Z");
+
+// Starts the fake on acme/widgets and points lib/github.ts at it.
+export async function startWidgets(): Promise<FakeGitHub> {
+  const github = await startFakeGitHub({ repos: [widgetsRepo(NOW)], now: () => Date.now() });
+  process.env.GITHUB_API_URL = github.url;
+  process.env.GITHUB_TOKEN = "fake";
+  return github;
+}
+
+interface Tool<S extends z.ZodType, R> {
+  inputSchema: S;
+  execute?: (input: z.output<S>, ...rest: never[]) => R;
+}
+
+// Validates `input` against the tool's schema first, so defaults apply and bad
+// input fails the same way it would for the model.
+export async function runTool<S extends z.ZodType, R>(tool: Tool<S, R>, input: z.input<S>): Promise<Awaited<R>> {
+  const parsed = tool.inputSchema.parse(input);
+  return await tool.execute!(parsed);
+}
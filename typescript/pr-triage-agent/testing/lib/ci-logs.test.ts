@@ -0,0 +1,213 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { parseJobLog, repoRelative } from "../../agent/lib/ci-logs.ts";
+
+// Actions prefixes every log line with a timestamp.
+const log = (...lines: string[]) => lines.map((line) => `2026-03-02T09:14:07.1234567Z ${line}`).join("\n");
+
+describe("repoRelative", () => {
+  const CASES: [string, string][] = [
+    ["/home/runner/work/widgets/widgets/src/auth/session.ts", "src/auth/session.ts"],
+    ["/Users/runner/work/widgets/widgets/Sources/App.swift", "Sources/App.swift"],
+    ["D:\\a\\widgets\\widgets\\api\\auth.py", "api/auth.py"],
+    ["/__w/widgets/widgets/lib/user.rb", "lib/user.rb"],
+    ["file:///home/runner/work/widgets/widgets/src/index.mjs", "src/index.mjs"],
+    ["./auth/session.go", "auth/session.go"],
+    ["src/auth/session.ts", "src/auth/session.ts"],
+    // Outside the checkout: left alone.
+    ["/usr/lib/python3.12/json/decoder.py", "/usr/lib/python3.12/json/decoder.py"],
+  ];
+
+  for (const [path, expected] of CASES) {
+    test(path, () => assert.equal(repoRelative(path), expected));
+  }
+});
+
+describe("parseJobLog", () => {
+  describe("failed tests", () => {
+    // [runner, log lines, expected tests]
+    const CASES: [string, string[], { name: string; file?: string }[]][] = [
+      [
+        "Jest",
+        ["FAIL src/auth/session.test.ts", "  ● route › rejects anonymous requests", "    expect(received).toBe(expected)"],
+        [{ name: "route › rejects anonymous requests", file: "src/auth/session.test.ts" }],
+      ],
+      [
+        "Vitest",
+        [" \x1b[31m×\x1b[39m thumbnails > evicts the oldest entry 12ms", " ✕ thumbnails > keeps recent entries"],
+        [{ name: "thumbnails > evicts the oldest entry" }, { name: "thumbnails > keeps recent entries" }],
+      ],
+      [
+        "pytest",
+        ["FAILED tests/test_api.py::test_login - AssertionError: assert 401 == 200"],
+        [{ name: "test_login", file: "tests/test_api.py" }],
+      ],
+      ["go test", ["--- FAIL: TestLogin (0.01s)", "    --- FAIL: TestLogin/expired (0.00s)"], [{ name: "TestLogin" }, { name: "TestLogin/expired" }]],
+      [
+        "RSpec",
+        ["rspec ./spec/models/user_spec.rb:12 # User validates email"],
+        [{ name: "User validates email", file: "spec/models/user_spec.rb" }],
+      ],
+      ["cargo test", ["test auth::tests::rejects_expired ... FAILED", "test auth::tests::accepts_fresh ... ok"], [{ name: "auth::tests::rejects_expired" }]],
+      ["Maven", ["[ERROR]   UserTest.rejectsExpired:42 expected:<true> but was:<false>"], [{ name: "UserTest.rejectsExpired" }]],
+    ];
+
+    for (const [runner, lines, tests] of CASES) {
+      test(runner, () => assert.deepEqual(parseJobLog(log(...lines)).tests, tests));
+    }
+
+    test("lists each test once, though Jest repeats failures in its summary", () => {
+      const summary = parseJobLog(
+        log(
+          "FAIL src/ui/thumbnails.test.ts",
+          "  ● thumbnails › evicts the oldest entry",
+          "Summary of all failing tests",
+          "FAIL src/ui/thumbnails.test.ts",
+          "  ● thumbnails › evicts the oldest entry",
+        ),
+      );
+
+      assert.deepEqual(summary.tests, [{ name: "thumbnails › evicts the oldest entry", file: "src/ui/thumbnails.test.ts" }]);
+    });
+
+    test("reports a Jest suite that failed to run as an error on its file, not as a test", () => {
+      const summary = parseJobLog(
+        log(
+          "FAIL src/auth/session.test.ts",
+          "  ● Test suite failed to run",
+          "    src/auth/session.ts:13:3 - error TS2322: Type 'Promise<Row[]>' is not assignable to type 'User'.",
+          "FAIL src/ui/thumbnails.test.ts",
+          "  ● thumbnails › evicts the oldest entry",
+          "Summary of all failing tests",
+          "FAIL src/auth/session.test.ts",
+          "  ● Test suite failed to run",
+        ),
+      );
+
+      assert.deepEqual(summary.tests, [{ name: "thumbnails › evicts the oldest entry", file: "src/ui/thumbnails.test.ts" }]);
+      assert.deepEqual(summary.errors, [
+        { file: "src/auth/session.test.ts", message: "Test suite failed to run" },
+        { file: "src/auth/session.ts", line: 13, message: "TS2322: Type 'Promise<Row[]>' is not assignable to type 'User'." },
+      ]);
+    });
+  });
+
+  describe("compiler errors", () => {
+    // [compiler, log line, expected error]
+    const CASES: [string, string, { file: string; line: number; message: string }][] = [
+      [
+        "tsc",
+        "src/auth/session.ts(13,3): error TS2322: Type 'string' is not assignable to type 'number'.",
+        { file: "src/auth/session.ts", line: 13, message: "TS2322: Type 'string' is not assignable to type 'number'." },
+      ],
+      [
+        "tsc --pretty",
+        "src/auth/session.ts:13:3 - error TS2304: Cannot find name 'ok'.",
+        { file: "src/auth/session.ts", line: 13, message: "TS2304: Cannot find name 'ok'." },
+      ],
+      [
+        "gcc",
+        "/home/runner/work/widgets/widgets/src/main.c:12:5: error: expected ';' before 'return'",
+        { file: "src/main.c", line: 12, message: "expected ';' before 'return'" },
+      ],
+      [
+        "javac",
+        "src/main/java/com/acme/App.java:12: error: cannot find symbol",
+        { file: "src/main/java/com/acme/App.java", line: 12, message: "cannot find symbol" },
+      ],
+      ["go build", "./auth/session.go:12:3: undefined: requireAuth", { file: "auth/session.go", line: 12, message: "undefined: requireAuth" }],
+    ];
+
+    for (const [compiler, line, error] of CASES) {
+      test(compiler, () => assert.deepEqual(parseJobLog(log(line)).errors, [error]));
+    }
+
+    test("pairs a rustc error with the --> location that follows it", () => {
+      const summary = parseJobLog(
+        log(
+          "warning: unused variable: `token`",
+          "  --> src/auth.rs:4:9",
+          "error[E0308]: mismatched types",
+          "  --> src/auth.rs:12:5",
+          "   |",
+          "12 |     session.user",
+          "error: cannot find value `ttl` in this scope",
+          "  --> /home/runner/work/widgets/widgets/src/cache.rs:30:17",
+          "  --> src/unrelated.rs:1:1",
+        ),
+      );
+
+      assert.deepEqual(summary.errors, [
+        { file: "src/auth.rs", line: 12, message: "mismatched types" },
+        { file: "src/cache.rs", line: 30, message: "cannot find value `ttl` in this scope" },
+      ]);
+    });
+
+    test("lists a repeated error once", () => {
+      const line = "src/a.ts(1,1): error TS1005: ';' expected.";
+
+      assert.equal(parseJobLog(log(line, line)).errors.length, 1);
+    });
+  });
+
+  describe("stack frames", () => {
+    // [language, log lines, expected frames]
+    const CASES: [string, string[], { file: string; line: number }[]][] = [
+      [
+        "Node",
+        [
+          "    at route (/home/runner/work/widgets/widgets/src/auth/session.ts:12:5)",
+          "    at file:///home/runner/work/widgets/widgets/src/index.mjs:4:2",
+          "    at runTest (/home/runner/work/widgets/widgets/node_modules/jest-circus/build/run.js:310:9)",
+        ],
+        [
+          { file: "src/auth/session.ts", line: 12 },
+          { file: "src/index.mjs", line: 4 },
+        ],
+      ],
+      [
+        "Python",
+        [
+          "  File \"/home/runner/work/widgets/widgets/api/auth.py\", line 12, in login",
+          "  File \"/opt/hostedtoolcache/Python/3.12.1/x64/lib/python3.12/site-packages/requests/api.py\", line 59, in request",
+        ],
+        [{ file: "api/auth.py", line: 12 }],
+      ],
+      [
+        "Java",
+        ["\tat com.acme.Auth.login(Auth.java:12)", "\tat java.base/jdk.internal.reflect.Method.invoke(Method.java:580)"],
+        [{ file: "Auth.java", line: 12 }],
+      ],
+      [
+        "Go",
+        [
+          "\t/home/runner/work/widgets/widgets/auth/session.go:12 +0x1d",
+          "\t/home/runner/go/pkg/mod/github.com/stretchr/testify@v1.9.0/assert/assertions.go:330 +0x8c",
+        ],
+        [{ file: "auth/session.go", line: 12 }],
+      ],
+    ];
+
+    for (const [language, lines, frames] of CASES) {
+      test(`${language}, without vendored frames`, () => assert.deepEqual(parseJobLog(log(...lines)).frames, frames));
+    }
+  });
+
+  test("takes the failing step from the group before the first ##[error], and keeps useful annotations", () => {
+    const summary = parseJobLog(
+      log(
+        "##[group]Run npm ci",
+        "added 312 packages",
+        "##[endgroup]",
+        "##[group]Run npm test",
+        "npm test",
+        "##[endgroup]",
+        "##[error]Tests failed: 2 of 42",
+        "##[error]Process completed with exit code 1.",
+      ),
+    );
+
+    assert.equal(summary.failedStep, "npm test");
+    assert.deepEqual(summary.annotations, ["Tests failed: 2 of 42"]);
+  });
+});
@@ -0,0 +1,138 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, test } from "node:test";
+import { loadCodeowners, ownersOf, parseCodeowners } from "../../agent/lib/codeowners.ts";
+import type { FakeGitHub } from "../fake-github.ts";
+import { startWidgets } from "../harness.ts";
+
+// [pattern, path, matches]
+const PATTERNS: [string, string, boolean][] = [
+  // No slash: matches at any depth.
+  ["*.js", "app.js", true],
+  ["*.js", "src/lib/app.js", true],
+  ["*.js", "app.jsx", false],
+  ["*.min.js", "dist/app.min.js", true],
+  ["*.min.js", "dist/appXminXjs", false],
+  ["file?.txt", "file1.txt", true],
+  ["file?.txt", "file10.txt", false],
+  ["file?.txt", "file/.txt", false],
+  // A leading slash anchors to the repo root.
+  ["/docs", "docs/guide.md", true],
+  ["/docs", "docs/api/index.md", true],
+  ["/docs", "src/docs/notes.md", false],
+  ["/build/", "build/out.js", true],
+  ["/build/", "src/build/out.js", false],
+  // So does a slash in the middle.
+  ["src/auth", "src/auth/session.ts", true],
+  ["src/auth", "lib/src/auth/session.ts", false],
+  // A trailing slash only matches directories, at any depth.
+  ["logs/", "logs/today.log", true],
+  ["logs/", "apps/api/logs/today.log", true],
+  ["logs/", "logs", false],
+  // `docs/*` owns the files directly in docs/, not nested ones.
+  ["docs/*", "docs/guide.md", true],
+  ["docs/*", "docs/api/index.md", false],
+  ["docs/*", "src/docs/guide.md", false],
+  // `**/` matches zero or more directories.
+  ["**/fixtures", "fixtures/a.json", true],
+  ["**/fixtures", "test/unit/fixtures/a.json", true],
+  ["**/fixtures", "test/myfixtures/a.json", false],
+  ["docs/**/*.md", "docs/guide.md", true],
+  ["docs/**/*.md", "docs/api/v2/index.md", true],
+  ["docs/**/*.md", "docs/api/index.html", false],
+  // A trailing `**` matches everything below.
+  ["/src/**", "src/a/b/c.ts", true],
+  ["/src/**", "lib/src/a.ts", false],
+];
+
+describe("parseCodeowners", () => {
+  for (const [pattern, path, matches] of PATTERNS) {
+    test(`${pattern} ${matches ? "matches" : "does not match"} ${path}`, () => {
+      const [rule] = parseCodeowners(`${pattern} @owner`);
+      assert.equal(rule.re.test(path), matches);
+    });
+  }
+
+  test("skips blank lines and comments but keeps line numbers", () => {
+    const rules = parseCodeowners(["# Owners", "", "*.ts @alice # TypeScript", "/api/ @acme/backend @bob"].join("\n"));
+
+    assert.deepEqual(
+      rules.map((r) => [r.line, r.pattern, r.owners]),
+      [
+        [3, "*.ts", ["@alice"]],
+        [4, "/api/", ["@acme/backend", "@bob"]],
+      ],
+    );
+  });
+
+  test("keeps email owners apart from handles and drops anything else", () => {
+    const [rule] = parseCodeowners("*.md docs@acme.dev @carol not-an-owner");
+
+    assert.deepEqual(rule.owners, ["@carol"]);
+    assert.deepEqual(rule.emails, ["docs@acme.dev"]);
+  });
+});
+
+describe("ownersOf", () => {
+  const rules = parseCodeowners(
+    [
+      "*                @acme/maintainers",
+      "/src/auth/       @dana",
+      "/src/auth/vendor/",
+      "*.md             docs@acme.dev",
+      "/src/auth/*.ts   @erin",
+    ].join("\n"),
+  );
+
+  // [path, line of the owning rule, owners, emails]
+  const CASES: [string, number, string[], string[]][] = [
+    ["package.json", 1, ["@acme/maintainers"], []],
+    ["src/auth/oauth/google.ts", 2, ["@dana"], []],
+    // The last matching line wins, even over a more specific earlier one.
+    ["src/auth/session.ts", 5, ["@erin"], []],
+    ["src/auth/README.md", 4, [], ["docs@acme.dev"]],
+    // A matching line without owners un-owns the path.
+    ["src/auth/vendor/jwt.js", 3, [], []],
+  ];
+
+  for (const [path, line, owners, emails] of CASES) {
+    test(`${path} → line ${line}`, () => {
+      const rule = ownersOf(rules, path);
+      assert.deepEqual([rule?.line, rule?.owners, rule?.emails], [line, owners, emails]);
+    });
+  }
+
+  test("returns undefined when nothing matches", () => {
+    assert.equal(ownersOf(parseCodeowners("/src/ @dana"), "docs/guide.md"), undefined);
+  });
+});
+
+describe("loadCodeowners", () => {
+  let github: FakeGitHub;
+
+  beforeEach(async () => {
+    github = await startWidgets();
+  });
+
+  afterEach(() => github.close());
+
+  test("looks in each of GitHub's locations, in order, at the given ref", async () => {
+    const codeowners = await loadCodeowners("acme", "widgets", "abc123");
+
+    assert.equal(codeowners?.path, "CODEOWNERS");
+    assert.equal(ownersOf(codeowners!.rules, "src/auth/session.ts")?.owners[0], "@dana");
+    assert.deepEqual(
+      github.requests.map((r) => [r.path, r.query.ref, r.status]),
+      [
+        ["/repos/acme/widgets/contents/.github/CODEOWNERS", "abc123", 404],
+        ["/repos/acme/widgets/contents/CODEOWNERS", "abc123", 200],
+      ],
+    );
+  });
+
+  test("returns undefined when the repo has none", async () => {
+    delete github.repos[0].contents!.CODEOWNERS;
+
+    assert.equal(await loadCodeowners("acme", "widgets"), undefined);
+    assert.equal(github.requests.length, 3);
+  });
+});
@@ -0,0 +1,137 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { parsePatch, parseUnifiedDiff } from "../../agent/lib/diff.ts";
+import { pullDiff } from "../fake-github.ts";
+import { widgetsRepo } from "../fixtures.ts";
+
+describe("parsePatch", () => {
+  test("numbers added and context lines on the new side, removed ones on the old", () => {
+    const file = parsePatch(
+      "src/auth/session.ts",
+      [
+        "@@ -10,5 +10,4 @@ export function route(req) {",
+        "   if (req.path === \"/health\") return ok();",
+        "-  requireAuth(req);",
+        "   const user = req.user;",
+        "-  return db.query(\"SELECT * FROM users WHERE id = $1\", [user.id]);",
+        "+  return db.query(\"SELECT * FROM users WHERE id = \" + user.id);",
+        " }",
+      ].join("\n"),
+    );
+
+    assert.deepEqual(
+      file.lines.map((l) => [l.kind, l.line]),
+      [
+        ["context", 10],
+        ["removed", 11],
+        ["context", 11],
+        ["removed", 13],
+        ["added", 12],
+        ["context", 13],
+      ],
+    );
+    assert.equal(file.lines[1].text, "  requireAuth(req);");
+    assert.equal(file.status, "modified");
+  });
+
+  test("restarts numbering at each hunk and skips the no-newline marker", () => {
+    const file = parsePatch(
+      "README.md",
+      ["@@ -1,2 +1,2 @@", " # Widgets", "-Old intro", "+New intro", "@@ -40 +40,2 @@", " ## License", "+MIT", "\\ No newline at end of file"].join("\n"),
+      "modified",
+    );
+
+    assert.deepEqual(
+      file.lines.map((l) => [l.kind, l.line, l.text]),
+      [
+        ["context", 1, "# Widgets"],
+        ["removed", 2, "Old intro"],
+        ["added", 2, "New intro"],
+        ["context", 40, "## License"],
+        ["added", 41, "MIT"],
+      ],
+    );
+  });
+});
+
+describe("parseUnifiedDiff", () => {
+  test("splits a git diff into files with their status", () => {
+    const files = parseUnifiedDiff(
+      [
+        "diff --git a/src/new.ts b/src/new.ts",
+        "new file mode 100644",
+        "index 0000000..e69de29",
+        "--- /dev/null",
+        "+++ b/src/new.ts",
+        "@@ -0,0 +1,2 @@",
+        "+export const a = 1;",
+        "+export const b = 2;",
+        "diff --git a/src/old.ts b/src/old.ts",
+        "deleted file mode 100644",
+        "--- a/src/old.ts",
+        "+++ /dev/null",
+        "@@ -1 +0,0 @@",
+        "-export const gone = true;",
+        "diff --git a/src/a.ts b/src/b.ts",
+        "similarity index 90%",
+        "rename from src/a.ts",
+        "rename to src/b.ts",
+        "--- a/src/a.ts",
+        "+++ b/src/b.ts",
+        "@@ -3,2 +3,2 @@",
+        " const x = 1;",
+        "-const y = 2;",
+        "+const y = 3;",
+      ].join("\n"),
+    );
+
+    assert.deepEqual(
+      files.map((f) => [f.path, f.status, f.lines.length]),
+      [
+        ["src/new.ts", "added", 2],
+        ["src/old.ts", "removed", 1],
+        ["src/b.ts", "renamed", 3],
+      ],
+    );
+    assert.deepEqual(files[2].lines[2], { kind: "added", line: 4, text: "const y = 3;" });
+  });
+
+  test("uses hunk counts to keep `---`/`+++` content apart from file headers", () => {
+    const [file] = parseUnifiedDiff(
+      ["--- a/notes.md\t2026-03-01", "+++ b/notes.md\t2026-03-02", "@@ -1,2 +1,2 @@", " Notes", "--- a list item", "+++ another"].join("\n"),
+    );
+
+    assert.equal(file.path, "notes.md");
+    assert.deepEqual(
+      file.lines.map((l) => [l.kind, l.text]),
+      [
+        ["context", "Notes"],
+        ["removed", "-- a list item"],
+        ["added", "++ another"],
+      ],
+    );
+  });
+
+  test("reads plain `diff -u` output", () => {
+    const files = parseUnifiedDiff(
+      ["--- config.yml", "+++ config.yml", "@@ -1 +1 @@", "-debug: true", "+debug: false", "--- /dev/null", "+++ extra.yml", "@@ -0,0 +1 @@", "+a: 1"].join("\n"),
+    );
+
+    assert.deepEqual(
+      files.map((f) => [f.path, f.status, f.lines.map((l) => l.kind)]),
+      [
+        ["config.yml", "modified", ["removed", "added"]],
+        ["extra.yml", "added", ["added"]],
+      ],
+    );
+  });
+
+  test("agrees with parsePatch on a PR's diff", () => {
+    const pull = widgetsRepo().pulls.find((p) => p.number === 2)!;
+
+    assert.deepEqual(
+      parseUnifiedDiff(pullDiff(pull)),
+      pull.files!.map((f) => parsePatch(f.filename, f.patch!, f.status)),
+    );
+  });
+});
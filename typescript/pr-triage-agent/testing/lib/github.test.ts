@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, test } from "node:test";
+import { gh, GitHubError, ghPages } from "../../agent/lib/github.ts";
+import type { FakeGitHub } from "../fake-github.ts";
+import { startWidgets } from "../harness.ts";
+
+describe("ghPages", () => {
+  let github: FakeGitHub;
+
+  beforeEach(async () => {
+    github = await startWidgets();
+  });
+
+  afterEach(() => github.close());
+
+  test("follows Link rel=\"next\" to the last page", async () => {
+    const { items, truncated } = await ghPages<{ number: number }>("/repos/acme/widgets/pulls?per_page=2");
+
+    // Newest first, GitHub's default order.
+    assert.deepEqual(
+      items.map((p) => p.number),
+      [1, 2, 3, 5, 4],
+    );
+    assert.equal(truncated, false);
+    assert.deepEqual(
+      github.requests.map((r) => [r.path, r.query.page, r.query.per_page]),
+      [
+        ["/repos/acme/widgets/pulls", undefined, "2"],
+        ["/repos/acme/widgets/pulls", "2", "2"],
+        ["/repos/acme/widgets/pulls", "3", "2"],
+      ],
+    );
+  });
+
+  test("stops at maxPages and says the list was cut short", async () => {
+    const { items, truncated } = await ghPages<{ number: number }>("/repos/acme/widgets/pulls?per_page=2", 2);
+
+    assert.equal(items.length, 4);
+    assert.equal(truncated, true);
+    assert.equal(github.requests.length, 2);
+  });
+
+  test("makes one call when there is no Link header", async () => {
+    const { items, truncated } = await ghPages("/repos/acme/widgets/pulls");
+
+    assert.equal(items.length, 5);
+    assert.equal(truncated, false);
+    assert.equal(github.requests.length, 1);
+  });
+});
+
+describe("gh", () => {
+  let github: FakeGitHub;
+
+  beforeEach(async () => {
+    github = await startWidgets();
+  });
+
+  afterEach(() => github.close());
+
+  test("throws GitHubError with the status, path and GitHub's message", async () => {
+    await assert.rejects(gh("/repos/acme/widgets/pulls/99"), (err) => {
+      assert.ok(err instanceof GitHubError);
+      assert.deepEqual([err.status, err.path, err.message], [404, "/repos/acme/widgets/pulls/99", "GitHub 404 on /repos/acme/widgets/pulls/99: Not Found"]);
+      return true;
+    });
+  });
+
+  test("needs GITHUB_TOKEN", async () => {
+    delete process.env.GITHUB_TOKEN;
+
+    await assert.rejects(gh("/repos/acme/widgets"), /GITHUB_TOKEN is not set/);
+    assert.equal(github.requests.length, 0);
+  });
+});
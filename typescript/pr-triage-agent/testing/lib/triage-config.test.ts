@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, test } from "node:test";
+import { DEFAULT_CONFIG, loadTriageConfig, parseTriageConfig } from "../../agent/lib/triage-config.ts";
+import type { FakeGitHub } from "../fake-github.ts";
+import { startWidgets } from "../harness.ts";
+
+describe("parseTriageConfig", () => {
+  test("fills in defaults", () => {
+    const config = parseTriageConfig(["rules:", "  - id: no-console", "    pattern: console\\.log", "    message: Leftover console.log"].join("\n"));
+
+    assert.deepEqual(config, {
+      disable: [],
+      ignore: [],
+      sensitivePaths: [],
+      rules: [{ id: "no-console", pattern: "console\\.log", message: "Leftover console.log", severity: "medium", lines: "added" }],
+    });
+  });
+
+  test("treats an empty file as the defaults", () => {
+    assert.deepEqual(parseTriageConfig(""), DEFAULT_CONFIG);
+    assert.deepEqual(parseTriageConfig("# nothing yet\n"), DEFAULT_CONFIG);
+  });
+
+  test("rejects invalid YAML", () => {
+    assert.throws(() => parseTriageConfig("ignore: [vendor/**"), /^Error: \.triage\.yml is not valid YAML: /);
+  });
+
+  test("rejects invalid rules with the offending field", () => {
+    assert.throws(
+      () => parseTriageConfig(["rules:", "  - id: No Console", "    pattern: \"(\"", "    message: x", "    severity: critical"].join("\n")),
+      (err: Error) =>
+        err.message.startsWith(".triage.yml is invalid:") &&
+        err.message.includes("Use lowercase letters, digits and dashes.") &&
+        err.message.includes("Not a valid regular expression.") &&
+        err.message.includes("severity"),
+    );
+  });
+});
+
+describe("loadTriageConfig", () => {
+  let github: FakeGitHub;
+
+  beforeEach(async () => {
+    github = await startWidgets();
+  });
+
+  afterEach(() => github.close());
+
+  test("reads .triage.yml from the given ref", async () => {
+    const config = await loadTriageConfig("acme", "widgets", "main");
+
+    assert.deepEqual(config.ignore, ["vendor/**"]);
+    assert.deepEqual(
+      github.requests.map((r) => [r.path, r.query]),
+      [["/repos/acme/widgets/contents/.triage.yml", { ref: "main" }]],
+    );
+  });
+
+  test("loads per-repo rules", async () => {
+    github.repos[0].contents![".triage.yml"] = [
+      "disable: [new-dependency]",
+      "sensitivePaths: [\"infra/**\"]",
+      "rules:",
+      "  - id: no-focus-comment",
+      "    pattern: \"@focus\"",
+      "    message: Remove @focus before merging",
+      "    severity: high",
+    ].join("\n");
+
+    const config = await loadTriageConfig("acme", "widgets");
+
+    assert.deepEqual(config.disable, ["new-dependency"]);
+    assert.deepEqual(config.sensitivePaths, ["infra/**"]);
+    assert.deepEqual(config.rules, [
+      { id: "no-focus-comment", pattern: "@focus", message: "Remove @focus before merging", severity: "high", lines: "added" },
+    ]);
+  });
+
+  test("falls back to the defaults when the repo has no config", async () => {
+    delete github.repos[0].contents![".triage.yml"];
+
+    assert.deepEqual(await loadTriageConfig("acme", "widgets"), DEFAULT_CONFIG);
+  });
+
+  test("surfaces a broken config instead of ignoring it", async () => {
+    github.repos[0].contents![".triage.yml"] = "rules: nope";
+
+    await assert.rejects(loadTriageConfig("acme", "widgets"), /\.triage\.yml is invalid/);
+  });
+});
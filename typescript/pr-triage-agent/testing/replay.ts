@@ -0,0 +1,32 @@
+// Replays a fixture webhook against a running agent:
+//
+//   npm run github:replay -- pull_request 2            # action defaults to opened
+//   npm run github:replay -- pull_request 2 ready_for_review
+//   npm run github:replay -- check_suite 101
+//
+// AGENT_URL (default http://localhost:3000) and GITHUB_WEBHOOK_SECRET must
+// match the agent's.
+import { widgetsRepo } from "./fixtures.ts";
+import { checkSuiteEvent, pullRequestEvent, replayWebhook, type PullRequestAction } from "./webhooks.ts";
+
+const [event, id, action] = process.argv.slice(2);
+const secret = process.env.GITHUB_WEBHOOK_SECRET;
+if (!secret) {
+  console.error("Set GITHUB_WEBHOOK_SECRET to the agent's webhook secret.");
+  process.exit(1);
+}
+if ((event !== "pull_request" && event !== "check_suite") || !Number(id)) {
+  console.error("Usage: replay.ts <pull_request|check_suite> <pr number|suite id> [action]");
+  process.exit(1);
+}
+
+const repo = widgetsRepo();
+const delivery =
+  event === "pull_request" ? pullRequestEvent(repo, Number(id), action as PullRequestAction | undefined) : checkSuiteEvent(repo, Number(id));
+const res = await replayWebhook(delivery, { agentUrl: process.env.AGENT_URL ?? "http://localhost:3000", secret });
+
+console.log(`${delivery.event}${action ? `.${action}` : ""} → ${res.status} ${res.statusText}`);
+if (!res.ok) {
+  console.error(await res.text());
+  process.exit(1);
+}
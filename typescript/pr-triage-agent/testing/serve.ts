@@ -0,0 +1,28 @@
+// Runs the fake GitHub on a fixed port so `eve dev` can use it:
+//
+//   npm run github:fake                 # terminal 1
+//   GITHUB_API_URL=http://127.0.0.1:4010 GITHUB_TOKEN=fake npm run dev
+import { startFakeGitHub } from "./fake-github.ts";
+import { widgetsRepo } from "./fixtures.ts";
+
+const port = Number(process.env.FAKE_GITHUB_PORT ?? 4010);
+const github = await startFakeGitHub({ repos: [widgetsRepo()], port });
+
+console.log(`Fake GitHub listening on ${github.url}`);
+for (const repo of github.repos) {
+  console.log(`  ${repo.owner}/${repo.name}: PRs ${repo.pulls.map((p) => `#${p.number}`).join(", ")}`);
+}
+console.log("Logging requests; Ctrl-C to stop.");
+
+let logged = 0;
+setInterval(() => {
+  for (const r of github.requests.slice(logged)) {
+    const query = new URLSearchParams(r.query).toString();
+    console.log(`${r.status} ${r.method} ${r.path}${query ? `?${query}` : ""}`);
+  }
+  logged = github.requests.length;
+}, 250);
+
+process.on("SIGINT", () => {
+  void github.close().then(() => process.exit(0));
+});
@@ -0,0 +1,94 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, test } from "node:test";
+import analyzeCiFailure from "../../agent/tools/analyze_ci_failure.ts";
+import type { FakeGitHub, FakeJob } from "../fake-github.ts";
+import { runTool, startWidgets } from "../harness.ts";
+
+type Result = Awaited<ReturnType<typeof analyze>>;
+
+const analyze = () => runTool(analyzeCiFailure, { owner: "acme", repo: "widgets", prNumber: 2 });
+
+const testJob = (result: Result) => result.jobs.find((j) => j.name === "test")!;
+const verdicts = (result: Result) => testJob(result).tests.map((t) => [t.name, t.verdict, t.baseFailures, t.baseRuns]);
+
+describe("analyze_ci_failure", () => {
+  let github: FakeGitHub;
+  const run = (id: number) => github.repos[0].workflowRuns!.find((r) => r.id === id)!;
+  const job = (id: number) => github.repos[0].workflowRuns!.flatMap((r) => r.jobs).find((j) => j.id === id)!;
+
+  beforeEach(async () => {
+    github = await startWidgets();
+  });
+
+  afterEach(() => github.close());
+
+  test("marks errors and frames in the diff, and tells a PR-caused failure from a flaky one", async () => {
+    const result = await analyze();
+
+    assert.deepEqual([result.failedChecks, result.truncated, result.baseBranch], [2, false, "main"]);
+    const typecheck = result.jobs.find((j) => j.name === "typecheck")!;
+    assert.equal(typecheck.failedStep, "Run npm run typecheck");
+    assert.deepEqual(typecheck.errors, [
+      { file: "src/auth/session.ts", line: 13, message: "TS2322: Type 'Promise<Row[]>' is not assignable to type 'User'.", inDiff: true },
+    ]);
+    assert.deepEqual(typecheck.tests, []);
+
+    assert.deepEqual(testJob(result).frames, [
+      { file: "src/auth/session.ts", line: 12, inDiff: true },
+      { file: "src/auth/session.test.ts", line: 8, inDiff: false },
+    ]);
+    // The route test's stack runs through the diff; the thumbnails test also
+    // failed in one of the three recent main runs.
+    assert.deepEqual(verdicts(result), [
+      ["route › rejects anonymous requests", "caused-by-pr", 0, 3],
+      ["thumbnails › evicts the oldest entry", "flaky", 1, 3],
+    ]);
+  });
+
+  test("a test failing in the newest base run is failing-on-base", async () => {
+    run(510).conclusion = "failure";
+    Object.assign(job(5102), { conclusion: "failure", log: job(5092).log } satisfies Partial<FakeJob>);
+
+    const result = await analyze();
+
+    assert.deepEqual(verdicts(result)[1], ["thumbnails › evicts the oldest entry", "failing-on-base", 2, 3]);
+  });
+
+  test("a test whose file is in the diff is caused-by-pr, even without frames", async () => {
+    github.repos[0].pulls
+      .find((p) => p.number === 2)!
+      .files!.push({ filename: "src/ui/thumbnails.test.ts", status: "modified", patch: "@@ -1 +1 @@\n-it.skip\n+it" });
+    job(5012).log = ["FAIL src/ui/thumbnails.test.ts", "  ● thumbnails › keeps recent entries"].join("\n");
+
+    const result = await analyze();
+
+    assert.deepEqual(testJob(result).tests, [
+      { name: "thumbnails › keeps recent entries", file: "src/ui/thumbnails.test.ts", inDiff: true, verdict: "caused-by-pr", baseFailures: 0, baseRuns: 3 },
+    ]);
+  });
+
+  test("a test with nothing pointing at the diff or the base branch is unknown", async () => {
+    job(5012).log = ["FAIL src/ui/toggle.test.tsx", "  ● toggle › flips on click"].join("\n");
+
+    const result = await analyze();
+
+    assert.deepEqual(verdicts(result), [["toggle › flips on click", "unknown", 0, 3]]);
+  });
+
+  test("reports a job whose log has expired from its steps alone", async () => {
+    delete job(5012).log;
+
+    const result = await analyze();
+
+    assert.deepEqual(testJob(result), {
+      name: "test",
+      url: "https://github.com/acme/widgets/actions/runs/501/job/5012",
+      logAvailable: false,
+      failedStep: "Run npm test",
+      errors: [],
+      frames: [],
+      tests: [],
+      annotations: [],
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import escalateStalePrs from "../../agent/tools/escalate_stale_prs.ts";
+import type { FakeGitHub } from "../fake-github.ts";
+import { DAY, NOW, runTool, startWidgets } from "../harness.ts";
+
+const MINUTE = 60_000;
+
+type Result = Awaited<ReturnType<typeof escalate>>;
+
+const escalate = (input: { dryRun?: boolean; pingDays?: number; closeWarnDays?: number } = {}) =>
+  runTool(escalateStalePrs, { owner: "acme", repo: "widgets", ...input });
+
+const actions = (result: Result) => result.escalations.map((e) => [e.number, e.action, e.idleDays]);
+
+describe("escalate_stale_prs", () => {
+  let github: FakeGitHub;
+  const pull = (number: number) => github.repos[0].pulls.find((p) => p.number === number)!;
+  const commentsOn = (number: number) => github.comments.filter((c) => c.issueNumber === number);
+
+  beforeEach(async () => {
+    mock.timers.enable({ apis: ["Date"], now: NOW });
+    github = await startWidgets();
+  });
+
+  afterEach(async () => {
+    await github.close();
+    mock.timers.reset();
+  });
+
+  test("pings idle PRs, close-warns one idle past closeWarnDays, and posts the digest", async () => {
+    const result = await escalate();
+
+    // #5's last activity was the bot's own ping, so its idle stretch began 16 days ago.
+    assert.deepEqual(actions(result), [
+      [5, "close-warned", 16],
+      [4, "pinged", 12],
+      [2, "pinged", 6],
+    ]);
+    assert.deepEqual(pull(2).labels, ["backend", "stale"]);
+    assert.deepEqual(pull(4).labels, ["dependencies", "stale"]);
+    assert.deepEqual(pull(1).labels, undefined);
+
+    const [ping] = commentsOn(2).slice(-1);
+    assert.match(ping.body, /^@bob this pull request has had no activity for 6 days\./);
+    assert.match(ping.body, new RegExp(`<!-- pr-triage:stale-ping since=${new Date(NOW - 6 * DAY).toISOString()} -->$`));
+    const [warning] = commentsOn(5).slice(-1);
+    assert.match(warning.body, /^@erin this pull request has been inactive for 16 days and may be closed soon\./);
+    assert.match(warning.body, new RegExp(`<!-- pr-triage:close-warning since=${new Date(NOW - 16 * DAY).toISOString()} -->$`));
+
+    // No tracking issue yet, so it opens one.
+    const [issue] = github.repos[0].issues!;
+    assert.deepEqual([result.trackingIssue, issue.number, issue.labels], [6, 6, ["pr-digest"]]);
+    const [digest] = commentsOn(6);
+    assert.match(digest.body, /^### Stale PR digest — 2026-03-02$/m);
+    assert.match(digest.body, /^\| \[#2\]\(https:\/\/github\.com\/acme\/widgets\/pull\/2\) Skip session check for health endpoint \| @bob \| 6d \| pinged author \|$/m);
+    assert.match(digest.body, /^Pinged 2, close-warned 1, waiting 0, revived 0\.$/m);
+  });
+
+  test("moves a PR from ping to close warning to waiting, then unlabels it once revived", async () => {
+    await escalate();
+    const pinged = commentsOn(2).length;
+
+    // The next day: the bot's own label and comment don't count as activity,
+    // though they did reorder the PRs by updated_at.
+    mock.timers.setTime(NOW + DAY);
+    let result = await escalate();
+    assert.deepEqual(actions(result), [
+      [2, "waiting", 7],
+      [4, "waiting", 13],
+      [5, "waiting", 17],
+    ]);
+    assert.equal(commentsOn(2).length, pinged);
+    assert.equal(result.trackingIssue, 6);
+    assert.equal(github.repos[0].issues!.length, 1);
+
+    mock.timers.setTime(NOW + 8 * DAY);
+    result = await escalate();
+    assert.deepEqual(actions(result), [
+      [1, "pinged", 8],
+      [2, "close-warned", 14],
+      [4, "close-warned", 20],
+      [5, "waiting", 24],
+    ]);
+    assert.match(commentsOn(2).at(-1)!.body, /may be closed soon[\s\S]*pr-triage:close-warning since=/);
+    // Already labeled, so only the comment is new.
+    assert.deepEqual(pull(2).labels, ["backend", "stale"]);
+
+    // The author pushes; the next run drops the label and leaves it be.
+    mock.timers.setTime(NOW + 9 * DAY);
+    pull(2).updatedAt = new Date(NOW + 9 * DAY).toISOString();
+    const before = commentsOn(2).length;
+    result = await escalate();
+    assert.deepEqual(result.escalations.find((e) => e.number === 2)?.action, "revived");
+    assert.deepEqual(pull(2).labels, ["backend"]);
+    assert.equal(commentsOn(2).length, before);
+
+    result = await escalate();
+    assert.equal(
+      result.escalations.some((e) => e.number === 2),
+      false,
+    );
+  });
+
+  test("activity within GRACE_MS of its own comment is the bot's; later activity starts a new stretch", async () => {
+    const ping = commentsOn(5)[0];
+
+    pull(5).updatedAt = new Date(Date.parse(ping.createdAt) + 4 * MINUTE).toISOString();
+    let result = await escalate({ dryRun: true });
+    assert.deepEqual(result.escalations.find((e) => e.number === 5), {
+      number: 5,
+      title: "Cache widget thumbnails",
+      author: "erin",
+      url: "https://github.com/acme/widgets/pull/5",
+      idleDays: 16,
+      action: "close-warned",
+    });
+
+    // Six minutes after the ping is the author's: a fresh 12-day stretch, pinged anew.
+    pull(5).updatedAt = new Date(Date.parse(ping.createdAt) + 6 * MINUTE).toISOString();
+    result = await escalate({ dryRun: true });
+    assert.deepEqual(
+      result.escalations.filter((e) => e.number === 5).map((e) => [e.action, e.idleDays]),
+      [["pinged", 12]],
+    );
+  });
+
+  test("a dry run writes nothing", async () => {
+    const result = await escalate({ dryRun: true });
+
+    assert.equal(result.escalations.length, 3);
+    assert.equal(result.trackingIssue, null);
+    assert.deepEqual(
+      github.requests.filter((r) => r.method !== "GET"),
+      [],
+    );
+  });
+
+  test("rejects closeWarnDays that don't come after pingDays", async () => {
+    await assert.rejects(escalate({ pingDays: 7, closeWarnDays: 7 }), /closeWarnDays must be greater than pingDays/);
+    assert.equal(github.requests.length, 0);
+  });
+});
@@ -0,0 +1,124 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import listOpenPrs from "../../agent/tools/list_open_prs.ts";
+import type { FakeGitHub } from "../fake-github.ts";
+import { DAY, NOW, runTool, startWidgets } from "../harness.ts";
+
+const widgets = { owner: "acme", repo: "widgets" };
+
+describe("list_open_prs", () => {
+  let github: FakeGitHub;
+
+  beforeEach(async () => {
+    mock.timers.enable({ apis: ["Date"], now: NOW });
+    github = await startWidgets();
+  });
+
+  afterEach(async () => {
+    await github.close();
+    mock.timers.reset();
+  });
+
+  test("lists open non-draft PRs, oldest activity first", async () => {
+    const result = await runTool(listOpenPrs, widgets);
+
+    assert.deepEqual(
+      result.prs.map((p) => p.number),
+      [5, 4, 2, 1],
+    );
+    assert.equal(result.count, 4);
+    assert.equal(result.truncated, false);
+    assert.deepEqual(result.prs[0], {
+      number: 5,
+      title: "Cache widget thumbnails",
+      author: "erin",
+      url: "https://github.com/acme/widgets/pull/5",
+      updatedAt: new Date(NOW - 13 * DAY).toISOString(),
+      idleDays: 13,
+      base: "main",
+      labels: ["stale"],
+      draft: false,
+      requestedReviewers: [],
+    });
+  });
+
+  test("staleDays keeps PRs idle at least that long; includeDrafts adds drafts", async () => {
+    const stale = await runTool(listOpenPrs, { ...widgets, staleDays: 7 });
+    assert.deepEqual(
+      stale.prs.map((p) => p.number),
+      [5, 4],
+    );
+
+    const withDrafts = await runTool(listOpenPrs, { ...widgets, staleDays: 7, includeDrafts: true });
+    assert.deepEqual(
+      withDrafts.prs.map((p) => p.number),
+      [3, 5, 4],
+    );
+  });
+
+  test("filters by author, labels and base", async () => {
+    const byAuthor = await runTool(listOpenPrs, { ...widgets, author: "@Bob" });
+    assert.deepEqual(
+      byAuthor.prs.map((p) => p.number),
+      [2],
+    );
+
+    const byLabel = await runTool(listOpenPrs, { ...widgets, labels: ["Backend"] });
+    assert.deepEqual(
+      byLabel.prs.map((p) => p.number),
+      [2],
+    );
+
+    const byBase = await runTool(listOpenPrs, { ...widgets, base: "release" });
+    assert.deepEqual(
+      byBase.prs.map((p) => p.number),
+      [4],
+    );
+    assert.equal(github.requests[github.requests.length - 1].query.base, "release");
+  });
+
+  test("reviewState looks up reviews only when filtering on it", async () => {
+    github.reviews.push({ id: 1, repo: "acme/widgets", pullNumber: 2, event: "REQUEST_CHANGES", body: "Keep the auth check." });
+
+    await runTool(listOpenPrs, widgets);
+    assert.equal(
+      github.requests.some((r) => r.path.endsWith("/reviews")),
+      false,
+    );
+
+    const changes = await runTool(listOpenPrs, { ...widgets, reviewState: "changes_requested" });
+    assert.deepEqual(
+      changes.prs.map((p) => [p.number, p.reviewState]),
+      [[2, "changes_requested"]],
+    );
+
+    const requested = await runTool(listOpenPrs, { ...widgets, reviewState: "review_requested" });
+    assert.deepEqual(
+      requested.prs.map((p) => [p.number, p.requestedReviewers]),
+      [[4, ["alice"]]],
+    );
+
+    const unreviewed = await runTool(listOpenPrs, { ...widgets, reviewState: "unreviewed" });
+    assert.deepEqual(
+      unreviewed.prs.map((p) => p.number),
+      [5, 1],
+    );
+  });
+
+  test("follows every page of open PRs", async () => {
+    const [repo] = github.repos;
+    const at = new Date(NOW - DAY).toISOString();
+    for (let number = 100; number < 250; number++) {
+      repo.pulls.push({ number, title: `Change ${number}`, author: "frank", createdAt: at, updatedAt: at });
+    }
+
+    const result = await runTool(listOpenPrs, { ...widgets, author: "frank" });
+
+    assert.equal(result.count, 150);
+    assert.equal(result.truncated, false);
+    assert.deepEqual(
+      github.requests.filter((r) => r.path === "/repos/acme/widgets/pulls").map((r) => r.query.page ?? "1"),
+      ["1", "2"],
+    );
+  });
+});
@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import { GitHubError } from "../../agent/lib/github.ts";
+import setPrLabels from "../../agent/tools/set_pr_labels.ts";
+import type { FakeGitHub } from "../fake-github.ts";
+import { NOW, runTool, startWidgets } from "../harness.ts";
+
+describe("set_pr_labels", () => {
+  let github: FakeGitHub;
+
+  beforeEach(async () => {
+    mock.timers.enable({ apis: ["Date"], now: NOW });
+    github = await startWidgets();
+  });
+
+  afterEach(async () => {
+    await github.close();
+    mock.timers.reset();
+  });
+
+  test("adds labels and keeps the existing ones", async () => {
+    const result = await runTool(setPrLabels, { owner: "acme", repo: "widgets", prNumber: 2, labels: ["high-risk", "backend"] });
+
+    assert.deepEqual(result, { prNumber: 2, labeled: ["high-risk", "backend"] });
+    const pull = github.repos[0].pulls.find((p) => p.number === 2)!;
+    assert.deepEqual(pull.labels, ["backend", "high-risk"]);
+    assert.equal(pull.updatedAt, new Date(NOW).toISOString());
+    assert.deepEqual(
+      github.requests.map((r) => [r.method, r.path, r.body]),
+      [["POST", "/repos/acme/widgets/issues/2/labels", { labels: ["high-risk", "backend"] }]],
+    );
+  });
+
+  test("rejects an empty label list before calling GitHub", async () => {
+    await assert.rejects(runTool(setPrLabels, { owner: "acme", repo: "widgets", prNumber: 2, labels: [] }));
+    assert.equal(github.requests.length, 0);
+  });
+
+  test("surfaces GitHub errors", async () => {
+    await assert.rejects(
+      runTool(setPrLabels, { owner: "acme", repo: "widgets", prNumber: 99, labels: ["stale"] }),
+      (err) => err instanceof GitHubError && err.status === 404,
+    );
+  });
+});
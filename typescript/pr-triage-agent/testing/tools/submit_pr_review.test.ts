@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import submitPrReview from "../../agent/tools/submit_pr_review.ts";
+import type { FakeGitHub } from "../fake-github.ts";
+import { NOW, runTool, startWidgets } from "../harness.ts";
+
+describe("submit_pr_review", () => {
+  let github: FakeGitHub;
+
+  beforeEach(async () => {
+    mock.timers.enable({ apis: ["Date"], now: NOW });
+    github = await startWidgets();
+  });
+
+  afterEach(async () => {
+    await github.close();
+    mock.timers.reset();
+  });
+
+  test("submits the review on the PR", async () => {
+    const result = await runTool(submitPrReview, {
+      owner: "acme",
+      repo: "widgets",
+      prNumber: 2,
+      event: "REQUEST_CHANGES",
+      body: "This drops `requireAuth` for every route, not just /health.",
+    });
+
+    const [review] = github.reviews;
+    assert.deepEqual(github.reviews, [
+      {
+        id: review.id,
+        repo: "acme/widgets",
+        pullNumber: 2,
+        event: "REQUEST_CHANGES",
+        body: "This drops `requireAuth` for every route, not just /health.",
+      },
+    ]);
+    assert.deepEqual(result, {
+      reviewId: review.id,
+      url: `https://github.com/acme/widgets/pull/2#pullrequestreview-${review.id}`,
+      event: "REQUEST_CHANGES",
+    });
+  });
+
+  test("keeps each review, in order", async () => {
+    await runTool(submitPrReview, { owner: "acme", repo: "widgets", prNumber: 1, event: "COMMENT", body: "Looks small." });
+    await runTool(submitPrReview, { owner: "acme", repo: "widgets", prNumber: 1, event: "APPROVE", body: "LGTM" });
+
+    assert.deepEqual(
+      github.reviews.map((r) => [r.pullNumber, r.event, r.body]),
+      [
+        [1, "COMMENT", "Looks small."],
+        [1, "APPROVE", "LGTM"],
+      ],
+    );
+  });
+
+  test("rejects an empty body before calling GitHub", async () => {
+    await assert.rejects(runTool(submitPrReview, { owner: "acme", repo: "widgets", prNumber: 1, event: "COMMENT", body: "" }));
+    assert.equal(github.requests.length, 0);
+    assert.equal(github.reviews.length, 0);
+  });
+});
@@ -0,0 +1,35 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import suggestReviewers from "../../agent/tools/suggest_reviewers.ts";
+import type { FakeGitHub } from "../fake-github.ts";
+import { NOW, runTool, startWidgets } from "../harness.ts";
+
+describe("suggest_reviewers", () => {
+  let github: FakeGitHub;
+
+  beforeEach(async () => {
+    mock.timers.enable({ apis: ["Date"], now: NOW });
+    github = await startWidgets();
+  });
+
+  afterEach(async () => {
+    await github.close();
+    mock.timers.reset();
+  });
+
+  test("lists email owners apart, since they can't be requested", async () => {
+    github.repos[0].contents!.CODEOWNERS = "* @acme/maintainers\n/src/auth/ @dana\n*.json deps@acme.dev\n";
+
+    const result = await runTool(suggestReviewers, { owner: "acme", repo: "widgets", prNumber: 2 });
+
+    assert.deepEqual(
+      result.suggestions.map((s) => [s.login, s.ownedFiles, s.recentCommits]),
+      [
+        ["dana", 1, 2],
+        ["erin", 0, 1],
+      ],
+    );
+    assert.deepEqual(result.teams, []);
+    assert.deepEqual(result.emailOwners, [{ email: "deps@acme.dev", ownedFiles: 1, reason: "CODEOWNERS for package-lock.json" }]);
+  });
+});
@@ -0,0 +1,74 @@
+// Builds and replays the GitHub App webhooks that drive `channels/github.ts`
+// (`onPullRequest`, `onCheckSuite`) from fake-github fixtures. Deliveries are
+// signed like GitHub's, so they pass the channel's signature check.
+import { createHmac } from "node:crypto";
+import { checkSuiteJson, pullJson, repoJson, type FakeRepo } from "./fake-github.ts";
+
+export const WEBHOOK_PATH = "/eve/v1/github";
+
+export type PullRequestAction = "opened" | "reopened" | "ready_for_review" | "synchronize" | "closed";
+
+export interface WebhookDelivery {
+  event: "pull_request" | "check_suite";
+  payload: Record<string, unknown>;
+}
+
+const INSTALLATION_ID = 1;
+
+function envelope(repo: FakeRepo, sender: string) {
+  return {
+    repository: repoJson(repo),
+    installation: { id: INSTALLATION_ID },
+    sender: { login: sender, type: sender.endsWith("[bot]") ? "Bot" : "User" },
+  };
+}
+
+export function pullRequestEvent(repo: FakeRepo, number: number, action: PullRequestAction = "opened"): WebhookDelivery {
+  const pull = repo.pulls.find((p) => p.number === number);
+  if (!pull) throw new Error(`No fixture PR #${number} in ${repo.owner}/${repo.name}.`);
+  return {
+    event: "pull_request",
+    payload: { action, number, pull_request: pullJson(repo, pull), ...envelope(repo, pull.author) },
+  };
+}
+
+export function checkSuiteEvent(repo: FakeRepo, suiteId: number): WebhookDelivery {
+  const suite = repo.checkSuites?.find((s) => s.id === suiteId);
+  if (!suite) throw new Error(`No fixture check suite ${suiteId} in ${repo.owner}/${repo.name}.`);
+  return {
+    event: "check_suite",
+    payload: {
+      action: suite.status === "completed" ? "completed" : "requested",
+      check_suite: checkSuiteJson(repo, suite),
+      ...envelope(repo, `${suite.app}[bot]`),
+    },
+  };
+}
+
+// The `X-Hub-Signature-256` header GitHub sends with each delivery.
+export function signPayload(body: string, secret: string): string {
+  return `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+export interface ReplayOptions {
+  // Where the agent is listening, e.g. http://localhost:3000 under `eve dev`.
+  agentUrl: string;
+  secret: string;
+  deliveryId?: string;
+}
+
+export async function replayWebhook({ event, payload }: WebhookDelivery, options: ReplayOptions): Promise<Response> {
+  const body = JSON.stringify(payload);
+  return fetch(new URL(WEBHOOK_PATH, options.agentUrl), {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      "user-agent": "GitHub-Hookshot/fake",
+      "x-github-event": event,
+      "x-github-delivery": options.deliveryId ?? crypto.randomUUID(),
+      "x-github-hook-installation-target-type": "integration",
+      "x-hub-signature-256": signPayload(body, options.secret),
+    },
+    body,
+  });
+}